@@ -0,0 +1,174 @@
+#!/usr/bin/env node
+// Local stand-in for the live telemetry WebSocket (see docs/telemetry-protocol.md).
+// Zero dependencies: `node docs/tools/telemetry-ws-server.mjs [port]`, then open
+// the app with `?telemetry=ws://<host>:<port>`.
+//
+// Env knobs for exercising the client:
+//   DROP_AFTER_MS=15000  close every connection after N ms (reconnect/backoff)
+//   SILENT_AFTER_MS=8000 stop sending (including heartbeats) after N ms (stale detection)
+//   INVALID_EVERY=10     send a malformed message every N ticks (schema rejection)
+//   CHURN_EVERY=12       swap client-1's uplink between home-1 and home-2 every N ticks
+//                        (structural "topology" deltas)
+
+import { createHash } from "node:crypto";
+import { createServer } from "node:http";
+
+const port = Number(process.argv[2] ?? 8787);
+const dropAfterMs = Number(process.env.DROP_AFTER_MS ?? 0);
+const silentAfterMs = Number(process.env.SILENT_AFTER_MS ?? 0);
+const invalidEvery = Number(process.env.INVALID_EVERY ?? 0);
+const churnEvery = Number(process.env.CHURN_EVERY ?? 0);
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+// IDs match src/topology/mock-topology.ts.
+const NODE_IDS = ["tower-1", "home-1", "home-2", "office-switch-1", "client-1"];
+const LINK_IDS = ["link-tower-home1", "link-tower-home2", "link-home1-office", "link-home1-client"];
+
+function encodeTextFrame(text) {
+  const payload = Buffer.from(text, "utf8");
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x81, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x81;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x81;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+function jitter(base, delta) {
+  return Number((base + (Math.random() * 2 - 1) * delta).toFixed(2));
+}
+
+function pick(items) {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+function deriveStatus(latencyMs, packetLossPct) {
+  if (latencyMs > 140 || packetLossPct > 8) return "down";
+  if (latencyMs > 45 || packetLossPct > 1.8) return "degraded";
+  return "up";
+}
+
+function metricsMessage() {
+  const latencyMs = Math.max(1, jitter(24, 20));
+  const packetLossPct = Math.max(0, jitter(1, 1.2));
+  return JSON.stringify({
+    type: "metrics",
+    timestampMs: Date.now(),
+    nodes: [
+      {
+        id: pick(NODE_IDS),
+        status: "up",
+        rssi: Math.round(jitter(-60, 8)),
+        snr: Math.round(jitter(24, 5)),
+        throughputMbps: Math.max(0, jitter(180, 60))
+      }
+    ],
+    links: [
+      {
+        id: pick(LINK_IDS),
+        status: deriveStatus(latencyMs, packetLossPct),
+        latencyMs,
+        packetLossPct,
+        utilizationPct: Math.min(100, Math.max(0, jitter(50, 30))),
+        throughputMbps: Math.max(0, jitter(200, 80))
+      }
+    ]
+  });
+}
+
+function churnMessage(tick) {
+  const toHome2 = (tick / churnEvery) % 2 === 1;
+  const from = toHome2 ? "home-1" : "home-2";
+  const to = toHome2 ? "home-2" : "home-1";
+  return JSON.stringify({
+    type: "topology",
+    timestampMs: Date.now(),
+    changes: [
+      { kind: "remove-link", linkId: `link-${from.replace("-", "")}-client` },
+      {
+        kind: "upsert-link",
+        link: {
+          id: `link-${to.replace("-", "")}-client`,
+          fromNodeId: to,
+          toNodeId: "client-1",
+          medium: "wireless",
+          metrics: { status: "up", latencyMs: 20, packetLossPct: 0.5, utilizationPct: 30, throughputMbps: 80 }
+        }
+      }
+    ]
+  });
+}
+
+const server = createServer((_req, res) => {
+  res.writeHead(426, { "content-type": "text/plain" });
+  res.end("WebSocket upgrade required.\n");
+});
+
+server.on("upgrade", (req, socket) => {
+  const key = req.headers["sec-websocket-key"];
+  if (typeof key !== "string") {
+    socket.destroy();
+    return;
+  }
+
+  const accept = createHash("sha1").update(key + WS_GUID).digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const connectedAt = Date.now();
+  let tick = 0;
+  console.log(`[telemetry-ws] client connected from ${req.socket.remoteAddress}`);
+
+  const timer = setInterval(() => {
+    const aliveMs = Date.now() - connectedAt;
+    if (dropAfterMs > 0 && aliveMs > dropAfterMs) {
+      console.log("[telemetry-ws] dropping client (DROP_AFTER_MS)");
+      socket.end(Buffer.from([0x88, 0x00]));
+      return;
+    }
+    if (silentAfterMs > 0 && aliveMs > silentAfterMs) {
+      return;
+    }
+
+    tick += 1;
+    if (invalidEvery > 0 && tick % invalidEvery === 0) {
+      socket.write(encodeTextFrame(JSON.stringify({ type: "metrics", links: [{ id: 7 }] })));
+      return;
+    }
+    if (churnEvery > 0 && tick % churnEvery === 0) {
+      socket.write(encodeTextFrame(churnMessage(tick)));
+      return;
+    }
+    socket.write(encodeTextFrame(tick % 5 === 0 ? JSON.stringify({ type: "heartbeat", timestampMs: Date.now() }) : metricsMessage()));
+  }, 1000);
+
+  const cleanup = () => {
+    clearInterval(timer);
+    console.log("[telemetry-ws] client disconnected");
+  };
+  // Client frames (pings, close) are not interpreted; a close frame is followed by EOF.
+  socket.on("data", (chunk) => {
+    if ((chunk[0] & 0x0f) === 0x8) {
+      socket.end(Buffer.from([0x88, 0x00]));
+    }
+  });
+  socket.on("close", cleanup);
+  socket.on("error", () => socket.destroy());
+});
+
+server.listen(port, () => {
+  console.log(`[telemetry-ws] listening on ws://localhost:${port}`);
+});
@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+// Headless tracking evaluation over recorded frame sequences.
+//
+//   pnpm eval:tracking recordings/cabinet-3m/sequence.json [more.json ...] [--minDiagonalPx=16] [--json]
+//
+// Tuning flags map onto MarkerDetectionTuning (src/tracking/marker-detection.ts);
+// `--dictionary=<name>` applies to sequences that do not name their own. The
+// TypeScript sources are loaded through Vite so `?raw` imports resolve as in the app.
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { createServer } from "vite";
+
+const TUNING_KEYS = [
+  "maxHammingDistance",
+  "maxValidId",
+  "minDiagonalPx",
+  "minConfidence",
+  "minAspectRatio",
+  "minStreak",
+  "streakDecay"
+];
+
+const sequencePaths = [];
+const tuning = {};
+let printJson = false;
+for (const arg of process.argv.slice(2)) {
+  if (arg === "--json") {
+    printJson = true;
+    continue;
+  }
+  const flag = /^--(\w+)=(.+)$/.exec(arg);
+  if (flag?.[1] === "dictionary") {
+    tuning.dictionary = flag[2];
+    continue;
+  }
+  if (flag) {
+    if (!TUNING_KEYS.includes(flag[1]) || !Number.isFinite(Number(flag[2]))) {
+      console.error(`Unknown or non-numeric flag ${arg}. Tuning flags: ${TUNING_KEYS.join(", ")}.`);
+      process.exit(2);
+    }
+    tuning[flag[1]] = Number(flag[2]);
+    continue;
+  }
+  sequencePaths.push(arg);
+}
+if (sequencePaths.length === 0) {
+  console.error("Usage: eval-tracking <sequence.json>... [--<tuningKey>=<value>] [--dictionary=<name>] [--json]");
+  process.exit(2);
+}
+
+const server = await createServer({
+  configFile: false,
+  root: path.resolve(import.meta.dirname, ".."),
+  logLevel: "error",
+  appType: "custom",
+  optimizeDeps: { noDiscovery: true },
+  server: { middlewareMode: true, hmr: false, ws: false }
+});
+
+try {
+  const evaluation = await server.ssrLoadModule("/src/tracking/evaluation.ts");
+  const { MARKER_DICTIONARIES } = await server.ssrLoadModule("/src/tracking/marker-dictionaries.ts");
+  if (tuning.dictionary !== undefined && !MARKER_DICTIONARIES.includes(tuning.dictionary)) {
+    throw new Error(`Unknown dictionary ${tuning.dictionary}. Dictionaries: ${MARKER_DICTIONARIES.join(", ")}.`);
+  }
+  const reports = [];
+  for (const sequencePath of sequencePaths) {
+    const directory = path.dirname(sequencePath);
+    const sequence = evaluation.parseEvaluationSequence(
+      JSON.parse(await readFile(sequencePath, "utf8")),
+      path.basename(directory)
+    );
+    const loadFrame = async (file) =>
+      evaluation.decodeFrame(file, await readFile(path.join(directory, file)), sequence.width, sequence.height);
+    reports.push(await evaluation.evaluateSequence(sequence, loadFrame, tuning));
+  }
+  console.log(printJson ? JSON.stringify({ tuning, reports }, null, 2) : evaluation.formatEvaluationReport(reports));
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+} finally {
+  await server.close();
+}
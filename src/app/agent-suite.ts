@@ -1,10 +1,13 @@
 import type { AgentSuite } from "./integration";
 import { createTrackingAgent } from "../tracking";
-import type { MarkerDetector } from "../tracking";
-import { createTopologyAgent } from "../topology";
-import { createTelemetryAgent } from "../telemetry";
+import type { MarkerAnchorPersistence, MarkerDetector, SmootherConfig } from "../tracking";
+import { createTopologyAgent, TopologyStore } from "../topology";
+import type { AlertRule, StaleDataPolicy } from "../topology";
+import { createReplayTelemetryAgent, createTelemetryAgent } from "../telemetry";
+import type { TelemetryRecording } from "../telemetry";
 import { createRenderingAgent } from "../rendering";
 import { createInteractionAgent } from "../interaction";
+import type { LinkElevationProfile } from "../kml";
 import type { Camera, Scene, WebGLRenderer } from "three";
 
 export interface DefaultAgentSuiteOptions {
@@ -13,20 +16,69 @@ export interface DefaultAgentSuiteOptions {
   renderer: WebGLRenderer;
   /** Raw KML text to render as a map overlay on detected markers. */
   kmlText?: string;
+  /** Draw first Fresnel zones around the KML map's wireless links. */
+  kmlFresnelZones?: boolean;
+  /** Elevation profiles for the Fresnel zones; the KML's own terrain profiles are used otherwise. */
+  kmlElevationProfiles?: LinkElevationProfile[];
   /** Custom marker detector (e.g. SwitchableDetector for toggling camera/mock). */
   detector?: MarkerDetector;
+  /** Pose smoother overrides, e.g. the filter strategy. */
+  smoother?: Partial<SmootherConfig>;
+  /** WebXR anchor persistence for locked markers; null disables it. */
+  anchorPersistence?: MarkerAnchorPersistence | null;
+  /** Live telemetry WebSocket URL; the mock stream is used when omitted. */
+  telemetryUrl?: string;
+  /** REST endpoint for the topology snapshot; the bundled mock topology is used when omitted. */
+  topologyUrl?: string;
+  /** Optional REST endpoint for metric deltas, polled while no telemetry WebSocket is open. */
+  topologyMetricsUrl?: string;
+  /** Recorded session to play back instead of the mock or live telemetry stream. */
+  replayRecording?: TelemetryRecording;
+  /** Re-emit recorded marker poses during replay (default true). */
+  replayMarkers?: boolean;
+  /** When metrics count as stale and how stale entities are shown. */
+  staleData?: StaleDataPolicy;
+  /** Alert rules; the built-in defaults are used when omitted. */
+  alertRules?: AlertRule[];
 }
 
 export function createDefaultAgentSuite(options: DefaultAgentSuiteOptions): AgentSuite {
+  // Shared so the renderer can read metric history without another event round-trip.
+  const topologyStore = new TopologyStore({ staleData: options.staleData });
+
   return {
-    tracking: createTrackingAgent(options.detector ? { detector: options.detector } : undefined),
-    topology: createTopologyAgent(),
-    telemetry: createTelemetryAgent(),
+    tracking: createTrackingAgent({
+      detector: options.detector,
+      smoother: options.smoother,
+      anchorPersistence: options.anchorPersistence
+    }),
+    topology: createTopologyAgent({
+      store: topologyStore,
+      alertRules: options.alertRules,
+      rest: options.topologyUrl
+        ? { snapshotUrl: options.topologyUrl, metricsUrl: options.topologyMetricsUrl }
+        : undefined
+    }),
+    // Random mock jitter on top of a real REST topology would be misleading, so the
+    // telemetry agent only runs with a live socket or with the mock topology.
+    telemetry: options.replayRecording
+      ? createReplayTelemetryAgent({
+        recording: options.replayRecording,
+        includeMarkers: options.replayMarkers
+      })
+      : options.telemetryUrl || !options.topologyUrl
+        ? createTelemetryAgent(
+          options.telemetryUrl ? { websocket: { url: options.telemetryUrl } } : undefined
+        )
+        : undefined,
     rendering: createRenderingAgent({
       scene: options.scene,
       camera: options.camera,
       renderer: options.renderer,
       kmlText: options.kmlText,
+      kmlFresnelZones: options.kmlFresnelZones,
+      kmlElevationProfiles: options.kmlElevationProfiles,
+      metricHistory: topologyStore.getHistory(),
     }),
     interaction: createInteractionAgent({
       scene: options.scene,
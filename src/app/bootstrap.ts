@@ -17,8 +17,15 @@ import {
 import { XrRuntime } from "../xr-core";
 import type { XrCapabilities, XrReferenceSpaceType, XrRuntimeState } from "../contracts/xr";
 import { createAppEventBus } from "./event-bus";
-import type { AppErrorCode } from "../contracts/events";
-import type { TrackedMarker } from "../contracts/domain";
+import type { AlertEvent, AppErrorCode } from "../contracts/events";
+import type {
+  MarkerRegistryEntry,
+  NodePlacement,
+  PathMetric,
+  PersistedMarkerAnchor,
+  TopologySnapshot,
+  TrackedMarker
+} from "../contracts/domain";
 import { PerformanceMonitor } from "./performance-monitor";
 import { createDefaultAgentSuite } from "./agent-suite";
 import { createIntegrationCoordinator } from "./integration";
@@ -27,10 +34,33 @@ import {
   selectRenderGraphView,
   selectTopologyStats,
   applyTopologyFilter,
+  parseTopologyFilter,
+  BUILT_IN_FILTER_PRESETS,
   generateStressTopology,
-  type TopologyFilterMode
+  DEFAULT_STALE_DATA_POLICY,
+  HISTORY_METRIC_KEYS,
+  parseAlertRules,
+  type AlertRule,
+  type StaleDataPolicy,
+  type TopologyFilterExpression,
+  type TopologyFilterPreset
 } from "../topology";
-import { SwitchableDetector } from "../tracking";
+import {
+  CameraProfileStore,
+  DEFAULT_MARKER_ENTRY,
+  MIN_CALIBRATION_FRAMES,
+  MarkerRegistry,
+  MarkerAnchorPersistence,
+  SwitchableDetector,
+  isMarkerDictionary,
+  parseMarkerBoards,
+  parseMarkerRegistry,
+  type CalibrationResult,
+  type MarkerBoard,
+  type SmootherConfig
+} from "../tracking";
+import { TelemetryRecorder, parseTelemetryRecording, type TelemetryRecording } from "../telemetry";
+import { parseElevationProfiles, type LinkElevationProfile } from "../kml";
 import kmlText from "../../docs/bombay-beach-feb-27-2026.kml?raw";
 
 function toLabel(state: XrRuntimeState): string {
@@ -189,7 +219,25 @@ export async function bootstrapApp(): Promise<void> {
   xrOverlayStopButton.style.fontSize = isVrUi ? "12px" : "12px";
   xrOverlayStopButton.style.borderRadius = isVrUi ? "10px" : "10px";
 
-  xrOverlayBar.append(xrOverlayLabel, xrOverlayStopButton);
+  const xrOverlayPlaceButton = document.createElement("button");
+  xrOverlayPlaceButton.type = "button";
+  xrOverlayPlaceButton.textContent = "Place node";
+  applyControlButtonStyle(xrOverlayPlaceButton, {
+    border: "1px solid #3e8fa8",
+    background: "#1a5568"
+  });
+  xrOverlayPlaceButton.style.display = "none";
+  xrOverlayPlaceButton.style.minWidth = "0";
+  xrOverlayPlaceButton.style.minHeight = xrOverlayStopButton.style.minHeight;
+  xrOverlayPlaceButton.style.padding = xrOverlayStopButton.style.padding;
+  xrOverlayPlaceButton.style.fontSize = "12px";
+  xrOverlayPlaceButton.style.borderRadius = "10px";
+
+  // Taps on overlay buttons must not also select (or place) in the scene behind them.
+  xrOverlayBar.addEventListener("beforexrselect", (event) => {
+    event.preventDefault();
+  });
+  xrOverlayBar.append(xrOverlayLabel, xrOverlayPlaceButton, xrOverlayStopButton);
   const xrLayoutControl = document.createElement("div");
   xrLayoutControl.style.display = isVrUi ? "flex" : "none";
   xrLayoutControl.style.alignItems = "center";
@@ -368,45 +416,148 @@ export async function bootstrapApp(): Promise<void> {
   filterBar.style.overflowY = "hidden";
   filterBar.style.setProperty("-webkit-overflow-scrolling", "touch");
 
-  const filterModes: { label: string; mode: TopologyFilterMode }[] = [
-    { label: "All", mode: "all" },
-    { label: "Degraded", mode: "degraded" },
-    { label: "Down", mode: "down" },
-    { label: "High Latency", mode: "high-latency" },
-    { label: "High Loss", mode: "high-loss" },
-  ];
+  // Presets apply a filter query; the query field edits it directly and Save keeps it as a named preset.
+  let savedFilterPresets = loadFilterPresets();
+  let activeFilterQuery = "";
+  let activeFilterExpression: TopologyFilterExpression | null = null;
+  let activeFilterPresetId: string | null = "all";
+  let lastTopologySnapshot: TopologySnapshot | null = null;
 
-  let activeFilter: TopologyFilterMode = "all";
-
-  const filterButtons: HTMLButtonElement[] = filterModes.map(({ label, mode }) => {
-    const btn = document.createElement("button");
-    btn.textContent = label;
+  const applyFilterBarButtonStyle = (btn: HTMLButtonElement, isActive: boolean): void => {
     applyControlButtonStyle(btn, {
-      border: mode === "all" ? "1px solid #3e8fa8" : "1px solid #3a4a52",
-      background: mode === "all" ? "#1a5568" : "#1a2428",
+      border: isActive ? "1px solid #3e8fa8" : "1px solid #3a4a52",
+      background: isActive ? "#1a5568" : "#1a2428",
     });
     btn.style.fontSize = isVrUi ? "14px" : "12px";
     btn.style.padding = isVrUi ? "11px 16px" : "7px 10px";
     btn.style.minHeight = isVrUi ? "44px" : "28px";
     btn.style.minWidth = "0";
-    return btn;
-  });
+  };
 
-  const updateFilterButtonStyles = (): void => {
-    filterButtons.forEach((btn, i) => {
-      const isActive = filterModes[i].mode === activeFilter;
-      btn.style.border = isActive ? "1px solid #3e8fa8" : "1px solid #3a4a52";
-      btn.style.background = isActive ? "#1a5568" : "#1a2428";
-    });
+  const filterPresetGroup = document.createElement("div");
+  filterPresetGroup.style.display = "contents";
+
+  const filterQueryInput = document.createElement("input");
+  filterQueryInput.type = "text";
+  filterQueryInput.placeholder = "type:tower and latencyMs>60";
+  filterQueryInput.spellcheck = false;
+  filterQueryInput.style.fontFamily = "monospace";
+  filterQueryInput.style.fontSize = isVrUi ? "14px" : "12px";
+  filterQueryInput.style.padding = isVrUi ? "10px 12px" : "6px 8px";
+  filterQueryInput.style.minWidth = isVrUi ? "260px" : "200px";
+  filterQueryInput.style.borderRadius = isVrUi ? "14px" : "10px";
+  filterQueryInput.style.border = "1px solid #3a4a52";
+  filterQueryInput.style.background = "#0e171b";
+  filterQueryInput.style.color = "white";
+
+  const filterSaveButton = document.createElement("button");
+  filterSaveButton.textContent = "Save";
+  applyFilterBarButtonStyle(filterSaveButton, false);
+  const filterDeleteButton = document.createElement("button");
+  filterDeleteButton.textContent = "Delete";
+  applyFilterBarButtonStyle(filterDeleteButton, false);
+
+  const renderFilterPresets = (): void => {
+    const presets = [...BUILT_IN_FILTER_PRESETS, ...savedFilterPresets];
+    filterPresetGroup.replaceChildren(
+      ...presets.map((preset) => {
+        const btn = document.createElement("button");
+        btn.textContent = preset.label;
+        btn.title = preset.query || "Show everything";
+        applyFilterBarButtonStyle(btn, preset.id === activeFilterPresetId);
+        btn.addEventListener("click", () => {
+          filterQueryInput.value = preset.query;
+          setActiveFilter(preset.query, preset.id);
+        });
+        return btn;
+      })
+    );
+    filterDeleteButton.style.display = savedFilterPresets.some((preset) => preset.id === activeFilterPresetId)
+      ? ""
+      : "none";
   };
 
-  filterButtons.forEach((btn, i) => {
-    btn.addEventListener("click", () => {
-      activeFilter = filterModes[i].mode;
-      updateFilterButtonStyles();
+  /** Returns false (and marks the query field) when the query does not parse. */
+  const setActiveFilter = (query: string, presetId: string | null): boolean => {
+    let expression: TopologyFilterExpression | null;
+    try {
+      expression = parseTopologyFilter(query);
+    } catch (error) {
+      filterQueryInput.style.border = "1px solid #d65c5c";
+      filterQueryInput.title = error instanceof Error ? error.message : String(error);
+      return false;
+    }
+    filterQueryInput.style.border = "1px solid #3a4a52";
+    filterQueryInput.title = "";
+    activeFilterQuery = query.trim();
+    activeFilterExpression = expression;
+    activeFilterPresetId = presetId
+      ?? [...BUILT_IN_FILTER_PRESETS, ...savedFilterPresets].find((preset) => preset.query === activeFilterQuery)?.id
+      ?? null;
+    renderFilterPresets();
+    updateTopologyStatsLabel();
+    return true;
+  };
+
+  filterQueryInput.addEventListener("keydown", (event) => {
+    if (event.key === "Enter") {
+      setActiveFilter(filterQueryInput.value, null);
+    }
+  });
+  filterSaveButton.addEventListener("click", () => {
+    if (!setActiveFilter(filterQueryInput.value, null) || activeFilterQuery.length === 0) {
+      return;
+    }
+    const name = window.prompt("Save filter as", activeFilterQuery)?.trim();
+    if (!name) {
+      return;
+    }
+    const id = `saved:${name}`;
+    savedFilterPresets = [
+      ...savedFilterPresets.filter((preset) => preset.id !== id),
+      { id, label: name, query: activeFilterQuery }
+    ];
+    storeFilterPresets(savedFilterPresets);
+    activeFilterPresetId = id;
+    renderFilterPresets();
+  });
+  filterDeleteButton.addEventListener("click", () => {
+    savedFilterPresets = savedFilterPresets.filter((preset) => preset.id !== activeFilterPresetId);
+    storeFilterPresets(savedFilterPresets);
+    activeFilterPresetId = null;
+    renderFilterPresets();
+  });
+
+  renderFilterPresets();
+  filterBar.append(filterPresetGroup, filterQueryInput, filterSaveButton, filterDeleteButton);
+
+  // Path tracing cycles Off -> Hops -> Latency; while on, two node picks trace a path.
+  const pathModes: Array<PathMetric | null> = [null, "hops", "latency"];
+  let pathModeIndex = 0;
+  const pathToggle = document.createElement("button");
+  applyControlButtonStyle(pathToggle, { border: "1px solid #3a4a52", background: "#1a2428" });
+  pathToggle.style.fontSize = isVrUi ? "14px" : "12px";
+  pathToggle.style.padding = isVrUi ? "11px 16px" : "7px 10px";
+  pathToggle.style.minHeight = isVrUi ? "44px" : "28px";
+  pathToggle.style.minWidth = "0";
+  const applyPathToggleState = (): void => {
+    const metric = pathModes[pathModeIndex];
+    pathToggle.textContent = metric === null ? "Trace: Off" : metric === "hops" ? "Trace: Hops" : "Trace: Latency";
+    pathToggle.style.border = metric ? "1px solid #b8772a" : "1px solid #3a4a52";
+    pathToggle.style.background = metric ? "#5a3a14" : "#1a2428";
+  };
+  applyPathToggleState();
+  pathToggle.addEventListener("click", () => {
+    pathModeIndex = (pathModeIndex + 1) % pathModes.length;
+    applyPathToggleState();
+    const metric = pathModes[pathModeIndex];
+    events.emit("interaction/path-mode", {
+      active: metric !== null,
+      metric: metric ?? "hops",
+      timestampMs: performance.now()
     });
-    filterBar.append(btn);
   });
+  filterBar.append(pathToggle);
 
   const stressToggle = document.createElement("button");
   stressToggle.textContent = "Stress: Off";
@@ -416,6 +567,167 @@ export async function bootstrapApp(): Promise<void> {
   });
   applyCompactToggleStyle(stressToggle);
 
+  const applyCardButtonStyle = (button: HTMLButtonElement): void => {
+    applyControlButtonStyle(button, { border: "1px solid #3a4a52", background: "#1a2428" });
+    button.style.fontSize = isVrUi ? "14px" : "12px";
+    button.style.padding = isVrUi ? "11px 16px" : "7px 10px";
+    button.style.minHeight = isVrUi ? "44px" : "28px";
+    button.style.minWidth = "0";
+  };
+
+  const recordToggle = document.createElement("button");
+  recordToggle.textContent = "Record";
+  applyCardButtonStyle(recordToggle);
+
+  const replayControls = document.createElement("div");
+  replayControls.style.display = "none";
+  replayControls.style.gap = "6px";
+  replayControls.style.flexWrap = "wrap";
+  const replaySpeedButtons = [
+    { label: "Pause", speed: 0 },
+    { label: "1x", speed: 1 },
+    { label: "4x", speed: 4 }
+  ].map(({ label, speed }) => {
+    const btn = document.createElement("button");
+    btn.textContent = label;
+    applyCardButtonStyle(btn);
+    btn.dataset.speed = String(speed);
+    return btn;
+  });
+  const replayRestartButton = document.createElement("button");
+  replayRestartButton.textContent = "Restart";
+  applyCardButtonStyle(replayRestartButton);
+  replayControls.append(...replaySpeedButtons, replayRestartButton);
+
+  const recordingRow = document.createElement("div");
+  recordingRow.style.display = "flex";
+  recordingRow.style.gap = "6px";
+  recordingRow.style.flexWrap = "wrap";
+  recordingRow.append(recordToggle, replayControls);
+
+  const intrinsicsLabel = document.createElement("div");
+  intrinsicsLabel.style.fontSize = "12px";
+  intrinsicsLabel.style.opacity = "0.85";
+  intrinsicsLabel.textContent = "Intrinsics: uncalibrated";
+
+  const calibrateToggle = document.createElement("button");
+  calibrateToggle.textContent = "Calibrate";
+  applyCardButtonStyle(calibrateToggle);
+  const calibrationSolveButton = document.createElement("button");
+  calibrationSolveButton.textContent = "Solve & save";
+  applyCardButtonStyle(calibrationSolveButton);
+  calibrationSolveButton.style.display = "none";
+  const cameraProfileToggle = document.createElement("button");
+  cameraProfileToggle.textContent = "Profile: none";
+  applyCardButtonStyle(cameraProfileToggle);
+
+  const applyCardInputStyle = (input: HTMLInputElement | HTMLSelectElement, width: string): void => {
+    input.style.fontFamily = "monospace";
+    input.style.fontSize = isVrUi ? "14px" : "12px";
+    input.style.padding = isVrUi ? "10px 10px" : "6px 8px";
+    input.style.width = width;
+    input.style.borderRadius = isVrUi ? "14px" : "10px";
+    input.style.border = "1px solid #3a4a52";
+    input.style.background = "#0e171b";
+    input.style.color = "white";
+  };
+
+  const markerRegistryPanel = document.createElement("pre");
+  markerRegistryPanel.style.margin = "0";
+  markerRegistryPanel.style.padding = "8px";
+  markerRegistryPanel.style.background = "rgba(8, 14, 18, 0.62)";
+  markerRegistryPanel.style.border = "1px solid rgba(88, 131, 144, 0.4)";
+  markerRegistryPanel.style.borderRadius = "8px";
+  markerRegistryPanel.style.whiteSpace = "pre-wrap";
+  markerRegistryPanel.style.fontSize = "11px";
+  markerRegistryPanel.style.lineHeight = "1.35";
+  markerRegistryPanel.style.maxHeight = "120px";
+  markerRegistryPanel.style.overflow = "auto";
+
+  const markerIdInput = document.createElement("input");
+  markerIdInput.type = "number";
+  markerIdInput.min = "0";
+  markerIdInput.placeholder = "ID";
+  applyCardInputStyle(markerIdInput, "64px");
+  const markerSizeInput = document.createElement("input");
+  markerSizeInput.type = "number";
+  markerSizeInput.min = "0.5";
+  markerSizeInput.step = "0.5";
+  markerSizeInput.placeholder = "cm";
+  applyCardInputStyle(markerSizeInput, "64px");
+  const markerNodeInput = document.createElement("input");
+  markerNodeInput.type = "text";
+  markerNodeInput.placeholder = "node (optional)";
+  applyCardInputStyle(markerNodeInput, "130px");
+  const markerRotationSelect = document.createElement("select");
+  for (const degrees of [0, 90, 180, 270]) {
+    markerRotationSelect.append(new Option(`${degrees}°`, String(degrees)));
+  }
+  applyCardInputStyle(markerRotationSelect, "72px");
+  const markerSetButton = document.createElement("button");
+  markerSetButton.textContent = "Set";
+  applyCardButtonStyle(markerSetButton);
+  const markerRemoveButton = document.createElement("button");
+  markerRemoveButton.textContent = "Remove";
+  applyCardButtonStyle(markerRemoveButton);
+  const markerImportButton = document.createElement("button");
+  markerImportButton.textContent = "Import JSON";
+  applyCardButtonStyle(markerImportButton);
+  const markerExportButton = document.createElement("button");
+  markerExportButton.textContent = "Export";
+  applyCardButtonStyle(markerExportButton);
+  const markerImportInput = document.createElement("input");
+  markerImportInput.type = "file";
+  markerImportInput.accept = "application/json,.json";
+  markerImportInput.style.display = "none";
+  const boardImportButton = document.createElement("button");
+  boardImportButton.textContent = "Import boards";
+  applyCardButtonStyle(boardImportButton);
+  const boardImportInput = document.createElement("input");
+  boardImportInput.type = "file";
+  boardImportInput.accept = "application/json,.json";
+  boardImportInput.style.display = "none";
+  const forgetAnchorsButton = document.createElement("button");
+  forgetAnchorsButton.textContent = "Forget anchors";
+  applyCardButtonStyle(forgetAnchorsButton);
+  const placeNodeButton = document.createElement("button");
+  placeNodeButton.textContent = "Place node";
+  applyCardButtonStyle(placeNodeButton);
+  const clearPlacementButton = document.createElement("button");
+  clearPlacementButton.textContent = "Clear placement";
+  applyCardButtonStyle(clearPlacementButton);
+
+  const placementRow = document.createElement("div");
+  placementRow.style.display = "flex";
+  placementRow.style.gap = "6px";
+  placementRow.style.flexWrap = "wrap";
+  placementRow.append(placeNodeButton, clearPlacementButton);
+
+  const markerRegistryRow = document.createElement("div");
+  markerRegistryRow.style.display = "flex";
+  markerRegistryRow.style.gap = "6px";
+  markerRegistryRow.style.flexWrap = "wrap";
+  markerRegistryRow.append(
+    markerIdInput,
+    markerSizeInput,
+    markerNodeInput,
+    markerRotationSelect,
+    markerSetButton,
+    markerRemoveButton,
+    markerImportButton,
+    markerExportButton,
+    markerImportInput,
+    boardImportButton,
+    boardImportInput,
+    forgetAnchorsButton
+  );
+
+  const intrinsicsRow = document.createElement("div");
+  intrinsicsRow.style.display = "flex";
+  intrinsicsRow.style.gap = "6px";
+  intrinsicsRow.style.flexWrap = "wrap";
+  intrinsicsRow.append(calibrateToggle, calibrationSolveButton, cameraProfileToggle);
+
   const stateLabel = document.createElement("div");
   stateLabel.style.fontSize = "14px";
   stateLabel.style.fontWeight = "700";
@@ -482,6 +794,15 @@ export async function bootstrapApp(): Promise<void> {
   spawnAnchorLabel.style.marginBottom = "2px";
   spawnAnchorLabel.textContent = "Spawn anchor: waiting for stable marker";
 
+  const placementLabel = document.createElement("div");
+  placementLabel.style.fontSize = "12px";
+  placementLabel.style.opacity = "0.9";
+  placementLabel.style.marginBottom = "2px";
+  const worldAnchorLabel = document.createElement("div");
+  worldAnchorLabel.style.fontSize = "12px";
+  worldAnchorLabel.style.opacity = "0.9";
+  worldAnchorLabel.style.marginBottom = "2px";
+
   const calibrationPanel = document.createElement("pre");
   calibrationPanel.style.margin = "0";
   calibrationPanel.style.padding = "8px";
@@ -498,11 +819,59 @@ export async function bootstrapApp(): Promise<void> {
   topologyStatsLabel.style.opacity = "0.85";
   topologyStatsLabel.textContent = "Topology: not loaded";
 
+  const updateTopologyStatsLabel = (): void => {
+    if (!lastTopologySnapshot) {
+      return;
+    }
+    const stats = selectTopologyStats(lastTopologySnapshot);
+    const filtered = activeFilterExpression
+      ? applyTopologyFilter(selectRenderGraphView(lastTopologySnapshot), activeFilterExpression)
+      : null;
+    const filterSuffix = filtered
+      ? ` | filter "${activeFilterQuery}": ${filtered.filteredNodeCount}N/${filtered.filteredLinkCount}L`
+      : "";
+    topologyStatsLabel.textContent =
+      `Topology: ${stats.nodeCount} nodes / ${stats.linkCount} links` +
+      ` | degraded N:${stats.degradedNodes} L:${stats.degradedLinks}` +
+      filterSuffix;
+  };
+
+  const topologyIssuesPanel = document.createElement("pre");
+  topologyIssuesPanel.style.margin = "0";
+  topologyIssuesPanel.style.padding = "8px";
+  topologyIssuesPanel.style.background = "rgba(8, 14, 18, 0.62)";
+  topologyIssuesPanel.style.border = "1px solid rgba(186, 150, 86, 0.45)";
+  topologyIssuesPanel.style.borderRadius = "8px";
+  topologyIssuesPanel.style.whiteSpace = "pre-wrap";
+  topologyIssuesPanel.style.fontSize = "11px";
+  topologyIssuesPanel.style.lineHeight = "1.35";
+  topologyIssuesPanel.style.maxHeight = "120px";
+  topologyIssuesPanel.style.overflow = "auto";
+  topologyIssuesPanel.style.display = "none";
+
+  const alertListPanel = document.createElement("pre");
+  alertListPanel.style.margin = "0";
+  alertListPanel.style.padding = "8px";
+  alertListPanel.style.background = "rgba(8, 14, 18, 0.62)";
+  alertListPanel.style.border = "1px solid rgba(88, 131, 144, 0.4)";
+  alertListPanel.style.borderRadius = "8px";
+  alertListPanel.style.whiteSpace = "pre-wrap";
+  alertListPanel.style.fontSize = "11px";
+  alertListPanel.style.lineHeight = "1.35";
+  alertListPanel.style.maxHeight = "140px";
+  alertListPanel.style.overflow = "auto";
+  alertListPanel.textContent = "No active alerts.";
+
   const telemetryStatsLabel = document.createElement("div");
   telemetryStatsLabel.style.fontSize = "12px";
   telemetryStatsLabel.style.opacity = "0.85";
   telemetryStatsLabel.textContent = "Telemetry: waiting for stream";
 
+  const replayStatusLabel = document.createElement("div");
+  replayStatusLabel.style.fontSize = "12px";
+  replayStatusLabel.style.opacity = "0.85";
+  replayStatusLabel.textContent = "Recording: idle";
+
   const cameraStatsLabel = document.createElement("div");
   cameraStatsLabel.style.fontSize = "12px";
   cameraStatsLabel.style.opacity = "0.85";
@@ -542,6 +911,11 @@ export async function bootstrapApp(): Promise<void> {
   selectionStatsLabel.style.fontSize = "12px";
   selectionStatsLabel.style.opacity = "0.85";
   selectionStatsLabel.textContent = "Selection: none";
+
+  const pathStatsLabel = document.createElement("div");
+  pathStatsLabel.style.fontSize = "12px";
+  pathStatsLabel.style.opacity = "0.85";
+  pathStatsLabel.style.display = "none";
   [
     environmentLabel,
     arStartPathLabel,
@@ -552,10 +926,13 @@ export async function bootstrapApp(): Promise<void> {
     spawnAnchorLabel,
     topologyStatsLabel,
     telemetryStatsLabel,
+    replayStatusLabel,
     cameraStatsLabel,
     cameraPermissionLabel,
     xrCameraAccessLabel,
-    selectionStatsLabel
+    intrinsicsLabel,
+    selectionStatsLabel,
+    pathStatsLabel
   ].forEach(applyMetricLineStyle);
   applyMetricBlockStyle(cameraPiPLabel, 4);
 
@@ -577,6 +954,7 @@ export async function bootstrapApp(): Promise<void> {
   const anchorCard = createInfoCard("Anchoring");
   const cameraCard = createInfoCard("Camera", { collapsible: true });
   const telemetryCard = createInfoCard("Topology", { collapsible: true, collapsed: !isVrUi });
+  const alertCard = createInfoCard("Alerts", { collapsible: true });
 
   sessionCard.body.append(
     stateLabel,
@@ -586,16 +964,42 @@ export async function bootstrapApp(): Promise<void> {
     frameStats,
     trackingStats,
     trackingBackendLabel,
-    selectionStatsLabel
+    selectionStatsLabel,
+    pathStatsLabel
+  );
+  anchorCard.body.append(
+    spawnAnchorLabel,
+    worldAnchorLabel,
+    calibrationLabel,
+    calibrationPanel,
+    markerRegistryPanel,
+    markerRegistryRow,
+    placementLabel,
+    placementRow
+  );
+  cameraCard.body.append(
+    cameraStatsLabel,
+    cameraPermissionLabel,
+    xrCameraAccessLabel,
+    intrinsicsLabel,
+    intrinsicsRow,
+    cameraPiPLabel,
+    cameraPiPCanvas
   );
-  anchorCard.body.append(spawnAnchorLabel, calibrationLabel, calibrationPanel);
-  cameraCard.body.append(cameraStatsLabel, cameraPermissionLabel, xrCameraAccessLabel, cameraPiPLabel, cameraPiPCanvas);
-  telemetryCard.body.append(topologyStatsLabel, telemetryStatsLabel, capabilitiesLabel);
+  telemetryCard.body.append(
+    topologyStatsLabel,
+    topologyIssuesPanel,
+    telemetryStatsLabel,
+    replayStatusLabel,
+    recordingRow,
+    capabilitiesLabel
+  );
+  alertCard.body.append(alertListPanel);
 
   if (isVrUi) {
-    statusGrid.append(cameraCard.card, sessionCard.card, anchorCard.card, telemetryCard.card);
+    statusGrid.append(cameraCard.card, sessionCard.card, anchorCard.card, telemetryCard.card, alertCard.card);
   } else {
-    statusGrid.append(sessionCard.card, anchorCard.card, cameraCard.card, telemetryCard.card);
+    statusGrid.append(sessionCard.card, anchorCard.card, cameraCard.card, telemetryCard.card, alertCard.card);
   }
 
   if (isVrUi) {
@@ -1045,7 +1449,22 @@ export async function bootstrapApp(): Promise<void> {
   await refreshCameraPermissionState();
 
   let desktopTrackingActive = true;
-  const switchableDetector = new SwitchableDetector("camera");
+  // `?maxMarkers=N` caps how many markers are pose-solved per camera frame.
+  const maxMarkersParam = Number(new URLSearchParams(window.location.search).get("maxMarkers"));
+  // `?markerDictionary=apriltag-36h11` switches the printed-marker family (see docs/markers.md).
+  const markerDictionaryParam = new URLSearchParams(window.location.search).get("markerDictionary");
+  const markerRegistry = new MarkerRegistry(loadStoredMarkerRegistry());
+  // `?persistAnchors=0` keeps every session starting from scratch.
+  const anchorPersistence = new URLSearchParams(window.location.search).get("persistAnchors") === "0"
+    ? null
+    : new MarkerAnchorPersistence();
+  let markerBoards = loadStoredMarkerBoards();
+  const switchableDetector = new SwitchableDetector("camera", {
+    maxMarkersPerFrame: maxMarkersParam > 0 ? maxMarkersParam : undefined,
+    markerDictionary: isMarkerDictionary(markerDictionaryParam) ? markerDictionaryParam : undefined,
+    markerRegistry,
+    markerBoards
+  });
   switchableDetector.camera.setXrGlContext(renderer.getContext());
   let xrEntryMode: XrEntryMode = "prelock";
   const applyImmersiveOverlayLayout = (): void => {
@@ -1196,6 +1615,59 @@ export async function bootstrapApp(): Promise<void> {
   });
   await applyXrEntryMode(isQuestBrowser ? "passthrough" : "prelock");
 
+  const dataSourceParams = new URLSearchParams(window.location.search);
+  const topologyUrl = dataSourceParams.get("topology") ?? undefined;
+  const replayUrl = dataSourceParams.get("replay");
+  let replayRecording: TelemetryRecording | undefined;
+  if (replayUrl) {
+    try {
+      const response = await fetch(replayUrl);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+      }
+      replayRecording = parseTelemetryRecording(await response.text());
+    } catch (error) {
+      const details = error instanceof Error ? error.message : String(error);
+      emitError("TELEMETRY_STREAM_FAILED", `Failed to load replay ${replayUrl}: ${details}`, true, {
+        endpoint: replayUrl
+      });
+    }
+  }
+  const alertRulesUrl = dataSourceParams.get("alerts");
+  let alertRules: AlertRule[] | undefined;
+  if (alertRulesUrl) {
+    try {
+      const response = await fetch(alertRulesUrl);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+      }
+      alertRules = parseAlertRules(await response.json());
+    } catch (error) {
+      const details = error instanceof Error ? error.message : String(error);
+      emitError("ALERT_RULES_INVALID", `Failed to load alert rules ${alertRulesUrl}: ${details}; using defaults`, true, {
+        url: alertRulesUrl
+      });
+    }
+  }
+  const elevationProfilesUrl = dataSourceParams.get("elevationProfiles");
+  let elevationProfiles: LinkElevationProfile[] | undefined;
+  if (elevationProfilesUrl) {
+    try {
+      const response = await fetch(elevationProfilesUrl);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+      }
+      elevationProfiles = parseElevationProfiles(await response.json());
+    } catch (error) {
+      const details = error instanceof Error ? error.message : String(error);
+      emitError(
+        "ELEVATION_PROFILES_INVALID",
+        `Failed to load elevation profiles ${elevationProfilesUrl}: ${details}; using KML terrain profiles`,
+        true,
+        { url: elevationProfilesUrl }
+      );
+    }
+  }
   const integrationCoordinator = createIntegrationCoordinator(
     {
       events,
@@ -1206,7 +1678,18 @@ export async function bootstrapApp(): Promise<void> {
       camera,
       renderer,
       kmlText,
+      kmlFresnelZones: dataSourceParams.get("fresnel") === "1" || elevationProfiles !== undefined,
+      kmlElevationProfiles: elevationProfiles,
       detector: switchableDetector,
+      smoother: readSmootherOverrides(dataSourceParams),
+      anchorPersistence,
+      telemetryUrl: dataSourceParams.get("telemetry") ?? undefined,
+      topologyUrl,
+      topologyMetricsUrl: dataSourceParams.get("topologyMetrics") ?? undefined,
+      replayRecording,
+      replayMarkers: dataSourceParams.get("replayMarkers") !== "0",
+      staleData: readStaleDataPolicy(dataSourceParams),
+      alertRules,
     })
   );
 
@@ -1218,12 +1701,16 @@ export async function bootstrapApp(): Promise<void> {
   }
   emitLayoutScale();
 
-  capabilities = await xrRuntime.detectCapabilities();
-  events.emit("xr/capabilities", {
-    capabilities,
-    timestampMs: performance.now()
-  });
-  capabilitiesLabel.textContent = `Capabilities\n${JSON.stringify(capabilities, null, 2)}`;
+  // Re-run once a session starts: optional features are only known once granted.
+  const publishCapabilities = async (): Promise<void> => {
+    capabilities = await xrRuntime.detectCapabilities();
+    events.emit("xr/capabilities", {
+      capabilities,
+      timestampMs: performance.now()
+    });
+    capabilitiesLabel.textContent = `Capabilities\n${JSON.stringify(capabilities, null, 2)}`;
+  };
+  await publishCapabilities();
   refreshEnvironmentLabel();
 
   const setState = (): void => {
@@ -1497,6 +1984,9 @@ export async function bootstrapApp(): Promise<void> {
     }
 
     renderCalibrationPanel(calibrationLabel, calibrationPanel, markerCalibration, now);
+    if (switchableDetector.camera.getCalibrationSession()) {
+      renderIntrinsicsLabel();
+    }
 
     if (
       !desktopTrackingActive ||
@@ -1543,16 +2033,29 @@ export async function bootstrapApp(): Promise<void> {
   });
 
   events.on("topology/snapshot", (payload) => {
-    const stats = selectTopologyStats(payload.snapshot);
-    const renderView = selectRenderGraphView(payload.snapshot);
-    const filtered = applyTopologyFilter(renderView, activeFilter);
-    const filterSuffix = activeFilter !== "all"
-      ? ` | filter "${activeFilter}": ${filtered.filteredNodeCount}N/${filtered.filteredLinkCount}L`
-      : "";
-    topologyStatsLabel.textContent =
-      `Topology: ${stats.nodeCount} nodes / ${stats.linkCount} links` +
-      ` | degraded N:${stats.degradedNodes} L:${stats.degradedLinks}` +
-      filterSuffix;
+    lastTopologySnapshot = payload.snapshot;
+    updateTopologyStatsLabel();
+  });
+
+  events.on("topology/validation", (payload) => {
+    if (payload.issues.length === 0) {
+      topologyIssuesPanel.style.display = "none";
+      topologyIssuesPanel.textContent = "";
+      return;
+    }
+
+    const maxRows = 12;
+    const lines = payload.issues
+      .slice(0, maxRows)
+      .map((issue) => `${issue.severity === "error" ? "ERR " : "WARN"} ${issue.message}`);
+    if (payload.issues.length > maxRows) {
+      lines.push(`... ${payload.issues.length - maxRows} more`);
+    }
+    topologyIssuesPanel.textContent =
+      `Snapshot validation: ${payload.errorCount} errors, ${payload.warningCount} warnings\n` +
+      lines.join("\n");
+    topologyIssuesPanel.style.color = payload.errorCount > 0 ? "#ffb0b0" : "#ffd27b";
+    topologyIssuesPanel.style.display = "block";
   });
 
   events.on("telemetry/update", (payload) => {
@@ -1561,6 +2064,386 @@ export async function bootstrapApp(): Promise<void> {
       ` node updates ${payload.changedNodeIds.length}, link updates ${payload.changedLinkIds.length}`;
   });
 
+  const activeAlerts = new Map<string, AlertEvent>();
+  const renderAlertList = (): void => {
+    if (activeAlerts.size === 0) {
+      alertListPanel.textContent = "No active alerts.";
+      alertListPanel.style.color = "#9fb4be";
+      return;
+    }
+    const alerts = [...activeAlerts.values()].sort((a, b) =>
+      (a.severity === b.severity ? 0 : a.severity === "critical" ? -1 : 1) || b.raisedAtMs - a.raisedAtMs
+    );
+    alertListPanel.textContent = alerts
+      .map((alert) => {
+        const value = alert.value === null ? "-" : alert.value.toFixed(1);
+        const since = new Date(alert.raisedAtMs).toLocaleTimeString();
+        return `${alert.severity === "critical" ? "CRIT" : "WARN"} ${alert.label}: ${alert.entityLabel}` +
+          ` ${alert.metric} ${value} (threshold ${alert.threshold}, since ${since})`;
+      })
+      .join("\n");
+    alertListPanel.style.color = alerts.some((alert) => alert.severity === "critical") ? "#ffb0b0" : "#ffd27b";
+  };
+  events.on("alert/raised", (alert) => {
+    activeAlerts.set(alert.alertId, alert);
+    renderAlertList();
+  });
+  events.on("alert/cleared", (alert) => {
+    activeAlerts.delete(alert.alertId);
+    renderAlertList();
+  });
+
+  const telemetryRecorder = new TelemetryRecorder(events);
+  recordToggle.addEventListener("click", () => {
+    if (!telemetryRecorder.isRecording()) {
+      telemetryRecorder.start();
+      recordToggle.textContent = "Stop & save";
+      recordToggle.style.border = "1px solid #a83e3e";
+      recordToggle.style.background = "#5f1f1f";
+      replayStatusLabel.textContent = "Recording: capturing...";
+      return;
+    }
+
+    telemetryRecorder.stop();
+    recordToggle.textContent = "Record";
+    recordToggle.style.border = "1px solid #3a4a52";
+    recordToggle.style.background = "#1a2428";
+    downloadBlob(
+      new Blob([telemetryRecorder.toNdjson()], { type: "application/x-ndjson" }),
+      `xr-infra-${new Date().toISOString().replace(/[:.]/g, "-")}.ndjson`
+    );
+    replayStatusLabel.textContent = `Recording: saved ${telemetryRecorder.getEntryCount()} events`;
+  });
+
+  // Intrinsics calibration: hold the ArUco grid board (DEFAULT_CALIBRATION_BOARD) in view at
+  // varied angles, then solve and save the result as a named per-device profile.
+  const cameraProfiles = new CameraProfileStore();
+  switchableDetector.camera.setIntrinsics(cameraProfiles.getActive()?.intrinsics ?? null);
+  const renderIntrinsicsLabel = (): void => {
+    const session = switchableDetector.camera.getCalibrationSession();
+    if (session) {
+      intrinsicsLabel.textContent =
+        `Intrinsics: calibrating, ${session.frameCount}/${MIN_CALIBRATION_FRAMES} board views` +
+        (session.frameCount >= MIN_CALIBRATION_FRAMES ? " (more views help)" : "");
+      calibrationSolveButton.style.display = session.frameCount >= MIN_CALIBRATION_FRAMES ? "" : "none";
+      return;
+    }
+    calibrationSolveButton.style.display = "none";
+    const active = cameraProfiles.getActive();
+    cameraProfileToggle.textContent = `Profile: ${active?.name ?? "none"}`;
+    intrinsicsLabel.textContent = active
+      ? `Intrinsics: ${active.name} | f ${active.intrinsics.fx.toFixed(0)}/${active.intrinsics.fy.toFixed(0)}` +
+        ` c ${active.intrinsics.cx.toFixed(0)},${active.intrinsics.cy.toFixed(0)} | rms ${active.rmsErrorPx.toFixed(2)}px`
+      : "Intrinsics: uncalibrated (focal length = capture width)";
+  };
+  const setCalibrating = (calibrating: boolean): void => {
+    if (calibrating) {
+      switchableDetector.camera.startCalibration();
+    } else {
+      switchableDetector.camera.stopCalibration();
+    }
+    calibrateToggle.textContent = calibrating ? "Cancel" : "Calibrate";
+    calibrateToggle.style.border = calibrating ? "1px solid #a83e3e" : "1px solid #3a4a52";
+    calibrateToggle.style.background = calibrating ? "#5f1f1f" : "#1a2428";
+    renderIntrinsicsLabel();
+  };
+  renderIntrinsicsLabel();
+
+  calibrateToggle.addEventListener("click", () => {
+    setCalibrating(!switchableDetector.camera.getCalibrationSession());
+  });
+  calibrationSolveButton.addEventListener("click", () => {
+    const session = switchableDetector.camera.getCalibrationSession();
+    if (!session) {
+      return;
+    }
+    let result: CalibrationResult;
+    try {
+      result = session.solve();
+    } catch (error) {
+      const details = error instanceof Error ? error.message : String(error);
+      emitError("CAMERA_CALIBRATION_FAILED", `Camera calibration failed: ${details}`, true, {
+        frameCount: session.frameCount
+      });
+      return;
+    }
+    const captureBackend = switchableDetector.camera.getOverlayData().captureBackend;
+    const name = window.prompt(
+      `Calibrated (rms ${result.rmsErrorPx.toFixed(2)}px over ${result.viewCount} views). Save profile as:`,
+      `${captureBackend} ${result.intrinsics.width}x${result.intrinsics.height}`
+    )?.trim();
+    if (!name) {
+      return;
+    }
+    cameraProfiles.save({
+      name,
+      intrinsics: result.intrinsics,
+      rmsErrorPx: result.rmsErrorPx,
+      captureBackend,
+      createdAt: new Date().toISOString()
+    });
+    switchableDetector.camera.setIntrinsics(result.intrinsics);
+    setCalibrating(false);
+  });
+  cameraProfileToggle.addEventListener("click", () => {
+    // Cycle none -> each saved profile -> none.
+    const profiles = cameraProfiles.list();
+    const activeIndex = profiles.findIndex((profile) => profile.name === cameraProfiles.getActive()?.name);
+    const next = profiles[activeIndex + 1] ?? null;
+    cameraProfiles.setActive(next?.name ?? null);
+    switchableDetector.camera.setIntrinsics(next?.intrinsics ?? null);
+    renderIntrinsicsLabel();
+  });
+
+  // Marker registry: per-marker printed size, node binding and mounting rotation.
+  const publishMarkerRegistry = (): void => {
+    const entries = markerRegistry.list();
+    storeMarkerRegistry(entries);
+    events.emit("tracking/marker-registry", { entries, timestampMs: performance.now() });
+    const lines = entries.length === 0
+      ? [`No registered markers; all use ${DEFAULT_MARKER_ENTRY.sizeMeters * 100} cm.`]
+      : entries.map((entry) =>
+        `ID ${String(entry.markerId).padStart(3, " ")} | ${(entry.sizeMeters * 100).toFixed(1)} cm` +
+        ` | rot ${entry.mountRotationDeg}°` +
+        (entry.nodeId ? ` | node ${entry.nodeId}` : "") +
+        (entry.dictionary !== switchableDetector.camera.getMarkerDictionary()
+          ? ` | ${entry.dictionary} (ignored)`
+          : "")
+      );
+    for (const board of markerBoards) {
+      lines.push(
+        `Board ${board.boardId}${board.label ? ` (${board.label})` : ""}: ` +
+        board.markers.map((marker) => marker.markerId).join(", ")
+      );
+    }
+    markerRegistryPanel.textContent = lines.join("\n");
+  };
+  publishMarkerRegistry();
+
+  markerIdInput.addEventListener("change", () => {
+    // Load the existing entry so it can be edited in place.
+    const markerId = Number(markerIdInput.value);
+    if (!Number.isInteger(markerId) || !markerRegistry.has(markerId)) {
+      return;
+    }
+    const entry = markerRegistry.resolve(markerId);
+    markerSizeInput.value = String(entry.sizeMeters * 100);
+    markerNodeInput.value = entry.nodeId ?? "";
+    markerRotationSelect.value = String(entry.mountRotationDeg);
+  });
+  markerSetButton.addEventListener("click", () => {
+    const markerId = Number(markerIdInput.value);
+    try {
+      const [entry] = parseMarkerRegistry([{
+        markerId,
+        sizeMeters: markerSizeInput.value ? Number(markerSizeInput.value) / 100 : undefined,
+        nodeId: markerNodeInput.value.trim() || undefined,
+        mountRotationDeg: Number(markerRotationSelect.value),
+        // The card has no dictionary field: edits keep the entry's, new entries take the tracked one.
+        dictionary: markerRegistry.has(markerId)
+          ? markerRegistry.resolve(markerId).dictionary
+          : switchableDetector.camera.getMarkerDictionary()
+      }]);
+      markerRegistry.set(entry);
+      publishMarkerRegistry();
+    } catch (error) {
+      markerRegistryPanel.textContent = error instanceof Error ? error.message : String(error);
+    }
+  });
+  markerRemoveButton.addEventListener("click", () => {
+    markerRegistry.remove(Number(markerIdInput.value));
+    publishMarkerRegistry();
+  });
+  markerImportButton.addEventListener("click", () => {
+    markerImportInput.click();
+  });
+  markerImportInput.addEventListener("change", async () => {
+    const file = markerImportInput.files?.[0];
+    markerImportInput.value = "";
+    if (!file) {
+      return;
+    }
+    try {
+      markerRegistry.replaceAll(parseMarkerRegistry(JSON.parse(await file.text())));
+      publishMarkerRegistry();
+    } catch (error) {
+      const details = error instanceof Error ? error.message : String(error);
+      emitError("MARKER_REGISTRY_INVALID", `Failed to import marker registry ${file.name}: ${details}`, true, {
+        fileName: file.name
+      });
+    }
+  });
+  boardImportButton.addEventListener("click", () => {
+    boardImportInput.click();
+  });
+  boardImportInput.addEventListener("change", async () => {
+    const file = boardImportInput.files?.[0];
+    boardImportInput.value = "";
+    if (!file) {
+      return;
+    }
+    try {
+      markerBoards = parseMarkerBoards(JSON.parse(await file.text()));
+      switchableDetector.camera.setMarkerBoards(markerBoards);
+      storeMarkerBoards(markerBoards);
+      publishMarkerRegistry();
+    } catch (error) {
+      const details = error instanceof Error ? error.message : String(error);
+      emitError("MARKER_BOARD_INVALID", `Failed to import marker boards ${file.name}: ${details}`, true, {
+        fileName: file.name
+      });
+    }
+  });
+  // World anchors: locked markers anchored with WebXR anchors and restored next session.
+  const renderWorldAnchorLabel = (located: PersistedMarkerAnchor[]): void => {
+    if (!anchorPersistence) {
+      worldAnchorLabel.textContent = "World anchors: disabled";
+      return;
+    }
+    const restored = located.filter((anchor) => anchor.restored).length;
+    worldAnchorLabel.textContent =
+      `World anchors: ${anchorPersistence.storedCount} saved` +
+      (located.length > 0 ? ` | ${located.length} located (${restored} restored)` : "");
+  };
+  renderWorldAnchorLabel([]);
+  forgetAnchorsButton.disabled = !anchorPersistence;
+  forgetAnchorsButton.addEventListener("click", () => {
+    anchorPersistence?.forgetAll();
+    renderWorldAnchorLabel([]);
+  });
+  events.on("tracking/anchors", (payload) => {
+    renderWorldAnchorLabel(payload.anchors);
+  });
+
+  // Manual placement: marker-less nodes dropped on real surfaces with the WebXR hit test.
+  let nodePlacements = loadStoredNodePlacements();
+  let selectedNodeId: string | null = null;
+  let placingNodeId: string | null = null;
+  const renderPlacementControls = (): void => {
+    const running = xrRuntime.getState() === "running";
+    const hitTestAvailable = capabilities?.hitTest !== "unsupported";
+    const activePlacements = selectActiveNodePlacements();
+    const selectedPlaced = activePlacements.some((placement) => placement.nodeId === selectedNodeId);
+    placeNodeButton.textContent = placingNodeId ? "Cancel placing" : "Place node";
+    placeNodeButton.disabled = !placingNodeId && (!selectedNodeId || !hitTestAvailable);
+    clearPlacementButton.disabled = !selectedPlaced;
+    xrOverlayPlaceButton.textContent = placeNodeButton.textContent;
+    xrOverlayPlaceButton.style.display =
+      running && hitTestAvailable && (placingNodeId || selectedNodeId) ? "" : "none";
+    if (placingNodeId) {
+      placementLabel.textContent = running
+        ? `Placing ${placingNodeId}: point at a surface and select; squeeze cancels`
+        : `Placing ${placingNodeId}: start AR, then point at a surface and select`;
+      return;
+    }
+    const hiddenCount = nodePlacements.length - activePlacements.length;
+    placementLabel.textContent =
+      `Placed nodes: ${activePlacements.length}` +
+      (hiddenCount > 0 ? ` | ${hiddenCount} from another reference space hidden` : "") +
+      (hitTestAvailable ? "" : " | no WebXR hit-test, placement unavailable");
+  };
+  // Positions only mean something in the space they were placed in. Outside a session the
+  // saved `bounded-floor` placements are shown.
+  const selectActiveNodePlacements = (): NodePlacement[] => {
+    const space = xrRuntime.getReferenceSpaceType();
+    return nodePlacements.filter((placement) =>
+      space === null
+        ? isPersistentReferenceSpace(placement.referenceSpaceType)
+        : placement.referenceSpaceType === space
+    );
+  };
+  const publishNodePlacements = (): void => {
+    storeNodePlacements(nodePlacements);
+    events.emit("interaction/node-placements", {
+      placements: selectActiveNodePlacements(),
+      timestampMs: performance.now()
+    });
+    renderPlacementControls();
+  };
+  publishNodePlacements();
+
+  const togglePlacement = (): void => {
+    events.emit("interaction/placement-mode", {
+      nodeId: placingNodeId ? null : selectedNodeId,
+      timestampMs: performance.now()
+    });
+  };
+  placeNodeButton.addEventListener("click", togglePlacement);
+  xrOverlayPlaceButton.addEventListener("click", togglePlacement);
+  clearPlacementButton.addEventListener("click", () => {
+    nodePlacements = nodePlacements.filter((placement) => placement.nodeId !== selectedNodeId);
+    publishNodePlacements();
+  });
+  events.on("interaction/placement-mode", (payload) => {
+    placingNodeId = payload.nodeId;
+    renderPlacementControls();
+  });
+  events.on("interaction/node-placed", (payload) => {
+    nodePlacements = [
+      ...nodePlacements.filter((placement) => placement.nodeId !== payload.nodeId),
+      {
+        nodeId: payload.nodeId,
+        position: { ...payload.position },
+        referenceSpaceType: xrRuntime.getReferenceSpaceType(),
+        placedAt: new Date().toISOString()
+      }
+    ];
+    publishNodePlacements();
+    events.emit("interaction/placement-mode", { nodeId: null, timestampMs: performance.now() });
+  });
+  events.on("interaction/selection-change", (payload) => {
+    selectedNodeId = payload.selectedNodeId;
+    renderPlacementControls();
+  });
+  events.on("xr/state", (payload) => {
+    // A `local`/`local-floor` origin is gone once its session ends.
+    if (payload.state !== "running" && payload.state !== "requesting") {
+      nodePlacements = nodePlacements.filter((placement) =>
+        isPersistentReferenceSpace(placement.referenceSpaceType)
+      );
+    }
+    publishNodePlacements();
+  });
+  events.on("xr/capabilities", renderPlacementControls);
+
+  markerExportButton.addEventListener("click", () => {
+    downloadBlob(
+      new Blob([JSON.stringify(markerRegistry.list(), null, 2)], { type: "application/json" }),
+      "marker-registry.json"
+    );
+  });
+
+  replaySpeedButtons.forEach((btn) => {
+    btn.addEventListener("click", () => {
+      events.emit("replay/control", { speed: Number(btn.dataset.speed), timestampMs: performance.now() });
+    });
+  });
+  replayRestartButton.addEventListener("click", () => {
+    events.emit("replay/control", { restart: true, timestampMs: performance.now() });
+  });
+
+  events.on("replay/status", (payload) => {
+    replayControls.style.display = "flex";
+    const position = (payload.positionMs / 1000).toFixed(1);
+    const duration = (payload.durationMs / 1000).toFixed(1);
+    const speed = payload.state === "playing" ? ` ${payload.speed}x` : "";
+    replayStatusLabel.textContent = `Replay ${payload.state}${speed}: ${position}s / ${duration}s`;
+    replaySpeedButtons.forEach((btn) => {
+      const active = payload.state !== "ended" && Number(btn.dataset.speed) === payload.speed;
+      btn.style.border = active ? "1px solid #3e8fa8" : "1px solid #3a4a52";
+      btn.style.background = active ? "#1a5568" : "#1a2428";
+    });
+  });
+
+  events.on("telemetry/status", (payload) => {
+    const endpoint = payload.endpoint ? ` ${payload.endpoint}` : "";
+    const attempt = payload.attempt > 0 ? ` (attempt ${payload.attempt})` : "";
+    telemetryStatsLabel.textContent =
+      `Telemetry ${payload.source}${endpoint}: ${payload.connectionState}${attempt}`;
+    telemetryStatsLabel.style.color =
+      payload.connectionState === "open" ? "#dbe5e8" : "#ffd27b";
+  });
+
   events.on("interaction/selection-change", (payload) => {
     if (payload.selectedNodeId) {
       selectionStatsLabel.textContent = `Selection: node ${payload.selectedNodeId}`;
@@ -1573,6 +2456,29 @@ export async function bootstrapApp(): Promise<void> {
     selectionStatsLabel.textContent = "Selection: none";
   });
 
+  events.on("topology/path", (payload) => {
+    if (!payload.fromNodeId) {
+      pathStatsLabel.style.display = "none";
+      return;
+    }
+    pathStatsLabel.style.display = "block";
+    if (!payload.toNodeId) {
+      pathStatsLabel.textContent = `Path: from ${payload.fromNodeId}, pick a second node`;
+      return;
+    }
+    if (!payload.path) {
+      pathStatsLabel.textContent = `Path: no route ${payload.fromNodeId} -> ${payload.toNodeId}`;
+      return;
+    }
+    const path = payload.path;
+    pathStatsLabel.textContent =
+      `Path (${path.metric}): ${path.nodeIds.join(" -> ")}` +
+      ` | ${path.linkIds.length} hops, ${path.totalLatencyMs.toFixed(1)} ms, loss ${path.lossPct.toFixed(2)}%` +
+      (path.bottleneckLinkId
+        ? `, bottleneck ${path.bottleneckLinkId} at ${path.bottleneckUtilizationPct.toFixed(0)}%`
+        : "");
+  });
+
   startButton.addEventListener("click", async () => {
     let releasedInlineCameraForXrStart = false;
     try {
@@ -1588,7 +2494,7 @@ export async function bootstrapApp(): Promise<void> {
 
       await refreshCameraPermissionState();
 
-      if (capabilities.immersiveAr !== "supported") {
+      if (capabilities?.immersiveAr !== "supported") {
         setArStartDiagnostic(
           "immersive-ar unsupported",
           "Capabilities say immersive-ar is unsupported, so requestSession(\"immersive-ar\") will not be attempted.",
@@ -1668,6 +2574,7 @@ export async function bootstrapApp(): Promise<void> {
         desktopLoopHandle = 0;
       }
       setState();
+      await publishCapabilities();
     } catch (error) {
       if (releasedInlineCameraForXrStart) {
         switchableDetector.camera.setInlineCameraEnabled(true);
@@ -1785,7 +2692,8 @@ export async function bootstrapApp(): Promise<void> {
     refreshStartButtonState();
   });
 
-  let stressActive = true;
+  // The KML stress topology is the default demo data; a REST topology or a replay replaces it.
+  let stressActive = !topologyUrl && !replayRecording;
   const applyStressState = (): void => {
     if (stressActive) {
       stressToggle.textContent = "Stress: On (KML)";
@@ -1825,7 +2733,155 @@ export async function bootstrapApp(): Promise<void> {
   });
 
   setState();
-  applyStressState();
+  if (stressActive) {
+    applyStressState();
+  }
+}
+
+/**
+ * `?staleTtl=<s>` (0 disables aging), `?staleMetricTtl=rssi:30,snr:30` and
+ * `?staleMode=fade` override the default stale-data policy.
+ */
+function readSmootherOverrides(params: URLSearchParams): Partial<SmootherConfig> {
+  const filter = params.get("poseFilter");
+  return filter === "ema" || filter === "one-euro" || filter === "kalman" ? { filter } : {};
+}
+
+function readStaleDataPolicy(params: URLSearchParams): StaleDataPolicy {
+  const ttlSec = Number(params.get("staleTtl"));
+  const metricTtlMs: NonNullable<StaleDataPolicy["metricTtlMs"]> = {};
+  for (const pair of (params.get("staleMetricTtl") ?? "").split(",")) {
+    const [metric, seconds] = pair.split(":");
+    const metricKey = HISTORY_METRIC_KEYS.find((key) => key === metric?.trim());
+    if (metricKey && Number.isFinite(Number(seconds)) && Number(seconds) > 0) {
+      metricTtlMs[metricKey] = Number(seconds) * 1000;
+    }
+  }
+
+  return {
+    ttlMs: params.has("staleTtl") && Number.isFinite(ttlSec)
+      ? Math.max(0, ttlSec) * 1000
+      : DEFAULT_STALE_DATA_POLICY.ttlMs,
+    metricTtlMs,
+    presentation: params.get("staleMode") === "fade" ? "fade" : DEFAULT_STALE_DATA_POLICY.presentation
+  };
+}
+
+const FILTER_PRESET_STORAGE_KEY = "infra-xr.filter-presets";
+
+function loadFilterPresets(): TopologyFilterPreset[] {
+  try {
+    const stored: unknown = JSON.parse(window.localStorage.getItem(FILTER_PRESET_STORAGE_KEY) ?? "[]");
+    if (!Array.isArray(stored)) {
+      return [];
+    }
+    // Drop entries that no longer parse (e.g. saved before a metric was renamed).
+    return stored.filter((preset): preset is TopologyFilterPreset => {
+      if (typeof preset?.id !== "string" || typeof preset.label !== "string" || typeof preset.query !== "string") {
+        return false;
+      }
+      try {
+        parseTopologyFilter(preset.query);
+        return true;
+      } catch {
+        return false;
+      }
+    });
+  } catch {
+    return [];
+  }
+}
+
+function storeFilterPresets(presets: TopologyFilterPreset[]): void {
+  try {
+    window.localStorage.setItem(FILTER_PRESET_STORAGE_KEY, JSON.stringify(presets));
+  } catch {
+    // Storage can be unavailable (private browsing, embedded browsers); presets then last for the session.
+  }
+}
+
+const MARKER_REGISTRY_STORAGE_KEY = "infra-xr.marker-registry";
+
+function loadStoredMarkerRegistry(): MarkerRegistryEntry[] {
+  try {
+    return parseMarkerRegistry(JSON.parse(window.localStorage.getItem(MARKER_REGISTRY_STORAGE_KEY) ?? "[]"));
+  } catch {
+    return [];
+  }
+}
+
+function storeMarkerRegistry(entries: MarkerRegistryEntry[]): void {
+  try {
+    window.localStorage.setItem(MARKER_REGISTRY_STORAGE_KEY, JSON.stringify(entries));
+  } catch {
+    // Storage unavailable; the registry lasts for the session.
+  }
+}
+
+function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Firefox and some WebViews read the blob after click() returns; revoking now cancels the download.
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+const NODE_PLACEMENTS_STORAGE_KEY = "infra-xr.node-placements";
+
+function loadStoredNodePlacements(): NodePlacement[] {
+  try {
+    const stored: unknown = JSON.parse(window.localStorage.getItem(NODE_PLACEMENTS_STORAGE_KEY) ?? "[]");
+    if (!Array.isArray(stored)) {
+      return [];
+    }
+    return stored.filter(
+      (entry): entry is NodePlacement =>
+        typeof entry === "object" &&
+        entry !== null &&
+        typeof entry.nodeId === "string" &&
+        typeof entry.placedAt === "string" &&
+        isPersistentReferenceSpace(entry.referenceSpaceType) &&
+        [entry.position?.x, entry.position?.y, entry.position?.z].every(Number.isFinite)
+    );
+  } catch {
+    return [];
+  }
+}
+
+/** Spaces whose origin survives the session; placements in any other space are not saved. */
+function isPersistentReferenceSpace(type: unknown): type is "bounded-floor" {
+  return type === "bounded-floor";
+}
+
+function storeNodePlacements(placements: NodePlacement[]): void {
+  try {
+    window.localStorage.setItem(
+      NODE_PLACEMENTS_STORAGE_KEY,
+      JSON.stringify(placements.filter((placement) => isPersistentReferenceSpace(placement.referenceSpaceType)))
+    );
+  } catch {
+    // Storage unavailable; placements last for the session.
+  }
+}
+
+const MARKER_BOARDS_STORAGE_KEY = "infra-xr.marker-boards";
+
+function loadStoredMarkerBoards(): MarkerBoard[] {
+  try {
+    return parseMarkerBoards(JSON.parse(window.localStorage.getItem(MARKER_BOARDS_STORAGE_KEY) ?? "[]"));
+  } catch {
+    return [];
+  }
+}
+
+function storeMarkerBoards(boards: MarkerBoard[]): void {
+  try {
+    window.localStorage.setItem(MARKER_BOARDS_STORAGE_KEY, JSON.stringify(boards));
+  } catch {
+    // Storage unavailable; the boards last for the session.
+  }
 }
 
 function renderCalibrationPanel(
@@ -1905,7 +2961,8 @@ function drawCameraPiP(
     ` | quads ${String(overlay.debug.candidateQuadCount).padStart(3, " ")}` +
     ` | cand ${String(overlay.debug.candidateCount).padStart(3, " ")}` +
     `\nStable: ${String(overlay.debug.stableCount).padStart(3, " ")}` +
-    ` | filtered ${String(overlay.debug.filteredCount).padStart(3, " ")}` +
+    ` | kept ${String(overlay.debug.filteredCount).padStart(3, " ")}` +
+    (overlay.debug.rejectedOverCap > 0 ? ` (+${overlay.debug.rejectedOverCap} capped)` : "") +
     ` | pose ${String(overlay.solvedPoseCount).padStart(2, " ")}/${String(overlay.poseAttemptCount).padEnd(2, " ")}` +
     ` | pFail ${overlay.poseFailureReason}`;
 
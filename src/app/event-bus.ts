@@ -5,8 +5,13 @@ type Handler<TPayload> = (payload: TPayload) => void;
 
 const REPLAYABLE_EVENTS: ReadonlySet<keyof AppEventMap> = new Set([
   "topology/snapshot",
+  "topology/validation",
   "xr/state",
   "xr/capabilities",
+  "telemetry/status",
+  "replay/status",
+  "tracking/marker-registry",
+  "interaction/node-placements",
   "rendering/layout-scale"
 ]);
 
@@ -1,9 +1,22 @@
+import type { XrReferenceSpaceType } from "./xr";
+
 export type NodeType = "tower" | "backhaul" | "router" | "switch" | "client" | "unknown";
 
 export type LinkMedium = "wired" | "wireless" | "fiber" | "unknown";
 
 export type HealthState = "up" | "degraded" | "down" | "unknown";
 
+/** How entities whose data outlived the stale-data TTL are presented. */
+export type StaleDataPresentation = "unknown" | "fade";
+
+export type NumericMetricKey =
+  | "rssi"
+  | "snr"
+  | "throughputMbps"
+  | "latencyMs"
+  | "packetLossPct"
+  | "utilizationPct";
+
 export interface MetricSnapshot {
   status: HealthState;
   rssi?: number;
@@ -12,7 +25,46 @@ export interface MetricSnapshot {
   latencyMs?: number;
   packetLossPct?: number;
   utilizationPct?: number;
+  /** Per-direction traffic of a link; the fields above stay the link-wide aggregate. */
+  directions?: LinkDirectionalMetrics;
+  /** Radio parameters of a wireless link, from the link plan or the radios. */
+  rf?: WirelessLinkMetrics;
+  /** Wall-clock (epoch) time of the last update. */
   updatedAtMs: number;
+  /** Set by the topology store once `updatedAtMs` is older than the TTL; absent while fresh. */
+  stale?: StaleDataPresentation;
+  /** Metrics older than their own TTL (see `StaleDataPolicy.metricTtlMs`). */
+  staleMetrics?: NumericMetricKey[];
+}
+
+/** Traffic in one direction of a link, e.g. one side of an asymmetric PtP radio. */
+export interface LinkDirectionMetrics {
+  throughputMbps?: number;
+  capacityMbps?: number;
+  utilizationPct?: number;
+  /** As reported by the radio, e.g. "256QAM 3/4". */
+  modulation?: string;
+}
+
+/** `aToB` runs from the link's `fromNodeId` to its `toNodeId`, `bToA` back. */
+export interface LinkDirectionalMetrics {
+  aToB?: LinkDirectionMetrics;
+  bToA?: LinkDirectionMetrics;
+}
+
+export interface WirelessLinkMetrics {
+  frequencyMhz?: number;
+  channelWidthMhz?: number;
+  /** MCS index or modulation as reported, e.g. "MCS 9" or "256QAM 5/6". */
+  modulation?: string;
+  capacityMbps?: number;
+  distanceMeters?: number;
+  /** Receive signal the link plan predicts. */
+  expectedSignalDbm?: number;
+  /** Receive signal the radio measures; the link's `rssi` stands in when absent. */
+  actualSignalDbm?: number;
+  /** Share of the first Fresnel zone free of obstructions. */
+  fresnelClearancePct?: number;
 }
 
 export interface InfraNode {
@@ -38,6 +90,25 @@ export interface TopologySnapshot {
   generatedAtMs: number;
 }
 
+/** "hops" minimizes link count; "latency" minimizes the sum of link `latencyMs`. */
+export type PathMetric = "hops" | "latency";
+
+export interface TopologyPath {
+  fromNodeId: string;
+  toNodeId: string;
+  metric: PathMetric;
+  /** Ordered from `fromNodeId` to `toNodeId`, both included. */
+  nodeIds: string[];
+  /** Ordered links between consecutive `nodeIds`. */
+  linkIds: string[];
+  totalLatencyMs: number;
+  /** End-to-end loss, compounding each hop: 1 - Π(1 - loss). */
+  lossPct: number;
+  /** Most utilized link on the path; null for a zero-hop path. */
+  bottleneckLinkId: string | null;
+  bottleneckUtilizationPct: number;
+}
+
 export interface NodeMetricUpdate {
   nodeId: string;
   metrics: Partial<MetricSnapshot>;
@@ -48,6 +119,25 @@ export interface LinkMetricUpdate {
   metrics: Partial<MetricSnapshot>;
 }
 
+/**
+ * Runtime edit to the topology graph. Upserts replace the whole entity; removing a
+ * node also removes every link attached to it.
+ */
+export type TopologyStructuralChange =
+  | { kind: "upsert-node"; node: InfraNode }
+  | { kind: "remove-node"; nodeId: string }
+  | {
+      kind: "patch-node";
+      nodeId: string;
+      label?: string;
+      type?: NodeType;
+      markerId?: number;
+      /** `null` clears the offset. */
+      layoutOffsetMeters?: Vector3Like | null;
+    }
+  | { kind: "upsert-link"; link: InfraLink }
+  | { kind: "remove-link"; linkId: string };
+
 export interface Vector3Like {
   x: number;
   y: number;
@@ -72,6 +162,49 @@ export interface TrackedMarker {
   markerId: number;
   pose: AnchorPose;
   sizeMeters?: number;
+  /** Physical markers behind the pose; above 1 for a marker board. */
+  markerCount?: number;
+}
+
+/** A marker pose held by a WebXR anchor, in the tracking reference space. */
+export interface PersistedMarkerAnchor {
+  markerId: number;
+  position: Vector3Like;
+  rotation: QuaternionLike;
+  /** Restored from an earlier session rather than anchored in this one. */
+  restored: boolean;
+}
+
+/** Operator-chosen position for a node that cannot carry a marker. */
+export interface NodePlacement {
+  nodeId: string;
+  /** Surface point from the WebXR hit test, in the tracking reference space. */
+  position: Vector3Like;
+  /** Reference space `position` is in; only `bounded-floor` keeps its origin across sessions. */
+  referenceSpaceType: XrReferenceSpaceType | null;
+  /** ISO-8601 time the node was placed. */
+  placedAt: string;
+}
+
+export type MarkerDictionary =
+  | "aruco-4x4-1000"
+  | "aruco-5x5-1000"
+  | "aruco-6x6-1000"
+  | "apriltag-36h11"
+  | "parity-4x4-512";
+
+/** In-plane rotation of a printed marker as mounted, clockwise as seen facing it. */
+export type MarkerMountRotation = 0 | 90 | 180 | 270;
+
+/** What is known about one physical marker; keyed by `markerId`. */
+export interface MarkerRegistryEntry {
+  markerId: number;
+  /** Printed black-border edge length. */
+  sizeMeters: number;
+  dictionary: MarkerDictionary;
+  /** Anchor this node to the marker regardless of the topology's `markerId`. */
+  nodeId?: string;
+  mountRotationDeg: MarkerMountRotation;
 }
 
 export type Handedness = "left" | "right";
@@ -2,9 +2,16 @@ import type {
   HandData,
   Handedness,
   LinkMetricUpdate,
+  MarkerRegistryEntry,
   NodeMetricUpdate,
+  NodePlacement,
+  NumericMetricKey,
+  PathMetric,
+  PersistedMarkerAnchor,
   QuaternionLike,
   TopologySnapshot,
+  TopologyPath,
+  TopologyStructuralChange,
   TrackedMarker,
   Vector3Like
 } from "./domain";
@@ -24,8 +31,14 @@ export type AppErrorCode =
   | "XR_SESSION_START_FAILED"
   | "XR_SESSION_STOP_FAILED"
   | "CAMERA_PERMISSION_FAILED"
+  | "CAMERA_CALIBRATION_FAILED"
+  | "MARKER_REGISTRY_INVALID"
+  | "MARKER_BOARD_INVALID"
   | "TRACKING_INIT_FAILED"
   | "TOPOLOGY_LOAD_FAILED"
+  | "TOPOLOGY_DELTA_REJECTED"
+  | "ALERT_RULES_INVALID"
+  | "ELEVATION_PROFILES_INVALID"
   | "TELEMETRY_STREAM_FAILED"
   | "RENDER_INIT_FAILED"
   | "INTEGRATION_CONFLICT"
@@ -43,6 +56,49 @@ export interface AppErrorEnvelope {
 export interface TopologyDeltaEvent {
   changedNodeIds: string[];
   changedLinkIds: string[];
+  addedNodeIds: string[];
+  removedNodeIds: string[];
+  addedLinkIds: string[];
+  removedLinkIds: string[];
+  timestampMs: number;
+}
+
+export interface TopologyStructureEvent {
+  source: "ws" | "rest" | "mock" | "operator";
+  changes: TopologyStructuralChange[];
+  timestampMs: number;
+}
+
+export type TopologyIssueCode =
+  | "invalid-snapshot"
+  | "missing-field"
+  | "invalid-field"
+  | "duplicate-node-id"
+  | "duplicate-link-id"
+  | "duplicate-marker-id"
+  | "dangling-link-endpoint"
+  | "self-link"
+  | "unknown-node-type"
+  | "unknown-link-medium"
+  | "invalid-status"
+  | "invalid-metric"
+  | "out-of-range-metric";
+
+export interface TopologyValidationIssue {
+  code: TopologyIssueCode;
+  severity: "error" | "warning";
+  entityKind: "snapshot" | "node" | "link";
+  entityId: string | null;
+  field?: string;
+  message: string;
+  /** "repaired" was fixed in place, "dropped" removed the entity, "none" left it as-is. */
+  resolution: "repaired" | "dropped" | "none";
+}
+
+export interface TopologyValidationEvent {
+  issues: TopologyValidationIssue[];
+  errorCount: number;
+  warningCount: number;
   timestampMs: number;
 }
 
@@ -67,6 +123,123 @@ export interface TrackingStatusEvent {
   timestampMs: number;
 }
 
+export interface MarkerAnchorsEvent {
+  /** Every anchor the XR runtime currently tracks; empty outside an anchor-capable session. */
+  anchors: PersistedMarkerAnchor[];
+  timestampMs: number;
+}
+
+export interface MarkerRegistryEvent {
+  entries: MarkerRegistryEntry[];
+  timestampMs: number;
+}
+
+export type TelemetryConnectionState =
+  | "connecting"
+  | "open"
+  | "stale"
+  | "reconnecting"
+  | "closed";
+
+export interface TelemetryStatusEvent {
+  source: "ws" | "rest" | "mock" | "replay";
+  connectionState: TelemetryConnectionState;
+  /** Consecutive reconnect attempts since the last successful open. */
+  attempt: number;
+  endpoint: string | null;
+  timestampMs: number;
+}
+
+export interface TopologyReplaceEvent {
+  /** Untrusted snapshot; the topology agent validates it before loading the store. */
+  snapshot: TopologySnapshot;
+  source: "replay";
+  timestampMs: number;
+}
+
+export type ReplayPlaybackState = "playing" | "paused" | "ended";
+
+export interface ReplayStatusEvent {
+  state: ReplayPlaybackState;
+  /** Playback multiplier; 0 while paused. */
+  speed: number;
+  positionMs: number;
+  durationMs: number;
+  timestampMs: number;
+}
+
+export interface ReplayControlEvent {
+  /** New playback multiplier (0 pauses). */
+  speed?: number;
+  /** Rewind to the start of the recording. */
+  restart?: boolean;
+  timestampMs: number;
+}
+
+export interface PathModeEvent {
+  /** While active, node picks become path endpoints instead of plain selections. */
+  active: boolean;
+  metric: PathMetric;
+  timestampMs: number;
+}
+
+export interface PlacementModeEvent {
+  /** While set, the next XR select drops this node on the hit-test surface instead of picking. */
+  nodeId: string | null;
+  timestampMs: number;
+}
+
+export interface PlacementPreviewEvent {
+  nodeId: string;
+  /** Surface point under the pointing ray; null while nothing is hit. */
+  position: Vector3Like | null;
+  /** Surface orientation; its +Y axis is the surface normal. */
+  rotation: QuaternionLike | null;
+  timestampMs: number;
+}
+
+export interface NodePlacementsEvent {
+  placements: NodePlacement[];
+  timestampMs: number;
+}
+
+export interface PathQueryEvent {
+  /** The traced path is cleared until both endpoints are set. */
+  fromNodeId: string | null;
+  toNodeId: string | null;
+  metric: PathMetric;
+  timestampMs: number;
+}
+
+export interface TopologyPathEvent {
+  fromNodeId: string | null;
+  toNodeId: string | null;
+  metric: PathMetric;
+  /** Null when the query was cleared or no route exists. */
+  path: TopologyPath | null;
+  timestampMs: number;
+}
+
+export type AlertSeverity = "warning" | "critical";
+
+export interface AlertEvent {
+  /** Stable per rule and entity (`<ruleId>:<kind>:<entityId>`); pairs a raise with its clear. */
+  alertId: string;
+  ruleId: string;
+  label: string;
+  severity: AlertSeverity;
+  entityKind: "node" | "link";
+  entityId: string;
+  entityLabel: string;
+  metric: NumericMetricKey;
+  /** Metric value at the transition; null when the entity was removed. */
+  value: number | null;
+  threshold: number;
+  /** Wall-clock (epoch) time the alert was raised. */
+  raisedAtMs: number;
+  timestampMs: number;
+}
+
 export interface SpawnAnchorEvent {
   markerId: number | null;
   position: Vector3Like | null;
@@ -96,20 +269,41 @@ export interface AppEventMap {
   };
   "tracking/status": TrackingStatusEvent;
   "tracking/spawn-anchor": SpawnAnchorEvent;
+  "tracking/marker-registry": MarkerRegistryEvent;
+  "tracking/anchors": MarkerAnchorsEvent;
   "topology/snapshot": {
     snapshot: TopologySnapshot;
     timestampMs: number;
   };
   "topology/delta": TopologyDeltaEvent;
+  "topology/structure": TopologyStructureEvent;
+  "topology/validation": TopologyValidationEvent;
+  "topology/replace": TopologyReplaceEvent;
+  "topology/path": TopologyPathEvent;
   "telemetry/update": {
-    source: "ws" | "rest" | "mock";
+    source: "ws" | "rest" | "mock" | "replay";
     changedNodeIds: string[];
     changedLinkIds: string[];
     nodeMetrics: NodeMetricUpdate[];
     linkMetrics: LinkMetricUpdate[];
     timestampMs: number;
   };
+  "telemetry/status": TelemetryStatusEvent;
+  "replay/status": ReplayStatusEvent;
+  "replay/control": ReplayControlEvent;
+  "alert/raised": AlertEvent;
+  "alert/cleared": AlertEvent;
   "interaction/selection-change": SelectionChangeEvent;
+  "interaction/path-mode": PathModeEvent;
+  "interaction/path-query": PathQueryEvent;
+  "interaction/placement-mode": PlacementModeEvent;
+  "interaction/placement-preview": PlacementPreviewEvent;
+  "interaction/node-placed": {
+    nodeId: string;
+    position: Vector3Like;
+    timestampMs: number;
+  };
+  "interaction/node-placements": NodePlacementsEvent;
   "interaction/hands": {
     hands: HandData[];
     timestampMs: number;
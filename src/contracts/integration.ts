@@ -2,6 +2,7 @@ import type { AppEventMap } from "./events";
 import type {
   XrBoundaryPoint,
   XrCapabilities,
+  XrDetectedSurface,
   XrRuntimeState,
   XrSessionStartOptions
 } from "./xr";
@@ -27,6 +28,8 @@ export interface XrRuntimePort {
   getSession(): unknown;
   getReferenceSpace(): unknown;
   getBoundaryPolygon(): XrBoundaryPoint[] | null;
+  /** Replaced with a new array only when the detected surfaces change. */
+  getDetectedSurfaces(): XrDetectedSurface[];
   detectCapabilities(): Promise<XrCapabilities>;
   start(options?: XrSessionStartOptions): Promise<void>;
   stop(): Promise<void>;
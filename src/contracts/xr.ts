@@ -19,6 +19,8 @@ export interface XrCapabilities {
   hitTest: CapabilityState;
   domOverlay: CapabilityState;
   handTracking: CapabilityState;
+  planeDetection: CapabilityState;
+  meshDetection: CapabilityState;
 }
 
 export interface XrFrameTick {
@@ -33,6 +35,28 @@ export interface XrBoundaryPoint {
   z: number;
 }
 
+export interface XrSurfacePoint {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/** A real-world plane or mesh reported by WebXR plane/mesh detection, in the reference space. */
+export interface XrDetectedSurface {
+  /** Stable while the runtime keeps reporting the same plane or mesh. */
+  id: string;
+  kind: "plane" | "mesh";
+  /** Runtime semantic label such as "wall", "table" or "global mesh"; null when unlabelled. */
+  semanticLabel: string | null;
+  /** Plane outline; empty for meshes. */
+  polygon: XrSurfacePoint[];
+  /** Plane normal, pointing away from the surface's solid side; null for meshes. */
+  normal: XrSurfacePoint | null;
+  /** Axis-aligned bounds of the outline or mesh vertices. */
+  min: XrSurfacePoint;
+  max: XrSurfacePoint;
+}
+
 export interface XrSessionStartOptions {
   mode?: XrSessionMode;
   referenceSpaceOrder?: XrReferenceSpaceType[];
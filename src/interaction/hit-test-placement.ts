@@ -0,0 +1,151 @@
+/**
+ * Casts the operator's pointing ray against real surfaces with the WebXR Hit Test API.
+ *
+ * The ray comes from the right-hand (else any) tracked pointer, so a controller or a hand
+ * can point at a wall or desk. Without a tracked pointer (handheld AR, where screen taps are
+ * transient) the viewer's gaze is used instead. Hit-test sources are requested once per ray
+ * space and cancelled when the session changes.
+ */
+
+import type { QuaternionLike, Vector3Like } from "../contracts/domain";
+
+// ---- WebXR Hit Test types (not in standard TS lib) ----
+
+interface XRHitTestSourceLike {
+  cancel(): void;
+}
+
+interface XRHitTestResultLike {
+  getPose(baseSpace: unknown): {
+    transform: {
+      position: { x: number; y: number; z: number };
+      orientation: { x: number; y: number; z: number; w: number };
+    };
+  } | null;
+}
+
+interface XRInputSourceLike {
+  handedness: "none" | "left" | "right";
+  targetRayMode: string;
+  targetRaySpace: unknown;
+}
+
+interface XRSessionLike {
+  inputSources: Iterable<XRInputSourceLike>;
+  requestHitTestSource?(options: { space: unknown }): Promise<XRHitTestSourceLike> | undefined;
+  requestReferenceSpace(type: "viewer"): Promise<unknown>;
+}
+
+interface XRFrameLike {
+  getHitTestResults?(source: XRHitTestSourceLike): XRHitTestResultLike[];
+  session: XRSessionLike;
+}
+
+/** Nearest real surface along the pointing ray, in the tracking reference space. */
+export interface SurfaceHit {
+  position: Vector3Like;
+  /** The surface normal is this orientation's +Y axis. */
+  rotation: QuaternionLike;
+}
+
+export class HitTestPlacer {
+  private session: XRSessionLike | null = null;
+  /** Keyed by ray space; null while the request is pending or after the runtime declined it. */
+  private readonly sources = new Map<unknown, XRHitTestSourceLike | null>();
+  private viewerSpace: unknown = null;
+  private viewerSpaceRequested = false;
+
+  /** Returns the nearest surface hit, or null while no surface (or no hit-test support) is available. */
+  readHit(frame: unknown, referenceSpace: unknown): SurfaceHit | null {
+    const xrFrame = frame as XRFrameLike | null;
+    if (!xrFrame || typeof xrFrame.getHitTestResults !== "function" || !referenceSpace) {
+      return null;
+    }
+    if (xrFrame.session !== this.session) {
+      this.reset();
+      this.session = xrFrame.session;
+    }
+
+    const raySpace = this.resolveRaySpace(xrFrame.session);
+    const source = raySpace ? this.resolveSource(xrFrame.session, raySpace) : null;
+    if (!source) {
+      return null;
+    }
+
+    const [nearest] = xrFrame.getHitTestResults(source);
+    const pose = nearest?.getPose(referenceSpace);
+    if (!pose) {
+      return null;
+    }
+
+    const { position, orientation } = pose.transform;
+    return {
+      position: { x: position.x, y: position.y, z: position.z },
+      rotation: { x: orientation.x, y: orientation.y, z: orientation.z, w: orientation.w }
+    };
+  }
+
+  /** Cancels every hit-test source, e.g. when placement ends or the session closes. */
+  reset(): void {
+    for (const source of this.sources.values()) {
+      source?.cancel();
+    }
+    this.sources.clear();
+    this.session = null;
+    this.viewerSpace = null;
+    this.viewerSpaceRequested = false;
+  }
+
+  private resolveRaySpace(session: XRSessionLike): unknown {
+    let pointer: XRInputSourceLike | null = null;
+    for (const inputSource of session.inputSources) {
+      if (inputSource.targetRayMode !== "tracked-pointer") {
+        continue;
+      }
+      if (!pointer || inputSource.handedness === "right") {
+        pointer = inputSource;
+      }
+    }
+    if (pointer) {
+      return pointer.targetRaySpace;
+    }
+
+    if (!this.viewerSpaceRequested) {
+      this.viewerSpaceRequested = true;
+      session.requestReferenceSpace("viewer").then(
+        (space) => {
+          if (this.session === session) {
+            this.viewerSpace = space;
+          }
+        },
+        () => undefined
+      );
+    }
+    return this.viewerSpace;
+  }
+
+  private resolveSource(session: XRSessionLike, raySpace: unknown): XRHitTestSourceLike | null {
+    if (this.sources.has(raySpace)) {
+      return this.sources.get(raySpace) ?? null;
+    }
+
+    this.sources.set(raySpace, null);
+    let pending: Promise<XRHitTestSourceLike> | undefined;
+    try {
+      pending = session.requestHitTestSource?.({ space: raySpace });
+    } catch {
+      pending = undefined;
+    }
+    pending?.then(
+      (source) => {
+        if (this.session !== session) {
+          source.cancel();
+          return;
+        }
+        this.sources.set(raySpace, source);
+      },
+      () => undefined
+    );
+    return null;
+  }
+}
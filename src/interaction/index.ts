@@ -1,3 +1,5 @@
 export { createInteractionAgent } from "./interaction-agent";
 export type { InteractionAgentOptions } from "./interaction-agent";
 export { HandTracker } from "./hand-tracking";
+export { HitTestPlacer } from "./hit-test-placement";
+export type { SurfaceHit } from "./hit-test-placement";
@@ -1,7 +1,9 @@
 import {
   Camera,
+  InstancedMesh,
   LineBasicMaterial,
   Material,
+  Matrix4,
   Mesh,
   MeshStandardMaterial,
   Object3D,
@@ -10,11 +12,14 @@ import {
   Scene,
   Vector3,
   Vector2,
-  WebGLRenderer
+  WebGLRenderer,
+  type Intersection
 } from "three";
 
+import type { PathMetric } from "../contracts/domain";
 import type { IntegrationContext, InteractionAgent } from "../contracts/integration";
 import { HandTracker } from "./hand-tracking";
+import { HitTestPlacer, type SurfaceHit } from "./hit-test-placement";
 
 type SelectableKind = "node" | "link";
 type VisualState = "none" | "hover" | "selected";
@@ -28,6 +33,7 @@ interface MaterialBaseline {
 interface SelectableTarget {
   kind: SelectableKind;
   id: string;
+  /** For instanced entities this is the shared InstancedMesh; compare targets by kind and id. */
   object: Object3D;
 }
 
@@ -62,6 +68,8 @@ const HOVER_PROXIMITY_RADIUS = 0.18;
 const HAND_INTERSECTION_RADIUS = 0.1;
 /** Max distance for finger-pointing ray hover. */
 const HOVER_RAY_MAX_DISTANCE = 3.0;
+/** Placed nodes sit this far off the surface so the node sphere does not clip into it. */
+const PLACEMENT_SURFACE_OFFSET = 0.06;
 
 export interface InteractionAgentOptions {
   scene: Scene;
@@ -82,14 +90,25 @@ export function createInteractionAgent(options: InteractionAgentOptions): Intera
   const rayDirection = new Vector3();
   const orientation = new Quaternion();
   const tmpWorldPos = new Vector3();
+  const tmpInstanceMatrix = new Matrix4();
   const fingerTipPos = new Vector3();
   const fingerRayDir = new Vector3();
+  const surfaceNormal = new Vector3();
 
   // Selection state
   let selectedObject: Object3D | null = null;
   let selectedNodeId: string | null = null;
   let selectedLinkId: string | null = null;
 
+  // Path tracing: while active, the first node pick anchors the path and the second completes it.
+  let pathMetric: PathMetric | null = null;
+  let pathAnchorNodeId: string | null = null;
+  let pathTargetNodeId: string | null = null;
+
+  // Hit-test placement: while a node is armed, XR selects drop it on the surface under the ray.
+  let placementNodeId: string | null = null;
+  let placementHit: SurfaceHit | null = null;
+
   // Hover state
   let hoveredObject: Object3D | null = null;
   let hoveredTarget: SelectableTarget | null = null;
@@ -103,10 +122,13 @@ export function createInteractionAgent(options: InteractionAgentOptions): Intera
   let unsubscribeXrFrame: (() => void) | null = null;
   let unsubscribePinch: (() => void) | null = null;
   let unsubscribePoint: (() => void) | null = null;
+  let unsubscribePathMode: (() => void) | null = null;
+  let unsubscribePlacementMode: (() => void) | null = null;
   let activeSession: SessionLike | null = null;
 
   const materialBaselines = new WeakMap<Material, MaterialBaseline>();
   const handTracker = new HandTracker();
+  const placer = new HitTestPlacer();
   const isCoarsePointer = window.matchMedia("(pointer: coarse)").matches;
 
   // ---- Visual state management ----
@@ -118,6 +140,9 @@ export function createInteractionAgent(options: InteractionAgentOptions): Intera
   };
 
   const applyVisualState = (object: Object3D, state: VisualState): void => {
+    // Instanced entities share one material; the scene renderer styles them per instance
+    // from the hover and selection events instead.
+    if (object instanceof InstancedMesh) return;
     object.traverse((entry) => {
       const apply = (mat: Material) => applyMaterialState(mat, state, materialBaselines);
       const material = (entry as Object3D & { material?: Material | Material[] }).material;
@@ -141,7 +166,7 @@ export function createInteractionAgent(options: InteractionAgentOptions): Intera
   // ---- Hover ----
 
   const updateHover = (context: IntegrationContext, next: SelectableTarget | null): void => {
-    if ((next?.object ?? null) === hoveredObject) return;
+    if (next?.kind === hoveredTarget?.kind && next?.id === hoveredTarget?.id) return;
 
     const prevObj = hoveredObject;
     hoveredObject = next?.object ?? null;
@@ -173,6 +198,35 @@ export function createInteractionAgent(options: InteractionAgentOptions): Intera
       selectedLinkId,
       timestampMs: performance.now()
     });
+
+    if (pathMetric && selectedNodeId) {
+      updatePathEndpoints(context, selectedNodeId);
+    }
+  };
+
+  // ---- Path tracing ----
+
+  const emitPathQuery = (context: IntegrationContext): void => {
+    context.events.emit("interaction/path-query", {
+      fromNodeId: pathAnchorNodeId,
+      toNodeId: pathTargetNodeId,
+      metric: pathMetric ?? "hops",
+      timestampMs: performance.now()
+    });
+  };
+
+  const updatePathEndpoints = (context: IntegrationContext, nodeId: string): void => {
+    if (pathAnchorNodeId && !pathTargetNodeId) {
+      if (nodeId === pathAnchorNodeId) {
+        return;
+      }
+      pathTargetNodeId = nodeId;
+    } else {
+      // Start over from this node; the previous path is cleared until a second pick.
+      pathAnchorNodeId = nodeId;
+      pathTargetNodeId = null;
+    }
+    emitPathQuery(context);
   };
 
   const clearSelection = (context: IntegrationContext): void => {
@@ -182,6 +236,45 @@ export function createInteractionAgent(options: InteractionAgentOptions): Intera
     updateSelection(context, null);
   };
 
+  // ---- Hit-test placement ----
+
+  const updatePlacementPreview = (
+    context: IntegrationContext,
+    frame: unknown,
+    referenceSpace: unknown,
+    timestampMs: number
+  ): void => {
+    if (!placementNodeId) return;
+    placementHit = placer.readHit(frame, referenceSpace);
+    context.events.emit("interaction/placement-preview", {
+      nodeId: placementNodeId,
+      position: placementHit?.position ?? null,
+      rotation: placementHit?.rotation ?? null,
+      timestampMs
+    });
+  };
+
+  const commitPlacement = (context: IntegrationContext): void => {
+    if (!placementNodeId || !placementHit) return;
+    const { position, rotation } = placementHit;
+    orientation.set(rotation.x, rotation.y, rotation.z, rotation.w);
+    surfaceNormal.set(0, 1, 0).applyQuaternion(orientation);
+    context.events.emit("interaction/node-placed", {
+      nodeId: placementNodeId,
+      position: {
+        x: position.x + surfaceNormal.x * PLACEMENT_SURFACE_OFFSET,
+        y: position.y + surfaceNormal.y * PLACEMENT_SURFACE_OFFSET,
+        z: position.z + surfaceNormal.z * PLACEMENT_SURFACE_OFFSET
+      },
+      timestampMs: performance.now()
+    });
+  };
+
+  const cancelPlacement = (context: IntegrationContext): void => {
+    if (!placementNodeId) return;
+    context.events.emit("interaction/placement-mode", { nodeId: null, timestampMs: performance.now() });
+  };
+
   // ---- Picking helpers ----
 
   const pickFromRay = (origin: Vector3, direction: Vector3, maxDistance?: number): SelectableTarget | null => {
@@ -193,7 +286,7 @@ export function createInteractionAgent(options: InteractionAgentOptions): Intera
     if (maxDistance != null) raycaster.far = maxDistance;
     const intersections = raycaster.intersectObjects(options.scene.children, true);
     raycaster.far = prevFar;
-    return pickFirstSelectable(intersections.map((entry) => entry.object));
+    return pickFirstSelectable(intersections);
   };
 
   const pickFromProximity = (point: Vector3, radius: number): (SelectableTarget & { distSq: number }) | null => {
@@ -203,6 +296,24 @@ export function createInteractionAgent(options: InteractionAgentOptions): Intera
     options.scene.traverse((object) => {
       if (!(object instanceof Mesh)) return;
 
+      if (object instanceof InstancedMesh) {
+        for (let instanceId = 0; instanceId < object.count; instanceId++) {
+          const target = resolveSelectableTarget(object, instanceId);
+          if (!target) continue;
+
+          object.getMatrixAt(instanceId, tmpInstanceMatrix);
+          // Hidden instances are collapsed to zero scale at the origin.
+          if (tmpInstanceMatrix.determinant() === 0) continue;
+          tmpWorldPos.setFromMatrixPosition(tmpInstanceMatrix).applyMatrix4(object.matrixWorld);
+          const distSq = tmpWorldPos.distanceToSquared(point);
+          if (distSq < bestDistSq) {
+            bestDistSq = distSq;
+            bestTarget = { ...target, distSq };
+          }
+        }
+        return;
+      }
+
       const target = resolveSelectableTarget(object);
       if (!target) return;
 
@@ -320,12 +431,30 @@ export function createInteractionAgent(options: InteractionAgentOptions): Intera
     detachSessionListeners();
 
     onXrSelectStart = (event: Event) => {
+      if (placementNodeId) {
+        commitPlacement(context);
+        return;
+      }
       const inputEvent = asInputSourceEvent(event);
       if (inputEvent) pickFromInputSourceEvent(context, inputEvent);
     };
     onXrSqueezeStart = (event: Event) => {
+      if (placementNodeId) {
+        cancelPlacement(context);
+        return;
+      }
       const inputEvent = asInputSourceEvent(event);
-      if (inputEvent) pickFromInputSourceEvent(context, inputEvent);
+      if (!inputEvent) return;
+      // Squeezing the node that is already selected arms placement for it; headsets have no
+      // DOM overlay for the Place button.
+      const previousNodeId = selectedNodeId;
+      pickFromInputSourceEvent(context, inputEvent);
+      if (previousNodeId && selectedNodeId === previousNodeId) {
+        context.events.emit("interaction/placement-mode", {
+          nodeId: previousNodeId,
+          timestampMs: performance.now()
+        });
+      }
     };
 
     session.addEventListener("selectstart", onXrSelectStart);
@@ -382,13 +511,19 @@ export function createInteractionAgent(options: InteractionAgentOptions): Intera
           }
           attachSessionListeners(context, context.xrRuntime.getSession());
         } else {
+          // Placement armed before the session starts carries into it; a session ending clears it.
+          const sessionEnded = activeSession !== null;
           detachSessionListeners();
+          if (sessionEnded) {
+            cancelPlacement(context);
+          }
         }
       });
 
       // Per-frame hand tracking + hover
       unsubscribeXrFrame = context.events.on("xr/frame", (tick) => {
         if (!tick.frame || !tick.referenceSpace) return;
+        updatePlacementPreview(context, tick.frame, tick.referenceSpace, tick.time);
         if (isCoarsePointer) {
           handTracker.reset();
           if (hoveredObject) {
@@ -449,14 +584,14 @@ export function createInteractionAgent(options: InteractionAgentOptions): Intera
 
       // Right-hand pinch → select current hover target (or deselect)
       unsubscribePinch = context.events.on("interaction/pinch", (payload) => {
-        if (isCoarsePointer) return;
+        if (isCoarsePointer || placementNodeId) return;
         if (payload.hand !== "right" || payload.state !== "start") return;
         updateSelection(context, hoveredTarget);
       });
 
       // Right-hand point → select via pointing ray
       unsubscribePoint = context.events.on("interaction/point", (payload) => {
-        if (isCoarsePointer) return;
+        if (isCoarsePointer || placementNodeId) return;
         if (payload.hand !== "right" || payload.state !== "start") return;
         fingerTipPos.set(payload.position.x, payload.position.y, payload.position.z);
         fingerRayDir.set(payload.direction.x, payload.direction.y, payload.direction.z);
@@ -464,6 +599,29 @@ export function createInteractionAgent(options: InteractionAgentOptions): Intera
         updateSelection(context, target);
       });
 
+      unsubscribePathMode = context.events.on("interaction/path-mode", (payload) => {
+        if (!payload.active) {
+          pathMetric = null;
+          pathAnchorNodeId = null;
+          pathTargetNodeId = null;
+          emitPathQuery(context);
+          return;
+        }
+        const metricChanged = pathMetric !== null && pathMetric !== payload.metric;
+        pathMetric = payload.metric;
+        if (metricChanged && pathAnchorNodeId && pathTargetNodeId) {
+          emitPathQuery(context);
+        }
+      });
+
+      unsubscribePlacementMode = context.events.on("interaction/placement-mode", (payload) => {
+        placementNodeId = payload.nodeId;
+        placementHit = null;
+        if (!payload.nodeId) {
+          placer.reset();
+        }
+      });
+
       if (context.xrRuntime.getState() === "running") {
         attachSessionListeners(context, context.xrRuntime.getSession());
       }
@@ -486,6 +644,17 @@ export function createInteractionAgent(options: InteractionAgentOptions): Intera
         unsubscribePoint();
         unsubscribePoint = null;
       }
+      if (unsubscribePathMode) {
+        unsubscribePathMode();
+        unsubscribePathMode = null;
+      }
+      if (unsubscribePlacementMode) {
+        unsubscribePlacementMode();
+        unsubscribePlacementMode = null;
+      }
+      placementNodeId = null;
+      placementHit = null;
+      placer.reset();
       handTracker.reset();
       detachSessionListeners();
 
@@ -543,9 +712,9 @@ function asInputSourceEvent(value: unknown): InputSourceEventLike | null {
 
 // ---- Scene picking helpers ----
 
-function pickFirstSelectable(intersections: Object3D[]): SelectableTarget | null {
-  for (const object of intersections) {
-    const target = resolveSelectableTarget(object);
+function pickFirstSelectable(intersections: Intersection[]): SelectableTarget | null {
+  for (const intersection of intersections) {
+    const target = resolveSelectableTarget(intersection.object, intersection.instanceId);
     if (target) {
       return target;
     }
@@ -553,7 +722,15 @@ function pickFirstSelectable(intersections: Object3D[]): SelectableTarget | null
   return null;
 }
 
-function resolveSelectableTarget(object: Object3D): SelectableTarget | null {
+function resolveSelectableTarget(object: Object3D, instanceId?: number): SelectableTarget | null {
+  // Instanced meshes map each instance to its entity; null marks one that is shrinking out.
+  const instanceIds = readSelectableInstanceIds(object);
+  if (instanceIds && instanceId !== undefined) {
+    const selectableType = readSelectableType(object);
+    const selectableId = instanceIds[instanceId] ?? null;
+    return selectableType && selectableId ? { kind: selectableType, id: selectableId, object } : null;
+  }
+
   let cursor: Object3D | null = object;
   while (cursor) {
     const selectableType = readSelectableType(cursor);
@@ -571,6 +748,11 @@ function readSelectableType(object: Object3D): SelectableKind | null {
   return value === "node" || value === "link" ? value : null;
 }
 
+function readSelectableInstanceIds(object: Object3D): Array<string | null> | null {
+  const value = (object.userData as { selectableInstanceIds?: unknown }).selectableInstanceIds;
+  return Array.isArray(value) ? (value as Array<string | null>) : null;
+}
+
 function readSelectableId(object: Object3D): string | null {
   const value = (object.userData as { selectableId?: unknown }).selectableId;
   return typeof value === "string" && value.length > 0 ? value : null;
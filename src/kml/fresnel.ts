@@ -0,0 +1,195 @@
+/**
+ * First Fresnel zone geometry and clearance checks for point-to-point links.
+ *
+ * Heights along a link come from an elevation profile: terrain plus any obstructions
+ * (trees, roofs) the planner wants checked. A link is "clear" when every sample leaves at
+ * least 60% of the first Fresnel zone radius free below the line of sight, with the usual
+ * 4/3 effective Earth radius for curvature.
+ */
+
+import type { KmlTerrainProfile } from "./parser";
+import { geoToLocal } from "./geo-projection";
+
+/** Assumed for links whose description names no frequency. */
+export const DEFAULT_FRESNEL_FREQUENCY_MHZ = 5800;
+/** Share of the first Fresnel zone that must stay free for a link to count as clear. */
+export const FRESNEL_CLEARANCE_TARGET = 0.6;
+
+const SPEED_OF_LIGHT_M_S = 299_792_458;
+const EFFECTIVE_EARTH_RADIUS_M = (4 / 3) * 6_371_000;
+/** Evenly spaced points checked along a link, on top of the profile's own samples. */
+const CLEARANCE_STATIONS = 64;
+
+export interface ElevationSample {
+  /** Distance from the link's first endpoint. */
+  distanceMeters: number;
+  /** Absolute height of terrain plus obstructions. */
+  elevationMeters: number;
+}
+
+/** Elevation samples under one link, ordered from its first endpoint. */
+export interface LinkElevationProfile {
+  linkId: string;
+  samples: ElevationSample[];
+}
+
+export type FresnelClearanceStatus = "clear" | "marginal" | "obstructed" | "unknown";
+
+export interface FresnelClearance {
+  status: FresnelClearanceStatus;
+  /**
+   * Smallest free height below the line of sight as a fraction of the first Fresnel zone
+   * radius there; negative once the line of sight itself is blocked. Null without a profile.
+   */
+  minClearanceRatio: number | null;
+  /** Where `minClearanceRatio` occurs. */
+  worstDistanceMeters: number | null;
+}
+
+export class ElevationProfileError extends Error {
+  readonly profileIndex: number | null;
+
+  constructor(message: string, profileIndex: number | null) {
+    super(profileIndex === null ? message : `Profile ${profileIndex}: ${message}`);
+    this.name = "ElevationProfileError";
+    this.profileIndex = profileIndex;
+  }
+}
+
+/** Radius of the first Fresnel zone `d1` / `d2` meters from the two ends. */
+export function firstFresnelRadius(d1: number, d2: number, frequencyMhz: number): number {
+  const total = d1 + d2;
+  if (total <= 0 || d1 <= 0 || d2 <= 0) {
+    return 0;
+  }
+  const wavelength = SPEED_OF_LIGHT_M_S / (frequencyMhz * 1e6);
+  return Math.sqrt((wavelength * d1 * d2) / total);
+}
+
+/** How far the Earth bulges into the line of sight at this point. */
+export function earthBulge(d1: number, d2: number): number {
+  return (d1 * d2) / (2 * EFFECTIVE_EARTH_RADIUS_M);
+}
+
+/**
+ * Checks the profile against the line of sight between two antennas at absolute heights
+ * `startHeight` and `endHeight`, `distanceMeters` apart. Terrain between samples is
+ * interpolated, so a profile of just the ground at both ends still gets checked. The ends
+ * themselves are skipped since the zone has no width there. Samples must be sorted by distance.
+ */
+export function assessFresnelClearance(
+  samples: ElevationSample[],
+  startHeight: number,
+  endHeight: number,
+  distanceMeters: number,
+  frequencyMhz: number
+): FresnelClearance {
+  let minClearanceRatio: number | null = null;
+  let worstDistanceMeters: number | null = null;
+
+  if (samples.length === 0) {
+    return { status: "unknown", minClearanceRatio, worstDistanceMeters };
+  }
+
+  const stations = samples.map((sample) => sample.distanceMeters);
+  for (let i = 1; i < CLEARANCE_STATIONS; i++) {
+    stations.push((distanceMeters * i) / CLEARANCE_STATIONS);
+  }
+  for (const d1 of stations) {
+    const d2 = distanceMeters - d1;
+    const radius = firstFresnelRadius(d1, d2, frequencyMhz);
+    if (radius <= 0) {
+      continue;
+    }
+    const sightHeight = startHeight + (endHeight - startHeight) * (d1 / distanceMeters);
+    const ratio = (sightHeight - elevationAt(samples, d1) - earthBulge(d1, d2)) / radius;
+    if (minClearanceRatio === null || ratio < minClearanceRatio) {
+      minClearanceRatio = ratio;
+      worstDistanceMeters = d1;
+    }
+  }
+
+  return {
+    status: selectClearanceStatus(minClearanceRatio),
+    minClearanceRatio,
+    worstDistanceMeters
+  };
+}
+
+/** Profile height at `distanceMeters`, interpolated between sorted samples and held flat past the ends. */
+export function elevationAt(samples: ElevationSample[], distanceMeters: number): number {
+  if (distanceMeters <= samples[0].distanceMeters) {
+    return samples[0].elevationMeters;
+  }
+  for (let i = 1; i < samples.length; i++) {
+    const next = samples[i];
+    if (distanceMeters <= next.distanceMeters) {
+      const previous = samples[i - 1];
+      const span = next.distanceMeters - previous.distanceMeters;
+      const t = span > 0 ? (distanceMeters - previous.distanceMeters) / span : 1;
+      return previous.elevationMeters + (next.elevationMeters - previous.elevationMeters) * t;
+    }
+  }
+  return samples[samples.length - 1].elevationMeters;
+}
+
+export function selectClearanceStatus(minClearanceRatio: number | null): FresnelClearanceStatus {
+  if (minClearanceRatio === null) {
+    return "unknown";
+  }
+  if (minClearanceRatio >= FRESNEL_CLEARANCE_TARGET) {
+    return "clear";
+  }
+  return minClearanceRatio >= 0 ? "marginal" : "obstructed";
+}
+
+/** Turns a KML terrain LineString into samples by distance along the ground track. */
+export function profileFromTerrain(linkId: string, terrain: KmlTerrainProfile): LinkElevationProfile {
+  const origin = terrain.points[0];
+  const samples = terrain.points.map((point) => {
+    const local = geoToLocal(point.lat, point.lon, point.alt, origin);
+    return { distanceMeters: Math.hypot(local.x, local.z), elevationMeters: point.alt };
+  });
+  return { linkId, samples };
+}
+
+/**
+ * Validates a supplied profile list:
+ * `[{ "linkId": "...", "samples": [{ "distanceMeters": 0, "elevationMeters": -65 }, ...] }]`.
+ * Samples are sorted by distance.
+ */
+export function parseElevationProfiles(input: unknown): LinkElevationProfile[] {
+  if (!Array.isArray(input)) {
+    throw new ElevationProfileError("elevation profiles must be a JSON array.", null);
+  }
+
+  return input.map((raw, index) => {
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+      throw new ElevationProfileError("must be an object.", index);
+    }
+    const profile = raw as Record<string, unknown>;
+    if (typeof profile.linkId !== "string" || profile.linkId.length === 0) {
+      throw new ElevationProfileError("linkId must be a non-empty string.", index);
+    }
+    if (!Array.isArray(profile.samples) || profile.samples.length < 2) {
+      throw new ElevationProfileError("samples must be an array of at least two samples.", index);
+    }
+
+    const samples = profile.samples.map((sample: unknown, sampleIndex: number): ElevationSample => {
+      const record = sample as Record<string, unknown> | null;
+      if (!isFiniteNumber(record?.distanceMeters) || !isFiniteNumber(record?.elevationMeters)) {
+        throw new ElevationProfileError(
+          `samples[${sampleIndex}] needs finite distanceMeters and elevationMeters.`,
+          index
+        );
+      }
+      return { distanceMeters: record.distanceMeters, elevationMeters: record.elevationMeters };
+    });
+    samples.sort((a, b) => a.distanceMeters - b.distanceMeters);
+    return { linkId: profile.linkId, samples };
+  });
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
@@ -1,6 +1,24 @@
 export { parseKml } from "./parser";
-export type { KmlSite, KmlLink, KmlNetwork } from "./parser";
+export type { KmlSite, KmlLink, KmlNetwork, KmlTerrainProfile } from "./parser";
 export { KmlMapRenderer } from "./kml-map-renderer";
 export type { KmlMapRendererOptions } from "./kml-map-renderer";
 export { computeCentroid, geoToLocal, computeBoundingRadius } from "./geo-projection";
 export type { LocalPoint, GeoCenter } from "./geo-projection";
+export {
+  DEFAULT_FRESNEL_FREQUENCY_MHZ,
+  FRESNEL_CLEARANCE_TARGET,
+  ElevationProfileError,
+  assessFresnelClearance,
+  earthBulge,
+  elevationAt,
+  firstFresnelRadius,
+  parseElevationProfiles,
+  profileFromTerrain,
+  selectClearanceStatus
+} from "./fresnel";
+export type {
+  ElevationSample,
+  FresnelClearance,
+  FresnelClearanceStatus,
+  LinkElevationProfile
+} from "./fresnel";
@@ -2,6 +2,10 @@
  * Renders a KML network as a miniature 3D map anchored to a detected
  * ArUco marker. The entire network is scaled to fit ~0.5m across so it
  * appears as a tabletop overlay.
+ *
+ * Optionally wraps each wireless link in its first Fresnel zone, colored by
+ * clearance against the link's elevation profile, and charts the profile of
+ * the selected link in a panel above it.
  */
 
 import {
@@ -20,15 +24,55 @@ import {
   Vector3,
 } from "three";
 
-import type { KmlNetwork } from "./parser";
+import type { KmlLink, KmlNetwork, KmlTerrainProfile } from "./parser";
 import type { GeoCenter, LocalPoint } from "./geo-projection";
 import { computeBoundingRadius, computeCentroid, geoToLocal } from "./geo-projection";
+import {
+  DEFAULT_FRESNEL_FREQUENCY_MHZ,
+  FRESNEL_CLEARANCE_TARGET,
+  assessFresnelClearance,
+  earthBulge,
+  elevationAt,
+  firstFresnelRadius,
+  profileFromTerrain,
+  type ElevationSample,
+  type FresnelClearance,
+  type FresnelClearanceStatus,
+  type LinkElevationProfile,
+} from "./fresnel";
+
+/** Zones are far thinner than the map scale; this keeps their width at least this share of their length. */
+const MIN_FRESNEL_ASPECT = 0.04;
+/** Terrain profile ends this close (in degrees) to a link's ends belong to that link. */
+const TERRAIN_MATCH_TOLERANCE_DEG = 0.0002;
+const PROFILE_PANEL_WIDTH = 512;
+const PROFILE_PANEL_HEIGHT = 256;
+const UP = new Vector3(0, 1, 0);
 
 export interface KmlMapRendererOptions {
   /** Target physical size of the map in meters. Default 0.5. */
   mapSizeMeters?: number;
   /** Vertical offset above the marker surface. Default 0.02. */
   hoverOffsetMeters?: number;
+  /** Draw Fresnel zones around wireless links and chart the selected link's profile. Default false. */
+  fresnelZones?: boolean;
+  /** Terrain/obstruction profiles by link ID; they win over the KML's own terrain profiles. */
+  elevationProfiles?: LinkElevationProfile[];
+}
+
+interface WirelessLinkPlan {
+  name: string;
+  /** Link ends in map space. */
+  start: Vector3;
+  end: Vector3;
+  distanceMeters: number;
+  frequencyMhz: number;
+  /** Absolute antenna heights at either end. */
+  startHeight: number;
+  endHeight: number;
+  samples: ElevationSample[] | null;
+  clearance: FresnelClearance;
+  zone: Mesh<SphereGeometry, MeshStandardMaterial>;
 }
 
 interface SiteMesh {
@@ -42,8 +86,15 @@ export class KmlMapRenderer {
   private readonly root = new Group();
   private readonly siteGroup = new Group();
   private readonly linkGroup = new Group();
+  private readonly fresnelGroup = new Group();
   private readonly mapSizeMeters: number;
   private readonly hoverOffsetMeters: number;
+  private readonly fresnelZones: boolean;
+  private readonly elevationProfiles: Map<string, ElevationSample[]>;
+  private readonly wirelessLinks = new Map<string, WirelessLinkPlan>();
+  private fresnelGeometry: SphereGeometry | null = null;
+  private profilePanel: Sprite | null = null;
+  private selectedLinkId: string | null = null;
   private siteMeshes: SiteMesh[] = [];
   private scale = 1;
   private center: GeoCenter = { lat: 0, lon: 0, alt: 0 };
@@ -52,8 +103,13 @@ export class KmlMapRenderer {
   constructor(options: KmlMapRendererOptions = {}) {
     this.mapSizeMeters = options.mapSizeMeters ?? 1.2;
     this.hoverOffsetMeters = options.hoverOffsetMeters ?? 0.02;
+    this.fresnelZones = options.fresnelZones ?? false;
+    this.elevationProfiles = new Map(
+      (options.elevationProfiles ?? []).map((profile) => [profile.linkId, profile.samples])
+    );
     this.root.name = "kml-map";
-    this.root.add(this.siteGroup, this.linkGroup);
+    this.fresnelGroup.name = "kml-fresnel-zones";
+    this.root.add(this.siteGroup, this.linkGroup, this.fresnelGroup);
     this.root.visible = false;
   }
 
@@ -145,9 +201,41 @@ export class KmlMapRenderer {
       );
       line.name = `kml-link-${link.name}`;
       this.linkGroup.add(line);
+
+      if (this.fresnelZones && isWirelessLink(link)) {
+        this.addWirelessLink(link, network.terrainProfiles);
+      }
     }
 
     this.loaded = true;
+    this.setSelectedLink(this.selectedLinkId);
+  }
+
+  /**
+   * Shows the elevation profile of a wireless link in a panel above it; null or a link
+   * without a Fresnel zone hides the panel. IDs are KML placemark IDs, which the KML
+   * stress topology reuses as link IDs.
+   */
+  setSelectedLink(linkId: string | null): void {
+    this.selectedLinkId = linkId;
+    const plan = linkId ? this.wirelessLinks.get(linkId) : undefined;
+    if (!plan) {
+      if (this.profilePanel) {
+        this.profilePanel.visible = false;
+      }
+      return;
+    }
+
+    if (!this.profilePanel) {
+      this.profilePanel = createProfilePanel();
+      this.root.add(this.profilePanel);
+    }
+    const material = this.profilePanel.material;
+    drawProfileChart(material.map!.image as HTMLCanvasElement, plan);
+    material.map!.needsUpdate = true;
+    this.profilePanel.position.copy(plan.start).add(plan.end).multiplyScalar(0.5);
+    this.profilePanel.position.y += 0.09;
+    this.profilePanel.visible = true;
   }
 
   /**
@@ -185,12 +273,290 @@ export class KmlMapRenderer {
       this.siteGroup.remove(this.siteGroup.children[i]);
     }
 
+    for (const plan of this.wirelessLinks.values()) {
+      plan.zone.material.dispose();
+      this.fresnelGroup.remove(plan.zone);
+    }
+    this.wirelessLinks.clear();
+    this.fresnelGeometry?.dispose();
+    this.fresnelGeometry = null;
+    if (this.profilePanel) {
+      this.profilePanel.material.map?.dispose();
+      this.profilePanel.material.dispose();
+      this.root.remove(this.profilePanel);
+      this.profilePanel = null;
+    }
+
     this.loaded = false;
   }
+
+  /** Sizes the link's first Fresnel zone and colors it by clearance. */
+  private addWirelessLink(link: KmlLink, terrainProfiles: KmlTerrainProfile[]): void {
+    const first = link.points[0];
+    const last = link.points[link.points.length - 1];
+    const ground = geoToLocal(last.lat, last.lon, last.alt, first);
+    const distanceMeters = link.rf?.distanceMeters ?? Math.hypot(ground.x, ground.z);
+    if (distanceMeters <= 0) return;
+    const frequencyMhz = link.rf?.frequencyMhz ?? DEFAULT_FRESNEL_FREQUENCY_MHZ;
+
+    const samples =
+      this.elevationProfiles.get(link.id) ?? matchTerrainProfile(link, terrainProfiles, distanceMeters);
+    const clearance = samples
+      ? assessFresnelClearance(samples, first.alt, last.alt, distanceMeters, frequencyMhz)
+      : { status: "unknown" as const, minClearanceRatio: null, worstDistanceMeters: null };
+
+    const start = this.toMapPosition(first);
+    const end = this.toMapPosition(last);
+    const axis = new Vector3().subVectors(end, start);
+    const mapLength = axis.length();
+    if (mapLength <= 0) return;
+
+    this.fresnelGeometry ??= new SphereGeometry(1, 24, 12);
+    const color = selectClearanceColor(clearance.status);
+    const zone = new Mesh(
+      this.fresnelGeometry,
+      new MeshStandardMaterial({
+        color,
+        emissive: color,
+        emissiveIntensity: 0.3,
+        transparent: true,
+        opacity: 0.22,
+        depthWrite: false,
+      })
+    );
+    const maxRadius = firstFresnelRadius(distanceMeters / 2, distanceMeters / 2, frequencyMhz);
+    const radius = Math.max(maxRadius * this.scale, mapLength * MIN_FRESNEL_ASPECT);
+    zone.position.copy(start).add(end).multiplyScalar(0.5);
+    zone.quaternion.setFromUnitVectors(UP, axis.divideScalar(mapLength));
+    zone.scale.set(radius, mapLength / 2, radius);
+    zone.name = `kml-fresnel-${link.name}`;
+    this.fresnelGroup.add(zone);
+
+    this.wirelessLinks.set(link.id, {
+      name: link.name,
+      start,
+      end,
+      distanceMeters,
+      frequencyMhz,
+      startHeight: first.alt,
+      endHeight: last.alt,
+      samples,
+      clearance,
+      zone,
+    });
+  }
+
+  private toMapPosition(point: { lat: number; lon: number; alt: number }): Vector3 {
+    const local = geoToLocal(point.lat, point.lon, point.alt, this.center);
+    return new Vector3(
+      local.x * this.scale,
+      this.hoverOffsetMeters + local.y * this.scale * 0.01,
+      local.z * this.scale
+    );
+  }
 }
 
 // ---- Helpers ----
 
+function isWirelessLink(link: KmlLink): boolean {
+  return link.rf !== null || /ptp|line of sight|wireless/i.test(link.name);
+}
+
+/**
+ * Finds the terrain profile UISP exported for this link: same ends, in either direction,
+ * and the most samples when several match. Samples are flipped to run from the link's first point.
+ */
+function matchTerrainProfile(
+  link: KmlLink,
+  terrainProfiles: KmlTerrainProfile[],
+  distanceMeters: number
+): ElevationSample[] | null {
+  const first = link.points[0];
+  const last = link.points[link.points.length - 1];
+  let best: { terrain: KmlTerrainProfile; reversed: boolean } | null = null;
+  for (const terrain of terrainProfiles) {
+    const start = terrain.points[0];
+    const end = terrain.points[terrain.points.length - 1];
+    const forward = isSameGroundPoint(start, first) && isSameGroundPoint(end, last);
+    const reversed = isSameGroundPoint(start, last) && isSameGroundPoint(end, first);
+    if ((forward || reversed) && (!best || terrain.points.length > best.terrain.points.length)) {
+      best = { terrain, reversed: !forward };
+    }
+  }
+  if (!best) return null;
+
+  const { reversed } = best;
+  const { samples } = profileFromTerrain(link.id, best.terrain);
+  // Stretch the ground track to the link distance so both agree on where the ends are.
+  const track = samples[samples.length - 1].distanceMeters || 1;
+  return samples
+    .map((sample) => {
+      const along = (sample.distanceMeters / track) * distanceMeters;
+      return {
+        distanceMeters: reversed ? distanceMeters - along : along,
+        elevationMeters: sample.elevationMeters,
+      };
+    })
+    .sort((a, b) => a.distanceMeters - b.distanceMeters);
+}
+
+function isSameGroundPoint(a: { lat: number; lon: number }, b: { lat: number; lon: number }): boolean {
+  return Math.abs(a.lat - b.lat) < TERRAIN_MATCH_TOLERANCE_DEG && Math.abs(a.lon - b.lon) < TERRAIN_MATCH_TOLERANCE_DEG;
+}
+
+function selectClearanceColor(status: FresnelClearanceStatus): string {
+  if (status === "clear") return "#3ed58a";
+  if (status === "marginal") return "#ffcf52";
+  if (status === "obstructed") return "#ff6464";
+  return "#8ea7b2";
+}
+
+function createProfilePanel(): Sprite {
+  const canvas = document.createElement("canvas");
+  canvas.width = PROFILE_PANEL_WIDTH;
+  canvas.height = PROFILE_PANEL_HEIGHT;
+  const sprite = new Sprite(
+    new SpriteMaterial({
+      map: new CanvasTexture(canvas),
+      transparent: true,
+      depthTest: false,
+    })
+  );
+  sprite.name = "kml-elevation-profile";
+  sprite.scale.set(0.24, 0.12, 1);
+  sprite.renderOrder = 10;
+  return sprite;
+}
+
+/**
+ * Side view of the link: terrain (with Earth bulge) filled in brown, the line of sight,
+ * the first Fresnel zone and its 60% line, and the tightest spot marked.
+ */
+function drawProfileChart(canvas: HTMLCanvasElement, plan: WirelessLinkPlan): void {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+  const w = canvas.width;
+  const h = canvas.height;
+  const color = selectClearanceColor(plan.clearance.status);
+  ctx.clearRect(0, 0, w, h);
+
+  ctx.fillStyle = "rgba(6, 12, 16, 0.86)";
+  ctx.beginPath();
+  ctx.roundRect(2, 2, w - 4, h - 4, 10);
+  ctx.fill();
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2;
+  ctx.stroke();
+
+  // Header
+  ctx.font = "bold 22px monospace";
+  ctx.textAlign = "left";
+  ctx.fillStyle = "#ddeeff";
+  ctx.fillText(shortenName(plan.name), 16, 32);
+  ctx.font = "16px monospace";
+  ctx.fillStyle = "#8899aa";
+  ctx.textAlign = "right";
+  ctx.fillText(
+    `${formatDistance(plan.distanceMeters)}  ${(plan.frequencyMhz / 1000).toFixed(1)} GHz`,
+    w - 16,
+    32
+  );
+  ctx.fillStyle = color;
+  ctx.fillText(describeClearance(plan.clearance), w - 16, 54);
+  ctx.textAlign = "left";
+
+  const left = 16;
+  const right = w - 16;
+  const top = 66;
+  const bottom = h - 16;
+  const D = plan.distanceMeters;
+  const sightAt = (d: number): number => plan.startHeight + (plan.endHeight - plan.startHeight) * (d / D);
+  const radiusAt = (d: number): number => firstFresnelRadius(d, D - d, plan.frequencyMhz);
+  const steps = 48;
+
+  // Vertical range covers the zone and the terrain.
+  let minY = Math.min(plan.startHeight, plan.endHeight) - radiusAt(D / 2);
+  let maxY = Math.max(plan.startHeight, plan.endHeight) + radiusAt(D / 2);
+  const samples = plan.samples;
+  const terrain = samples
+    ?.map((sample) => sample.distanceMeters)
+    .concat(Array.from({ length: steps + 1 }, (_, i) => (i / steps) * D))
+    .filter((d) => d >= 0 && d <= D)
+    .sort((x, y) => x - y)
+    .map((d) => ({ d, y: elevationAt(samples!, d) + earthBulge(d, D - d) }));
+  for (const point of terrain ?? []) {
+    minY = Math.min(minY, point.y);
+    maxY = Math.max(maxY, point.y);
+  }
+  const pad = Math.max((maxY - minY) * 0.08, 1);
+  minY -= pad;
+  maxY += pad;
+  const px = (d: number): number => left + (d / D) * (right - left);
+  const py = (y: number): number => bottom - ((y - minY) / (maxY - minY)) * (bottom - top);
+
+  if (terrain && terrain.length > 0) {
+    ctx.fillStyle = "rgba(139, 110, 78, 0.85)";
+    ctx.beginPath();
+    ctx.moveTo(px(terrain[0].d), bottom);
+    for (const point of terrain) ctx.lineTo(px(point.d), py(point.y));
+    ctx.lineTo(px(terrain[terrain.length - 1].d), bottom);
+    ctx.closePath();
+    ctx.fill();
+  } else {
+    ctx.font = "14px monospace";
+    ctx.fillStyle = "#667788";
+    ctx.fillText("no elevation profile", left + 8, bottom - 8);
+  }
+
+  // First Fresnel zone and the 60% line below the line of sight
+  const traceZone = (factor: number): void => {
+    ctx.beginPath();
+    for (let i = 0; i <= steps; i++) {
+      const d = (i / steps) * D;
+      const y = sightAt(d) + factor * radiusAt(d);
+      if (i === 0) ctx.moveTo(px(d), py(y));
+      else ctx.lineTo(px(d), py(y));
+    }
+    ctx.stroke();
+  };
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1.5;
+  ctx.setLineDash([6, 4]);
+  traceZone(1);
+  traceZone(-1);
+  ctx.globalAlpha = 0.5;
+  traceZone(-FRESNEL_CLEARANCE_TARGET);
+  ctx.globalAlpha = 1;
+  ctx.setLineDash([]);
+
+  // Line of sight
+  ctx.strokeStyle = "#ddeeff";
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(px(0), py(plan.startHeight));
+  ctx.lineTo(px(D), py(plan.endHeight));
+  ctx.stroke();
+
+  const worst = plan.clearance.worstDistanceMeters;
+  if (worst !== null && plan.samples) {
+    const worstY = elevationAt(plan.samples, worst) + earthBulge(worst, D - worst);
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.arc(px(worst), py(worstY), 5, 0, Math.PI * 2);
+    ctx.fill();
+  }
+}
+
+function describeClearance(clearance: FresnelClearance): string {
+  if (clearance.minClearanceRatio === null) return "clearance unknown";
+  if (clearance.status === "obstructed") return "line of sight blocked";
+  return `Fresnel ${Math.round(Math.min(clearance.minClearanceRatio, 1) * 100)}% clear`;
+}
+
+function formatDistance(meters: number): string {
+  return meters >= 1000 ? `${(meters / 1000).toFixed(2)} km` : `${meters.toFixed(0)} m`;
+}
+
 function isTower(name: string): boolean {
   return /^(chowtower|venus|mars|tao|neocity)$/i.test(name.split("-")[0]);
 }
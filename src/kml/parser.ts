@@ -1,8 +1,12 @@
 /**
  * KML parser for UISP Design Center network topology exports.
  * Extracts site Placemarks (Points) and link Placemarks (LineStrings).
+ * Link descriptions are plain "key: value" text or small HTML tables;
+ * RF parameters are read from either when present.
  */
 
+import type { WirelessLinkMetrics } from "../contracts/domain";
+
 export interface KmlSite {
   id: string;
   name: string;
@@ -16,12 +20,24 @@ export interface KmlLink {
   id: string;
   name: string;
   points: Array<{ lat: number; lon: number; alt: number }>;
+  /** RF parameters from the description; null when it names none. */
+  rf: WirelessLinkMetrics | null;
+}
+
+/**
+ * Ground (or obstruction) heights under a link, as UISP exports them next to the link.
+ * Only absolute profiles count; UISP's ground-clamped "Terrain profile" twin is all zeros.
+ */
+export interface KmlTerrainProfile {
+  id: string;
+  points: Array<{ lat: number; lon: number; alt: number }>;
 }
 
 export interface KmlNetwork {
   name: string;
   sites: KmlSite[];
   links: KmlLink[];
+  terrainProfiles: KmlTerrainProfile[];
 }
 
 /**
@@ -29,6 +45,7 @@ export interface KmlNetwork {
  * Sites = Placemarks containing a <Point>.
  * Links = Placemarks containing a <LineString> whose name is NOT a
  * height label (e.g., "10 m", "-5 m") and NOT "axisLabels".
+ * Terrain profiles = LineStrings named "... terrain profile" with absolute altitudes.
  */
 export function parseKml(kmlText: string): KmlNetwork {
   const parser = new DOMParser();
@@ -41,6 +58,7 @@ export function parseKml(kmlText: string): KmlNetwork {
 
   const sites: KmlSite[] = [];
   const links: KmlLink[] = [];
+  const terrainProfiles: KmlTerrainProfile[] = [];
 
   const placemarks = doc.getElementsByTagNameNS(ns, "Placemark");
 
@@ -76,6 +94,12 @@ export function parseKml(kmlText: string): KmlNetwork {
       const coords = lineString.getElementsByTagNameNS(ns, "coordinates")[0]?.textContent?.trim();
       if (coords) {
         const points = parseCoordinateList(coords);
+        if (isTerrainProfile(name)) {
+          if (points.length >= 2 && isAbsoluteAltitude(lineString, ns)) {
+            terrainProfiles.push({ id: pm.getAttribute("id") ?? `terrain-${i}`, points });
+          }
+          continue;
+        }
         if (points.length >= 2) {
           // Only include if it looks like a real link (connects two distinct points)
           const first = points[0];
@@ -86,6 +110,7 @@ export function parseKml(kmlText: string): KmlNetwork {
               id: pm.getAttribute("id") ?? `link-${i}`,
               name,
               points,
+              rf: parseRfDescription(desc),
             });
           }
         }
@@ -96,13 +121,22 @@ export function parseKml(kmlText: string): KmlNetwork {
   // Deduplicate sites by name (UISP often has multiple placemarks per site)
   const uniqueSites = deduplicateSites(sites);
 
-  return { name: docName, sites: uniqueSites, links };
+  return { name: docName, sites: uniqueSites, links, terrainProfiles };
 }
 
 function isHeightLabel(name: string): boolean {
   return /^-?\d+\s*m$/.test(name.trim()) || name.trim() === "axisLabels";
 }
 
+function isTerrainProfile(name: string): boolean {
+  return /terrain profile/i.test(name);
+}
+
+function isAbsoluteAltitude(lineString: Element, ns: string): boolean {
+  const mode = lineString.getElementsByTagNameNS(ns, "altitudeMode")[0]?.textContent?.trim();
+  return mode === "absolute";
+}
+
 function parseCoordinate(text: string): { lat: number; lon: number; alt: number } | null {
   const parts = text.split(",").map((s) => parseFloat(s.trim()));
   if (parts.length < 2 || isNaN(parts[0]) || isNaN(parts[1])) return null;
@@ -122,6 +156,119 @@ function parseCoordinateList(text: string): Array<{ lat: number; lon: number; al
     .filter((c): c is NonNullable<typeof c> => c !== null);
 }
 
+/**
+ * Reads RF parameters from a link description such as "distance: 1.66 km" or an HTML
+ * table of "Frequency | 5800 MHz" rows. Unknown keys and unparseable values are skipped.
+ */
+function parseRfDescription(description: string): WirelessLinkMetrics | null {
+  const rf: WirelessLinkMetrics = {};
+
+  for (const [label, value] of readDescriptionFields(description)) {
+    const key = label.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+    const number = parseLeadingNumber(value);
+
+    if (/fresnel/.test(key)) {
+      if (number !== null) rf.fresnelClearancePct = number;
+    } else if (/(expected|predicted|estimated|calculated).*(signal|rssi|rx)|(signal|rssi).*(expected|predicted)/.test(key)) {
+      if (number !== null) rf.expectedSignalDbm = number;
+    } else if (/^(actual |measured |current )?(signal|rssi|rx signal|rx level)( strength)?$/.test(key)) {
+      if (number !== null) rf.actualSignalDbm = number;
+    } else if (/capacity/.test(key) || (/bandwidth/.test(key) && /bps|bit/i.test(value))) {
+      const mbps = parseRateMbps(value);
+      if (mbps !== null) rf.capacityMbps = mbps;
+    } else if (/channel width|bandwidth/.test(key)) {
+      // Widths are MHz unless stated otherwise (60 GHz radios use 2.16 GHz channels).
+      if (number !== null) rf.channelWidthMhz = /ghz/i.test(value) ? number * 1000 : number;
+    } else if (/frequency|^freq/.test(key)) {
+      const mhz = parseFrequencyMhz(value);
+      if (mhz !== null) rf.frequencyMhz = mhz;
+    } else if (/modulation|^mcs/.test(key)) {
+      const modulation = value.trim();
+      if (modulation) rf.modulation = /^\d+$/.test(modulation) ? `MCS ${modulation}` : modulation;
+    } else if (/distance/.test(key)) {
+      const meters = parseDistanceMeters(value);
+      if (meters !== null) rf.distanceMeters = meters;
+    }
+  }
+
+  return Object.keys(rf).length > 0 ? rf : null;
+}
+
+/** Label/value pairs from table rows ("<td>Label</td><td>Value</td>") and "label: value" text. */
+function readDescriptionFields(description: string): Array<[string, string]> {
+  const text = decodeEntities(
+    description
+      .replace(/<br\s*\/?>|<\/(tr|p|div|li|h\d)>/gi, "\n")
+      .replace(/<\/t[dh]>/gi, "\t")
+      .replace(/<[^>]*>/g, "")
+  );
+
+  const fields: Array<[string, string]> = [];
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const cells = line.split("\t").map((cell) => cell.trim()).filter((cell) => cell.length > 0);
+    if (cells.length >= 2) {
+      fields.push([cells[0].replace(/:$/, ""), cells[1]]);
+      continue;
+    }
+
+    // "latitude: 33.35, longitude: -115.73": commas only split before another "key:".
+    for (const part of line.split(/,\s*(?=[A-Za-z][^,:]*:)/)) {
+      const colon = part.indexOf(":");
+      if (colon > 0) {
+        fields.push([part.slice(0, colon).trim(), part.slice(colon + 1).trim()]);
+      }
+    }
+  }
+  return fields;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&");
+}
+
+function parseLeadingNumber(value: string): number | null {
+  const match = /-?\d[\d,]*(\.\d+)?/.exec(value);
+  if (!match) return null;
+  const number = parseFloat(match[0].replace(/,/g, ""));
+  return Number.isFinite(number) ? number : null;
+}
+
+/** "5.8 GHz", "5800 MHz" or a bare number (GHz below 100, else MHz). */
+function parseFrequencyMhz(value: string): number | null {
+  const number = parseLeadingNumber(value);
+  if (number === null) return null;
+  if (/ghz/i.test(value)) return number * 1000;
+  if (/khz/i.test(value)) return number / 1000;
+  if (/mhz/i.test(value)) return number;
+  return number < 100 ? number * 1000 : number;
+}
+
+function parseRateMbps(value: string): number | null {
+  const number = parseLeadingNumber(value);
+  if (number === null) return null;
+  if (/gbps|gbit/i.test(value)) return number * 1000;
+  if (/kbps|kbit/i.test(value)) return number / 1000;
+  return number;
+}
+
+function parseDistanceMeters(value: string): number | null {
+  const number = parseLeadingNumber(value);
+  if (number === null) return null;
+  if (/\bkm\b/i.test(value)) return number * 1000;
+  if (/\bmi(les?)?\b/i.test(value)) return number * 1609.344;
+  if (/\bft\b|feet/i.test(value)) return number * 0.3048;
+  return number;
+}
+
 function deduplicateSites(sites: KmlSite[]): KmlSite[] {
   const seen = new Map<string, KmlSite>();
   for (const site of sites) {
@@ -0,0 +1,152 @@
+/**
+ * Head-locked toast stack for alert notifications.
+ * Newest toast on top; raised alerts linger longer than clears.
+ */
+
+import {
+  Camera,
+  CanvasTexture,
+  Quaternion,
+  Sprite,
+  SpriteMaterial,
+  Vector3,
+} from "three";
+
+import type { AlertEvent } from "../contracts/events";
+
+const MAX_TOASTS = 4;
+const RAISED_TOAST_MS = 8000;
+const CLEARED_TOAST_MS = 4000;
+const TOAST_HEIGHT = 42;
+const TOAST_GAP = 4;
+
+interface Toast {
+  alert: AlertEvent;
+  kind: "raised" | "cleared";
+  expiresAtMs: number;
+}
+
+export class AlertToastStack {
+  private readonly canvas: HTMLCanvasElement;
+  private readonly ctx: CanvasRenderingContext2D;
+  private readonly texture: CanvasTexture;
+  readonly sprite: Sprite;
+  private toasts: Toast[] = [];
+  private dirty = false;
+
+  /** Offset from camera (top-right corner). */
+  private readonly followOffset = new Vector3(0.17, 0.12, -0.5);
+  private readonly tmpPos = new Vector3();
+  private readonly tmpQuat = new Quaternion();
+  private readonly tmpForward = new Vector3();
+  private readonly tmpRight = new Vector3();
+  private readonly tmpUp = new Vector3();
+
+  constructor() {
+    this.canvas = document.createElement("canvas");
+    this.canvas.width = 256;
+    this.canvas.height = MAX_TOASTS * (TOAST_HEIGHT + TOAST_GAP);
+    this.ctx = this.canvas.getContext("2d")!;
+
+    this.texture = new CanvasTexture(this.canvas);
+    const material = new SpriteMaterial({
+      map: this.texture,
+      transparent: true,
+      depthTest: false,
+    });
+    this.sprite = new Sprite(material);
+    this.sprite.name = "alert-toasts";
+    this.sprite.scale.set(0.16, 0.115, 1);
+    this.sprite.visible = false;
+  }
+
+  push(alert: AlertEvent, kind: "raised" | "cleared", nowMs: number): void {
+    // A clear replaces the matching raise instead of stacking under it.
+    this.toasts = this.toasts.filter((toast) => toast.alert.alertId !== alert.alertId);
+    this.toasts.unshift({
+      alert,
+      kind,
+      expiresAtMs: nowMs + (kind === "raised" ? RAISED_TOAST_MS : CLEARED_TOAST_MS)
+    });
+    this.toasts.length = Math.min(this.toasts.length, MAX_TOASTS);
+    this.dirty = true;
+  }
+
+  /** Call every frame: expires toasts, follows the camera and redraws when the stack changed. */
+  update(nowMs: number, camera: Camera): void {
+    const remaining = this.toasts.filter((toast) => toast.expiresAtMs > nowMs);
+    if (remaining.length !== this.toasts.length) {
+      this.toasts = remaining;
+      this.dirty = true;
+    }
+
+    this.sprite.visible = this.toasts.length > 0;
+    if (!this.sprite.visible) {
+      return;
+    }
+
+    camera.getWorldPosition(this.tmpPos);
+    camera.getWorldQuaternion(this.tmpQuat);
+    this.tmpForward.set(0, 0, -1).applyQuaternion(this.tmpQuat);
+    this.tmpRight.set(1, 0, 0).applyQuaternion(this.tmpQuat);
+    this.tmpUp.set(0, 1, 0).applyQuaternion(this.tmpQuat);
+    this.sprite.position.copy(this.tmpPos)
+      .addScaledVector(this.tmpForward, -this.followOffset.z)
+      .addScaledVector(this.tmpRight, this.followOffset.x)
+      .addScaledVector(this.tmpUp, this.followOffset.y);
+    this.sprite.quaternion.copy(this.tmpQuat);
+
+    if (this.dirty) {
+      this.dirty = false;
+      this.redraw();
+    }
+  }
+
+  dispose(): void {
+    this.texture.dispose();
+    this.sprite.material.dispose();
+  }
+
+  private redraw(): void {
+    const ctx = this.ctx;
+    const w = this.canvas.width;
+    ctx.clearRect(0, 0, w, this.canvas.height);
+
+    this.toasts.forEach((toast, index) => {
+      const top = index * (TOAST_HEIGHT + TOAST_GAP);
+      const accent = toast.kind === "cleared"
+        ? "#3ed58a"
+        : toast.alert.severity === "critical" ? "#ff6464" : "#ffcf52";
+
+      ctx.fillStyle = "rgba(6, 12, 16, 0.86)";
+      ctx.beginPath();
+      ctx.roundRect(2, top + 2, w - 4, TOAST_HEIGHT - 4, 6);
+      ctx.fill();
+      ctx.fillStyle = accent;
+      ctx.fillRect(2, top + 6, 4, TOAST_HEIGHT - 12);
+
+      ctx.textAlign = "left";
+      ctx.font = "bold 13px monospace";
+      ctx.fillStyle = accent;
+      const prefix = toast.kind === "cleared" ? "OK " : toast.alert.severity === "critical" ? "CRIT " : "WARN ";
+      ctx.fillText(truncate(`${prefix}${toast.alert.label}`, 28), 12, top + 18);
+
+      ctx.font = "11px monospace";
+      ctx.fillStyle = "#ddeeff";
+      ctx.fillText(truncate(`${toast.alert.entityLabel} ${formatAlertValue(toast.alert)}`, 34), 12, top + 33);
+    });
+
+    this.texture.needsUpdate = true;
+  }
+}
+
+function formatAlertValue(alert: AlertEvent): string {
+  if (alert.value === null) {
+    return "(removed)";
+  }
+  return `${alert.metric} ${alert.value.toFixed(alert.metric === "packetLossPct" ? 1 : 0)}`;
+}
+
+function truncate(text: string, maxLen: number): string {
+  return text.length > maxLen ? text.slice(0, maxLen - 1) + "…" : text;
+}
@@ -0,0 +1,131 @@
+/**
+ * Shader edits for the instanced beam segments. Traffic pulses and health color are worked out
+ * per fragment from one shared time uniform, so animating links costs no CPU work per frame.
+ *
+ * Each segment instance knows the stretch of its link it covers (`beamSpan`), so pulses run on
+ * across segment joins. A→B pulses travel from the link's first node to its second; B→A pulses
+ * travel back. A pulse has a bright head and a fading tail, so it points the way traffic flows.
+ *
+ * Once B→A traffic is known the beam splits into two lanes around its axis: A→B on the half
+ * facing the segment's local +X, B→A on the other, each half scaled to its own thickness.
+ */
+
+import { Color, type WebGLProgramParametersWithUniforms } from "three";
+
+import type { HealthState } from "../contracts";
+
+/** Per-instance attributes the beam shader reads, by item size. */
+export const BEAM_FLOW_ATTRIBUTES = {
+  /** Start and end of the link fraction the segment covers. */
+  beamSpan: 2,
+  /** A→B rate (Hz) and phase, then B→A rate and phase. A rate of 0 draws no pulses. */
+  beamFlow: 4,
+  /** A→B pulses, pulse opacity, pulse glow and health index. */
+  beamPulse: 4,
+  /** A→B and B→A lane radius as a fraction of the instance radius, then B→A pulses. */
+  beamLane: 3
+} satisfies Record<string, number>;
+
+export interface BeamFlowUniforms {
+  [uniform: string]: { value: unknown };
+  uBeamTime: { value: number };
+  uBeamDownColor: { value: Color };
+  uBeamUnknownColor: { value: Color };
+}
+
+export function createBeamFlowUniforms(): BeamFlowUniforms {
+  return {
+    uBeamTime: { value: 0 },
+    uBeamDownColor: { value: new Color("#ff5b5b") },
+    uBeamUnknownColor: { value: new Color("#8b96a0") }
+  };
+}
+
+/** Health index written to `beamPulse.w`; the shader blends the matching color on the GPU. */
+export function selectBeamHealthIndex(health: HealthState): number {
+  if (health === "degraded") {
+    return 1;
+  }
+  if (health === "down") {
+    return 2;
+  }
+  if (health === "unknown") {
+    return 3;
+  }
+  return 0;
+}
+
+const VERTEX_DECLARATIONS = /* glsl */ `
+attribute vec2 beamSpan;
+attribute vec4 beamFlow;
+attribute vec4 beamPulse;
+attribute vec3 beamLane;
+varying float vBeamT;
+varying float vBeamSide;
+varying float vBeamReversePulses;
+varying vec4 vBeamFlow;
+varying vec4 vBeamPulse;`;
+
+// The unit cylinder's v coordinate runs from its base (the segment start) to its top.
+const VERTEX_BODY = /* glsl */ `
+	vBeamT = mix(beamSpan.x, beamSpan.y, uv.y);
+	vBeamFlow = beamFlow;
+	vBeamPulse = beamPulse;
+	vBeamSide = position.x;
+	vBeamReversePulses = beamLane.z;`;
+
+// Blends the lane radii around the circumference so the two halves join without a step.
+const VERTEX_LANES = /* glsl */ `
+	transformed.xz *= mix(beamLane.y, beamLane.x, smoothstep(-1.0, 1.0, position.x));`;
+
+const FRAGMENT_DECLARATIONS = /* glsl */ `
+uniform float uBeamTime;
+uniform vec3 uBeamDownColor;
+uniform vec3 uBeamUnknownColor;
+varying float vBeamT;
+varying float vBeamSide;
+varying float vBeamReversePulses;
+varying vec4 vBeamFlow;
+varying vec4 vBeamPulse;
+
+// Brightness at link fraction t of evenly spaced pulses heading towards t = 1: full at the
+// head, fading over the tail behind it.
+float beamPulseTrain(float t, float rate, float phase, float count) {
+	if (rate <= 0.0 || count < 0.5) return 0.0;
+	float tail = min(0.8, 0.08 * count);
+	float behindHead = fract((uBeamTime * rate + phase - t) * count);
+	return behindHead < tail ? 1.0 - behindHead / tail : 0.0;
+}
+
+vec3 beamHealthColor(vec3 base, float health) {
+	if (health > 2.5) return mix(base, uBeamUnknownColor, 0.85);
+	if (health > 1.5) return mix(base, uBeamDownColor, 0.9);
+	if (health > 0.5) return mix(base, vec3(1.0), 0.35);
+	return base;
+}`;
+
+const FRAGMENT_COLOR = /* glsl */ `
+	instanceTint = beamHealthColor(instanceTint, vBeamPulse.w);
+	diffuseColor.rgb = instanceTint;
+	// Without B→A traffic the A→B pulses fill the whole beam.
+	float beamForwardLane = vBeamFlow.z > 0.0 ? step(0.0, vBeamSide) : 1.0;
+	float beamGlow = max(
+		beamForwardLane * beamPulseTrain(vBeamT, vBeamFlow.x, vBeamFlow.y, vBeamPulse.x),
+		(1.0 - beamForwardLane) * beamPulseTrain(1.0 - vBeamT, vBeamFlow.z, vBeamFlow.w, vBeamReversePulses)
+	);
+	diffuseColor.a = mix(diffuseColor.a, vBeamPulse.y, beamGlow);`;
+
+const FRAGMENT_EMISSIVE = /* glsl */ `
+	totalEmissiveRadiance += instanceTint * beamGlow * vBeamPulse.z;`;
+
+export function patchBeamFlowShader(shader: WebGLProgramParametersWithUniforms, uniforms: BeamFlowUniforms): void {
+  Object.assign(shader.uniforms, uniforms);
+  shader.vertexShader = shader.vertexShader
+    .replace("#include <common>", `#include <common>${VERTEX_DECLARATIONS}`)
+    .replace("#include <color_vertex>", `#include <color_vertex>${VERTEX_BODY}`)
+    .replace("#include <begin_vertex>", `#include <begin_vertex>${VERTEX_LANES}`);
+  shader.fragmentShader = shader.fragmentShader
+    .replace("#include <common>", `#include <common>${FRAGMENT_DECLARATIONS}`)
+    .replace("#include <color_fragment>", `#include <color_fragment>${FRAGMENT_COLOR}`)
+    .replace("#include <emissivemap_fragment>", `#include <emissivemap_fragment>${FRAGMENT_EMISSIVE}`);
+}
@@ -39,6 +39,16 @@ export interface DebugHudData {
   hudMode: HudMode;
   /** If set, a prominent camera warning is displayed. */
   cameraWarning: string | null;
+  /** Error/warning counts from the last topology snapshot validation. */
+  topologyErrors: number;
+  topologyWarnings: number;
+  /** End-to-end summary of the traced path, if any. */
+  path: {
+    hops: number;
+    latencyMs: number;
+    lossPct: number;
+    bottleneckUtilizationPct: number;
+  } | null;
 }
 
 export class DebugHud {
@@ -273,6 +283,19 @@ export class DebugHud {
       row("Mkr", "---", "#ff6644");
     }
 
+    // Topology validation
+    if (data.topologyErrors > 0 || data.topologyWarnings > 0) {
+      row("Topo", `${data.topologyErrors}E ${data.topologyWarnings}W`,
+        data.topologyErrors > 0 ? "#ff6644" : "#ffcc33");
+    }
+
+    // Traced path: hops, latency, loss, bottleneck utilization
+    if (data.path) {
+      const pathColor = data.path.lossPct > 3 || data.path.bottleneckUtilizationPct > 80 ? "#ff6644" : "#ffa53d";
+      row("Path", `${data.path.hops}h ${data.path.latencyMs.toFixed(0)}ms ` +
+        `${data.path.lossPct.toFixed(1)}% ^${data.path.bottleneckUtilizationPct.toFixed(0)}%`, pathColor);
+    }
+
     // Separator
     ctx.strokeStyle = "rgba(85, 119, 136, 0.25)";
     ctx.beginPath();
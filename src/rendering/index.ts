@@ -6,3 +6,8 @@ export { HandVisualizer } from "./hand-visualizer";
 export { InfraLabelManager } from "./infra-labels";
 export { DebugHud } from "./debug-hud";
 export type { DebugHudData, HudMode } from "./debug-hud";
+export { AlertToastStack } from "./alert-toasts";
+export { PlacementReticle } from "./placement-reticle";
+export { SurfaceObstacles } from "./surface-obstacles";
+export { InstanceBatch } from "./instanced-infra";
+export type { InstanceBatchOptions } from "./instanced-infra";
@@ -1,6 +1,10 @@
 /**
  * Floating canvas-backed sprite labels for infrastructure nodes and links.
- * Shows live-updating metrics: throughput, latency, utilization, health.
+ * Shows live-updating metrics: throughput, latency, utilization, health,
+ * time since the last report, plus trend sparklines when a metric history
+ * is available. Links reporting per-direction traffic show A→B and B→A rows;
+ * wireless links show their radio plan and signal margin.
+ * Metrics past their TTL are greyed out.
  */
 
 import {
@@ -12,8 +16,18 @@ import {
   Vector3,
 } from "three";
 
-import type { RenderGraphView, RenderNodeView, RenderLinkView } from "../topology";
-import type { HealthState } from "../contracts/domain";
+import type {
+  HistoryEntityKind,
+  HistoryMetricKey,
+  MetricHistoryReader,
+  RenderGraphView,
+  RenderNodeView,
+  RenderLinkDirectionView,
+  RenderLinkView,
+  RenderWirelessLinkView
+} from "../topology";
+import type { HealthState, NumericMetricKey } from "../contracts/domain";
+import type { SurfaceObstacles } from "./surface-obstacles";
 
 const NODE_LABEL_LOD_TRIGGER = 48;
 const LINK_LABEL_LOD_TRIGGER = 72;
@@ -23,6 +37,14 @@ const MAX_VISIBLE_NEAR_NODE_LABELS = 12;
 const MAX_VISIBLE_NEAR_LINK_LABELS = 18;
 const MAX_NODE_LABEL_DISTANCE = 2.8;
 const MAX_LINK_LABEL_DISTANCE = 2.3;
+const SPARKLINE_WINDOW_MS = 5 * 60_000;
+const STALE_METRIC_COLOR = "#556370";
+const LINK_LABEL_HEIGHT = 100;
+const EXTRA_ROWS_HEIGHT = 34;
+/** The signal margin gauge spans ±this many dB. */
+const SIGNAL_MARGIN_GAUGE_DB = 15;
+/** Roughly half a label's width, so the sprite does not cut into a wall it faces. */
+const LABEL_SURFACE_CLEARANCE = 0.09;
 
 interface LabelEntry {
   sprite: Sprite;
@@ -35,9 +57,11 @@ export class InfraLabelManager {
   private readonly nodeLabels = new Map<string, LabelEntry>();
   private readonly linkLabels = new Map<string, LabelEntry>();
   private readonly tmpCameraPos = new Vector3();
+  private readonly history: MetricHistoryReader | null;
 
-  constructor() {
+  constructor(history: MetricHistoryReader | null = null) {
     this.root.name = "infra-labels";
+    this.history = history;
   }
 
   getRoot(): Group {
@@ -45,12 +69,14 @@ export class InfraLabelManager {
   }
 
   /**
-   * Sync labels to the current graph. Redraws canvases and positions sprites.
+   * Sync labels to the current graph. Redraws canvases and positions sprites, keeping them
+   * clear of detected walls and furniture when `obstacles` is given.
    */
   updateGraph(
     graph: RenderGraphView,
     nodePositions: Map<string, Vector3>,
     linkMidpoints: Map<string, Vector3>,
+    obstacles: SurfaceObstacles | null = null,
   ): void {
     const visibleNodes = selectVisibleNodeLabels(graph.nodes);
     const visibleLinks = selectVisibleLinkLabels(graph.links);
@@ -66,14 +92,15 @@ export class InfraLabelManager {
     for (const node of visibleNodes) {
       let entry = this.nodeLabels.get(node.id);
       if (!entry) {
-        entry = createEntry(256, 96, 0.18, 0.07);
+        entry = createEntry(256, 124, 0.18, 0.0904);
         this.nodeLabels.set(node.id, entry);
         this.root.add(entry.sprite);
       }
-      drawNodeLabel(entry, node);
+      drawNodeLabel(entry, node, this.history);
       const pos = nodePositions.get(node.id);
       if (pos) {
         entry.sprite.position.set(pos.x, pos.y + 0.13, pos.z);
+        obstacles?.pushClear(entry.sprite.position, LABEL_SURFACE_CLEARANCE);
       }
     }
 
@@ -87,15 +114,23 @@ export class InfraLabelManager {
     }
     for (const link of visibleLinks) {
       let entry = this.linkLabels.get(link.id);
+      // Per-direction traffic and radio parameters each add two rows to the label.
+      const height =
+        LINK_LABEL_HEIGHT + (link.directions ? EXTRA_ROWS_HEIGHT : 0) + (link.rf ? EXTRA_ROWS_HEIGHT : 0);
+      if (entry && entry.canvas.height !== height) {
+        this.disposeEntry(entry);
+        entry = undefined;
+      }
       if (!entry) {
-        entry = createEntry(256, 72, 0.15, 0.042);
+        entry = createEntry(256, height, 0.15, 0.0583 * (height / LINK_LABEL_HEIGHT));
         this.linkLabels.set(link.id, entry);
         this.root.add(entry.sprite);
       }
-      drawLinkLabel(entry, link);
+      drawLinkLabel(entry, link, this.history);
       const mid = linkMidpoints.get(link.id);
       if (mid) {
         entry.sprite.position.set(mid.x, mid.y + 0.06, mid.z);
+        obstacles?.pushClear(entry.sprite.position, LABEL_SURFACE_CLEARANCE);
       }
     }
   }
@@ -150,7 +185,11 @@ function createEntry(w: number, h: number, sx: number, sy: number): LabelEntry {
 
 // ---- Drawing ----
 
-function drawNodeLabel(entry: LabelEntry, node: RenderNodeView): void {
+function drawNodeLabel(
+  entry: LabelEntry,
+  node: RenderNodeView,
+  history: MetricHistoryReader | null
+): void {
   const ctx = entry.canvas.getContext("2d")!;
   const w = entry.canvas.width;
   const h = entry.canvas.height;
@@ -187,36 +226,51 @@ function drawNodeLabel(entry: LabelEntry, node: RenderNodeView): void {
   ctx.textAlign = "right";
   ctx.fillText(node.type, w - 8, 26);
 
+  // Last seen
+  ctx.font = "11px monospace";
+  ctx.fillStyle = node.stale ? "#ff9944" : "#667788";
+  ctx.fillText(formatLastSeen(node.lastSeenMs), w - 8, 40);
+
   // Metrics row
   ctx.textAlign = "left";
   ctx.font = "14px monospace";
 
   // Throughput
-  ctx.fillStyle = "#77ccaa";
+  ctx.fillStyle = metricColor(node.staleMetrics, "throughputMbps", "#77ccaa");
   ctx.fillText(`${node.throughputMbps.toFixed(0)} Mbps`, 8, 52);
 
   // Latency
   const latColor = node.latencyMs > 80 ? "#ff6644" : node.latencyMs > 40 ? "#ffcc33" : "#8899aa";
-  ctx.fillStyle = latColor;
+  ctx.fillStyle = metricColor(node.staleMetrics, "latencyMs", latColor);
   ctx.fillText(`${node.latencyMs.toFixed(0)}ms`, 130, 52);
 
   // Packet loss (only show if notable)
   if (node.packetLossPct > 0.5) {
     const lossColor = node.packetLossPct > 3 ? "#ff6644" : "#ffcc33";
-    ctx.fillStyle = lossColor;
+    ctx.fillStyle = metricColor(node.staleMetrics, "packetLossPct", lossColor);
     ctx.fillText(`${node.packetLossPct.toFixed(1)}% loss`, 8, 74);
   }
 
   // RSSI if available
   if (node.rssi != null) {
-    ctx.fillStyle = node.rssi > -50 ? "#77ccaa" : node.rssi > -70 ? "#ffcc33" : "#ff6644";
+    const rssiColor = node.rssi > -50 ? "#77ccaa" : node.rssi > -70 ? "#ffcc33" : "#ff6644";
+    ctx.fillStyle = metricColor(node.staleMetrics, "rssi", rssiColor);
     ctx.fillText(`${node.rssi}dBm`, 130, 74);
   }
 
+  if (history) {
+    drawTrend(ctx, history, "node", node.id, "latencyMs", "lat", "ms", "#ffcc33", 8, 86);
+    drawTrend(ctx, history, "node", node.id, "throughputMbps", "thr", "M", "#77ccaa", 132, 86);
+  }
+
   entry.texture.needsUpdate = true;
 }
 
-function drawLinkLabel(entry: LabelEntry, link: RenderLinkView): void {
+function drawLinkLabel(
+  entry: LabelEntry,
+  link: RenderLinkView,
+  history: MetricHistoryReader | null
+): void {
   const ctx = entry.canvas.getContext("2d")!;
   const w = entry.canvas.width;
   const h = entry.canvas.height;
@@ -247,7 +301,11 @@ function drawLinkLabel(entry: LabelEntry, link: RenderLinkView): void {
   ctx.fillText(link.medium, 24, 22);
 
   // Utilization bar
-  const utilColor = link.utilizationPct > 80 ? "#ff6644" : link.utilizationPct > 50 ? "#ffcc33" : "#77ccaa";
+  const utilColor = metricColor(
+    link.staleMetrics,
+    "utilizationPct",
+    link.utilizationPct > 80 ? "#ff6644" : link.utilizationPct > 50 ? "#ffcc33" : "#77ccaa"
+  );
   ctx.fillStyle = utilColor;
   ctx.font = "13px monospace";
   ctx.fillText(`${link.utilizationPct.toFixed(0)}%`, 120, 22);
@@ -262,21 +320,183 @@ function drawLinkLabel(entry: LabelEntry, link: RenderLinkView): void {
   ctx.fillStyle = utilColor;
   ctx.fillRect(barX, barY, barW * Math.min(link.utilizationPct / 100, 1), barH);
 
-  // Second row: latency + loss
+  // Direction and RF rows push the rest of the label down
+  let y = 50;
+  if (link.directions) {
+    ctx.font = "12px monospace";
+    drawDirectionRow(ctx, "A\u2192B", link.directions.aToB, 8, y - 8);
+    drawDirectionRow(ctx, "B\u2192A", link.directions.bToA, 8, y + 8);
+    y += EXTRA_ROWS_HEIGHT;
+  }
+  if (link.rf) {
+    drawRfRows(ctx, link.rf, w, y - 8);
+    y += EXTRA_ROWS_HEIGHT;
+  }
+
+  // Latency + loss
   ctx.font = "13px monospace";
   const latColor = link.latencyMs > 80 ? "#ff6644" : link.latencyMs > 40 ? "#ffcc33" : "#8899aa";
-  ctx.fillStyle = latColor;
-  ctx.fillText(`${link.latencyMs.toFixed(0)}ms`, 8, 50);
+  ctx.fillStyle = metricColor(link.staleMetrics, "latencyMs", latColor);
+  ctx.fillText(`${link.latencyMs.toFixed(0)}ms`, 8, y);
 
   if (link.packetLossPct > 0.5) {
     const lossColor = link.packetLossPct > 3 ? "#ff6644" : "#ffcc33";
-    ctx.fillStyle = lossColor;
-    ctx.fillText(`${link.packetLossPct.toFixed(1)}% loss`, 80, 50);
+    ctx.fillStyle = metricColor(link.staleMetrics, "packetLossPct", lossColor);
+    ctx.fillText(`${link.packetLossPct.toFixed(1)}% loss`, 80, y);
+  }
+
+  // Last seen
+  ctx.font = "11px monospace";
+  ctx.textAlign = "right";
+  ctx.fillStyle = link.stale ? "#ff9944" : "#667788";
+  ctx.fillText(formatLastSeen(link.lastSeenMs), w - 8, y);
+  ctx.textAlign = "left";
+
+  if (history) {
+    drawTrend(ctx, history, "link", link.id, "latencyMs", "lat", "ms", "#ffcc33", 8, y + 12);
+    drawTrend(ctx, history, "link", link.id, "utilizationPct", "util", "%", "#77ccaa", 132, y + 12);
   }
 
   entry.texture.needsUpdate = true;
 }
 
+/** One direction as "A→B 320/450M 71% 256QAM"; unreported parts are left out. */
+function drawDirectionRow(
+  ctx: CanvasRenderingContext2D,
+  caption: string,
+  direction: RenderLinkDirectionView,
+  x: number,
+  y: number
+): void {
+  let throughput = "";
+  if (direction.throughputMbps !== null) {
+    throughput = direction.throughputMbps.toFixed(0);
+    if (direction.capacityMbps !== null) {
+      throughput += `/${direction.capacityMbps.toFixed(0)}`;
+    }
+    throughput += "M ";
+  }
+  const util = direction.utilizationPct;
+  const modulation = direction.modulation ? ` ${truncate(direction.modulation, 10)}` : "";
+
+  ctx.textAlign = "left";
+  ctx.fillStyle = "#8899aa";
+  ctx.fillText(caption, x, y);
+  ctx.fillStyle = util > 80 ? "#ff6644" : util > 50 ? "#ffcc33" : "#77ccaa";
+  ctx.fillText(`${throughput}${util.toFixed(0)}%${modulation}`, x + 32, y);
+}
+
+/**
+ * Radio plan on the first row ("5.8GHz 40MHz 256QAM 5/6  450M 1.66km"), signal on the second:
+ * actual/expected dBm and a gauge of the margin between them, centered on 0 dB.
+ */
+function drawRfRows(ctx: CanvasRenderingContext2D, rf: RenderWirelessLinkView, w: number, y: number): void {
+  const plan = [
+    rf.frequencyMhz !== null ? formatFrequency(rf.frequencyMhz) : null,
+    rf.channelWidthMhz !== null ? `${rf.channelWidthMhz.toFixed(0)}MHz` : null,
+    rf.modulation ? truncate(rf.modulation, 10) : null
+  ].filter((part) => part !== null);
+  const reach = [
+    rf.capacityMbps !== null ? `${rf.capacityMbps.toFixed(0)}M` : null,
+    rf.distanceMeters !== null ? formatDistance(rf.distanceMeters) : null
+  ].filter((part) => part !== null);
+
+  ctx.font = "12px monospace";
+  ctx.textAlign = "left";
+  ctx.fillStyle = "#aabbcc";
+  ctx.fillText(plan.join(" "), 8, y);
+  ctx.textAlign = "right";
+  ctx.fillStyle = "#8899aa";
+  ctx.fillText(reach.join(" "), w - 8, y);
+  ctx.textAlign = "left";
+
+  const rowY = y + 16;
+  if (rf.actualSignalDbm !== null || rf.expectedSignalDbm !== null) {
+    const actual = rf.actualSignalDbm !== null ? rf.actualSignalDbm.toFixed(0) : "?";
+    const expected = rf.expectedSignalDbm !== null ? `/${rf.expectedSignalDbm.toFixed(0)}` : "";
+    ctx.fillStyle = "#8899aa";
+    ctx.fillText(`sig ${actual}${expected}dBm`, 8, rowY);
+  }
+  if (rf.fresnelClearancePct !== null) {
+    const clearance = rf.fresnelClearancePct;
+    ctx.fillStyle = clearance >= 60 ? "#77ccaa" : clearance >= 40 ? "#ffcc33" : "#ff6644";
+    ctx.fillText(`F${clearance.toFixed(0)}%`, 132, rowY);
+  }
+
+  if (rf.signalMarginDb !== null) {
+    const margin = rf.signalMarginDb;
+    const color = margin >= -3 ? "#77ccaa" : margin >= -8 ? "#ffcc33" : "#ff6644";
+    const gaugeX = 180;
+    const gaugeW = w - 8 - gaugeX;
+    const center = gaugeX + gaugeW / 2;
+    const extent = Math.max(-1, Math.min(1, margin / SIGNAL_MARGIN_GAUGE_DB)) * (gaugeW / 2);
+    ctx.fillStyle = "rgba(255,255,255,0.1)";
+    ctx.fillRect(gaugeX, rowY - 13, gaugeW, 4);
+    ctx.fillStyle = color;
+    ctx.fillRect(Math.min(center, center + extent), rowY - 13, Math.max(Math.abs(extent), 1), 4);
+    ctx.fillStyle = "#ddeeff";
+    ctx.fillRect(center, rowY - 15, 1, 8);
+    ctx.font = "10px monospace";
+    ctx.textAlign = "center";
+    ctx.fillStyle = color;
+    ctx.fillText(`${margin >= 0 ? "+" : ""}${margin.toFixed(0)}dB`, center, rowY);
+    ctx.textAlign = "left";
+  }
+}
+
+/**
+ * 116x32 px trend box: caption with the window p95 on top, sparkline below.
+ * Needs two samples; a flat series draws as a centered line.
+ */
+function drawTrend(
+  ctx: CanvasRenderingContext2D,
+  history: MetricHistoryReader,
+  kind: HistoryEntityKind,
+  id: string,
+  metric: HistoryMetricKey,
+  caption: string,
+  unit: string,
+  color: string,
+  x: number,
+  y: number
+): void {
+  const samples = history.getSeries(kind, id, metric, { windowMs: SPARKLINE_WINDOW_MS });
+  const stats = history.getStats(kind, id, metric, { windowMs: SPARKLINE_WINDOW_MS });
+  if (samples.length < 2 || !stats) {
+    return;
+  }
+
+  const w = 116;
+  const lineTop = y + 12;
+  const lineH = 20;
+
+  ctx.font = "10px monospace";
+  ctx.textAlign = "left";
+  ctx.fillStyle = "#667788";
+  ctx.fillText(`${caption} p95 ${stats.p95.toFixed(0)}${unit}`, x, y + 8);
+
+  ctx.fillStyle = "rgba(255,255,255,0.06)";
+  ctx.fillRect(x, lineTop, w, lineH);
+
+  const t0 = samples[0].timestampMs;
+  const span = Math.max(samples[samples.length - 1].timestampMs - t0, 1);
+  const range = stats.max - stats.min;
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  samples.forEach((sample, index) => {
+    const px = x + ((sample.timestampMs - t0) / span) * w;
+    const norm = range > 0 ? (sample.value - stats.min) / range : 0.5;
+    const py = lineTop + lineH - 2 - norm * (lineH - 4);
+    if (index === 0) {
+      ctx.moveTo(px, py);
+    } else {
+      ctx.lineTo(px, py);
+    }
+  });
+  ctx.stroke();
+}
+
 // ---- Helpers ----
 
 function healthColor(health: HealthState, alpha: number): string {
@@ -286,6 +506,25 @@ function healthColor(health: HealthState, alpha: number): string {
   return `rgba(142, 167, 178, ${alpha})`;
 }
 
+function metricColor(staleMetrics: NumericMetricKey[], metric: NumericMetricKey, color: string): string {
+  return staleMetrics.includes(metric) ? STALE_METRIC_COLOR : color;
+}
+
+function formatLastSeen(lastSeenMs: number): string {
+  const ageSec = Math.max(0, Math.floor((Date.now() - lastSeenMs) / 1000));
+  if (ageSec < 60) return `seen ${ageSec}s ago`;
+  if (ageSec < 3600) return `seen ${Math.floor(ageSec / 60)}m ago`;
+  return `seen ${Math.floor(ageSec / 3600)}h ago`;
+}
+
+function formatFrequency(mhz: number): string {
+  return mhz >= 1000 ? `${(mhz / 1000).toFixed(mhz % 1000 === 0 ? 0 : 1)}GHz` : `${mhz.toFixed(0)}MHz`;
+}
+
+function formatDistance(meters: number): string {
+  return meters >= 1000 ? `${(meters / 1000).toFixed(2)}km` : `${meters.toFixed(0)}m`;
+}
+
 function truncate(text: string, maxLen: number): string {
   return text.length > maxLen ? text.slice(0, maxLen - 1) + "\u2026" : text;
 }
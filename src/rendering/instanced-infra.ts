@@ -0,0 +1,306 @@
+/**
+ * Instanced draw batches for the infrastructure graph. All nodes of one type and all beam
+ * segments each share one InstancedMesh, so draw calls stay flat at stress-topology scale.
+ *
+ * Per-instance color comes from `instanceColor`; opacity and emissive strength ride in an
+ * `instanceStyle` attribute the material shader is patched to read. The emissive color is the
+ * instance color. Batches can carry further per-instance attributes for their own shader
+ * edits. Picking maps `instanceId` back to an entity through
+ * `userData.selectableInstanceIds`, which is null for instances that are shrinking out.
+ */
+
+import {
+  BufferGeometry,
+  Color,
+  InstancedBufferAttribute,
+  InstancedMesh,
+  Matrix4,
+  MeshStandardMaterial,
+  Object3D,
+  Quaternion,
+  Vector3,
+  type MeshStandardMaterialParameters,
+  type WebGLProgramParametersWithUniforms
+} from "three";
+
+const DEFAULT_INITIAL_CAPACITY = 32;
+const HIDDEN_MATRIX = new Matrix4().makeScale(0, 0, 0);
+const WHITE = new Color(0xffffff);
+const STYLE_ATTRIBUTE = "instanceStyle";
+
+export interface InstanceBatchOptions {
+  name: string;
+  selectableType: "node" | "link";
+  /** Template geometry; each batch draws its own clone so it can carry the style attribute. */
+  geometry: BufferGeometry;
+  material: MeshStandardMaterialParameters;
+  /** Instances owned by each key, e.g. one per beam segment of a link. */
+  stride?: number;
+  initialCapacity?: number;
+  /** Extra per-instance attributes by item size; they move with their instances. */
+  attributes?: Record<string, number>;
+  /**
+   * Further shader edits. They run before the style edits, so code appended after a chunk
+   * include comes after the style lines and can use `instanceTint`.
+   */
+  patchShader?: (shader: WebGLProgramParametersWithUniforms) => void;
+  /** Program cache key; required with `patchShader` so programs are not shared by mistake. */
+  programKey?: string;
+}
+
+export class InstanceBatch {
+  private readonly parent: Object3D;
+  private readonly options: InstanceBatchOptions;
+  private readonly stride: number;
+  /** Every per-instance attribute on the geometry, including the style attribute. */
+  private readonly attributeSizes: Array<[string, number]>;
+  private readonly material: MeshStandardMaterial;
+  private mesh: InstancedMesh<BufferGeometry, MeshStandardMaterial>;
+  private selectableIds: Array<string | null>;
+  /** Block index -> key; blocks stay packed at the front so `mesh.count` covers exactly them. */
+  private readonly keys: string[] = [];
+  private readonly blocks = new Map<string, number>();
+  private readonly tmpMatrix = new Matrix4();
+
+  constructor(parent: Object3D, options: InstanceBatchOptions) {
+    this.parent = parent;
+    this.options = options;
+    this.stride = Math.max(1, options.stride ?? 1);
+    this.attributeSizes = [[STYLE_ATTRIBUTE, 2], ...Object.entries(options.attributes ?? {})];
+    this.material = new MeshStandardMaterial({ ...options.material, color: WHITE, transparent: true });
+    applyInstanceStyleShader(this.material, options.patchShader, options.programKey);
+    const capacity = Math.max(1, options.initialCapacity ?? DEFAULT_INITIAL_CAPACITY) * this.stride;
+    this.selectableIds = new Array<string | null>(capacity).fill(null);
+    this.mesh = this.createMesh(capacity);
+    parent.add(this.mesh);
+  }
+
+  get size(): number {
+    return this.keys.length;
+  }
+
+  /** First instance owned by `key`, or -1. */
+  indexOf(key: string): number {
+    const block = this.blocks.get(key);
+    return block === undefined ? -1 : block * this.stride;
+  }
+
+  /** Reserves hidden instances for `key`; returns the first instance index. */
+  add(key: string, selectableId: string | null): number {
+    const existing = this.indexOf(key);
+    if (existing >= 0) {
+      return existing;
+    }
+    const capacity = this.mesh.instanceMatrix.count;
+    if ((this.keys.length + 1) * this.stride > capacity) {
+      this.grow(capacity * 2);
+    }
+
+    const block = this.keys.length;
+    this.keys.push(key);
+    this.blocks.set(key, block);
+    const start = block * this.stride;
+    for (let index = start; index < start + this.stride; index++) {
+      this.hide(index);
+      this.setStyle(index, WHITE, 1, 0);
+      this.selectableIds[index] = selectableId;
+    }
+    this.updateCount();
+    return start;
+  }
+
+  /** Frees `key` by moving the last block into its slot; returns the key that moved, if any. */
+  remove(key: string): string | null {
+    const block = this.blocks.get(key);
+    if (block === undefined) {
+      return null;
+    }
+    this.blocks.delete(key);
+    const lastBlock = this.keys.length - 1;
+    const lastKey = this.keys[lastBlock];
+    let moved: string | null = null;
+    if (block !== lastBlock) {
+      this.copyBlock(lastBlock, block);
+      this.keys[block] = lastKey;
+      this.blocks.set(lastKey, block);
+      moved = lastKey;
+    }
+    this.keys.pop();
+    this.selectableIds.fill(null, lastBlock * this.stride, (lastBlock + 1) * this.stride);
+    this.updateCount();
+    this.markMatricesChanged();
+    return moved;
+  }
+
+  /** Null makes the key's instances unpickable, e.g. while they shrink out. */
+  setSelectableId(key: string, selectableId: string | null): void {
+    const start = this.indexOf(key);
+    if (start >= 0) {
+      this.selectableIds.fill(selectableId, start, start + this.stride);
+    }
+  }
+
+  setTransform(index: number, position: Vector3, rotation: Quaternion, scale: Vector3): void {
+    this.tmpMatrix.compose(position, rotation, scale);
+    this.mesh.setMatrixAt(index, this.tmpMatrix);
+    this.markMatricesChanged();
+  }
+
+  setUniformTransform(index: number, position: Vector3, scale: number): void {
+    this.tmpMatrix.makeScale(scale, scale, scale).setPosition(position);
+    this.mesh.setMatrixAt(index, this.tmpMatrix);
+    this.markMatricesChanged();
+  }
+
+  hide(index: number): void {
+    this.mesh.setMatrixAt(index, HIDDEN_MATRIX);
+    this.markMatricesChanged();
+  }
+
+  setStyle(index: number, color: Color, opacity: number, emissiveIntensity: number): void {
+    this.mesh.setColorAt(index, color);
+    this.mesh.instanceColor!.needsUpdate = true;
+    this.setInstanceVector(index, STYLE_ATTRIBUTE, opacity, emissiveIntensity);
+  }
+
+  /** Writes one of the `attributes` from the options; unused components are ignored. */
+  setInstanceVector(index: number, name: string, x: number, y = 0, z = 0, w = 0): void {
+    const attribute = this.mesh.geometry.getAttribute(name) as InstancedBufferAttribute;
+    if (attribute.itemSize === 1) {
+      attribute.setX(index, x);
+    } else if (attribute.itemSize === 2) {
+      attribute.setXY(index, x, y);
+    } else if (attribute.itemSize === 3) {
+      attribute.setXYZ(index, x, y, z);
+    } else {
+      attribute.setXYZW(index, x, y, z, w);
+    }
+    attribute.needsUpdate = true;
+  }
+
+  dispose(): void {
+    this.mesh.removeFromParent();
+    this.mesh.geometry.dispose();
+    this.mesh.dispose();
+    this.material.dispose();
+    this.keys.length = 0;
+    this.blocks.clear();
+  }
+
+  private createMesh(capacity: number): InstancedMesh<BufferGeometry, MeshStandardMaterial> {
+    const geometry = this.options.geometry.clone();
+    for (const [name, itemSize] of this.attributeSizes) {
+      geometry.setAttribute(name, new InstancedBufferAttribute(new Float32Array(capacity * itemSize), itemSize));
+    }
+    const mesh = new InstancedMesh(geometry, this.material, capacity);
+    mesh.name = this.options.name;
+    mesh.count = 0;
+    mesh.visible = false;
+    mesh.instanceColor = new InstancedBufferAttribute(new Float32Array(capacity * 3), 3);
+    // Instances move every frame; a stale bounds sphere would cull them.
+    mesh.frustumCulled = false;
+    mesh.userData = {
+      selectableType: this.options.selectableType,
+      selectableInstanceIds: this.selectableIds
+    };
+    return mesh;
+  }
+
+  /** Replaces the mesh with a larger one; GPU buffers cannot be resized in place. */
+  private grow(capacity: number): void {
+    const previous = this.mesh;
+    const used = previous.count;
+
+    const nextIds = new Array<string | null>(capacity).fill(null);
+    for (let index = 0; index < used; index++) {
+      nextIds[index] = this.selectableIds[index];
+    }
+    this.selectableIds = nextIds;
+
+    const next = this.createMesh(capacity);
+    next.instanceMatrix.array.set(previous.instanceMatrix.array.subarray(0, used * 16));
+    next.instanceColor!.array.set(previous.instanceColor!.array.subarray(0, used * 3));
+    for (const [name, itemSize] of this.attributeSizes) {
+      const source = previous.geometry.getAttribute(name) as InstancedBufferAttribute;
+      (next.geometry.getAttribute(name) as InstancedBufferAttribute).array.set(
+        source.array.subarray(0, used * itemSize)
+      );
+    }
+    next.count = used;
+    next.visible = used > 0;
+
+    previous.removeFromParent();
+    previous.geometry.dispose();
+    previous.dispose();
+    this.mesh = next;
+    this.parent.add(next);
+  }
+
+  private copyBlock(fromBlock: number, toBlock: number): void {
+    const from = fromBlock * this.stride;
+    const to = toBlock * this.stride;
+    copyRange(this.mesh.instanceMatrix.array, 16, from, to, this.stride);
+    copyRange(this.mesh.instanceColor!.array, 3, from, to, this.stride);
+    for (const [name, itemSize] of this.attributeSizes) {
+      const attribute = this.mesh.geometry.getAttribute(name) as InstancedBufferAttribute;
+      copyRange(attribute.array, itemSize, from, to, this.stride);
+      attribute.needsUpdate = true;
+    }
+    for (let offset = 0; offset < this.stride; offset++) {
+      this.selectableIds[to + offset] = this.selectableIds[from + offset];
+    }
+    this.mesh.instanceColor!.needsUpdate = true;
+  }
+
+  private updateCount(): void {
+    this.mesh.count = this.keys.length * this.stride;
+    this.mesh.visible = this.mesh.count > 0;
+  }
+
+  private markMatricesChanged(): void {
+    this.mesh.instanceMatrix.needsUpdate = true;
+    // Raycasts recompute the bounds from the current instances on demand.
+    this.mesh.boundingSphere = null;
+  }
+}
+
+function copyRange(
+  array: { copyWithin(target: number, start: number, end: number): unknown },
+  itemSize: number,
+  from: number,
+  to: number,
+  count: number
+): void {
+  array.copyWithin(to * itemSize, from * itemSize, (from + count) * itemSize);
+}
+
+/**
+ * Multiplies alpha by the instance opacity and drives emissive from `instanceTint`, which starts
+ * as the instance color.
+ */
+function applyInstanceStyleShader(
+  material: MeshStandardMaterial,
+  patchShader: InstanceBatchOptions["patchShader"],
+  programKey = "infra-instance-style"
+): void {
+  material.onBeforeCompile = (shader) => {
+    patchShader?.(shader);
+    shader.vertexShader = shader.vertexShader
+      .replace(
+        "#include <common>",
+        "#include <common>\nattribute vec2 instanceStyle;\nvarying vec2 vInstanceStyle;"
+      )
+      .replace("#include <color_vertex>", "#include <color_vertex>\n\tvInstanceStyle = instanceStyle;");
+    shader.fragmentShader = shader.fragmentShader
+      .replace("#include <common>", "#include <common>\nvarying vec2 vInstanceStyle;")
+      .replace(
+        "#include <color_fragment>",
+        "#include <color_fragment>\n\tvec3 instanceTint = vColor;\n\tdiffuseColor.a *= vInstanceStyle.x;"
+      )
+      .replace(
+        "#include <emissivemap_fragment>",
+        "#include <emissivemap_fragment>\n\ttotalEmissiveRadiance = instanceTint * vInstanceStyle.y;"
+      );
+  };
+  material.customProgramCacheKey = () => programKey;
+}
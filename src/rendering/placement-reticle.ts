@@ -0,0 +1,71 @@
+/**
+ * Surface reticle shown while a node is being placed by hit test.
+ * A flat ring lies on the hit surface and a short stem marks where the node will sit.
+ */
+
+import {
+  CylinderGeometry,
+  DoubleSide,
+  Group,
+  Mesh,
+  MeshBasicMaterial,
+  RingGeometry
+} from "three";
+
+import type { QuaternionLike, Vector3Like } from "../contracts";
+
+const RETICLE_COLOR_HEX = 0x5cf2ff;
+const RING_INNER_RADIUS = 0.045;
+const RING_OUTER_RADIUS = 0.06;
+/** Matches the surface offset the interaction agent applies to placed nodes. */
+const STEM_HEIGHT = 0.06;
+
+export class PlacementReticle {
+  private readonly root = new Group();
+  private readonly ring: Mesh<RingGeometry, MeshBasicMaterial>;
+  private readonly stem: Mesh<CylinderGeometry, MeshBasicMaterial>;
+
+  constructor() {
+    this.root.name = "placement-reticle";
+    this.root.visible = false;
+
+    // The ring lies in the pose's XZ plane, so the hit pose's +Y (the surface normal) faces out.
+    const ringGeometry = new RingGeometry(RING_INNER_RADIUS, RING_OUTER_RADIUS, 32);
+    ringGeometry.rotateX(-Math.PI / 2);
+    this.ring = new Mesh(
+      ringGeometry,
+      new MeshBasicMaterial({ color: RETICLE_COLOR_HEX, transparent: true, opacity: 0.85, side: DoubleSide })
+    );
+
+    const stemGeometry = new CylinderGeometry(0.003, 0.003, STEM_HEIGHT, 6);
+    stemGeometry.translate(0, STEM_HEIGHT / 2, 0);
+    this.stem = new Mesh(
+      stemGeometry,
+      new MeshBasicMaterial({ color: RETICLE_COLOR_HEX, transparent: true, opacity: 0.6 })
+    );
+
+    this.root.add(this.ring, this.stem);
+  }
+
+  getRoot(): Group {
+    return this.root;
+  }
+
+  /** Shows the reticle on the hit surface; null hides it. */
+  update(position: Vector3Like | null, rotation: QuaternionLike | null): void {
+    if (!position || !rotation) {
+      this.root.visible = false;
+      return;
+    }
+    this.root.position.set(position.x, position.y, position.z);
+    this.root.quaternion.set(rotation.x, rotation.y, rotation.z, rotation.w);
+    this.root.visible = true;
+  }
+
+  dispose(): void {
+    this.ring.geometry.dispose();
+    this.ring.material.dispose();
+    this.stem.geometry.dispose();
+    this.stem.material.dispose();
+  }
+}
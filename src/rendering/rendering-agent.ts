@@ -1,36 +1,54 @@
 import { Camera, Quaternion, Scene, Vector3, WebGLRenderer } from "three";
 
 import type { IntegrationContext, RenderingAgent } from "../contracts/integration";
-import { selectRenderGraphView, type RenderGraphView } from "../topology";
+import type { XrDetectedSurface } from "../contracts/xr";
+import { selectRenderGraphView, type MetricHistoryReader, type RenderGraphView } from "../topology";
 import { InfraSceneRenderer } from "./scene-renderer";
-import { KmlMapRenderer, parseKml } from "../kml";
+import { KmlMapRenderer, parseKml, type LinkElevationProfile } from "../kml";
 import { MarkerIndicatorManager } from "./marker-indicator";
 import { HandVisualizer } from "./hand-visualizer";
 import { InfraLabelManager } from "./infra-labels";
 import { DebugHud } from "./debug-hud";
+import { AlertToastStack } from "./alert-toasts";
+import { PlacementReticle } from "./placement-reticle";
 import type { DebugHudData } from "./debug-hud";
 
+const LABEL_AGE_REFRESH_MS = 1000;
+
 export interface RenderingAgentOptions {
   scene: Scene;
   camera: Camera;
   renderer: WebGLRenderer;
   /** Raw KML text to load as a map overlay. */
   kmlText?: string;
+  /** Draw first Fresnel zones around wireless links in the KML map. */
+  kmlFresnelZones?: boolean;
+  /** Terrain/obstruction profiles the Fresnel zones are checked against, by link ID. */
+  kmlElevationProfiles?: LinkElevationProfile[];
+  /** Metric history (usually `TopologyStore.getHistory()`) for label sparklines. */
+  metricHistory?: MetricHistoryReader;
 }
 
 export function createRenderingAgent(options: RenderingAgentOptions): RenderingAgent {
   const renderer = new InfraSceneRenderer(options.scene);
-  const kmlMap = new KmlMapRenderer();
+  const kmlMap = new KmlMapRenderer({
+    fresnelZones: options.kmlFresnelZones,
+    elevationProfiles: options.kmlElevationProfiles
+  });
   const markerIndicators = new MarkerIndicatorManager();
   const handVisualizer = new HandVisualizer();
-  const labelManager = new InfraLabelManager();
+  const labelManager = new InfraLabelManager(options.metricHistory ?? null);
   const debugHud = new DebugHud();
+  const alertToasts = new AlertToastStack();
+  const placementReticle = new PlacementReticle();
 
   options.scene.add(kmlMap.getRoot());
   options.scene.add(markerIndicators.getRoot());
   options.scene.add(handVisualizer.getRoot());
   options.scene.add(labelManager.getRoot());
   options.scene.add(debugHud.sprite);
+  options.scene.add(alertToasts.sprite);
+  options.scene.add(placementReticle.getRoot());
 
   // Position debug HUD in bottom-left (updated per-frame via camera follow)
   debugHud.sprite.position.set(-0.24, 1.15, -0.8);
@@ -42,13 +60,23 @@ export function createRenderingAgent(options: RenderingAgentOptions): RenderingA
   let unsubscribePerformance: (() => void) | null = null;
   let unsubscribeTrackingStatus: (() => void) | null = null;
   let unsubscribeSpawnAnchor: (() => void) | null = null;
+  let unsubscribeMarkerRegistry: (() => void) | null = null;
+  let unsubscribeAnchors: (() => void) | null = null;
+  let unsubscribePlacements: (() => void) | null = null;
+  let unsubscribePlacementMode: (() => void) | null = null;
+  let unsubscribePlacementPreview: (() => void) | null = null;
   let unsubscribeSelection: (() => void) | null = null;
   let unsubscribeHover: (() => void) | null = null;
   let unsubscribeHands: (() => void) | null = null;
   let unsubscribePinch: (() => void) | null = null;
   let unsubscribePoint: (() => void) | null = null;
   let unsubscribeLayoutScale: (() => void) | null = null;
+  let unsubscribeValidation: (() => void) | null = null;
+  let unsubscribePath: (() => void) | null = null;
+  let unsubscribeAlertRaised: (() => void) | null = null;
+  let unsubscribeAlertCleared: (() => void) | null = null;
   let animationHandle = 0;
+  let labelAgeTimerId: number | null = null;
   let xrRunning = false;
   const isCoarsePointer = window.matchMedia("(pointer: coarse)").matches;
   let hasLockedSpawnAnchor = false;
@@ -67,6 +95,8 @@ export function createRenderingAgent(options: RenderingAgentOptions): RenderingA
   const lockedSpawnPos = new Vector3();
   const lockedSpawnQuat = new Quaternion();
   const pinchPoint = new Vector3();
+  const viewerPos = new Vector3();
+  let detectedSurfaces: XrDetectedSurface[] = [];
   const getViewCamera = (): Camera => (
     xrRunning ? options.renderer.xr.getCamera() : options.camera
   );
@@ -115,7 +145,12 @@ export function createRenderingAgent(options: RenderingAgentOptions): RenderingA
     if (currentGraph.nodes.length === 0 && currentGraph.links.length === 0) {
       return;
     }
-    labelManager.updateGraph(currentGraph, renderer.getNodePositions(), renderer.getLinkMidpoints());
+    labelManager.updateGraph(
+      currentGraph,
+      renderer.getNodePositions(),
+      renderer.getLinkMidpoints(),
+      renderer.getSurfaceObstacles()
+    );
     labelManager.updateVisibility(getViewCamera());
   };
 
@@ -141,6 +176,9 @@ export function createRenderingAgent(options: RenderingAgentOptions): RenderingA
     leftPointStrength: 0,
     rightPointStrength: 0,
     cameraWarning: null,
+    topologyErrors: 0,
+    topologyWarnings: 0,
+    path: null,
   };
 
   const animate = (timeMs: number): void => {
@@ -154,6 +192,7 @@ export function createRenderingAgent(options: RenderingAgentOptions): RenderingA
       // Keep HUD position locked to camera every frame (including desktop)
       debugHud.update(hudData, timeMs, viewCamera);
     }
+    alertToasts.update(performance.now(), viewCamera);
     animationHandle = window.requestAnimationFrame(animate);
   };
   applyHudLayout();
@@ -169,6 +208,31 @@ export function createRenderingAgent(options: RenderingAgentOptions): RenderingA
           refreshLabelLayout();
         });
 
+        unsubscribeValidation = context.events.on("topology/validation", (payload) => {
+          hudData.topologyErrors = payload.errorCount;
+          hudData.topologyWarnings = payload.warningCount;
+        });
+
+        unsubscribePath = context.events.on("topology/path", (payload) => {
+          renderer.setHighlightedPath(payload.path);
+          hudData.path = payload.path
+            ? {
+              hops: payload.path.linkIds.length,
+              latencyMs: payload.path.totalLatencyMs,
+              lossPct: payload.path.lossPct,
+              bottleneckUtilizationPct: payload.path.bottleneckUtilizationPct
+            }
+            : null;
+        });
+
+        unsubscribeAlertRaised = context.events.on("alert/raised", (alert) => {
+          alertToasts.push(alert, "raised", performance.now());
+        });
+
+        unsubscribeAlertCleared = context.events.on("alert/cleared", (alert) => {
+          alertToasts.push(alert, "cleared", performance.now());
+        });
+
         unsubscribeMarkers = context.events.on("tracking/markers", (payload) => {
           renderer.updateTrackedMarkers(payload.markers);
           refreshLabelLayout();
@@ -211,6 +275,31 @@ export function createRenderingAgent(options: RenderingAgentOptions): RenderingA
           }
         });
 
+        unsubscribeMarkerRegistry = context.events.on("tracking/marker-registry", (payload) => {
+          renderer.setMarkerBindings(payload.entries);
+          refreshLabelLayout();
+        });
+
+        unsubscribeAnchors = context.events.on("tracking/anchors", (payload) => {
+          renderer.updatePersistedAnchors(payload.anchors);
+          refreshLabelLayout();
+        });
+
+        unsubscribePlacements = context.events.on("interaction/node-placements", (payload) => {
+          renderer.setNodePlacements(payload.placements);
+          refreshLabelLayout();
+        });
+
+        unsubscribePlacementMode = context.events.on("interaction/placement-mode", (payload) => {
+          if (!payload.nodeId) {
+            placementReticle.update(null, null);
+          }
+        });
+
+        unsubscribePlacementPreview = context.events.on("interaction/placement-preview", (payload) => {
+          placementReticle.update(payload.position, payload.rotation);
+        });
+
         unsubscribeSpawnAnchor = context.events.on("tracking/spawn-anchor", (payload) => {
           if (!payload.position || !payload.rotation) {
             hasLockedSpawnAnchor = false;
@@ -252,6 +341,8 @@ export function createRenderingAgent(options: RenderingAgentOptions): RenderingA
             }
           } else {
             renderer.setBoundaryPolygon(null);
+            detectedSurfaces = [];
+            renderer.setDetectedSurfaces(detectedSurfaces);
             refreshLabelLayout();
             hudData.cameraWarning = null;
           }
@@ -260,7 +351,13 @@ export function createRenderingAgent(options: RenderingAgentOptions): RenderingA
         unsubscribeXrFrame = context.events.on("xr/frame", (payload) => {
           const viewCamera = getViewCamera();
           if (xrRunning) {
-            renderer.tick(payload.time);
+            const surfaces = context.xrRuntime.getDetectedSurfaces();
+            if (surfaces !== detectedSurfaces) {
+              detectedSurfaces = surfaces;
+              renderer.setDetectedSurfaces(surfaces);
+              refreshLabelLayout();
+            }
+            renderer.tick(payload.time, viewCamera.getWorldPosition(viewerPos));
           }
           labelManager.updateVisibility(viewCamera);
           if (!shouldHidePhoneXrHelpers()) {
@@ -268,6 +365,7 @@ export function createRenderingAgent(options: RenderingAgentOptions): RenderingA
             hudData.hudMode = debugHud.mode;
             debugHud.update(hudData, payload.time, viewCamera);
           }
+          alertToasts.update(performance.now(), viewCamera);
         });
 
         unsubscribePerformance = context.events.on("app/performance", (payload) => {
@@ -292,6 +390,7 @@ export function createRenderingAgent(options: RenderingAgentOptions): RenderingA
 
         unsubscribeSelection = context.events.on("interaction/selection-change", (payload) => {
           renderer.setSelection(payload.selectedNodeId, payload.selectedLinkId);
+          kmlMap.setSelectedLink(payload.selectedLinkId);
         });
 
         unsubscribeHover = context.events.on("interaction/hover", (payload) => {
@@ -394,6 +493,8 @@ export function createRenderingAgent(options: RenderingAgentOptions): RenderingA
         applySpatialLayoutDensity();
 
         animationHandle = window.requestAnimationFrame(animate);
+        // Labels show "seen N s ago", which ages between topology updates.
+        labelAgeTimerId = window.setInterval(refreshLabelLayout, LABEL_AGE_REFRESH_MS);
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         context.events.emit("app/error", {
@@ -411,6 +512,22 @@ export function createRenderingAgent(options: RenderingAgentOptions): RenderingA
         unsubscribeTopology();
         unsubscribeTopology = null;
       }
+      if (unsubscribeValidation) {
+        unsubscribeValidation();
+        unsubscribeValidation = null;
+      }
+      if (unsubscribePath) {
+        unsubscribePath();
+        unsubscribePath = null;
+      }
+      if (unsubscribeAlertRaised) {
+        unsubscribeAlertRaised();
+        unsubscribeAlertRaised = null;
+      }
+      if (unsubscribeAlertCleared) {
+        unsubscribeAlertCleared();
+        unsubscribeAlertCleared = null;
+      }
       if (unsubscribeMarkers) {
         unsubscribeMarkers();
         unsubscribeMarkers = null;
@@ -435,6 +552,26 @@ export function createRenderingAgent(options: RenderingAgentOptions): RenderingA
         unsubscribeSpawnAnchor();
         unsubscribeSpawnAnchor = null;
       }
+      if (unsubscribeMarkerRegistry) {
+        unsubscribeMarkerRegistry();
+        unsubscribeMarkerRegistry = null;
+      }
+      if (unsubscribeAnchors) {
+        unsubscribeAnchors();
+        unsubscribeAnchors = null;
+      }
+      if (unsubscribePlacements) {
+        unsubscribePlacements();
+        unsubscribePlacements = null;
+      }
+      if (unsubscribePlacementMode) {
+        unsubscribePlacementMode();
+        unsubscribePlacementMode = null;
+      }
+      if (unsubscribePlacementPreview) {
+        unsubscribePlacementPreview();
+        unsubscribePlacementPreview = null;
+      }
       if (unsubscribeSelection) {
         unsubscribeSelection();
         unsubscribeSelection = null;
@@ -463,6 +600,10 @@ export function createRenderingAgent(options: RenderingAgentOptions): RenderingA
         window.cancelAnimationFrame(animationHandle);
         animationHandle = 0;
       }
+      if (labelAgeTimerId !== null) {
+        window.clearInterval(labelAgeTimerId);
+        labelAgeTimerId = null;
+      }
       debugHud.snapToFollow();
       hudDragHand = null;
       kmlMap.dispose();
@@ -470,6 +611,8 @@ export function createRenderingAgent(options: RenderingAgentOptions): RenderingA
       handVisualizer.dispose();
       labelManager.dispose();
       debugHud.dispose();
+      alertToasts.dispose();
+      placementReticle.dispose();
       renderer.dispose();
     }
   };
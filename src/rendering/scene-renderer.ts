@@ -1,11 +1,14 @@
 import {
+  BufferAttribute,
   BufferGeometry,
+  Color,
   CylinderGeometry,
   Group,
   LineBasicMaterial,
+  LineDashedMaterial,
   LineLoop,
-  Mesh,
-  MeshStandardMaterial,
+  LineSegments,
+  Matrix4,
   Quaternion,
   Scene,
   SphereGeometry,
@@ -13,17 +16,31 @@ import {
 } from "three";
 
 import type { RenderGraphView, RenderLinkView, RenderNodeView } from "../topology";
-import type { TrackedMarker, XrBoundaryPoint } from "../contracts";
+import type {
+  MarkerRegistryEntry,
+  NodePlacement,
+  PersistedMarkerAnchor,
+  TrackedMarker,
+  XrBoundaryPoint,
+  XrDetectedSurface
+} from "../contracts";
+import {
+  BEAM_FLOW_ATTRIBUTES,
+  createBeamFlowUniforms,
+  patchBeamFlowShader,
+  selectBeamHealthIndex
+} from "./beam-flow-shader";
+import { InstanceBatch } from "./instanced-infra";
+import { SurfaceObstacles } from "./surface-obstacles";
 
 const LINK_SEGMENT_COUNT = 4;
 const NODE_RADIUS = 0.05;
 const NODE_SPHERE_WIDTH_SEGMENTS = 12;
 const NODE_SPHERE_HEIGHT_SEGMENTS = 8;
 const LINK_BEAM_RADIAL_SEGMENTS = 8;
-const PACKET_SPHERE_WIDTH_SEGMENTS = 8;
-const PACKET_SPHERE_HEIGHT_SEGMENTS = 6;
 const MIN_LINK_BEAM_RADIUS = 0.003;
-const MIN_PACKET_RADIUS = 0.008;
+/** Segments shorter than this collapse to nothing rather than a degenerate cylinder. */
+const MIN_SEGMENT_LENGTH = 0.001;
 const MARKER_LAYOUT_POSITION_EPSILON_SQ = 0.0004;
 const MARKER_LAYOUT_MIN_INTERVAL_MS = 80;
 const MAX_KML_LAYOUT_RADIUS_NO_BOUNDARY = 2.2;
@@ -31,15 +48,18 @@ const MIN_KML_LAYOUT_RADIUS = 0.52;
 const KML_LAYOUT_BOUNDARY_PADDING = 0.94;
 const DEFAULT_NODE_OPACITY = 0.88;
 const DEFAULT_LINK_OPACITY = 0.34;
-const DEFAULT_PACKET_OPACITY = 0.54;
+const DEFAULT_PULSE_OPACITY = 0.54;
 const FOCUS_NODE_OPACITY = 1;
 const FOCUS_LINK_OPACITY = 0.74;
-const FOCUS_PACKET_OPACITY = 0.92;
+const FOCUS_PULSE_OPACITY = 0.92;
 const DIM_NODE_OPACITY = 0.34;
 const DIM_LINK_OPACITY = 0.17;
-const DIM_PACKET_OPACITY = 0.28;
+const DIM_PULSE_OPACITY = 0.28;
+/** Opacity multiplier for entities whose data aged out under the "fade" stale presentation. */
+const STALE_FADE_FACTOR = 0.4;
 const SELECTED_HIGHLIGHT_HEX = 0x5cf2ff;
 const HOVER_HIGHLIGHT_HEX = 0x8feaff;
+const PATH_HIGHLIGHT_HEX = 0xffa53d;
 const MIN_NODE_SCALE_FACTOR = 0.84;
 const MAX_NODE_SCALE_FACTOR = 1.28;
 const OVERLAP_KEY_PRECISION = 50;
@@ -47,24 +67,56 @@ const OVERLAP_SPREAD_RADIUS = 0.08;
 const OVERLAP_SPREAD_RING_GAP = 0.055;
 const MIN_KML_LAYOUT_SCALE_MULTIPLIER = 0.5;
 const MAX_KML_LAYOUT_SCALE_MULTIPLIER = 6;
-
+// Appear/disappear is quicker than the metric easing so structural edits read as discrete events.
+const PRESENCE_LERP_RATE = 7;
+const PRESENCE_EPSILON = 0.01;
+/** Free-floating nodes keep this far from detected walls and furniture. */
+const NODE_SURFACE_CLEARANCE = 0.12;
+/** Beam occlusion follows the viewer's head; re-tested at this interval. */
+const OCCLUSION_REFRESH_INTERVAL_MS = 100;
+const OCCLUDED_DASH_SIZE = 0.04;
+const OCCLUDED_GAP_SIZE = 0.03;
+/** Dashed-line vertices per link: one pair per beam segment. */
+const OCCLUDED_VERTICES_PER_LINK = LINK_SEGMENT_COUNT * 2;
+
+/**
+ * Animation and layout state of a link. Its beam segments and dashed stand-ins live in the
+ * shared segment batch and occlusion line, keyed by link ID. Traffic pulses run in the beam shader.
+ */
 interface LinkVisualState {
-  group: Group;
-  segments: Array<Mesh<CylinderGeometry, MeshStandardMaterial>>;
-  packet: Mesh<SphereGeometry, MeshStandardMaterial>;
-  segmentMaterial: MeshStandardMaterial;
-  packetMaterial: MeshStandardMaterial;
+  /** Segment orientation and length from the last layout; tick() applies the animated radius. */
+  segmentRotations: Quaternion[];
+  segmentLengths: number[];
+  /** Segments hidden behind a detected wall or piece of furniture; drawn dashed instead. */
+  occludedSegments: boolean[];
+  /** Set when layout or occlusion changed, so tick() rewrites the segment instances. */
+  segmentsDirty: boolean;
+  appliedBeamRadius: number;
+  appliedReverseBeamRadius: number;
   flowHz: number;
-  targetFlowHz: number;
+  reverseFlowHz: number;
+  /** Pulse phases, rebased on rate changes so pulses keep their place instead of jumping. */
+  flowPhase: number;
+  reverseFlowPhase: number;
+  /** A→B lane radius; the B→A lane eases separately and matches it without directional data. */
   beamRadius: number;
   targetBeamRadius: number;
+  reverseBeamRadius: number;
+  targetReverseBeamRadius: number;
+  reversePulseCount: number;
+  /** 0..1 grow-in / shrink-out factor applied on top of the beam radius. */
+  presence: number;
+  targetPresence: number;
   path: Vector3[];
-  phase: number;
 }
 
-interface SelectableMeta {
-  selectableType: "node" | "link";
-  selectableId: string;
+interface NodeVisualState {
+  /** Node type; selects the instance batch the node is drawn in. */
+  type: string;
+  position: Vector3;
+  baseScale: number;
+  presence: number;
+  targetPresence: number;
 }
 
 export class InfraSceneRenderer {
@@ -74,11 +126,20 @@ export class InfraSceneRenderer {
   private readonly nodeGroup = new Group();
   private readonly linkGroup = new Group();
   private readonly markerAnchors = new Map<number, Vector3>();
+  /** WebXR-anchored marker positions; used until the marker itself is seen. */
+  private readonly persistedAnchors = new Map<number, Vector3>();
+  /** Node ID -> marker ID overrides from the marker registry. */
+  private markerBindings = new Map<string, number>();
+  /** Hit-test placements for nodes that carry no marker, keyed by node ID. */
+  private readonly nodePlacements = new Map<string, Vector3>();
   private preferredSpawnAnchor: Vector3 | null = null;
   private preferredSpawnRotation: Quaternion | null = null;
   private readonly floatingNodePositions = new Map<string, Vector3>();
-  private readonly nodeMeshes = new Map<string, Mesh<SphereGeometry, MeshStandardMaterial>>();
-  private readonly linkMeshes = new Map<string, LinkVisualState>();
+  private readonly nodeStates = new Map<string, NodeVisualState>();
+  private readonly linkVisuals = new Map<string, LinkVisualState>();
+  // Removed entities stay here, unselectable, until their shrink-out finishes.
+  private readonly exitingNodes = new Map<string, NodeVisualState>();
+  private readonly exitingLinks = new Map<string, LinkVisualState>();
   private readonly nodeGeometry = new SphereGeometry(
     1,
     NODE_SPHERE_WIDTH_SEGMENTS,
@@ -92,23 +153,35 @@ export class InfraSceneRenderer {
     1,
     true
   );
-  private readonly packetGeometry = new SphereGeometry(
-    1,
-    PACKET_SPHERE_WIDTH_SEGMENTS,
-    PACKET_SPHERE_HEIGHT_SEGMENTS
-  );
+  // One draw call per node type plus one each for beam segments and dashed stand-ins.
+  private readonly nodeBatches = new Map<string, InstanceBatch>();
+  private readonly segmentBatch: InstanceBatch;
+  private readonly beamUniforms = createBeamFlowUniforms();
+  /** Dashed stand-ins for occluded segments; vertex pair i belongs to segment instance i. */
+  private readonly occludedLine: LineSegments<BufferGeometry, LineDashedMaterial>;
   private graph: RenderGraphView = { nodes: [], links: [] };
   private boundaryPolygon: XrBoundaryPoint[] | null = null;
   private boundaryLoop: LineLoop<BufferGeometry, LineBasicMaterial> | null = null;
   private readonly tmpMid = new Vector3();
   private readonly tmpDir = new Vector3();
   private readonly tmpLayout = new Vector3();
+  private readonly tmpScale = new Vector3();
+  private readonly tmpColor = new Color();
+  private readonly tmpSide = new Vector3();
+  private readonly tmpNormal = new Vector3();
+  private readonly tmpBasis = new Matrix4();
   private selectedNodeId: string | null = null;
   private selectedLinkId: string | null = null;
   private hoveredNodeId: string | null = null;
   private hoveredLinkId: string | null = null;
+  private pathNodeIds: Set<string> | null = null;
+  private pathLinkIds: Set<string> | null = null;
   private lastTickSec = 0;
   private lastMarkerLayoutAtMs = 0;
+  private readonly surfaceObstacles = new SurfaceObstacles();
+  private readonly viewerPosition = new Vector3();
+  private hasViewerPosition = false;
+  private lastOcclusionAtMs = 0;
   private kmlLayoutScaleMultiplier = 1;
 
   constructor(scene: Scene) {
@@ -116,61 +189,65 @@ export class InfraSceneRenderer {
     this.nodeGroup.name = "infra-nodes";
     this.linkGroup.name = "infra-links";
     this.root.add(this.linkGroup, this.nodeGroup);
+
+    this.segmentBatch = new InstanceBatch(this.linkGroup, {
+      name: "infra-link-segments",
+      selectableType: "link",
+      geometry: this.linkSegmentGeometry,
+      material: { metalness: 0.12, roughness: 0.42 },
+      stride: LINK_SEGMENT_COUNT,
+      attributes: BEAM_FLOW_ATTRIBUTES,
+      patchShader: (shader) => patchBeamFlowShader(shader, this.beamUniforms),
+      programKey: "infra-beam-flow"
+    });
+    this.occludedLine = new LineSegments(
+      createOccludedLineGeometry(OCCLUDED_VERTICES_PER_LINK * 32),
+      new LineDashedMaterial({
+        vertexColors: true,
+        dashSize: OCCLUDED_DASH_SIZE,
+        gapSize: OCCLUDED_GAP_SIZE,
+        transparent: true
+      })
+    );
+    this.occludedLine.name = "infra-link-occluded";
+    this.occludedLine.frustumCulled = false;
+    this.occludedLine.visible = false;
+    this.linkGroup.add(this.occludedLine);
+
     scene.add(this.root);
   }
 
   updateGraph(graph: RenderGraphView): void {
     this.graph = graph;
 
-    this.syncNodeMeshes(graph.nodes);
-    this.syncLinkMeshes(graph.links);
+    this.syncNodes(graph.nodes);
+    this.syncLinks(graph.links);
     this.recomputeLayout();
     this.applyInteractionStyling();
   }
 
   updateTrackedMarkers(markers: TrackedMarker[]): void {
-    const seen = new Set<number>();
-    let shouldRecompute = false;
-
-    for (const marker of markers) {
-      seen.add(marker.markerId);
-      const existing = this.markerAnchors.get(marker.markerId);
-      if (existing) {
-        const dx = existing.x - marker.pose.position.x;
-        const dy = existing.y - marker.pose.position.y;
-        const dz = existing.z - marker.pose.position.z;
-        if (dx * dx + dy * dy + dz * dz > MARKER_LAYOUT_POSITION_EPSILON_SQ) {
-          shouldRecompute = true;
-        }
-        existing.set(marker.pose.position.x, marker.pose.position.y, marker.pose.position.z);
-      } else {
-        this.markerAnchors.set(
-          marker.markerId,
-          new Vector3(marker.pose.position.x, marker.pose.position.y, marker.pose.position.z)
-        );
-        shouldRecompute = true;
-      }
-    }
-
-    const markerIds = [...this.markerAnchors.keys()];
-    for (const markerId of markerIds) {
-      if (seen.has(markerId)) {
-        continue;
-      }
-      this.markerAnchors.delete(markerId);
-      shouldRecompute = true;
+    if (syncAnchorPositions(this.markerAnchors, markers.map((marker) => [marker.markerId, marker.pose.position]))) {
+      this.scheduleMarkerLayout();
     }
+  }
 
-    if (!shouldRecompute) {
-      return;
+  updatePersistedAnchors(anchors: PersistedMarkerAnchor[]): void {
+    if (syncAnchorPositions(this.persistedAnchors, anchors.map((anchor) => [anchor.markerId, anchor.position]))) {
+      this.scheduleMarkerLayout();
     }
+  }
 
-    const now = performance.now();
-    if (now - this.lastMarkerLayoutAtMs < MARKER_LAYOUT_MIN_INTERVAL_MS) {
-      return;
-    }
-    this.lastMarkerLayoutAtMs = now;
+  /** Detected planes and meshes; floating nodes keep clear of them and hidden beams turn dashed. */
+  setDetectedSurfaces(surfaces: XrDetectedSurface[]): void {
+    this.surfaceObstacles.setSurfaces(surfaces);
+    this.occludedLine.visible = !this.surfaceObstacles.isEmpty;
     this.recomputeLayout();
+    this.refreshOcclusion();
+  }
+
+  getSurfaceObstacles(): SurfaceObstacles {
+    return this.surfaceObstacles;
   }
 
   setBoundaryPolygon(boundary: XrBoundaryPoint[] | null): void {
@@ -179,6 +256,33 @@ export class InfraSceneRenderer {
     this.recomputeLayout();
   }
 
+  /** Anchor registry-bound nodes to their marker instead of the topology's `markerId`. */
+  setMarkerBindings(entries: MarkerRegistryEntry[]): void {
+    const next = new Map<string, number>();
+    for (const entry of entries) {
+      if (entry.nodeId) {
+        next.set(entry.nodeId, entry.markerId);
+      }
+    }
+    const changed = next.size !== this.markerBindings.size ||
+      [...next].some(([nodeId, markerId]) => this.markerBindings.get(nodeId) !== markerId);
+    this.markerBindings = next;
+    if (changed) {
+      this.recomputeLayout();
+    }
+  }
+
+  /** Pins nodes to operator-placed positions; a located marker still takes precedence. */
+  setNodePlacements(placements: NodePlacement[]): void {
+    const changed = syncAnchorPositions(
+      this.nodePlacements,
+      placements.map((placement) => [placement.nodeId, placement.position])
+    );
+    if (changed) {
+      this.recomputeLayout();
+    }
+  }
+
   setPreferredSpawnAnchor(anchor: Vector3 | null, rotation: Quaternion | null = null): void {
     if (!anchor || !rotation) {
       if (!this.preferredSpawnAnchor && !this.preferredSpawnRotation) {
@@ -226,6 +330,13 @@ export class InfraSceneRenderer {
     this.applyInteractionStyling();
   }
 
+  /** Highlights a traced path and dims everything else; null restores normal styling. */
+  setHighlightedPath(path: { nodeIds: string[]; linkIds: string[] } | null): void {
+    this.pathNodeIds = path ? new Set(path.nodeIds) : null;
+    this.pathLinkIds = path ? new Set(path.linkIds) : null;
+    this.applyInteractionStyling();
+  }
+
   setHover(kind: "node" | "link" | null, id: string | null): void {
     const nextHoveredNodeId = kind === "node" ? id : null;
     const nextHoveredLinkId = kind === "link" ? id : null;
@@ -237,47 +348,62 @@ export class InfraSceneRenderer {
     this.applyInteractionStyling();
   }
 
-  tick(timeMs: number): void {
+  /** Advances animation; `viewerPosition` (the XR head) drives beam occlusion when given. */
+  tick(timeMs: number, viewerPosition: Vector3 | null = null): void {
+    if (viewerPosition) {
+      this.viewerPosition.copy(viewerPosition);
+      this.hasViewerPosition = true;
+      if (!this.surfaceObstacles.isEmpty && timeMs - this.lastOcclusionAtMs >= OCCLUSION_REFRESH_INTERVAL_MS) {
+        this.lastOcclusionAtMs = timeMs;
+        this.refreshOcclusion();
+      }
+    }
+
     const timeSec = timeMs / 1000;
     const dt = this.lastTickSec > 0 ? Math.min(timeSec - this.lastTickSec, 0.1) : 0;
     this.lastTickSec = timeSec;
+    this.beamUniforms.uBeamTime.value = timeSec;
     // Framerate-independent exponential lerp (~3 units/sec convergence)
     const lerpAlpha = dt > 0 ? 1 - Math.exp(-3 * dt) : 0;
+    const presenceAlpha = dt > 0 ? 1 - Math.exp(-PRESENCE_LERP_RATE * dt) : 0;
 
-    for (const visual of this.linkMeshes.values()) {
-      // Smooth interpolation of radius and packet speed
-      if (lerpAlpha > 0) {
-        visual.flowHz += (visual.targetFlowHz - visual.flowHz) * lerpAlpha;
-        visual.beamRadius += (visual.targetBeamRadius - visual.beamRadius) * lerpAlpha;
+    for (const [nodeId, state] of this.nodeStates) {
+      this.tickNodePresence(nodeId, state, presenceAlpha);
+    }
+    for (const [nodeId, state] of this.exitingNodes) {
+      this.tickNodePresence(nodeId, state, presenceAlpha);
+      if (state.presence < PRESENCE_EPSILON) {
+        this.getNodeBatch(state.type).remove(nodeId);
+        this.exitingNodes.delete(nodeId);
       }
+    }
 
-      const beamRadius = Math.max(visual.beamRadius, MIN_LINK_BEAM_RADIUS);
-      const packetRadius = Math.max(MIN_PACKET_RADIUS, beamRadius * 1.6);
-      const phaseTime = timeSec * visual.flowHz + visual.phase;
-      const packetT = fract(phaseTime);
-
-      // Uniform radius on all segments — materials are shared so no per-segment mutation
-      for (const segment of visual.segments) {
-        segment.scale.x = beamRadius;
-        segment.scale.z = beamRadius;
+    for (const [linkId, visual] of this.exitingLinks) {
+      if (visual.presence < PRESENCE_EPSILON) {
+        this.releaseLink(linkId);
+        this.exitingLinks.delete(linkId);
       }
+    }
 
-      setPositionOnPath(visual.packet.position, visual.path, packetT);
-      visual.packet.scale.setScalar(packetRadius);
+    for (const [linkId, visual] of this.linkVisuals) {
+      this.tickLink(linkId, visual, lerpAlpha, presenceAlpha);
+    }
+    for (const [linkId, visual] of this.exitingLinks) {
+      this.tickLink(linkId, visual, lerpAlpha, presenceAlpha);
     }
   }
 
   getNodePositions(): Map<string, Vector3> {
     const result = new Map<string, Vector3>();
-    for (const [id, mesh] of this.nodeMeshes) {
-      result.set(id, mesh.position.clone());
+    for (const [id, state] of this.nodeStates) {
+      result.set(id, state.position.clone());
     }
     return result;
   }
 
   getLinkMidpoints(): Map<string, Vector3> {
     const result = new Map<string, Vector3>();
-    for (const [id, visual] of this.linkMeshes) {
+    for (const [id, visual] of this.linkVisuals) {
       if (visual.path.length > 0) {
         const midIdx = Math.floor(visual.path.length / 2);
         result.set(id, visual.path[midIdx].clone());
@@ -287,18 +413,19 @@ export class InfraSceneRenderer {
   }
 
   dispose(): void {
-    for (const mesh of this.nodeMeshes.values()) {
-      mesh.material.dispose();
-      this.nodeGroup.remove(mesh);
+    for (const batch of this.nodeBatches.values()) {
+      batch.dispose();
     }
-    this.nodeMeshes.clear();
+    this.nodeBatches.clear();
+    this.nodeStates.clear();
+    this.exitingNodes.clear();
 
-    for (const visual of this.linkMeshes.values()) {
-      visual.segmentMaterial.dispose();
-      visual.packetMaterial.dispose();
-      this.linkGroup.remove(visual.group);
-    }
-    this.linkMeshes.clear();
+    this.segmentBatch.dispose();
+    this.occludedLine.geometry.dispose();
+    this.occludedLine.material.dispose();
+    this.occludedLine.removeFromParent();
+    this.linkVisuals.clear();
+    this.exitingLinks.clear();
 
     if (this.boundaryLoop) {
       this.boundaryLoop.geometry.dispose();
@@ -309,129 +436,252 @@ export class InfraSceneRenderer {
 
     this.nodeGeometry.dispose();
     this.linkSegmentGeometry.dispose();
-    this.packetGeometry.dispose();
     this.root.removeFromParent();
   }
 
-  private syncNodeMeshes(nodes: RenderNodeView[]): void {
+  private syncNodes(nodes: RenderNodeView[]): void {
     const nextIds = new Set(nodes.map((node) => node.id));
     const connectionCounts = this.getNodeConnectionCounts();
 
-    for (const [nodeId, mesh] of this.nodeMeshes) {
+    for (const [nodeId, state] of this.nodeStates) {
       if (nextIds.has(nodeId)) {
         continue;
       }
-      mesh.material.dispose();
-      mesh.removeFromParent();
-      this.nodeMeshes.delete(nodeId);
+      this.nodeStates.delete(nodeId);
       this.floatingNodePositions.delete(nodeId);
+      this.getNodeBatch(state.type).setSelectableId(nodeId, null);
+      state.targetPresence = 0;
+      this.exitingNodes.set(nodeId, state);
     }
 
     for (const node of nodes) {
       const scale = NODE_RADIUS * this.getNodeScaleFactor(connectionCounts.get(node.id) ?? 0);
-      let mesh = this.nodeMeshes.get(node.id);
-      if (!mesh) {
-        mesh = new Mesh(
-          this.nodeGeometry,
-          new MeshStandardMaterial({ color: selectNodeColor(node.health), roughness: 0.3, metalness: 0.1 })
+      let state = this.nodeStates.get(node.id);
+      const exiting = state ? undefined : this.exitingNodes.get(node.id);
+      if (exiting) {
+        // Re-added before the shrink-out finished (e.g. a swapped CPE); grow back in place.
+        this.exitingNodes.delete(node.id);
+        exiting.targetPresence = 1;
+        this.getNodeBatch(exiting.type).setSelectableId(node.id, node.id);
+        this.nodeStates.set(node.id, exiting);
+        state = exiting;
+      }
+      if (!state) {
+        this.getNodeBatch(node.type).add(node.id, node.id);
+        this.nodeStates.set(node.id, {
+          type: node.type,
+          position: new Vector3(),
+          baseScale: scale,
+          presence: 0,
+          targetPresence: 1
+        });
+        continue;
+      }
+      state.baseScale = scale;
+      if (state.type !== node.type) {
+        // A retyped node moves to its new type's batch; styling and tick() refill it.
+        this.getNodeBatch(state.type).remove(node.id);
+        this.getNodeBatch(node.type).add(node.id, node.id);
+        state.type = node.type;
+      }
+    }
+  }
+
+  private getNodeBatch(type: string): InstanceBatch {
+    let batch = this.nodeBatches.get(type);
+    if (!batch) {
+      batch = new InstanceBatch(this.nodeGroup, {
+        name: `infra-nodes-${type}`,
+        selectableType: "node",
+        geometry: this.nodeGeometry,
+        material: { roughness: 0.3, metalness: 0.1 }
+      });
+      this.nodeBatches.set(type, batch);
+    }
+    return batch;
+  }
+
+  private tickNodePresence(nodeId: string, state: NodeVisualState, presenceAlpha: number): void {
+    if (presenceAlpha > 0) {
+      state.presence += (state.targetPresence - state.presence) * presenceAlpha;
+    }
+    const batch = this.getNodeBatch(state.type);
+    const index = batch.indexOf(nodeId);
+    if (index >= 0) {
+      batch.setUniformTransform(index, state.position, state.baseScale * state.presence);
+    }
+  }
+
+  private tickLink(linkId: string, visual: LinkVisualState, lerpAlpha: number, presenceAlpha: number): void {
+    // Smooth interpolation of radius; pulse motion is left to the beam shader.
+    if (lerpAlpha > 0) {
+      visual.beamRadius += (visual.targetBeamRadius - visual.beamRadius) * lerpAlpha;
+      visual.reverseBeamRadius += (visual.targetReverseBeamRadius - visual.reverseBeamRadius) * lerpAlpha;
+      visual.presence += (visual.targetPresence - visual.presence) * presenceAlpha;
+    }
+
+    const beamRadius = Math.max(visual.beamRadius, MIN_LINK_BEAM_RADIUS);
+    const reverseBeamRadius = Math.max(visual.reverseBeamRadius, MIN_LINK_BEAM_RADIUS);
+    // Segment instances only change with layout, occlusion or the easing radii.
+    const segmentStart = this.segmentBatch.indexOf(linkId);
+    if (
+      segmentStart >= 0 &&
+      (visual.segmentsDirty ||
+        Math.abs(beamRadius * visual.presence - visual.appliedBeamRadius) > 1e-6 ||
+        Math.abs(reverseBeamRadius * visual.presence - visual.appliedReverseBeamRadius) > 1e-6)
+    ) {
+      // Instances take the thicker lane's radius; the shader narrows the other half.
+      const instanceRadius = Math.max(beamRadius, reverseBeamRadius);
+      for (let i = 0; i < LINK_SEGMENT_COUNT; i++) {
+        this.writeSegmentInstance(visual, i, segmentStart + i, instanceRadius * visual.presence);
+        this.segmentBatch.setInstanceVector(
+          segmentStart + i,
+          "beamLane",
+          beamRadius / instanceRadius,
+          reverseBeamRadius / instanceRadius,
+          visual.reversePulseCount
         );
-        this.updateNodeMaterial(mesh.material, selectNodeColor(node.health));
-        mesh.scale.setScalar(scale);
-        mesh.name = `node-${node.id}`;
-        const metadata: SelectableMeta = {
-          selectableType: "node",
-          selectableId: node.id
-        };
-        mesh.userData = {
-          ...mesh.userData,
-          ...metadata
-        };
-        this.nodeGroup.add(mesh);
-        this.nodeMeshes.set(node.id, mesh);
-      } else {
-        this.updateNodeMaterial(mesh.material, selectNodeColor(node.health));
-        mesh.scale.setScalar(scale);
       }
+      visual.segmentsDirty = false;
+      visual.appliedBeamRadius = beamRadius * visual.presence;
+      visual.appliedReverseBeamRadius = reverseBeamRadius * visual.presence;
     }
   }
 
-  private syncLinkMeshes(links: RenderLinkView[]): void {
+  /** Unit cylinder scaled to the segment: radius on x/z, length on y. */
+  private writeSegmentInstance(visual: LinkVisualState, segment: number, index: number, radius: number): void {
+    const length = visual.segmentLengths[segment];
+    if (length < MIN_SEGMENT_LENGTH || visual.occludedSegments[segment]) {
+      this.segmentBatch.hide(index);
+      return;
+    }
+    this.tmpMid.copy(visual.path[segment]).add(visual.path[segment + 1]).multiplyScalar(0.5);
+    this.tmpScale.set(radius, length, radius);
+    this.segmentBatch.setTransform(index, this.tmpMid, visual.segmentRotations[segment], this.tmpScale);
+  }
+
+  /** Frees a link's instances; the batch fills the gap with its last link, whose dashes follow. */
+  private releaseLink(linkId: string): void {
+    const freedIndex = this.segmentBatch.indexOf(linkId);
+    const lastIndex = (this.segmentBatch.size - 1) * LINK_SEGMENT_COUNT;
+    if (this.segmentBatch.remove(linkId) !== null) {
+      const geometry = this.occludedLine.geometry;
+      for (const name of ["position", "color", "lineDistance"]) {
+        const attribute = geometry.getAttribute(name) as BufferAttribute;
+        attribute.array.copyWithin(
+          freedIndex * 2 * attribute.itemSize,
+          lastIndex * 2 * attribute.itemSize,
+          (lastIndex + LINK_SEGMENT_COUNT) * 2 * attribute.itemSize
+        );
+        attribute.needsUpdate = true;
+      }
+    }
+    this.syncOccludedLineSize();
+  }
+
+  /** Keeps the dashed line's buffers and draw range in step with the segment batch. */
+  private syncOccludedLineSize(): void {
+    const vertexCount = this.segmentBatch.size * OCCLUDED_VERTICES_PER_LINK;
+    const geometry = this.occludedLine.geometry;
+    const capacity = geometry.getAttribute("position").count;
+    if (vertexCount > capacity) {
+      const next = createOccludedLineGeometry(Math.max(vertexCount, capacity * 2));
+      for (const name of ["position", "color", "lineDistance"]) {
+        (next.getAttribute(name) as BufferAttribute).array.set((geometry.getAttribute(name) as BufferAttribute).array);
+      }
+      geometry.dispose();
+      this.occludedLine.geometry = next;
+    }
+    this.occludedLine.geometry.setDrawRange(0, vertexCount);
+  }
+
+  private syncLinks(links: RenderLinkView[]): void {
     const nextIds = new Set(links.map((link) => link.id));
 
-    for (const [linkId, visual] of this.linkMeshes) {
+    for (const [linkId, visual] of this.linkVisuals) {
       if (nextIds.has(linkId)) {
         continue;
       }
-      visual.segmentMaterial.dispose();
-      visual.packetMaterial.dispose();
-      visual.group.removeFromParent();
-      this.linkMeshes.delete(linkId);
+      this.linkVisuals.delete(linkId);
+      this.segmentBatch.setSelectableId(linkId, null);
+      visual.targetPresence = 0;
+      this.exitingLinks.set(linkId, visual);
     }
 
     for (const link of links) {
-      let visual = this.linkMeshes.get(link.id);
+      let visual = this.linkVisuals.get(link.id);
+      const exiting = visual ? undefined : this.exitingLinks.get(link.id);
+      if (exiting) {
+        this.exitingLinks.delete(link.id);
+        exiting.targetPresence = 1;
+        this.segmentBatch.setSelectableId(link.id, link.id);
+        this.linkVisuals.set(link.id, exiting);
+        visual = exiting;
+      }
       if (!visual) {
-        const group = new Group();
-        group.name = `link-${link.id}`;
-        const metadata: SelectableMeta = {
-          selectableType: "link",
-          selectableId: link.id
-        };
-        group.userData = {
-          ...group.userData,
-          ...metadata
-        };
-
-        const segmentMaterial = this.createLinkSegmentMaterial(link.beamColorHex);
-        const segments: Array<Mesh<CylinderGeometry, MeshStandardMaterial>> = [];
+        // Instances start hidden; tick() grows the beam in through `presence`.
+        const segmentStart = this.segmentBatch.add(link.id, link.id);
         for (let i = 0; i < LINK_SEGMENT_COUNT; i++) {
-          const segment = new Mesh(
-            this.linkSegmentGeometry,
-            segmentMaterial
+          this.segmentBatch.setInstanceVector(
+            segmentStart + i,
+            "beamSpan",
+            i / LINK_SEGMENT_COUNT,
+            (i + 1) / LINK_SEGMENT_COUNT
           );
-          segment.name = `link-segment-${link.id}-${i}`;
-          segments.push(segment);
-          group.add(segment);
-        }
-
-        const initialBeamRadius = Math.max(link.trafficRadius, MIN_LINK_BEAM_RADIUS);
-        const initialPacketRadius = Math.max(MIN_PACKET_RADIUS, initialBeamRadius * 0.78);
-        const packetMaterial = this.createLinkPacketMaterial(link.beamColorHex);
-        const packet = new Mesh(
-          this.packetGeometry,
-          packetMaterial
-        );
-
-        group.add(packet);
-        this.linkGroup.add(group);
-
-        for (const segment of segments) {
-          segment.scale.x = initialBeamRadius;
-          segment.scale.z = initialBeamRadius;
         }
-        packet.scale.setScalar(initialPacketRadius);
+        this.syncOccludedLineSize();
 
         visual = {
-          group,
-          segments,
-          packet,
-          segmentMaterial,
-          packetMaterial,
+          segmentRotations: Array.from({ length: LINK_SEGMENT_COUNT }, () => new Quaternion()),
+          segmentLengths: new Array<number>(LINK_SEGMENT_COUNT).fill(0),
+          occludedSegments: new Array<boolean>(LINK_SEGMENT_COUNT).fill(false),
+          segmentsDirty: true,
+          appliedBeamRadius: 0,
+          appliedReverseBeamRadius: 0,
           flowHz: link.flowHz,
-          targetFlowHz: link.flowHz,
+          reverseFlowHz: link.reverseFlowHz,
+          flowPhase: Math.random(),
+          reverseFlowPhase: Math.random(),
           beamRadius: link.trafficRadius,
           targetBeamRadius: link.trafficRadius,
-          path: createPathBuffer(LINK_SEGMENT_COUNT + 1),
-          phase: Math.random()
+          reverseBeamRadius: link.reverseTrafficRadius,
+          targetReverseBeamRadius: link.reverseTrafficRadius,
+          reversePulseCount: link.reversePulseCount,
+          presence: 0,
+          targetPresence: 1,
+          path: createPathBuffer(LINK_SEGMENT_COUNT + 1)
         };
-        this.linkMeshes.set(link.id, visual);
+        this.linkVisuals.set(link.id, visual);
       } else {
-        visual.targetFlowHz = link.flowHz;
         visual.targetBeamRadius = link.trafficRadius;
+        visual.targetReverseBeamRadius = link.reverseTrafficRadius;
+        if (visual.reversePulseCount !== link.reversePulseCount) {
+          visual.reversePulseCount = link.reversePulseCount;
+          visual.segmentsDirty = true;
+        }
+        // Keep `time * rate + phase` continuous so pulses change speed where they are.
+        visual.flowPhase = fract(visual.flowPhase + this.lastTickSec * (visual.flowHz - link.flowHz));
+        visual.reverseFlowPhase = fract(
+          visual.reverseFlowPhase + this.lastTickSec * (visual.reverseFlowHz - link.reverseFlowHz)
+        );
+        visual.flowHz = link.flowHz;
+        visual.reverseFlowHz = link.reverseFlowHz;
       }
+      this.writeBeamFlow(link.id, visual);
+    }
+  }
 
-      this.updateLinkSegmentMaterial(visual.segmentMaterial, link.beamColorHex);
-      this.updateLinkPacketMaterial(visual.packetMaterial, link.beamColorHex);
+  private writeBeamFlow(linkId: string, visual: LinkVisualState): void {
+    const segmentStart = this.segmentBatch.indexOf(linkId);
+    for (let i = 0; i < LINK_SEGMENT_COUNT; i++) {
+      this.segmentBatch.setInstanceVector(
+        segmentStart + i,
+        "beamFlow",
+        visual.flowHz,
+        visual.flowPhase,
+        visual.reverseFlowHz,
+        visual.reverseFlowPhase
+      );
     }
   }
 
@@ -439,16 +689,16 @@ export class InfraSceneRenderer {
     const positions = this.resolveNodePositions(this.graph.nodes);
 
     for (const node of this.graph.nodes) {
-      const mesh = this.nodeMeshes.get(node.id);
+      const state = this.nodeStates.get(node.id);
       const position = positions.get(node.id);
-      if (!mesh || !position) {
+      if (!state || !position) {
         continue;
       }
-      mesh.position.copy(position);
+      state.position.copy(position);
     }
 
     for (const link of this.graph.links) {
-      const visual = this.linkMeshes.get(link.id);
+      const visual = this.linkVisuals.get(link.id);
       const from = positions.get(link.fromNodeId);
       const to = positions.get(link.toNodeId);
       if (!visual || !from || !to) {
@@ -456,21 +706,83 @@ export class InfraSceneRenderer {
       }
 
       this.fillConstrainedPath(visual.path, from, to);
-      const path = visual.path;
-
-      for (let i = 0; i < visual.segments.length; i++) {
-        const a = path[i];
-        const b = path[i + 1];
-        const segment = visual.segments[i];
-        if (!a || !b) {
-          segment.visible = false;
-          continue;
+      for (let i = 0; i < LINK_SEGMENT_COUNT; i++) {
+        this.tmpDir.copy(visual.path[i + 1]).sub(visual.path[i]);
+        const length = this.tmpDir.length();
+        visual.segmentLengths[i] = length;
+        if (length >= MIN_SEGMENT_LENGTH) {
+          this.orientSegment(visual.segmentRotations[i], this.tmpDir.divideScalar(length));
         }
-        this.updateBeamTransform(segment, a, b);
       }
+      visual.segmentsDirty = true;
+      this.applySegmentOcclusion(link.id, visual);
     }
   }
 
+  /**
+   * Points the unit cylinder's Y along `direction` and its local +X as close to world up as it
+   * gets, so the A→B lane runs above the B→A lane.
+   */
+  private orientSegment(target: Quaternion, direction: Vector3): void {
+    const side = this.tmpSide.copy(InfraSceneRenderer.UP).addScaledVector(direction, -direction.y);
+    if (side.lengthSq() < 1e-6) {
+      // Vertical segment: any horizontal side will do.
+      side.set(1, 0, 0);
+    }
+    side.normalize();
+    this.tmpNormal.crossVectors(side, direction);
+    target.setFromRotationMatrix(this.tmpBasis.makeBasis(side, direction, this.tmpNormal));
+  }
+
+  /** Re-tests every beam segment midpoint against the detected surfaces from the viewer. */
+  private refreshOcclusion(): void {
+    const canOcclude = this.hasViewerPosition && !this.surfaceObstacles.isEmpty;
+    for (const [linkId, visual] of this.linkVisuals) {
+      let changed = false;
+      for (let i = 0; i < LINK_SEGMENT_COUNT; i++) {
+        const occluded =
+          canOcclude &&
+          this.surfaceObstacles.isOccluded(
+            this.viewerPosition,
+            this.tmpMid.copy(visual.path[i]).add(visual.path[i + 1]).multiplyScalar(0.5)
+          );
+        if (occluded !== visual.occludedSegments[i]) {
+          visual.occludedSegments[i] = occluded;
+          changed = true;
+        }
+      }
+      if (changed) {
+        this.applySegmentOcclusion(linkId, visual);
+      }
+    }
+  }
+
+  /** Swaps occluded segments from solid beam to dashed line; a collapsed pair draws nothing. */
+  private applySegmentOcclusion(linkId: string, visual: LinkVisualState): void {
+    visual.segmentsDirty = true;
+    const segmentStart = this.segmentBatch.indexOf(linkId);
+    if (segmentStart < 0) {
+      return;
+    }
+    const geometry = this.occludedLine.geometry;
+    const positions = geometry.getAttribute("position") as BufferAttribute;
+    const distances = geometry.getAttribute("lineDistance") as BufferAttribute;
+    for (let i = 0; i < LINK_SEGMENT_COUNT; i++) {
+      const a = visual.path[i];
+      const b = visual.path[i + 1];
+      const occluded = visual.segmentLengths[i] >= MIN_SEGMENT_LENGTH && visual.occludedSegments[i];
+      const end = occluded ? b : a;
+      const vertex = (segmentStart + i) * 2;
+      positions.setXYZ(vertex, a.x, a.y, a.z);
+      positions.setXYZ(vertex + 1, end.x, end.y, end.z);
+      // Written directly; computeLineDistances() would walk the whole shared line.
+      distances.setX(vertex, 0);
+      distances.setX(vertex + 1, occluded ? visual.segmentLengths[i] : 0);
+    }
+    positions.needsUpdate = true;
+    distances.needsUpdate = true;
+  }
+
   private fillConstrainedPath(path: Vector3[], from: Vector3, to: Vector3): void {
     const count = Math.max(path.length, 2);
 
@@ -487,27 +799,6 @@ export class InfraSceneRenderer {
     }
   }
 
-  private updateBeamTransform(
-    beam: Mesh<CylinderGeometry, MeshStandardMaterial>,
-    from: Vector3,
-    to: Vector3
-  ): void {
-    this.tmpDir.copy(to).sub(from);
-    const length = this.tmpDir.length();
-    if (length < 0.001) {
-      beam.visible = false;
-      return;
-    }
-
-    beam.visible = true;
-    this.tmpDir.normalize();
-    beam.quaternion.setFromUnitVectors(InfraSceneRenderer.UP, this.tmpDir);
-    this.tmpMid.copy(from).add(to).multiplyScalar(0.5);
-    beam.position.copy(this.tmpMid);
-    // Only set y (segment length); x/z are managed by tick() for smooth radius
-    beam.scale.y = length;
-  }
-
   private resolveNodePositions(nodes: RenderNodeView[]): Map<string, Vector3> {
     const output = new Map<string, Vector3>();
     const floating: RenderNodeView[] = [];
@@ -551,9 +842,24 @@ export class InfraSceneRenderer {
     });
 
     this.spreadOverlappingNodes(output, floating);
+
+    if (!this.surfaceObstacles.isEmpty) {
+      for (const node of nodes) {
+        const position = output.get(node.id);
+        if (position && !this.hasPhysicalAnchor(node)) {
+          this.surfaceObstacles.pushClear(position, NODE_SURFACE_CLEARANCE);
+        }
+      }
+    }
     return output;
   }
 
+  /** Marker-anchored and hand-placed nodes mark real equipment, so they are never moved. */
+  private hasPhysicalAnchor(node: RenderNodeView): boolean {
+    const markerId = this.markerBindings.get(node.id) ?? node.markerId;
+    return this.markerAnchors.has(markerId) || this.persistedAnchors.has(markerId) || this.nodePlacements.has(node.id);
+  }
+
   private getAnchorLayoutOffset(
     nodes: RenderNodeView[],
     kmlLayoutScale: number
@@ -706,15 +1012,29 @@ export class InfraSceneRenderer {
     return clamped;
   }
 
+  private scheduleMarkerLayout(): void {
+    const now = performance.now();
+    if (now - this.lastMarkerLayoutAtMs < MARKER_LAYOUT_MIN_INTERVAL_MS) {
+      return;
+    }
+    this.lastMarkerLayoutAtMs = now;
+    this.recomputeLayout();
+  }
+
   private resolveNodeAnchor(
     node: RenderNodeView,
     kmlLayoutScale = 1,
     anchorLayoutOffset: Vector3 | null = null
   ): Vector3 | null {
-    const markerAnchor = this.markerAnchors.get(node.markerId);
+    const markerId = this.markerBindings.get(node.id) ?? node.markerId;
+    const markerAnchor = this.markerAnchors.get(markerId) ?? this.persistedAnchors.get(markerId);
     if (markerAnchor) {
       return markerAnchor;
     }
+    const placement = this.nodePlacements.get(node.id);
+    if (placement) {
+      return placement;
+    }
     if (this.preferredSpawnAnchor && node.layoutOffsetMeters) {
       this.tmpLayout.set(
         node.layoutOffsetMeters.x * kmlLayoutScale,
@@ -773,63 +1093,6 @@ export class InfraSceneRenderer {
     this.root.add(this.boundaryLoop);
   }
 
-  private createLinkSegmentMaterial(colorHex: string): MeshStandardMaterial {
-    const material = new MeshStandardMaterial({
-      color: colorHex,
-      emissive: colorHex,
-      emissiveIntensity: 0.26,
-      metalness: 0.12,
-      roughness: 0.42
-    });
-    this.writeInteractionBaseline(material);
-    return material;
-  }
-
-  private createLinkPacketMaterial(colorHex: string): MeshStandardMaterial {
-    const material = new MeshStandardMaterial({
-      color: colorHex,
-      emissive: colorHex,
-      emissiveIntensity: 0.95,
-      metalness: 0.04,
-      roughness: 0.28
-    });
-    this.writeInteractionBaseline(material);
-    return material;
-  }
-
-  private updateLinkSegmentMaterial(material: MeshStandardMaterial, colorHex: string): void {
-    material.color.set(colorHex);
-    material.emissive.set(colorHex);
-    material.emissiveIntensity = 0.26;
-    this.writeInteractionBaseline(material);
-  }
-
-  private updateLinkPacketMaterial(material: MeshStandardMaterial, colorHex: string): void {
-    material.color.set(colorHex);
-    material.emissive.set(colorHex);
-    material.emissiveIntensity = 0.95;
-    this.writeInteractionBaseline(material);
-  }
-
-  private updateNodeMaterial(material: MeshStandardMaterial, colorHex: string): void {
-    material.color.set(colorHex);
-    material.emissive.set(0x000000);
-    material.emissiveIntensity = 0;
-    this.writeInteractionBaseline(material);
-  }
-
-  private writeInteractionBaseline(material: MeshStandardMaterial): void {
-    material.userData = {
-      ...material.userData,
-      interactionBase: {
-        colorHex: material.color.getHex(),
-        emissiveHex: material.emissive.getHex(),
-        emissiveIntensity: material.emissiveIntensity,
-        opacity: material.opacity,
-      },
-    };
-  }
-
   private getNodeConnectionCounts(): Map<string, number> {
     const counts = new Map<string, number>();
     for (const link of this.graph.links) {
@@ -856,62 +1119,65 @@ export class InfraSceneRenderer {
         : focus.mode === "hover"
           ? HOVER_HIGHLIGHT_HEX
           : null;
+    // A traced path replaces the neighbourhood context of the selection.
+    const pathActive = this.pathNodeIds !== null;
+    const dimUnfocused = focus.mode !== "none" || pathActive;
 
     for (const node of this.graph.nodes) {
-      const mesh = this.nodeMeshes.get(node.id);
-      if (!mesh) {
+      const state = this.nodeStates.get(node.id);
+      if (!state) {
         continue;
       }
 
       const isPrimary = focus.primaryKind === "node" && focus.primaryId === node.id;
-      const isContext = focus.relatedNodeIds?.has(node.id) ?? false;
-      const opacity = focus.mode === "none"
+      const isContext = !pathActive && (focus.relatedNodeIds?.has(node.id) ?? false);
+      const onPath = this.pathNodeIds?.has(node.id) ?? false;
+      const fade = node.stale === "fade" ? STALE_FADE_FACTOR : 1;
+      const opacity = fade * (!dimUnfocused
         ? DEFAULT_NODE_OPACITY
-        : isPrimary || isContext
+        : isPrimary || isContext || onPath
           ? FOCUS_NODE_OPACITY
-          : DIM_NODE_OPACITY;
+          : DIM_NODE_OPACITY);
       const highlight =
         focus.mode !== "none" && (isPrimary || isContext)
           ? isPrimary
             ? focusColorHex
             : HOVER_HIGHLIGHT_HEX
-          : null;
-      this.applyNodeVisual(mesh.material, selectNodeColor(node.health), opacity, highlight);
+          : onPath
+            ? PATH_HIGHLIGHT_HEX
+            : null;
+      this.applyNodeVisual(node.id, state, selectNodeColor(node.health), opacity, highlight);
     }
 
     for (const link of this.graph.links) {
-      const visual = this.linkMeshes.get(link.id);
-      if (!visual) {
+      if (!this.linkVisuals.has(link.id)) {
         continue;
       }
 
       const isPrimary = focus.primaryKind === "link" && focus.primaryId === link.id;
-      const isContext = focus.relatedLinkIds?.has(link.id) ?? false;
-      const segmentOpacity = focus.mode === "none"
+      const isContext = !pathActive && (focus.relatedLinkIds?.has(link.id) ?? false);
+      const onPath = this.pathLinkIds?.has(link.id) ?? false;
+      const fade = link.stale === "fade" ? STALE_FADE_FACTOR : 1;
+      const segmentOpacity = fade * (!dimUnfocused
         ? DEFAULT_LINK_OPACITY
-        : isPrimary || isContext
+        : isPrimary || isContext || onPath
           ? FOCUS_LINK_OPACITY
-          : DIM_LINK_OPACITY;
-      const packetOpacity = focus.mode === "none"
-        ? DEFAULT_PACKET_OPACITY
-        : isPrimary || isContext
-          ? FOCUS_PACKET_OPACITY
-          : DIM_PACKET_OPACITY;
+          : DIM_LINK_OPACITY);
+      const pulseOpacity = fade * (!dimUnfocused
+        ? DEFAULT_PULSE_OPACITY
+        : isPrimary || isContext || onPath
+          ? FOCUS_PULSE_OPACITY
+          : DIM_PULSE_OPACITY);
       const highlight =
         focus.mode !== "none" && (isPrimary || isContext)
           ? isPrimary
             ? focusColorHex
             : HOVER_HIGHLIGHT_HEX
-          : null;
+          : onPath
+            ? PATH_HIGHLIGHT_HEX
+            : null;
 
-      this.applyLinkVisual(
-        visual,
-        link.beamColorHex,
-        segmentOpacity,
-        packetOpacity,
-        highlight,
-        isPrimary
-      );
+      this.applyLinkVisual(link, segmentOpacity, pulseOpacity, highlight, isPrimary);
     }
   }
 
@@ -979,72 +1245,119 @@ export class InfraSceneRenderer {
   }
 
   private applyNodeVisual(
-    material: MeshStandardMaterial,
+    nodeId: string,
+    state: NodeVisualState,
     baseColorHex: string,
     opacity: number,
     highlightHex: number | null
   ): void {
-    material.transparent = opacity < 0.999;
-    material.opacity = opacity;
-    material.color.set(highlightHex ?? baseColorHex);
-    material.emissive.set(highlightHex ?? 0x000000);
-    material.emissiveIntensity = highlightHex ? 0.36 : 0;
+    const batch = this.getNodeBatch(state.type);
+    const index = batch.indexOf(nodeId);
+    if (index < 0) {
+      return;
+    }
+    // Instances glow in their own color, so a highlight is both the color and the emissive.
+    this.tmpColor.set(highlightHex ?? baseColorHex);
+    batch.setStyle(index, this.tmpColor, opacity, highlightHex ? 0.36 : 0);
   }
 
   private applyLinkVisual(
-    visual: LinkVisualState,
-    baseColorHex: string,
+    link: RenderLinkView,
     segmentOpacity: number,
-    packetOpacity: number,
+    pulseOpacity: number,
     highlightHex: number | null,
     isPrimary: boolean
   ): void {
-    visual.segmentMaterial.transparent = segmentOpacity < 0.999;
-    visual.segmentMaterial.opacity = segmentOpacity;
-    visual.segmentMaterial.color.set(highlightHex ?? baseColorHex);
-    visual.segmentMaterial.emissive.set(highlightHex ?? baseColorHex);
-    visual.segmentMaterial.emissiveIntensity = isPrimary ? 0.7 : highlightHex ? 0.4 : 0.22;
-
-    visual.packetMaterial.transparent = packetOpacity < 0.999;
-    visual.packetMaterial.opacity = packetOpacity;
-    visual.packetMaterial.color.set(highlightHex ?? baseColorHex);
-    visual.packetMaterial.emissive.set(highlightHex ?? baseColorHex);
-    visual.packetMaterial.emissiveIntensity = isPrimary ? 1.15 : highlightHex ? 0.8 : 0.72;
-  }
-}
+    const segmentStart = this.segmentBatch.indexOf(link.id);
+    if (segmentStart < 0) {
+      return;
+    }
 
-function fract(value: number): number {
-  return value - Math.floor(value);
+    // The shader blends health into the medium color; a highlight replaces both.
+    this.tmpColor.set(highlightHex ?? link.mediumColorHex);
+    const emissiveIntensity = isPrimary ? 0.7 : highlightHex ? 0.4 : 0.22;
+    const pulseGlow = isPrimary ? 1.15 : highlightHex ? 0.8 : 0.72;
+    const healthIndex = highlightHex ? 0 : selectBeamHealthIndex(link.health);
+    for (let i = 0; i < LINK_SEGMENT_COUNT; i++) {
+      this.segmentBatch.setStyle(segmentStart + i, this.tmpColor, segmentOpacity, emissiveIntensity);
+      this.segmentBatch.setInstanceVector(
+        segmentStart + i,
+        "beamPulse",
+        link.pulseCount,
+        pulseOpacity,
+        pulseGlow,
+        healthIndex
+      );
+    }
+
+    // Dashes are drawn on the CPU side, in the blended color. One-pixel dashes need more
+    // opacity than the beams to read at all.
+    this.tmpColor.set(highlightHex ?? link.beamColorHex);
+    const colors = this.occludedLine.geometry.getAttribute("color") as BufferAttribute;
+    const dashOpacity = Math.min(1, segmentOpacity * 2);
+    for (let vertex = segmentStart * 2; vertex < (segmentStart + LINK_SEGMENT_COUNT) * 2; vertex++) {
+      colors.setXYZW(vertex, this.tmpColor.r, this.tmpColor.g, this.tmpColor.b, dashOpacity);
+    }
+    colors.needsUpdate = true;
+  }
 }
 
-function setPositionOnPath(target: Vector3, path: Vector3[], t: number): void {
-  if (path.length === 0) {
-    target.set(0, 0, 0);
-    return;
+/**
+ * Copies anchor positions (markers or placed nodes) into `target`, dropping keys no longer
+ * present. Returns true when the set changed or an anchor moved enough to warrant a new layout.
+ */
+function syncAnchorPositions<TKey>(
+  target: Map<TKey, Vector3>,
+  positions: Array<[TKey, { x: number; y: number; z: number }]>
+): boolean {
+  const seen = new Set<TKey>();
+  let changed = false;
+
+  for (const [key, position] of positions) {
+    seen.add(key);
+    const existing = target.get(key);
+    if (existing) {
+      const dx = existing.x - position.x;
+      const dy = existing.y - position.y;
+      const dz = existing.z - position.z;
+      if (dx * dx + dy * dy + dz * dz > MARKER_LAYOUT_POSITION_EPSILON_SQ) {
+        changed = true;
+      }
+      existing.set(position.x, position.y, position.z);
+    } else {
+      target.set(key, new Vector3(position.x, position.y, position.z));
+      changed = true;
+    }
   }
-  if (path.length === 1) {
-    target.copy(path[0]);
-    return;
+
+  for (const key of [...target.keys()]) {
+    if (!seen.has(key)) {
+      target.delete(key);
+      changed = true;
+    }
   }
 
-  const scaled = t * (path.length - 1);
-  const index = Math.floor(scaled);
-  const nextIndex = Math.min(index + 1, path.length - 1);
-  const localT = scaled - index;
-  const a = path[index];
-  const b = path[nextIndex];
-
-  target.set(
-    a.x + (b.x - a.x) * localT,
-    a.y + (b.y - a.y) * localT,
-    a.z + (b.z - a.z) * localT
-  );
+  return changed;
+}
+
+function fract(value: number): number {
+  return value - Math.floor(value);
 }
 
 function createPathBuffer(pointCount: number): Vector3[] {
   return Array.from({ length: Math.max(pointCount, 2) }, () => new Vector3());
 }
 
+/** Position, RGBA color (alpha carries the link opacity) and dash distance per vertex. */
+function createOccludedLineGeometry(vertexCount: number): BufferGeometry {
+  const geometry = new BufferGeometry();
+  geometry.setAttribute("position", new BufferAttribute(new Float32Array(vertexCount * 3), 3));
+  geometry.setAttribute("color", new BufferAttribute(new Float32Array(vertexCount * 4), 4));
+  geometry.setAttribute("lineDistance", new BufferAttribute(new Float32Array(vertexCount), 1));
+  geometry.setDrawRange(0, 0);
+  return geometry;
+}
+
 function isInsidePolygon(x: number, z: number, polygon: XrBoundaryPoint[]): boolean {
   let inside = false;
   for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
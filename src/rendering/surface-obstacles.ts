@@ -0,0 +1,213 @@
+/**
+ * Real-world obstacles from WebXR plane and mesh detection, used to keep virtual content
+ * out of walls and furniture and to tell when a point is hidden behind one.
+ *
+ * Planes are tested against their outline. Meshes are reduced to their bounding box, which
+ * suits furniture; the room-wide mesh is skipped since its box contains everything.
+ */
+
+import { Vector3 } from "three";
+
+import type { XrDetectedSurface } from "../contracts";
+
+/** Quest labels its room-wide scene mesh this way. */
+const ROOM_MESH_LABEL = "global mesh";
+/** Points further behind a plane than this are past it, not inside it. */
+const PLANE_SLAB_DEPTH = 0.3;
+/** Hits this close to either end of an occlusion ray are the endpoints' own surfaces. */
+const OCCLUSION_END_MARGIN = 0.05;
+
+interface PlaneObstacle {
+  origin: Vector3;
+  normal: Vector3;
+  /** In-plane axes used to test the outline in 2D. */
+  axisU: Vector3;
+  axisV: Vector3;
+  outline: Array<{ u: number; v: number }>;
+}
+
+interface BoxObstacle {
+  min: Vector3;
+  max: Vector3;
+}
+
+export class SurfaceObstacles {
+  private planes: PlaneObstacle[] = [];
+  private boxes: BoxObstacle[] = [];
+  private readonly tmpOffset = new Vector3();
+  private readonly tmpDirection = new Vector3();
+  private readonly tmpHit = new Vector3();
+
+  get isEmpty(): boolean {
+    return this.planes.length === 0 && this.boxes.length === 0;
+  }
+
+  setSurfaces(surfaces: XrDetectedSurface[]): void {
+    this.planes = [];
+    this.boxes = [];
+    for (const surface of surfaces) {
+      if (surface.kind === "plane" && surface.normal && surface.polygon.length >= 3) {
+        this.planes.push(createPlaneObstacle(surface));
+      } else if (surface.kind === "mesh" && surface.semanticLabel !== ROOM_MESH_LABEL) {
+        this.boxes.push({
+          min: new Vector3(surface.min.x, surface.min.y, surface.min.z),
+          max: new Vector3(surface.max.x, surface.max.y, surface.max.z)
+        });
+      }
+    }
+  }
+
+  /**
+   * Moves `position` at least `clearance` meters in front of any plane it sits in or just
+   * behind, and out of any furniture box. Returns true when the position moved.
+   */
+  pushClear(position: Vector3, clearance: number): boolean {
+    let moved = false;
+
+    for (const plane of this.planes) {
+      const distance = this.tmpOffset.copy(position).sub(plane.origin).dot(plane.normal);
+      if (distance >= clearance || distance <= -PLANE_SLAB_DEPTH) {
+        continue;
+      }
+      if (!isInsideOutline(plane, this.tmpOffset)) {
+        continue;
+      }
+      position.addScaledVector(plane.normal, clearance - distance);
+      moved = true;
+    }
+
+    for (const box of this.boxes) {
+      moved = pushOutOfBox(position, box, clearance) || moved;
+    }
+
+    return moved;
+  }
+
+  /** True when a plane or furniture box lies between `eye` and `point`. */
+  isOccluded(eye: Vector3, point: Vector3): boolean {
+    this.tmpDirection.copy(point).sub(eye);
+    const length = this.tmpDirection.length();
+    if (length < OCCLUSION_END_MARGIN * 2) {
+      return false;
+    }
+    const minT = OCCLUSION_END_MARGIN / length;
+    const maxT = 1 - minT;
+
+    for (const plane of this.planes) {
+      const startDistance = this.tmpOffset.copy(eye).sub(plane.origin).dot(plane.normal);
+      const endDistance = this.tmpOffset.copy(point).sub(plane.origin).dot(plane.normal);
+      if (Math.sign(startDistance) === Math.sign(endDistance)) {
+        continue;
+      }
+      const t = startDistance / (startDistance - endDistance);
+      if (t < minT || t > maxT) {
+        continue;
+      }
+      this.tmpHit.copy(eye).addScaledVector(this.tmpDirection, t);
+      if (isInsideOutline(plane, this.tmpOffset.copy(this.tmpHit).sub(plane.origin))) {
+        return true;
+      }
+    }
+
+    for (const box of this.boxes) {
+      if (segmentHitsBox(eye, this.tmpDirection, box, minT, maxT)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+}
+
+function createPlaneObstacle(surface: XrDetectedSurface): PlaneObstacle {
+  const origin = new Vector3(surface.polygon[0].x, surface.polygon[0].y, surface.polygon[0].z);
+  const normal = new Vector3(surface.normal!.x, surface.normal!.y, surface.normal!.z).normalize();
+  const reference = Math.abs(normal.y) < 0.9 ? new Vector3(0, 1, 0) : new Vector3(1, 0, 0);
+  const axisU = new Vector3().crossVectors(reference, normal).normalize();
+  const axisV = new Vector3().crossVectors(normal, axisU);
+  const offset = new Vector3();
+  const outline = surface.polygon.map((point) => {
+    offset.set(point.x, point.y, point.z).sub(origin);
+    return { u: offset.dot(axisU), v: offset.dot(axisV) };
+  });
+  return { origin, normal, axisU, axisV, outline };
+}
+
+/** Even-odd test of an offset from the plane origin against the plane outline. */
+function isInsideOutline(plane: PlaneObstacle, offset: Vector3): boolean {
+  const u = offset.dot(plane.axisU);
+  const v = offset.dot(plane.axisV);
+  let inside = false;
+  const outline = plane.outline;
+  for (let i = 0, j = outline.length - 1; i < outline.length; j = i++) {
+    const a = outline[i];
+    const b = outline[j];
+    if (a.v > v !== b.v > v && u < ((b.u - a.u) * (v - a.v)) / (b.v - a.v) + a.u) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** Pushes the position out through the nearest face of the box grown by `clearance`. */
+function pushOutOfBox(position: Vector3, box: BoxObstacle, clearance: number): boolean {
+  const axes = ["x", "y", "z"] as const;
+  let bestAxis: (typeof axes)[number] | null = null;
+  let bestTarget = 0;
+  let bestDepth = Infinity;
+
+  for (const axis of axes) {
+    const low = box.min[axis] - clearance;
+    const high = box.max[axis] + clearance;
+    const value = position[axis];
+    if (value <= low || value >= high) {
+      return false;
+    }
+    const toLow = value - low;
+    const toHigh = high - value;
+    const depth = Math.min(toLow, toHigh);
+    if (depth < bestDepth) {
+      bestDepth = depth;
+      bestAxis = axis;
+      bestTarget = toLow < toHigh ? low : high;
+    }
+  }
+
+  if (!bestAxis) {
+    return false;
+  }
+  position[bestAxis] = bestTarget;
+  return true;
+}
+
+/** Slab test of `origin + t * direction` for t in [minT, maxT]. */
+function segmentHitsBox(
+  origin: Vector3,
+  direction: Vector3,
+  box: BoxObstacle,
+  minT: number,
+  maxT: number
+): boolean {
+  let enter = minT;
+  let exit = maxT;
+  for (const axis of ["x", "y", "z"] as const) {
+    const delta = direction[axis];
+    if (Math.abs(delta) < 1e-9) {
+      if (origin[axis] < box.min[axis] || origin[axis] > box.max[axis]) {
+        return false;
+      }
+      continue;
+    }
+    let near = (box.min[axis] - origin[axis]) / delta;
+    let far = (box.max[axis] - origin[axis]) / delta;
+    if (near > far) {
+      [near, far] = [far, near];
+    }
+    enter = Math.max(enter, near);
+    exit = Math.min(exit, far);
+    if (enter > exit) {
+      return false;
+    }
+  }
+  return true;
+}
@@ -1,3 +1,24 @@
 export { createTelemetryAgent } from "./telemetry-agent";
 export type { TelemetryAgentOptions } from "./telemetry-agent";
 export { MockTelemetryStream } from "./mock-stream";
+export { WebSocketTelemetryStream } from "./websocket-stream";
+export type {
+  WebSocketLike,
+  WebSocketTelemetryBatch,
+  WebSocketTelemetryFailure,
+  WebSocketTelemetryHandlers,
+  WebSocketTelemetryStreamOptions
+} from "./websocket-stream";
+export { parseTelemetryMessage, readTelemetryMessage, TelemetryMessageError } from "./message-schema";
+export type { TelemetryMessage } from "./message-schema";
+export {
+  TelemetryRecorder,
+  RecordingFormatError,
+  parseTelemetryRecording,
+  RECORDED_EVENTS,
+  RECORDING_FORMAT,
+  RECORDING_VERSION
+} from "./recording";
+export type { RecordedEventName, RecordingEntry, TelemetryRecording } from "./recording";
+export { createReplayTelemetryAgent } from "./replay-agent";
+export type { ReplayTelemetryAgent, ReplayTelemetryAgentOptions } from "./replay-agent";
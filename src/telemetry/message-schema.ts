@@ -0,0 +1,266 @@
+import type {
+  HealthState,
+  LinkDirectionMetrics,
+  LinkDirectionalMetrics,
+  LinkMetricUpdate,
+  MetricSnapshot,
+  NodeMetricUpdate,
+  TopologyStructuralChange,
+  WirelessLinkMetrics
+} from "../contracts/domain";
+import { validateStructuralChanges } from "../topology/validation";
+
+/**
+ * Wire format for live telemetry (see docs/telemetry-protocol.md).
+ *
+ * {"type":"metrics","timestampMs":1700000000000,
+ *  "nodes":[{"id":"tower-1","status":"up","rssi":-52}],
+ *  "links":[{"id":"link-tower-home1","latencyMs":18.4}]}
+ * {"type":"heartbeat","timestampMs":1700000000000}
+ * {"type":"topology","changes":[{"kind":"remove-link","linkId":"link-tower-home1"}]}
+ */
+export type TelemetryMessage =
+  | {
+      type: "metrics";
+      timestampMs: number | null;
+      nodeMetrics: NodeMetricUpdate[];
+      linkMetrics: LinkMetricUpdate[];
+    }
+  | {
+      type: "heartbeat";
+      timestampMs: number | null;
+    }
+  | {
+      type: "topology";
+      timestampMs: number | null;
+      changes: TopologyStructuralChange[];
+    };
+
+export class TelemetryMessageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TelemetryMessageError";
+  }
+}
+
+const HEALTH_STATES: ReadonlySet<string> = new Set<HealthState>(["up", "degraded", "down", "unknown"]);
+
+const NUMERIC_METRIC_KEYS = [
+  "rssi",
+  "snr",
+  "throughputMbps",
+  "latencyMs",
+  "packetLossPct",
+  "utilizationPct",
+  "updatedAtMs"
+] as const;
+
+const DIRECTION_KEYS = ["aToB", "bToA"] as const;
+
+const NUMERIC_DIRECTION_KEYS = ["throughputMbps", "capacityMbps", "utilizationPct"] as const;
+
+const NUMERIC_RF_KEYS = [
+  "frequencyMhz",
+  "channelWidthMhz",
+  "capacityMbps",
+  "distanceMeters",
+  "expectedSignalDbm",
+  "actualSignalDbm",
+  "fresnelClearancePct"
+] as const;
+
+export function parseTelemetryMessage(raw: string): TelemetryMessage {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new TelemetryMessageError("Message is not valid JSON.");
+  }
+  return readTelemetryMessage(parsed);
+}
+
+/** Same checks as `parseTelemetryMessage`, for a message that is already parsed JSON. */
+export function readTelemetryMessage(parsed: unknown): TelemetryMessage {
+  if (!isRecord(parsed)) {
+    throw new TelemetryMessageError("Message must be a JSON object.");
+  }
+
+  const timestampMs = readOptionalNumber(parsed, "timestampMs", "message");
+
+  if (parsed.type === "heartbeat") {
+    return { type: "heartbeat", timestampMs };
+  }
+
+  if (parsed.type === "topology") {
+    return { type: "topology", timestampMs, changes: readStructuralChanges(parsed) };
+  }
+
+  if (parsed.type !== "metrics") {
+    throw new TelemetryMessageError(`Unsupported message type "${String(parsed.type)}".`);
+  }
+
+  const nodeMetrics = readEntries(parsed, "nodes").map((entry, index): NodeMetricUpdate => ({
+    nodeId: readEntryId(entry, `nodes[${index}]`),
+    metrics: readMetricPatch(entry, `nodes[${index}]`)
+  }));
+  const linkMetrics = readEntries(parsed, "links").map((entry, index): LinkMetricUpdate => ({
+    linkId: readEntryId(entry, `links[${index}]`),
+    metrics: readLinkMetricPatch(entry, `links[${index}]`)
+  }));
+  // Entries without their own `updatedAtMs` were sampled when the message was sent.
+  if (timestampMs !== null) {
+    for (const update of [...nodeMetrics, ...linkMetrics]) {
+      update.metrics.updatedAtMs ??= timestampMs;
+    }
+  }
+
+  return {
+    type: "metrics",
+    timestampMs,
+    nodeMetrics,
+    linkMetrics
+  };
+}
+
+function readStructuralChanges(message: Record<string, unknown>): TopologyStructuralChange[] {
+  let result: ReturnType<typeof validateStructuralChanges>;
+  try {
+    result = validateStructuralChanges(message.changes, Date.now());
+  } catch {
+    throw new TelemetryMessageError(`"changes" must be an array.`);
+  }
+  const firstError = result.issues.find((issue) => issue.severity === "error");
+  if (firstError) {
+    throw new TelemetryMessageError(firstError.message);
+  }
+  return result.changes;
+}
+
+function readEntries(message: Record<string, unknown>, key: "nodes" | "links"): Record<string, unknown>[] {
+  const value = message[key];
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new TelemetryMessageError(`"${key}" must be an array.`);
+  }
+  return value.map((entry, index) => {
+    if (!isRecord(entry)) {
+      throw new TelemetryMessageError(`${key}[${index}] must be an object.`);
+    }
+    return entry;
+  });
+}
+
+function readEntryId(entry: Record<string, unknown>, path: string): string {
+  const id = entry.id;
+  if (typeof id !== "string" || id.length === 0) {
+    throw new TelemetryMessageError(`${path}.id must be a non-empty string.`);
+  }
+  return id;
+}
+
+function readMetricPatch(entry: Record<string, unknown>, path: string): Partial<MetricSnapshot> {
+  const patch: Partial<MetricSnapshot> = {};
+
+  if (entry.status !== undefined) {
+    if (typeof entry.status !== "string" || !HEALTH_STATES.has(entry.status)) {
+      throw new TelemetryMessageError(`${path}.status must be one of up/degraded/down/unknown.`);
+    }
+    patch.status = entry.status as HealthState;
+  }
+
+  for (const key of NUMERIC_METRIC_KEYS) {
+    const value = readOptionalNumber(entry, key, path);
+    if (value !== null) {
+      patch[key] = value;
+    }
+  }
+
+  return patch;
+}
+
+/** Link entries may also carry `directions` (per-direction patches) and `rf` objects. */
+function readLinkMetricPatch(entry: Record<string, unknown>, path: string): Partial<MetricSnapshot> {
+  const patch = readMetricPatch(entry, path);
+
+  if (entry.directions !== undefined && entry.directions !== null) {
+    if (!isRecord(entry.directions)) {
+      throw new TelemetryMessageError(`${path}.directions must be an object.`);
+    }
+    const directions: LinkDirectionalMetrics = {};
+    for (const key of DIRECTION_KEYS) {
+      const value = entry.directions[key];
+      if (value === undefined || value === null) {
+        continue;
+      }
+      if (!isRecord(value)) {
+        throw new TelemetryMessageError(`${path}.directions.${key} must be an object.`);
+      }
+      directions[key] = readDirectionPatch(value, `${path}.directions.${key}`);
+    }
+    patch.directions = directions;
+  }
+
+  if (entry.rf !== undefined && entry.rf !== null) {
+    if (!isRecord(entry.rf)) {
+      throw new TelemetryMessageError(`${path}.rf must be an object.`);
+    }
+    patch.rf = readRfPatch(entry.rf, `${path}.rf`);
+  }
+
+  return patch;
+}
+
+function readDirectionPatch(entry: Record<string, unknown>, path: string): LinkDirectionMetrics {
+  const patch: LinkDirectionMetrics = {};
+  for (const key of NUMERIC_DIRECTION_KEYS) {
+    const value = readOptionalNumber(entry, key, path);
+    if (value !== null) {
+      patch[key] = value;
+    }
+  }
+  if (entry.modulation !== undefined && entry.modulation !== null) {
+    if (typeof entry.modulation !== "string") {
+      throw new TelemetryMessageError(`${path}.modulation must be a string.`);
+    }
+    patch.modulation = entry.modulation;
+  }
+  return patch;
+}
+
+function readRfPatch(entry: Record<string, unknown>, path: string): WirelessLinkMetrics {
+  const patch: WirelessLinkMetrics = {};
+  for (const key of NUMERIC_RF_KEYS) {
+    const value = readOptionalNumber(entry, key, path);
+    if (value !== null) {
+      patch[key] = value;
+    }
+  }
+  if (entry.modulation !== undefined && entry.modulation !== null) {
+    if (typeof entry.modulation !== "string") {
+      throw new TelemetryMessageError(`${path}.modulation must be a string.`);
+    }
+    patch.modulation = entry.modulation;
+  }
+  return patch;
+}
+
+function readOptionalNumber(
+  record: Record<string, unknown>,
+  key: string,
+  path: string
+): number | null {
+  const value = record[key];
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new TelemetryMessageError(`${path}.${key} must be a finite number.`);
+  }
+  return value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
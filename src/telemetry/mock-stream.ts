@@ -1,9 +1,12 @@
 import type {
+  LinkDirectionMetrics,
+  LinkDirectionalMetrics,
   LinkMetricUpdate,
   NodeMetricUpdate,
   TopologySnapshot
 } from "../contracts/domain";
 import type { AppEventMap } from "../contracts/events";
+import { deriveHealthState } from "../topology";
 
 interface MockTelemetryBatch {
   nodeMetrics: NodeMetricUpdate[];
@@ -17,7 +20,7 @@ export class MockTelemetryStream {
     this.snapshot = snapshot;
   }
 
-  generateBatch(timestampMs: number): MockTelemetryBatch {
+  generateBatch(): MockTelemetryBatch {
     if (!this.snapshot) {
       return {
         nodeMetrics: [],
@@ -25,8 +28,10 @@ export class MockTelemetryStream {
       };
     }
 
-    const nodeMetrics = this.generateNodeUpdates(timestampMs);
-    const linkMetrics = this.generateLinkUpdates(timestampMs);
+    // Metric ages are judged on the wall clock, not the event bus's performance clock.
+    const updatedAtMs = Date.now();
+    const nodeMetrics = this.generateNodeUpdates(updatedAtMs);
+    const linkMetrics = this.generateLinkUpdates(updatedAtMs);
 
     return {
       nodeMetrics,
@@ -48,7 +53,7 @@ export class MockTelemetryStream {
         metrics: {
           ...node.metrics,
           ...patch.metrics,
-          updatedAtMs: patch.metrics.updatedAtMs ?? update.timestampMs
+          updatedAtMs: patch.metrics.updatedAtMs ?? Date.now()
         }
       };
     });
@@ -63,7 +68,7 @@ export class MockTelemetryStream {
         metrics: {
           ...link.metrics,
           ...patch.metrics,
-          updatedAtMs: patch.metrics.updatedAtMs ?? update.timestampMs
+          updatedAtMs: patch.metrics.updatedAtMs ?? Date.now()
         }
       };
     });
@@ -79,7 +84,7 @@ export class MockTelemetryStream {
     return next;
   }
 
-  private generateNodeUpdates(timestampMs: number): NodeMetricUpdate[] {
+  private generateNodeUpdates(updatedAtMs: number): NodeMetricUpdate[] {
     if (!this.snapshot || this.snapshot.nodes.length === 0) {
       return [];
     }
@@ -93,7 +98,7 @@ export class MockTelemetryStream {
     const latency = boundedJitter(node.metrics.latencyMs ?? 14, 3, 1, 120);
     const packetLoss = boundedJitter(node.metrics.packetLossPct ?? 0.4, 0.5, 0, 100);
     const throughput = boundedJitter(node.metrics.throughputMbps ?? 120, 25, 0, 1200);
-    const status = deriveStatus(latency, packetLoss);
+    const status = deriveHealthState(latency, packetLoss);
 
     return [
       {
@@ -104,13 +109,13 @@ export class MockTelemetryStream {
           latencyMs: latency,
           packetLossPct: packetLoss,
           throughputMbps: throughput,
-          updatedAtMs: timestampMs
+          updatedAtMs
         }
       }
     ];
   }
 
-  private generateLinkUpdates(timestampMs: number): LinkMetricUpdate[] {
+  private generateLinkUpdates(updatedAtMs: number): LinkMetricUpdate[] {
     if (!this.snapshot || this.snapshot.links.length === 0) {
       return [];
     }
@@ -124,7 +129,8 @@ export class MockTelemetryStream {
     const latency = boundedJitter(link.metrics.latencyMs ?? 20, 4, 1, 220);
     const packetLoss = boundedJitter(link.metrics.packetLossPct ?? 0.7, 0.8, 0, 100);
     const throughput = boundedJitter(link.metrics.throughputMbps ?? 160, 30, 0, 1500);
-    const status = deriveStatus(latency, packetLoss);
+    const status = deriveHealthState(latency, packetLoss);
+    const directions = link.metrics.directions;
 
     return [
       {
@@ -135,13 +141,30 @@ export class MockTelemetryStream {
           latencyMs: latency,
           packetLossPct: packetLoss,
           throughputMbps: throughput,
-          updatedAtMs: timestampMs
+          ...(directions ? { directions: jitterDirections(directions) } : {}),
+          updatedAtMs
         }
       }
     ];
   }
 }
 
+/** Throughput wanders within each direction's capacity; other direction fields stay put. */
+function jitterDirections(directions: LinkDirectionalMetrics): LinkDirectionalMetrics {
+  return { aToB: jitterDirection(directions.aToB), bToA: jitterDirection(directions.bToA) };
+}
+
+function jitterDirection(direction: LinkDirectionMetrics | undefined): LinkDirectionMetrics | undefined {
+  if (direction?.throughputMbps === undefined) {
+    return direction;
+  }
+  const throughput = direction.throughputMbps;
+  return {
+    ...direction,
+    throughputMbps: boundedJitter(throughput, throughput * 0.15, 0, direction.capacityMbps ?? 1500)
+  };
+}
+
 function randomElement<T>(items: T[]): T | null {
   if (items.length === 0) {
     return null;
@@ -155,13 +178,3 @@ function boundedJitter(value: number, delta: number, min: number, max: number):
   const next = value + jitter;
   return Number(Math.max(min, Math.min(max, next)).toFixed(2));
 }
-
-function deriveStatus(latencyMs: number, packetLossPct: number): "up" | "degraded" | "down" {
-  if (latencyMs > 140 || packetLossPct > 8) {
-    return "down";
-  }
-  if (latencyMs > 45 || packetLossPct > 1.8) {
-    return "degraded";
-  }
-  return "up";
-}
@@ -0,0 +1,185 @@
+import type { AppEventMap } from "../contracts/events";
+import type { AppEventBus } from "../contracts/integration";
+
+/**
+ * NDJSON session recordings (see docs/telemetry-protocol.md).
+ *
+ * {"kind":"header","format":"xr-infra-recording","version":1,"startedAt":"2026-03-01T10:00:00.000Z"}
+ * {"kind":"event","t":0,"event":"topology/snapshot","payload":{...}}
+ * {"kind":"event","t":1000.5,"event":"telemetry/update","payload":{...}}
+ */
+export const RECORDING_FORMAT = "xr-infra-recording";
+export const RECORDING_VERSION = 1;
+
+export const RECORDED_EVENTS = ["telemetry/update", "topology/snapshot", "tracking/markers"] as const;
+
+export type RecordedEventName = (typeof RECORDED_EVENTS)[number];
+
+export type RecordingEntry = {
+  [TEventName in RecordedEventName]: {
+    /** Milliseconds since the recording started. */
+    t: number;
+    event: TEventName;
+    payload: AppEventMap[TEventName];
+  };
+}[RecordedEventName];
+
+export interface TelemetryRecording {
+  startedAt: string;
+  /** Entries sorted by `t`. */
+  entries: RecordingEntry[];
+  durationMs: number;
+}
+
+export class RecordingFormatError extends Error {
+  readonly line: number | null;
+
+  constructor(message: string, line: number | null) {
+    super(line === null ? message : `Line ${line}: ${message}`);
+    this.name = "RecordingFormatError";
+    this.line = line;
+  }
+}
+
+/**
+ * Captures recorded events from the bus with their offset from `start()`. The bus
+ * replays the last `topology/snapshot` on subscribe, so every recording opens with
+ * the topology that was on screen.
+ */
+export class TelemetryRecorder {
+  private readonly events: AppEventBus;
+  private entries: RecordingEntry[] = [];
+  private startedAtMs = 0;
+  private startedAt = "";
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(events: AppEventBus) {
+    this.events = events;
+  }
+
+  isRecording(): boolean {
+    return this.unsubscribers.length > 0;
+  }
+
+  getEntryCount(): number {
+    return this.entries.length;
+  }
+
+  start(): void {
+    if (this.isRecording()) {
+      return;
+    }
+    this.entries = [];
+    this.startedAtMs = performance.now();
+    this.startedAt = new Date().toISOString();
+    this.unsubscribers = [
+      this.events.on("topology/snapshot", (payload) => this.capture("topology/snapshot", payload)),
+      this.events.on("telemetry/update", (payload) => this.capture("telemetry/update", payload)),
+      this.events.on("tracking/markers", (payload) => this.capture("tracking/markers", payload))
+    ];
+  }
+
+  stop(): void {
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe();
+    }
+    this.unsubscribers = [];
+  }
+
+  toNdjson(): string {
+    const header = {
+      kind: "header",
+      format: RECORDING_FORMAT,
+      version: RECORDING_VERSION,
+      startedAt: this.startedAt
+    };
+    const lines = [JSON.stringify(header)];
+    for (const entry of this.entries) {
+      lines.push(JSON.stringify({ kind: "event", ...entry }));
+    }
+    return `${lines.join("\n")}\n`;
+  }
+
+  private capture<TEventName extends RecordedEventName>(
+    event: TEventName,
+    payload: AppEventMap[TEventName]
+  ): void {
+    const t = Math.max(0, Number((performance.now() - this.startedAtMs).toFixed(1)));
+    this.entries.push({ t, event, payload: structuredClone(payload) } as RecordingEntry);
+  }
+}
+
+export function parseTelemetryRecording(text: string): TelemetryRecording {
+  const lines = text.split(/\r?\n/);
+  let startedAt: string | null = null;
+  const entries: RecordingEntry[] = [];
+
+  lines.forEach((raw, index) => {
+    const lineNumber = index + 1;
+    if (raw.trim().length === 0) {
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      throw new RecordingFormatError("not valid JSON.", lineNumber);
+    }
+    if (!isRecord(parsed)) {
+      throw new RecordingFormatError("must be a JSON object.", lineNumber);
+    }
+
+    if (startedAt === null) {
+      if (parsed.kind !== "header" || parsed.format !== RECORDING_FORMAT) {
+        throw new RecordingFormatError(`expected a "${RECORDING_FORMAT}" header.`, lineNumber);
+      }
+      if (parsed.version !== RECORDING_VERSION) {
+        throw new RecordingFormatError(`unsupported version ${String(parsed.version)}.`, lineNumber);
+      }
+      startedAt = typeof parsed.startedAt === "string" ? parsed.startedAt : "";
+      return;
+    }
+
+    if (parsed.kind !== "event") {
+      throw new RecordingFormatError(`unexpected kind "${String(parsed.kind)}".`, lineNumber);
+    }
+    if (typeof parsed.t !== "number" || !Number.isFinite(parsed.t) || parsed.t < 0) {
+      throw new RecordingFormatError("t must be a non-negative number.", lineNumber);
+    }
+    if (!RECORDED_EVENTS.includes(parsed.event as RecordedEventName)) {
+      throw new RecordingFormatError(`unsupported event "${String(parsed.event)}".`, lineNumber);
+    }
+    if (!isRecord(parsed.payload) || !hasPayloadShape(parsed.event as RecordedEventName, parsed.payload)) {
+      throw new RecordingFormatError(`malformed ${String(parsed.event)} payload.`, lineNumber);
+    }
+
+    entries.push({ t: parsed.t, event: parsed.event, payload: parsed.payload } as RecordingEntry);
+  });
+
+  if (startedAt === null) {
+    throw new RecordingFormatError("recording is empty.", null);
+  }
+
+  // Stable sort keeps same-timestamp events in their recorded order.
+  entries.sort((a, b) => a.t - b.t);
+  return {
+    startedAt,
+    entries,
+    durationMs: entries.length > 0 ? entries[entries.length - 1].t : 0
+  };
+}
+
+function hasPayloadShape(event: RecordedEventName, payload: Record<string, unknown>): boolean {
+  if (event === "telemetry/update") {
+    return Array.isArray(payload.nodeMetrics) && Array.isArray(payload.linkMetrics);
+  }
+  if (event === "topology/snapshot") {
+    return isRecord(payload.snapshot);
+  }
+  return Array.isArray(payload.markers);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
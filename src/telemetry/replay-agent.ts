@@ -0,0 +1,236 @@
+import type { LinkMetricUpdate, NodeMetricUpdate, TopologySnapshot } from "../contracts/domain";
+import type { ReplayPlaybackState } from "../contracts/events";
+import type { IntegrationContext, TelemetryAgent } from "../contracts/integration";
+import type { RecordingEntry, TelemetryRecording } from "./recording";
+
+const STATUS_INTERVAL_MS = 500;
+
+export interface ReplayTelemetryAgentOptions {
+  recording: TelemetryRecording;
+  /** Initial playback multiplier; 0 starts paused. */
+  speed?: number;
+  /** Restart from the beginning when the recording ends. */
+  loop?: boolean;
+  /** Re-emit recorded `tracking/markers`. Disable to keep live marker tracking. */
+  includeMarkers?: boolean;
+  stepIntervalMs?: number;
+}
+
+export interface ReplayTelemetryAgent extends TelemetryAgent {
+  setSpeed(speed: number): void;
+  restart(): void;
+}
+
+/**
+ * Plays a recording back through the event bus in place of the mock or live stream.
+ *
+ * Recorded snapshots become `topology/replace` so the topology store (and its metric
+ * history) follows the recording. Snapshots the topology agent emitted in response to
+ * a recorded `telemetry/update` are skipped, since replaying the update regenerates them.
+ * Recorded `updatedAtMs` values are shifted to the replay's wall clock so stale-data
+ * aging reflects how old the data was at that point in the recording.
+ */
+export function createReplayTelemetryAgent(options: ReplayTelemetryAgentOptions): ReplayTelemetryAgent {
+  const { recording } = options;
+  const loop = options.loop ?? false;
+  const stepIntervalMs = options.stepIntervalMs ?? 50;
+  const entries = selectReplayEntries(recording.entries, options.includeMarkers ?? true);
+  const recordingStartedAtMs = Date.parse(recording.startedAt);
+
+  let context: IntegrationContext | null = null;
+  let timerId: number | null = null;
+  let speed = Math.max(0, options.speed ?? 1);
+  let positionMs = 0;
+  let nextIndex = 0;
+  let lastStepAtMs = 0;
+  let lastStatusAtMs = 0;
+  let state: ReplayPlaybackState = speed > 0 ? "playing" : "paused";
+  let unsubscribeControl: (() => void) | null = null;
+
+  function emitStatus(): void {
+    lastStatusAtMs = performance.now();
+    context?.events.emit("replay/status", {
+      state,
+      speed: state === "playing" ? speed : 0,
+      positionMs,
+      durationMs: recording.durationMs,
+      timestampMs: performance.now()
+    });
+  }
+
+  function emitEntry(ctx: IntegrationContext, entry: RecordingEntry): void {
+    const timestampMs = performance.now();
+    // Recordings with an unreadable header time keep their original stamps.
+    const shiftMs = Number.isFinite(recordingStartedAtMs)
+      ? Date.now() - (recordingStartedAtMs + entry.t)
+      : 0;
+    switch (entry.event) {
+      case "topology/snapshot":
+        ctx.events.emit("topology/replace", {
+          snapshot: rebaseSnapshot(entry.payload.snapshot, shiftMs),
+          source: "replay",
+          timestampMs
+        });
+        return;
+      case "telemetry/update": {
+        const nodeMetrics = rebaseMetricUpdates(entry.payload.nodeMetrics, shiftMs);
+        const linkMetrics = rebaseMetricUpdates(entry.payload.linkMetrics, shiftMs);
+        ctx.events.emit("telemetry/update", {
+          source: "replay",
+          changedNodeIds: nodeMetrics.map((metric) => metric.nodeId),
+          changedLinkIds: linkMetrics.map((metric) => metric.linkId),
+          nodeMetrics,
+          linkMetrics,
+          timestampMs
+        });
+        return;
+      }
+      case "tracking/markers":
+        ctx.events.emit("tracking/markers", { markers: entry.payload.markers, timestampMs });
+        return;
+    }
+  }
+
+  function step(): void {
+    if (!context || state !== "playing") {
+      return;
+    }
+
+    const nowMs = performance.now();
+    positionMs = Math.min(recording.durationMs, positionMs + (nowMs - lastStepAtMs) * speed);
+    lastStepAtMs = nowMs;
+
+    while (nextIndex < entries.length && entries[nextIndex].t <= positionMs) {
+      emitEntry(context, entries[nextIndex]);
+      nextIndex++;
+    }
+
+    if (nextIndex >= entries.length) {
+      if (loop && entries.length > 0) {
+        restart();
+        return;
+      }
+      state = "ended";
+      emitStatus();
+      return;
+    }
+
+    if (nowMs - STATUS_INTERVAL_MS >= lastStatusAtMs) {
+      emitStatus();
+    }
+  }
+
+  function setSpeed(nextSpeed: number): void {
+    speed = Math.max(0, nextSpeed);
+    lastStepAtMs = performance.now();
+    if (state !== "ended") {
+      state = speed > 0 ? "playing" : "paused";
+    }
+    emitStatus();
+  }
+
+  function restart(): void {
+    positionMs = 0;
+    nextIndex = 0;
+    lastStepAtMs = performance.now();
+    state = speed > 0 ? "playing" : "paused";
+    emitStatus();
+    // Paused restarts still show the opening topology.
+    if (state === "paused" && context) {
+      while (nextIndex < entries.length && entries[nextIndex].t <= 0) {
+        emitEntry(context, entries[nextIndex]);
+        nextIndex++;
+      }
+    }
+  }
+
+  return {
+    setSpeed,
+    restart,
+
+    async init(nextContext: IntegrationContext): Promise<void> {
+      context = nextContext;
+      unsubscribeControl = nextContext.events.on("replay/control", (control) => {
+        if (control.restart) {
+          restart();
+        }
+        if (control.speed !== undefined) {
+          setSpeed(control.speed);
+        }
+      });
+
+      nextContext.events.emit("telemetry/status", {
+        source: "replay",
+        connectionState: "open",
+        attempt: 0,
+        endpoint: null,
+        timestampMs: performance.now()
+      });
+
+      restart();
+      timerId = window.setInterval(step, stepIntervalMs);
+    },
+
+    async dispose(): Promise<void> {
+      if (timerId !== null) {
+        window.clearInterval(timerId);
+        timerId = null;
+      }
+      if (unsubscribeControl) {
+        unsubscribeControl();
+        unsubscribeControl = null;
+      }
+      context = null;
+    }
+  };
+}
+
+function rebaseSnapshot(snapshot: TopologySnapshot, shiftMs: number): TopologySnapshot {
+  if (shiftMs === 0 || !Array.isArray(snapshot.nodes) || !Array.isArray(snapshot.links)) {
+    return snapshot;
+  }
+  return {
+    ...snapshot,
+    nodes: snapshot.nodes.map((node) => ({ ...node, metrics: rebaseMetrics(node.metrics, shiftMs) })),
+    links: snapshot.links.map((link) => ({ ...link, metrics: rebaseMetrics(link.metrics, shiftMs) }))
+  };
+}
+
+function rebaseMetricUpdates<TUpdate extends NodeMetricUpdate | LinkMetricUpdate>(
+  updates: TUpdate[],
+  shiftMs: number
+): TUpdate[] {
+  if (shiftMs === 0) {
+    return updates;
+  }
+  return updates.map((update) => ({ ...update, metrics: rebaseMetrics(update.metrics, shiftMs) }));
+}
+
+function rebaseMetrics<TMetrics extends { updatedAtMs?: number }>(metrics: TMetrics, shiftMs: number): TMetrics {
+  // Recorded snapshots are untrusted until the topology agent validates them.
+  if (typeof metrics !== "object" || metrics === null || typeof metrics.updatedAtMs !== "number") {
+    return metrics;
+  }
+  return { ...metrics, updatedAtMs: metrics.updatedAtMs + shiftMs };
+}
+
+function selectReplayEntries(entries: RecordingEntry[], includeMarkers: boolean): RecordingEntry[] {
+  const selected: RecordingEntry[] = [];
+  let lastUpdateTimestampMs: number | null = null;
+
+  for (const entry of entries) {
+    if (entry.event === "telemetry/update") {
+      lastUpdateTimestampMs = entry.payload.timestampMs;
+    } else if (entry.event === "topology/snapshot") {
+      // The topology agent stamps derived snapshots with the update's timestamp.
+      if (entry.payload.timestampMs === lastUpdateTimestampMs) {
+        continue;
+      }
+    } else if (!includeMarkers) {
+      continue;
+    }
+    selected.push(entry);
+  }
+
+  return selected;
+}
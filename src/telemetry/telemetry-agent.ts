@@ -1,14 +1,21 @@
 import type { IntegrationContext, TelemetryAgent } from "../contracts/integration";
 import { MockTelemetryStream } from "./mock-stream";
+import {
+  WebSocketTelemetryStream,
+  type WebSocketTelemetryStreamOptions
+} from "./websocket-stream";
 
 export interface TelemetryAgentOptions {
   tickIntervalMs?: number;
   stream?: MockTelemetryStream;
+  /** Live telemetry endpoint. When set, the WebSocket adapter replaces the mock interval. */
+  websocket?: WebSocketTelemetryStreamOptions;
 }
 
 export function createTelemetryAgent(options: TelemetryAgentOptions = {}): TelemetryAgent {
   const tickIntervalMs = options.tickIntervalMs ?? 1000;
   const stream = options.stream ?? new MockTelemetryStream();
+  const liveStream = options.websocket ? new WebSocketTelemetryStream(options.websocket) : null;
 
   let timerId: number | null = null;
   let unsubscribeTopology: (() => void) | null = null;
@@ -22,13 +29,68 @@ export function createTelemetryAgent(options: TelemetryAgentOptions = {}): Telem
     timerId = null;
   }
 
+  function startLiveStream(context: IntegrationContext, live: WebSocketTelemetryStream): void {
+    live.start({
+      onBatch(batch) {
+        context.events.emit("telemetry/update", {
+          source: "ws",
+          changedNodeIds: batch.nodeMetrics.map((metric) => metric.nodeId),
+          changedLinkIds: batch.linkMetrics.map((metric) => metric.linkId),
+          nodeMetrics: batch.nodeMetrics,
+          linkMetrics: batch.linkMetrics,
+          timestampMs: batch.timestampMs
+        });
+      },
+      onStructure(changes, timestampMs) {
+        context.events.emit("topology/structure", { source: "ws", changes, timestampMs });
+      },
+      onStateChange(connectionState, attempt) {
+        context.events.emit("telemetry/status", {
+          source: "ws",
+          connectionState,
+          attempt,
+          endpoint: live.getUrl(),
+          timestampMs: performance.now()
+        });
+      },
+      onFailure(failure) {
+        context.events.emit("app/error", {
+          code: "TELEMETRY_STREAM_FAILED",
+          source: "telemetry",
+          message: failure.message,
+          recoverable: failure.recoverable,
+          timestampMs: performance.now(),
+          details: {
+            endpoint: live.getUrl(),
+            connectionState: failure.connectionState,
+            attempt: failure.attempt,
+            retryInMs: failure.retryInMs
+          }
+        });
+      }
+    });
+  }
+
   return {
     async init(context: IntegrationContext): Promise<void> {
+      if (liveStream) {
+        startLiveStream(context, liveStream);
+        return;
+      }
+
       unsubscribeTopology = context.events.on("topology/snapshot", (payload) => {
         stream.setSnapshot(payload.snapshot);
         ready = true;
       });
 
+      context.events.emit("telemetry/status", {
+        source: "mock",
+        connectionState: "open",
+        attempt: 0,
+        endpoint: null,
+        timestampMs: performance.now()
+      });
+
       timerId = window.setInterval(() => {
         try {
           if (!ready) {
@@ -36,7 +98,7 @@ export function createTelemetryAgent(options: TelemetryAgentOptions = {}): Telem
           }
 
           const timestampMs = performance.now();
-          const batch = stream.generateBatch(timestampMs);
+          const batch = stream.generateBatch();
           const changedNodeIds = batch.nodeMetrics.map((metric) => metric.nodeId);
           const changedLinkIds = batch.linkMetrics.map((metric) => metric.linkId);
 
@@ -67,6 +129,7 @@ export function createTelemetryAgent(options: TelemetryAgentOptions = {}): Telem
 
     async dispose(): Promise<void> {
       stopTimer();
+      liveStream?.stop();
       if (unsubscribeTopology) {
         unsubscribeTopology();
         unsubscribeTopology = null;
@@ -0,0 +1,285 @@
+import type {
+  LinkMetricUpdate,
+  NodeMetricUpdate,
+  TopologyStructuralChange
+} from "../contracts/domain";
+import type { TelemetryConnectionState } from "../contracts/events";
+import { parseTelemetryMessage } from "./message-schema";
+
+/** Minimal surface of the browser WebSocket used by the stream (injectable for tests). */
+export interface WebSocketLike {
+  readonly readyState: number;
+  onopen: ((event: Event) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  close(code?: number, reason?: string): void;
+}
+
+export interface WebSocketTelemetryBatch {
+  nodeMetrics: NodeMetricUpdate[];
+  linkMetrics: LinkMetricUpdate[];
+  timestampMs: number;
+}
+
+export interface WebSocketTelemetryStreamOptions {
+  url: string;
+  /** First reconnect delay before jitter. */
+  initialBackoffMs?: number;
+  /** Upper bound for the exponential reconnect delay. */
+  maxBackoffMs?: number;
+  /** Consecutive failed attempts before giving up (default: retry forever). */
+  maxReconnectAttempts?: number;
+  /** Silence (no metrics or heartbeat) after which the link is considered stale. */
+  staleAfterMs?: number;
+  socketFactory?: (url: string) => WebSocketLike;
+  random?: () => number;
+}
+
+export interface WebSocketTelemetryFailure {
+  message: string;
+  connectionState: TelemetryConnectionState;
+  attempt: number;
+  retryInMs: number | null;
+  recoverable: boolean;
+}
+
+export interface WebSocketTelemetryHandlers {
+  onBatch(batch: WebSocketTelemetryBatch): void;
+  onStructure(changes: TopologyStructuralChange[], timestampMs: number): void;
+  onStateChange(state: TelemetryConnectionState, attempt: number): void;
+  onFailure(failure: WebSocketTelemetryFailure): void;
+}
+
+const SOCKET_OPEN = 1;
+const STALE_CHECK_INTERVAL_MS = 1000;
+
+export class WebSocketTelemetryStream {
+  private readonly url: string;
+  private readonly initialBackoffMs: number;
+  private readonly maxBackoffMs: number;
+  private readonly maxReconnectAttempts: number;
+  private readonly staleAfterMs: number;
+  private readonly socketFactory: (url: string) => WebSocketLike;
+  private readonly random: () => number;
+  private handlers: WebSocketTelemetryHandlers | null = null;
+  private socket: WebSocketLike | null = null;
+  private state: TelemetryConnectionState = "closed";
+  private attempt = 0;
+  private lastMessageAtMs = 0;
+  private reconnectTimerId: number | null = null;
+  private staleTimerId: number | null = null;
+  private stopped = true;
+
+  constructor(options: WebSocketTelemetryStreamOptions) {
+    this.url = options.url;
+    this.initialBackoffMs = options.initialBackoffMs ?? 500;
+    this.maxBackoffMs = options.maxBackoffMs ?? 30_000;
+    this.maxReconnectAttempts = options.maxReconnectAttempts ?? Number.POSITIVE_INFINITY;
+    this.staleAfterMs = options.staleAfterMs ?? 10_000;
+    this.socketFactory = options.socketFactory ?? ((url) => new WebSocket(url));
+    this.random = options.random ?? Math.random;
+  }
+
+  getState(): TelemetryConnectionState {
+    return this.state;
+  }
+
+  getUrl(): string {
+    return this.url;
+  }
+
+  start(handlers: WebSocketTelemetryHandlers): void {
+    this.handlers = handlers;
+    this.stopped = false;
+    this.attempt = 0;
+    this.connect();
+    this.staleTimerId = window.setInterval(() => this.checkStale(), STALE_CHECK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.reconnectTimerId !== null) {
+      window.clearTimeout(this.reconnectTimerId);
+      this.reconnectTimerId = null;
+    }
+    if (this.staleTimerId !== null) {
+      window.clearInterval(this.staleTimerId);
+      this.staleTimerId = null;
+    }
+    this.dropSocket();
+    this.setState("closed");
+    this.handlers = null;
+  }
+
+  /** Delay before reconnect attempt `attempt` (1-based), with "equal jitter" in [d/2, d). */
+  computeBackoffMs(attempt: number): number {
+    const exponent = Math.max(0, attempt - 1);
+    const ceiling = Math.min(this.maxBackoffMs, this.initialBackoffMs * 2 ** exponent);
+    return Math.round(ceiling / 2 + this.random() * (ceiling / 2));
+  }
+
+  private connect(): void {
+    this.setState(this.attempt === 0 ? "connecting" : "reconnecting");
+
+    let socket: WebSocketLike;
+    try {
+      socket = this.socketFactory(this.url);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.scheduleReconnect(`Could not open ${this.url}: ${message}`);
+      return;
+    }
+
+    this.socket = socket;
+    socket.onopen = () => {
+      if (socket !== this.socket) {
+        return;
+      }
+      this.attempt = 0;
+      this.lastMessageAtMs = performance.now();
+      this.setState("open");
+    };
+    socket.onmessage = (event) => {
+      if (socket !== this.socket) {
+        return;
+      }
+      this.handleMessage(event.data);
+    };
+    socket.onerror = () => {
+      // The close event that always follows carries the useful details.
+    };
+    socket.onclose = (event) => {
+      if (socket !== this.socket) {
+        return;
+      }
+      this.socket = null;
+      if (this.stopped) {
+        return;
+      }
+      const reason = event.reason ? `, ${event.reason}` : "";
+      this.scheduleReconnect(`Telemetry socket closed (code ${event.code}${reason}).`);
+    };
+  }
+
+  private handleMessage(data: unknown): void {
+    if (typeof data !== "string") {
+      this.reportFailure("Ignored non-text telemetry frame.", null, true);
+      return;
+    }
+
+    this.lastMessageAtMs = performance.now();
+    if (this.state === "stale") {
+      this.setState("open");
+    }
+
+    try {
+      const message = parseTelemetryMessage(data);
+      if (message.type === "heartbeat") {
+        return;
+      }
+      if (message.type === "topology") {
+        if (message.changes.length > 0) {
+          this.handlers?.onStructure(message.changes, this.lastMessageAtMs);
+        }
+        return;
+      }
+      if (message.nodeMetrics.length === 0 && message.linkMetrics.length === 0) {
+        return;
+      }
+      this.handlers?.onBatch({
+        nodeMetrics: message.nodeMetrics,
+        linkMetrics: message.linkMetrics,
+        timestampMs: this.lastMessageAtMs
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.reportFailure(`Rejected telemetry message: ${message}`, null, true);
+    }
+  }
+
+  private checkStale(): void {
+    if (this.state !== "open" || !this.socket || this.socket.readyState !== SOCKET_OPEN) {
+      return;
+    }
+
+    const silentMs = performance.now() - this.lastMessageAtMs;
+    if (silentMs < this.staleAfterMs) {
+      return;
+    }
+
+    this.setState("stale");
+    this.reportFailure(
+      `No telemetry received for ${Math.round(silentMs / 1000)}s; reconnecting.`,
+      null,
+      true
+    );
+    this.dropSocket();
+    this.scheduleReconnect(null);
+  }
+
+  private scheduleReconnect(reason: string | null): void {
+    if (this.stopped) {
+      return;
+    }
+
+    this.attempt += 1;
+    if (this.attempt > this.maxReconnectAttempts) {
+      this.setState("closed");
+      this.reportFailure(
+        `${reason ?? "Telemetry socket lost."} Giving up after ${this.maxReconnectAttempts} attempts.`,
+        null,
+        false
+      );
+      return;
+    }
+
+    const retryInMs = this.computeBackoffMs(this.attempt);
+    this.setState("reconnecting");
+    if (reason) {
+      this.reportFailure(reason, retryInMs, true);
+    }
+
+    this.reconnectTimerId = window.setTimeout(() => {
+      this.reconnectTimerId = null;
+      if (!this.stopped) {
+        this.connect();
+      }
+    }, retryInMs);
+  }
+
+  private dropSocket(): void {
+    const socket = this.socket;
+    this.socket = null;
+    if (!socket) {
+      return;
+    }
+    socket.onopen = null;
+    socket.onmessage = null;
+    socket.onerror = null;
+    socket.onclose = null;
+    try {
+      socket.close();
+    } catch {
+      // Already closing.
+    }
+  }
+
+  private setState(next: TelemetryConnectionState): void {
+    if (this.state === next) {
+      return;
+    }
+    this.state = next;
+    this.handlers?.onStateChange(next, this.attempt);
+  }
+
+  private reportFailure(message: string, retryInMs: number | null, recoverable: boolean): void {
+    this.handlers?.onFailure({
+      message,
+      connectionState: this.state,
+      attempt: this.attempt,
+      retryInMs,
+      recoverable
+    });
+  }
+}
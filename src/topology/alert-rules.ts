@@ -0,0 +1,330 @@
+import type { InfraLink, InfraNode, NodeType, NumericMetricKey, TopologySnapshot } from "../contracts/domain";
+import type { AlertEvent, AlertSeverity } from "../contracts/events";
+import { HISTORY_METRIC_KEYS } from "./metric-history";
+
+/** Latency/loss cut-offs shared by status derivation, the topology filters and the default rules. */
+export const HEALTH_THRESHOLDS = {
+  degradedLatencyMs: 45,
+  downLatencyMs: 140,
+  degradedLossPct: 1.8,
+  downLossPct: 8
+} as const;
+
+export function deriveHealthState(latencyMs: number, packetLossPct: number): "up" | "degraded" | "down" {
+  if (latencyMs > HEALTH_THRESHOLDS.downLatencyMs || packetLossPct > HEALTH_THRESHOLDS.downLossPct) {
+    return "down";
+  }
+  if (latencyMs > HEALTH_THRESHOLDS.degradedLatencyMs || packetLossPct > HEALTH_THRESHOLDS.degradedLossPct) {
+    return "degraded";
+  }
+  return "up";
+}
+
+export type AlertComparator = ">" | "<";
+
+/**
+ * "link latencyMs > 60 for 30 s, clears below 50" is
+ * `{ entityKind: "link", metric: "latencyMs", comparator: ">", threshold: 60, forMs: 30_000, clearThreshold: 50 }`.
+ */
+export interface AlertRule {
+  id: string;
+  label: string;
+  severity: AlertSeverity;
+  entityKind: "node" | "link";
+  /** Limits a node rule to these node types. Omit to match every node. */
+  nodeTypes?: NodeType[];
+  metric: NumericMetricKey;
+  comparator: AlertComparator;
+  threshold: number;
+  /** The metric must get back past this value to clear. Defaults to `threshold` (no hysteresis). */
+  clearThreshold?: number;
+  /** How long the threshold must stay breached before raising. Defaults to 0. */
+  forMs?: number;
+}
+
+export const DEFAULT_ALERT_RULES: readonly AlertRule[] = [
+  {
+    id: "link-latency-high",
+    label: "Link latency high",
+    severity: "warning",
+    entityKind: "link",
+    metric: "latencyMs",
+    comparator: ">",
+    threshold: 60,
+    clearThreshold: 50,
+    forMs: 30_000
+  },
+  {
+    id: "link-loss-down",
+    label: "Link packet loss",
+    severity: "critical",
+    entityKind: "link",
+    metric: "packetLossPct",
+    comparator: ">",
+    threshold: HEALTH_THRESHOLDS.downLossPct,
+    clearThreshold: HEALTH_THRESHOLDS.degradedLossPct,
+    forMs: 10_000
+  },
+  {
+    id: "node-latency-down",
+    label: "Node latency critical",
+    severity: "critical",
+    entityKind: "node",
+    metric: "latencyMs",
+    comparator: ">",
+    threshold: HEALTH_THRESHOLDS.downLatencyMs,
+    clearThreshold: HEALTH_THRESHOLDS.degradedLatencyMs,
+    forMs: 10_000
+  },
+  {
+    id: "client-rssi-low",
+    label: "Client signal weak",
+    severity: "warning",
+    entityKind: "node",
+    nodeTypes: ["client"],
+    metric: "rssi",
+    comparator: "<",
+    threshold: -75,
+    clearThreshold: -72,
+    forMs: 10_000
+  }
+];
+
+/** An alert as tracked by the engine; the topology agent stamps `timestampMs` when emitting it. */
+export type AlertRecord = Omit<AlertEvent, "timestampMs">;
+
+export interface AlertTransition {
+  kind: "raised" | "cleared";
+  alert: AlertRecord;
+}
+
+export class AlertRuleError extends Error {
+  readonly ruleIndex: number | null;
+
+  constructor(message: string, ruleIndex: number | null) {
+    super(ruleIndex === null ? message : `Rule ${ruleIndex}: ${message}`);
+    this.name = "AlertRuleError";
+    this.ruleIndex = ruleIndex;
+  }
+}
+
+interface RuleState {
+  /** Wall-clock time the threshold was first seen breached; null while within limits. */
+  pendingSinceMs: number | null;
+  active: AlertRecord | null;
+}
+
+/**
+ * Evaluates alert rules against topology snapshots.
+ *
+ * A rule raises once its threshold has been breached for `forMs` and clears once the
+ * metric crosses back past `clearThreshold`. Entities with stale data or without the
+ * metric hold their current state: no new alerts, and active ones stay up until fresh
+ * data clears them. Alerts on removed entities clear with a null value.
+ */
+export class AlertRuleEngine {
+  private readonly rules: readonly AlertRule[];
+  private readonly states = new Map<string, RuleState>();
+
+  constructor(rules: readonly AlertRule[] = DEFAULT_ALERT_RULES) {
+    this.rules = rules;
+  }
+
+  getRules(): readonly AlertRule[] {
+    return this.rules;
+  }
+
+  getActiveAlerts(): AlertRecord[] {
+    const active: AlertRecord[] = [];
+    for (const state of this.states.values()) {
+      if (state.active) {
+        active.push({ ...state.active });
+      }
+    }
+    return active;
+  }
+
+  evaluate(snapshot: TopologySnapshot, nowMs = Date.now()): AlertTransition[] {
+    const transitions: AlertTransition[] = [];
+    const seen = new Set<string>();
+
+    for (const rule of this.rules) {
+      const entities: Array<InfraNode | InfraLink> = rule.entityKind === "node"
+        ? snapshot.nodes.filter((node) => !rule.nodeTypes || rule.nodeTypes.includes(node.type))
+        : snapshot.links;
+
+      for (const entity of entities) {
+        const alertId = `${rule.id}:${rule.entityKind}:${entity.id}`;
+        seen.add(alertId);
+        const transition = this.evaluateEntity(rule, alertId, entity, nowMs);
+        if (transition) {
+          transitions.push(transition);
+        }
+      }
+    }
+
+    for (const [alertId, state] of this.states) {
+      if (seen.has(alertId)) {
+        continue;
+      }
+      this.states.delete(alertId);
+      if (state.active) {
+        transitions.push({ kind: "cleared", alert: { ...state.active, value: null } });
+      }
+    }
+
+    return transitions;
+  }
+
+  private evaluateEntity(
+    rule: AlertRule,
+    alertId: string,
+    entity: InfraNode | InfraLink,
+    nowMs: number
+  ): AlertTransition | null {
+    const value = entity.metrics[rule.metric];
+    const state = this.states.get(alertId) ?? { pendingSinceMs: null, active: null };
+
+    if (typeof value !== "number" || entity.metrics.stale) {
+      state.pendingSinceMs = null;
+      this.storeState(alertId, state);
+      return null;
+    }
+
+    const breached = rule.comparator === ">" ? value > rule.threshold : value < rule.threshold;
+    const clearThreshold = rule.clearThreshold ?? rule.threshold;
+    const recovered = rule.comparator === ">" ? value <= clearThreshold : value >= clearThreshold;
+
+    if (state.active) {
+      state.active.value = value;
+      if (!recovered) {
+        return null;
+      }
+      const cleared = { ...state.active };
+      this.states.delete(alertId);
+      return { kind: "cleared", alert: cleared };
+    }
+
+    if (!breached) {
+      state.pendingSinceMs = null;
+      this.storeState(alertId, state);
+      return null;
+    }
+
+    state.pendingSinceMs ??= nowMs;
+    if (nowMs - state.pendingSinceMs < (rule.forMs ?? 0)) {
+      this.storeState(alertId, state);
+      return null;
+    }
+
+    state.active = {
+      alertId,
+      ruleId: rule.id,
+      label: rule.label,
+      severity: rule.severity,
+      entityKind: rule.entityKind,
+      entityId: entity.id,
+      entityLabel: "label" in entity ? entity.label : `${entity.fromNodeId} → ${entity.toNodeId}`,
+      metric: rule.metric,
+      value,
+      threshold: rule.threshold,
+      raisedAtMs: nowMs
+    };
+    this.storeState(alertId, state);
+    return { kind: "raised", alert: { ...state.active } };
+  }
+
+  private storeState(alertId: string, state: RuleState): void {
+    // Idle entities carry no state, so the map only grows with pending and active alerts.
+    if (state.pendingSinceMs === null && !state.active) {
+      this.states.delete(alertId);
+    } else {
+      this.states.set(alertId, state);
+    }
+  }
+}
+
+const ALERT_METRICS: ReadonlySet<string> = new Set<string>(HISTORY_METRIC_KEYS);
+const NODE_TYPES: ReadonlySet<string> = new Set<NodeType>([
+  "tower",
+  "backhaul",
+  "router",
+  "switch",
+  "client",
+  "unknown"
+]);
+
+/** Parses a JSON rule list (e.g. from `?alerts=<url>`), throwing `AlertRuleError` on the first bad rule. */
+export function parseAlertRules(input: unknown): AlertRule[] {
+  if (!Array.isArray(input)) {
+    throw new AlertRuleError("alert rules must be a JSON array.", null);
+  }
+
+  const ids = new Set<string>();
+  return input.map((raw, index) => {
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+      throw new AlertRuleError("must be an object.", index);
+    }
+    const rule = raw as Record<string, unknown>;
+
+    if (typeof rule.id !== "string" || rule.id.length === 0) {
+      throw new AlertRuleError("id must be a non-empty string.", index);
+    }
+    if (ids.has(rule.id)) {
+      throw new AlertRuleError(`duplicate id "${rule.id}".`, index);
+    }
+    ids.add(rule.id);
+    if (rule.entityKind !== "node" && rule.entityKind !== "link") {
+      throw new AlertRuleError(`entityKind must be "node" or "link".`, index);
+    }
+    if (typeof rule.metric !== "string" || !ALERT_METRICS.has(rule.metric)) {
+      throw new AlertRuleError(`unsupported metric "${String(rule.metric)}".`, index);
+    }
+    if (rule.comparator !== ">" && rule.comparator !== "<") {
+      throw new AlertRuleError(`comparator must be ">" or "<".`, index);
+    }
+    if (!isFiniteNumber(rule.threshold)) {
+      throw new AlertRuleError("threshold must be a finite number.", index);
+    }
+    if (rule.clearThreshold !== undefined) {
+      if (!isFiniteNumber(rule.clearThreshold)) {
+        throw new AlertRuleError("clearThreshold must be a finite number.", index);
+      }
+      const widensBand = rule.comparator === ">"
+        ? rule.clearThreshold <= rule.threshold
+        : rule.clearThreshold >= rule.threshold;
+      if (!widensBand) {
+        throw new AlertRuleError("clearThreshold must lie on the healthy side of threshold.", index);
+      }
+    }
+    if (rule.forMs !== undefined && (!isFiniteNumber(rule.forMs) || rule.forMs < 0)) {
+      throw new AlertRuleError("forMs must be a non-negative number.", index);
+    }
+    if (rule.severity !== undefined && rule.severity !== "warning" && rule.severity !== "critical") {
+      throw new AlertRuleError(`severity must be "warning" or "critical".`, index);
+    }
+    if (
+      rule.nodeTypes !== undefined &&
+      (!Array.isArray(rule.nodeTypes) || rule.nodeTypes.some((type) => typeof type !== "string" || !NODE_TYPES.has(type)))
+    ) {
+      throw new AlertRuleError("nodeTypes must be an array of node types.", index);
+    }
+
+    return {
+      id: rule.id,
+      label: typeof rule.label === "string" && rule.label.length > 0 ? rule.label : rule.id,
+      severity: rule.severity ?? "warning",
+      entityKind: rule.entityKind,
+      nodeTypes: rule.nodeTypes as NodeType[] | undefined,
+      metric: rule.metric as NumericMetricKey,
+      comparator: rule.comparator,
+      threshold: rule.threshold,
+      clearThreshold: rule.clearThreshold,
+      forMs: rule.forMs
+    };
+  });
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
@@ -1,11 +1,42 @@
+import type { HealthState, LinkMedium, NodeType, NumericMetricKey } from "../contracts/domain";
+import { HEALTH_THRESHOLDS, type AlertComparator } from "./alert-rules";
+import { HISTORY_METRIC_KEYS } from "./metric-history";
 import type { RenderGraphView, RenderLinkView, RenderNodeView } from "./rendering-selectors";
 
-export type TopologyFilterMode =
-  | "all"
-  | "degraded"
-  | "down"
-  | "high-latency"
-  | "high-loss";
+/**
+ * Filter expression tree. Leaf predicates that only make sense for one entity kind
+ * (`node-type` for nodes, `medium` for links) are "not applicable" to the other kind: `not`
+ * keeps them that way, `and`/`or` skip them, and an entity whose whole expression is not
+ * applicable does not match. So `not type:client` selects no links of its own, and
+ * `type:tower and medium:fiber` selects towers and fiber links.
+ */
+export type TopologyFilterExpression =
+  | { op: "and"; terms: TopologyFilterExpression[] }
+  | { op: "or"; terms: TopologyFilterExpression[] }
+  | { op: "not"; term: TopologyFilterExpression }
+  | { op: "node-type"; types: NodeType[] }
+  | { op: "medium"; media: LinkMedium[] }
+  | { op: "health"; states: HealthState[] }
+  | { op: "metric"; metric: NumericMetricKey; comparator: AlertComparator; value: number }
+  /** Case-insensitive substring of a node label or ID, or a link ID. */
+  | { op: "label"; contains: string }
+  /** Nodes within `depth` hops of `nodeId`, and links with both ends inside that neighborhood. */
+  | { op: "near"; nodeId: string; depth: number };
+
+export interface TopologyFilterPreset {
+  id: string;
+  label: string;
+  /** Filter text in the `parseTopologyFilter` syntax; empty shows everything. */
+  query: string;
+}
+
+export const BUILT_IN_FILTER_PRESETS: readonly TopologyFilterPreset[] = [
+  { id: "all", label: "All", query: "" },
+  { id: "degraded", label: "Degraded", query: "health:degraded,down" },
+  { id: "down", label: "Down", query: "health:down" },
+  { id: "high-latency", label: "High Latency", query: `latencyMs>${HEALTH_THRESHOLDS.degradedLatencyMs}` },
+  { id: "high-loss", label: "High Loss", query: `packetLossPct>${HEALTH_THRESHOLDS.degradedLossPct}` }
+];
 
 export interface TopologyFilterResult {
   graph: RenderGraphView;
@@ -15,14 +46,18 @@ export interface TopologyFilterResult {
   totalLinkCount: number;
 }
 
-const HIGH_LATENCY_THRESHOLD_MS = 40;
-const HIGH_LOSS_THRESHOLD_PCT = 1.5;
-
+/**
+ * Applies `expression` to the graph; null shows everything.
+ *
+ * The result holds every matched node and link, the endpoints of matched links, and the
+ * links whose two endpoints both matched. Node lookups go through maps, so the cost stays
+ * linear in graph size (plus one BFS per distinct `near` term).
+ */
 export function applyTopologyFilter(
   graph: RenderGraphView,
-  mode: TopologyFilterMode
+  expression: TopologyFilterExpression | null
 ): TopologyFilterResult {
-  if (mode === "all") {
+  if (!expression) {
     return {
       graph,
       filteredNodeCount: graph.nodes.length,
@@ -32,47 +67,27 @@ export function applyTopologyFilter(
     };
   }
 
+  const context = new FilterContext(graph);
   const matchedNodeIds = new Set<string>();
-  const nodes: RenderNodeView[] = [];
-  const links: RenderLinkView[] = [];
-
   for (const node of graph.nodes) {
-    if (matchesNodeFilter(node, mode)) {
+    if (matchesExpression(expression, { kind: "node", node }, context) === true) {
       matchedNodeIds.add(node.id);
-      nodes.push(node);
     }
   }
 
+  const includedNodeIds = new Set(matchedNodeIds);
+  const links: RenderLinkView[] = [];
   for (const link of graph.links) {
-    if (matchesLinkFilter(link, mode)) {
+    const connectsMatches = matchedNodeIds.has(link.fromNodeId) && matchedNodeIds.has(link.toNodeId);
+    if (connectsMatches || matchesExpression(expression, { kind: "link", link }, context) === true) {
       links.push(link);
-      // Include connected nodes that weren't already matched
-      if (!matchedNodeIds.has(link.fromNodeId)) {
-        const fromNode = graph.nodes.find((n) => n.id === link.fromNodeId);
-        if (fromNode) {
-          matchedNodeIds.add(fromNode.id);
-          nodes.push(fromNode);
-        }
-      }
-      if (!matchedNodeIds.has(link.toNodeId)) {
-        const toNode = graph.nodes.find((n) => n.id === link.toNodeId);
-        if (toNode) {
-          matchedNodeIds.add(toNode.id);
-          nodes.push(toNode);
-        }
-      }
+      includedNodeIds.add(link.fromNodeId);
+      includedNodeIds.add(link.toNodeId);
     }
   }
 
-  // For node-only filters, also include links between matched nodes
-  if (mode === "degraded" || mode === "down") {
-    for (const link of graph.links) {
-      if (links.includes(link)) continue;
-      if (matchedNodeIds.has(link.fromNodeId) && matchedNodeIds.has(link.toNodeId)) {
-        links.push(link);
-      }
-    }
-  }
+  // Keep the snapshot's node order so downstream layout stays stable.
+  const nodes = graph.nodes.filter((node) => includedNodeIds.has(node.id));
 
   return {
     graph: { nodes, links },
@@ -83,32 +98,349 @@ export function applyTopologyFilter(
   };
 }
 
-function matchesNodeFilter(node: RenderNodeView, mode: TopologyFilterMode): boolean {
-  switch (mode) {
-    case "degraded":
-      return node.health === "degraded" || node.health === "down";
-    case "down":
-      return node.health === "down";
-    case "high-latency":
-      return node.latencyMs > HIGH_LATENCY_THRESHOLD_MS;
-    case "high-loss":
-      return node.packetLossPct > HIGH_LOSS_THRESHOLD_PCT;
+type FilterEntity =
+  | { kind: "node"; node: RenderNodeView }
+  | { kind: "link"; link: RenderLinkView };
+
+/** Per-call lookup tables, built lazily so plain predicates don't pay for the graph index. */
+class FilterContext {
+  private readonly graph: RenderGraphView;
+  private adjacency: Map<string, string[]> | null = null;
+  private readonly neighborhoods = new Map<string, Set<string>>();
+
+  constructor(graph: RenderGraphView) {
+    this.graph = graph;
+  }
+
+  neighborhood(nodeId: string, depth: number): Set<string> {
+    const key = `${depth}:${nodeId}`;
+    let reached = this.neighborhoods.get(key);
+    if (reached) {
+      return reached;
+    }
+
+    const adjacency = this.getAdjacency();
+    reached = new Set<string>();
+    if (adjacency.has(nodeId)) {
+      reached.add(nodeId);
+      let frontier = [nodeId];
+      for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+        const next: string[] = [];
+        for (const id of frontier) {
+          for (const neighborId of adjacency.get(id) ?? []) {
+            if (!reached.has(neighborId)) {
+              reached.add(neighborId);
+              next.push(neighborId);
+            }
+          }
+        }
+        frontier = next;
+      }
+    }
+    this.neighborhoods.set(key, reached);
+    return reached;
+  }
+
+  private getAdjacency(): Map<string, string[]> {
+    if (!this.adjacency) {
+      this.adjacency = new Map(this.graph.nodes.map((node) => [node.id, []]));
+      for (const link of this.graph.links) {
+        this.adjacency.get(link.fromNodeId)?.push(link.toNodeId);
+        this.adjacency.get(link.toNodeId)?.push(link.fromNodeId);
+      }
+    }
+    return this.adjacency;
+  }
+}
+
+/** Null means the expression does not apply to this kind of entity. */
+function matchesExpression(
+  expression: TopologyFilterExpression,
+  entity: FilterEntity,
+  context: FilterContext
+): boolean | null {
+  switch (expression.op) {
+    case "and": {
+      let result: boolean | null = null;
+      for (const term of expression.terms) {
+        const matched = matchesExpression(term, entity, context);
+        if (matched === false) {
+          return false;
+        }
+        result ??= matched;
+      }
+      return result;
+    }
+    case "or": {
+      let result: boolean | null = null;
+      for (const term of expression.terms) {
+        const matched = matchesExpression(term, entity, context);
+        if (matched === true) {
+          return true;
+        }
+        result ??= matched;
+      }
+      return result;
+    }
+    case "not": {
+      const matched = matchesExpression(expression.term, entity, context);
+      return matched === null ? null : !matched;
+    }
+    case "node-type":
+      return entity.kind === "node" ? expression.types.includes(entity.node.type as NodeType) : null;
+    case "medium":
+      return entity.kind === "link" ? expression.media.includes(entity.link.medium as LinkMedium) : null;
+    case "health": {
+      const health = entity.kind === "node" ? entity.node.health : entity.link.health;
+      return expression.states.includes(health);
+    }
+    case "metric": {
+      const value = readMetric(entity, expression.metric);
+      if (value === null) {
+        return false;
+      }
+      return expression.comparator === ">" ? value > expression.value : value < expression.value;
+    }
+    case "label": {
+      const needle = expression.contains.toLowerCase();
+      return entity.kind === "node"
+        ? entity.node.label.toLowerCase().includes(needle) || entity.node.id.toLowerCase().includes(needle)
+        : entity.link.id.toLowerCase().includes(needle);
+    }
+    case "near": {
+      const reached = context.neighborhood(expression.nodeId, expression.depth);
+      return entity.kind === "node"
+        ? reached.has(entity.node.id)
+        : reached.has(entity.link.fromNodeId) && reached.has(entity.link.toNodeId);
+    }
+  }
+}
+
+/** Metrics the render view does not carry for this entity kind read as null and never match. */
+function readMetric(entity: FilterEntity, metric: NumericMetricKey): number | null {
+  if (entity.kind === "node") {
+    const node = entity.node;
+    switch (metric) {
+      case "latencyMs":
+        return node.latencyMs;
+      case "packetLossPct":
+        return node.packetLossPct;
+      case "throughputMbps":
+        return node.throughputMbps;
+      case "rssi":
+        return node.rssi;
+      case "snr":
+        return node.snr;
+      default:
+        return null;
+    }
+  }
+  const link = entity.link;
+  switch (metric) {
+    case "latencyMs":
+      return link.latencyMs;
+    case "packetLossPct":
+      return link.packetLossPct;
+    case "utilizationPct":
+      return link.utilizationPct;
     default:
-      return true;
+      return null;
   }
 }
 
-function matchesLinkFilter(link: RenderLinkView, mode: TopologyFilterMode): boolean {
-  switch (mode) {
-    case "degraded":
-      return link.health === "degraded" || link.health === "down";
-    case "down":
-      return link.health === "down";
-    case "high-latency":
-      return link.latencyMs > HIGH_LATENCY_THRESHOLD_MS;
-    case "high-loss":
-      return link.packetLossPct > HIGH_LOSS_THRESHOLD_PCT;
+// ---- Filter text syntax ----
+
+export class TopologyFilterParseError extends Error {
+  /** Character offset in the filter text where parsing failed. */
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} (at ${position})`);
+    this.name = "TopologyFilterParseError";
+    this.position = position;
+  }
+}
+
+const NODE_TYPES: readonly NodeType[] = ["tower", "backhaul", "router", "switch", "client", "unknown"];
+const LINK_MEDIA: readonly LinkMedium[] = ["wired", "wireless", "fiber", "unknown"];
+const HEALTH_STATES: readonly HealthState[] = ["up", "degraded", "down", "unknown"];
+
+interface Token {
+  text: string;
+  position: number;
+  /** Quoted tokens are never read as keywords or parentheses. */
+  quoted: boolean;
+}
+
+/**
+ * Parses filter text into an expression; returns null for blank text.
+ *
+ * Terms: `type:tower,router`, `medium:fiber`, `health:degraded,down`, `latencyMs>45`,
+ * `rssi<-75`, `label:north` (quote values with spaces: `label:"north ridge"`) and
+ * `near:<nodeId>:<depth>`. Combine with `and`, `or`, `not` and parentheses; adjacent
+ * terms are ANDed and `and` binds tighter than `or`.
+ */
+export function parseTopologyFilter(text: string): TopologyFilterExpression | null {
+  const tokens = tokenize(text);
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  let index = 0;
+  const peekKeyword = (): string | null => {
+    const token = tokens[index];
+    return token && !token.quoted ? token.text.toLowerCase() : null;
+  };
+
+  const parseOr = (): TopologyFilterExpression => {
+    const terms = [parseAnd()];
+    while (peekKeyword() === "or") {
+      index++;
+      terms.push(parseAnd());
+    }
+    return terms.length === 1 ? terms[0] : { op: "or", terms };
+  };
+
+  const parseAnd = (): TopologyFilterExpression => {
+    const terms = [parseUnary()];
+    for (;;) {
+      const keyword = peekKeyword();
+      if (index >= tokens.length || keyword === "or" || keyword === ")") {
+        break;
+      }
+      if (keyword === "and") {
+        index++;
+      }
+      terms.push(parseUnary());
+    }
+    return terms.length === 1 ? terms[0] : { op: "and", terms };
+  };
+
+  const parseUnary = (): TopologyFilterExpression => {
+    const token = tokens[index];
+    if (!token) {
+      throw new TopologyFilterParseError("expected a filter term", text.length);
+    }
+    const keyword = peekKeyword();
+    if (keyword === "not") {
+      index++;
+      return { op: "not", term: parseUnary() };
+    }
+    if (keyword === "(") {
+      index++;
+      const inner = parseOr();
+      if (peekKeyword() !== ")") {
+        throw new TopologyFilterParseError("expected ')'", tokens[index]?.position ?? text.length);
+      }
+      index++;
+      return inner;
+    }
+    if (keyword === ")" || keyword === "and" || keyword === "or") {
+      throw new TopologyFilterParseError(`unexpected '${token.text}'`, token.position);
+    }
+    index++;
+    return parseTerm(token);
+  };
+
+  const expression = parseOr();
+  if (index < tokens.length) {
+    throw new TopologyFilterParseError(`unexpected '${tokens[index].text}'`, tokens[index].position);
+  }
+  return expression;
+}
+
+function parseTerm(token: Token): TopologyFilterExpression {
+  const comparison = /^([A-Za-z]+)([<>])(-?\d+(?:\.\d+)?)$/.exec(token.text);
+  if (comparison) {
+    const metric = HISTORY_METRIC_KEYS.find((key) => key.toLowerCase() === comparison[1].toLowerCase());
+    if (!metric) {
+      throw new TopologyFilterParseError(`unknown metric "${comparison[1]}"`, token.position);
+    }
+    return {
+      op: "metric",
+      metric,
+      comparator: comparison[2] as AlertComparator,
+      value: Number(comparison[3])
+    };
+  }
+
+  const separator = token.text.indexOf(":");
+  if (separator <= 0) {
+    throw new TopologyFilterParseError(`cannot read term "${token.text}"`, token.position);
+  }
+  const key = token.text.slice(0, separator).toLowerCase();
+  const value = token.text.slice(separator + 1);
+  if (value.length === 0) {
+    throw new TopologyFilterParseError(`missing value for "${key}"`, token.position);
+  }
+
+  switch (key) {
+    case "type":
+      return { op: "node-type", types: parseList(value, NODE_TYPES, "node type", token) };
+    case "medium":
+      return { op: "medium", media: parseList(value, LINK_MEDIA, "medium", token) };
+    case "health":
+      return { op: "health", states: parseList(value, HEALTH_STATES, "health state", token) };
+    case "label":
+      return { op: "label", contains: value };
+    case "near": {
+      // Node IDs may contain ':', so the depth is whatever follows the last one.
+      const depthSeparator = value.lastIndexOf(":");
+      const depth = depthSeparator > 0 ? Number(value.slice(depthSeparator + 1)) : 1;
+      const nodeId = depthSeparator > 0 ? value.slice(0, depthSeparator) : value;
+      if (!Number.isInteger(depth) || depth < 0) {
+        throw new TopologyFilterParseError("near depth must be a non-negative integer", token.position);
+      }
+      return { op: "near", nodeId, depth };
+    }
     default:
-      return true;
+      throw new TopologyFilterParseError(`unknown filter key "${key}"`, token.position);
+  }
+}
+
+function parseList<T extends string>(value: string, allowed: readonly T[], what: string, token: Token): T[] {
+  return value.split(",").map((part) => {
+    const match = allowed.find((option) => option === part.trim().toLowerCase());
+    if (!match) {
+      throw new TopologyFilterParseError(`unknown ${what} "${part}"`, token.position);
+    }
+    return match;
+  });
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === "(" || ch === ")") {
+      tokens.push({ text: ch, position: i, quoted: false });
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let value = "";
+    let quoted = false;
+    while (i < text.length && !/[\s()]/.test(text[i])) {
+      if (text[i] === "\"") {
+        const close = text.indexOf("\"", i + 1);
+        if (close < 0) {
+          throw new TopologyFilterParseError("unterminated quote", i);
+        }
+        value += text.slice(i + 1, close);
+        quoted = true;
+        i = close + 1;
+      } else {
+        value += text[i];
+        i++;
+      }
+    }
+    tokens.push({ text: value, position: start, quoted });
   }
+  return tokens;
 }
@@ -1,18 +1,62 @@
 export { createTopologyAgent } from "./topology-agent";
 export type { TopologyAgentOptions } from "./topology-agent";
-export { TopologyStore } from "./store";
-export type { TopologyDeltaResult } from "./store";
+export { TopologyStore, DEFAULT_STALE_DATA_POLICY } from "./store";
+export type { StaleDataPolicy, TopologyDeltaResult, TopologyStoreOptions } from "./store";
+export {
+  MetricHistory,
+  HISTORY_METRIC_KEYS,
+  type HistoryEntityKind,
+  type HistoryMetricKey,
+  type MetricHistoryOptions,
+  type MetricHistoryQuery,
+  type MetricHistoryReader,
+  type MetricSample,
+  type MetricWindowStats
+} from "./metric-history";
+export {
+  AlertRuleEngine,
+  AlertRuleError,
+  DEFAULT_ALERT_RULES,
+  HEALTH_THRESHOLDS,
+  deriveHealthState,
+  parseAlertRules,
+  type AlertComparator,
+  type AlertRecord,
+  type AlertRule,
+  type AlertTransition
+} from "./alert-rules";
+export {
+  findSnapshotPath,
+  findTopologyPath,
+  type PathQueryOptions
+} from "./path-query";
 export { loadMockTopologySnapshot } from "./mock-topology";
+export { RestTopologyLoader, TopologyHttpError } from "./rest-loader";
+export type { RestMetricDelta, RestTopologyLoaderOptions } from "./rest-loader";
+export {
+  validateTopologySnapshot,
+  validateStructuralChanges,
+  TopologyValidationError,
+  UNASSIGNED_MARKER_ID,
+  type TopologyStructuralValidationResult,
+  type TopologyValidationResult
+} from "./validation";
 export {
   selectRenderGraphView,
   type RenderGraphView,
+  type RenderLinkDirectionView,
   type RenderLinkView,
-  type RenderNodeView
+  type RenderNodeView,
+  type RenderWirelessLinkView
 } from "./rendering-selectors";
 export { selectTopologyStats, type TopologyStatsView } from "./tracking-selectors";
 export {
   applyTopologyFilter,
-  type TopologyFilterMode,
+  parseTopologyFilter,
+  BUILT_IN_FILTER_PRESETS,
+  TopologyFilterParseError,
+  type TopologyFilterExpression,
+  type TopologyFilterPreset,
   type TopologyFilterResult
 } from "./filters";
 export { generateStressTopology, type StressTopologyOptions } from "./stress-topology";
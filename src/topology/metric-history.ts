@@ -0,0 +1,205 @@
+import type { MetricSnapshot, NumericMetricKey } from "../contracts/domain";
+
+export type HistoryEntityKind = "node" | "link";
+
+export type HistoryMetricKey = NumericMetricKey;
+
+export const HISTORY_METRIC_KEYS: readonly HistoryMetricKey[] = [
+  "latencyMs",
+  "packetLossPct",
+  "utilizationPct",
+  "rssi",
+  "snr",
+  "throughputMbps"
+];
+
+export interface MetricSample {
+  timestampMs: number;
+  value: number;
+}
+
+export interface MetricWindowStats {
+  count: number;
+  min: number;
+  max: number;
+  avg: number;
+  p95: number;
+  latest: number;
+}
+
+export interface MetricHistoryQuery {
+  /** Only samples newer than `nowMs - windowMs`. Omit for the whole buffer. */
+  windowMs?: number;
+  /** Reference time for the window. Defaults to the series' latest sample. */
+  nowMs?: number;
+}
+
+/** Read side of `MetricHistory`, handed to renderers so they cannot record into it. */
+export interface MetricHistoryReader {
+  getSeries(
+    kind: HistoryEntityKind,
+    id: string,
+    metric: HistoryMetricKey,
+    query?: MetricHistoryQuery
+  ): MetricSample[];
+  getStats(
+    kind: HistoryEntityKind,
+    id: string,
+    metric: HistoryMetricKey,
+    query?: MetricHistoryQuery
+  ): MetricWindowStats | null;
+}
+
+export interface MetricHistoryOptions {
+  /** Samples kept per entity and metric; the oldest are overwritten. */
+  capacity?: number;
+}
+
+class SampleRing {
+  private readonly timestamps: Float64Array;
+  private readonly values: Float64Array;
+  private head = 0;
+  private size = 0;
+
+  constructor(capacity: number) {
+    this.timestamps = new Float64Array(capacity);
+    this.values = new Float64Array(capacity);
+  }
+
+  push(timestampMs: number, value: number): void {
+    const capacity = this.values.length;
+    const lastIndex = (this.head - 1 + capacity) % capacity;
+    // Same-timestamp writes (snapshot + patch in one tick) replace instead of stacking.
+    if (this.size > 0 && this.timestamps[lastIndex] === timestampMs) {
+      this.values[lastIndex] = value;
+      return;
+    }
+    this.timestamps[this.head] = timestampMs;
+    this.values[this.head] = value;
+    this.head = (this.head + 1) % capacity;
+    this.size = Math.min(this.size + 1, capacity);
+  }
+
+  latestTimestamp(): number | null {
+    if (this.size === 0) {
+      return null;
+    }
+    const capacity = this.values.length;
+    return this.timestamps[(this.head - 1 + capacity) % capacity];
+  }
+
+  /** Oldest-first samples with `timestampMs >= sinceMs`. */
+  collect(sinceMs: number): MetricSample[] {
+    const capacity = this.values.length;
+    const start = (this.head - this.size + capacity) % capacity;
+    const samples: MetricSample[] = [];
+    for (let i = 0; i < this.size; i++) {
+      const index = (start + i) % capacity;
+      if (this.timestamps[index] >= sinceMs) {
+        samples.push({ timestampMs: this.timestamps[index], value: this.values[index] });
+      }
+    }
+    return samples;
+  }
+}
+
+/**
+ * Bounded per-entity, per-metric time series. Each series is a fixed-size ring, so
+ * memory stays at `capacity` samples per metric regardless of session length.
+ */
+export class MetricHistory implements MetricHistoryReader {
+  private readonly capacity: number;
+  private readonly series = new Map<string, SampleRing>();
+
+  constructor(options: MetricHistoryOptions = {}) {
+    this.capacity = Math.max(2, Math.floor(options.capacity ?? 180));
+  }
+
+  /** Record every numeric metric present in `metrics`; absent ones are left untouched. */
+  record(
+    kind: HistoryEntityKind,
+    id: string,
+    metrics: Partial<MetricSnapshot>,
+    timestampMs: number
+  ): void {
+    for (const metric of HISTORY_METRIC_KEYS) {
+      const value = metrics[metric];
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        continue;
+      }
+      const key = seriesKey(kind, id, metric);
+      let ring = this.series.get(key);
+      if (!ring) {
+        ring = new SampleRing(this.capacity);
+        this.series.set(key, ring);
+      }
+      ring.push(timestampMs, value);
+    }
+  }
+
+  forget(kind: HistoryEntityKind, id: string): void {
+    for (const metric of HISTORY_METRIC_KEYS) {
+      this.series.delete(seriesKey(kind, id, metric));
+    }
+  }
+
+  clear(): void {
+    this.series.clear();
+  }
+
+  getSeries(
+    kind: HistoryEntityKind,
+    id: string,
+    metric: HistoryMetricKey,
+    query: MetricHistoryQuery = {}
+  ): MetricSample[] {
+    const ring = this.series.get(seriesKey(kind, id, metric));
+    if (!ring) {
+      return [];
+    }
+    if (query.windowMs === undefined) {
+      return ring.collect(Number.NEGATIVE_INFINITY);
+    }
+    const nowMs = query.nowMs ?? ring.latestTimestamp() ?? 0;
+    return ring.collect(nowMs - query.windowMs);
+  }
+
+  getStats(
+    kind: HistoryEntityKind,
+    id: string,
+    metric: HistoryMetricKey,
+    query: MetricHistoryQuery = {}
+  ): MetricWindowStats | null {
+    const samples = this.getSeries(kind, id, metric, query);
+    if (samples.length === 0) {
+      return null;
+    }
+
+    let min = Number.POSITIVE_INFINITY;
+    let max = Number.NEGATIVE_INFINITY;
+    let sum = 0;
+    const sorted = new Float64Array(samples.length);
+    samples.forEach((sample, index) => {
+      min = Math.min(min, sample.value);
+      max = Math.max(max, sample.value);
+      sum += sample.value;
+      sorted[index] = sample.value;
+    });
+    sorted.sort();
+
+    // Nearest-rank percentile.
+    const p95Index = Math.min(sorted.length - 1, Math.ceil(0.95 * sorted.length) - 1);
+    return {
+      count: samples.length,
+      min,
+      max,
+      avg: sum / samples.length,
+      p95: sorted[p95Index],
+      latest: samples[samples.length - 1].value
+    };
+  }
+}
+
+function seriesKey(kind: HistoryEntityKind, id: string, metric: HistoryMetricKey): string {
+  return `${kind}:${id}:${metric}`;
+}
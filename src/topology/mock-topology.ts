@@ -93,6 +93,19 @@ export async function loadMockTopologySnapshot(): Promise<TopologySnapshot> {
           packetLossPct: 0.4,
           utilizationPct: 55,
           throughputMbps: 190,
+          directions: {
+            aToB: { throughputMbps: 152, capacityMbps: 260, modulation: "256QAM 3/4" },
+            bToA: { throughputMbps: 38, capacityMbps: 90, modulation: "64QAM 2/3" }
+          },
+          rf: {
+            frequencyMhz: 5800,
+            channelWidthMhz: 40,
+            modulation: "256QAM 3/4",
+            capacityMbps: 350,
+            distanceMeters: 1660,
+            expectedSignalDbm: -58,
+            actualSignalDbm: -61
+          },
           updatedAtMs: now
         }
       },
@@ -0,0 +1,185 @@
+import type { InfraLink, InfraNode, PathMetric, TopologyPath, TopologySnapshot } from "../contracts/domain";
+
+export interface PathQueryOptions {
+  /** Route around links whose status is "down". Default true. */
+  avoidDownLinks?: boolean;
+}
+
+interface Adjacency {
+  nodeId: string;
+  link: InfraLink;
+}
+
+/**
+ * Shortest path over the undirected topology graph (Dijkstra). Links without a latency
+ * sample weigh 0 ms under the "latency" metric. Returns null when either endpoint is
+ * missing or no route exists.
+ */
+export function findTopologyPath(
+  nodes: Iterable<InfraNode>,
+  links: Iterable<InfraLink>,
+  fromNodeId: string,
+  toNodeId: string,
+  metric: PathMetric,
+  options: PathQueryOptions = {}
+): TopologyPath | null {
+  const avoidDownLinks = options.avoidDownLinks ?? true;
+  const adjacency = new Map<string, Adjacency[]>();
+  for (const node of nodes) {
+    adjacency.set(node.id, []);
+  }
+  if (!adjacency.has(fromNodeId) || !adjacency.has(toNodeId)) {
+    return null;
+  }
+  for (const link of links) {
+    if (avoidDownLinks && link.metrics.status === "down") {
+      continue;
+    }
+    adjacency.get(link.fromNodeId)?.push({ nodeId: link.toNodeId, link });
+    adjacency.get(link.toNodeId)?.push({ nodeId: link.fromNodeId, link });
+  }
+
+  const distance = new Map<string, number>([[fromNodeId, 0]]);
+  const previous = new Map<string, Adjacency>();
+  const settled = new Set<string>();
+  const queue = new MinQueue();
+  queue.push(fromNodeId, 0);
+
+  while (queue.size() > 0) {
+    const current = queue.pop()!;
+    if (settled.has(current)) {
+      continue;
+    }
+    settled.add(current);
+    if (current === toNodeId) {
+      break;
+    }
+
+    const base = distance.get(current)!;
+    for (const edge of adjacency.get(current) ?? []) {
+      const weight = metric === "hops" ? 1 : Math.max(0, edge.link.metrics.latencyMs ?? 0);
+      const candidate = base + weight;
+      if (candidate < (distance.get(edge.nodeId) ?? Number.POSITIVE_INFINITY)) {
+        distance.set(edge.nodeId, candidate);
+        previous.set(edge.nodeId, { nodeId: current, link: edge.link });
+        queue.push(edge.nodeId, candidate);
+      }
+    }
+  }
+
+  if (!settled.has(toNodeId)) {
+    return null;
+  }
+
+  const nodeIds = [toNodeId];
+  const pathLinks: InfraLink[] = [];
+  for (let step = previous.get(toNodeId); step; step = previous.get(step.nodeId)) {
+    nodeIds.push(step.nodeId);
+    pathLinks.push(step.link);
+  }
+  nodeIds.reverse();
+  pathLinks.reverse();
+
+  return summarizePath(fromNodeId, toNodeId, metric, nodeIds, pathLinks);
+}
+
+export function findSnapshotPath(
+  snapshot: TopologySnapshot,
+  fromNodeId: string,
+  toNodeId: string,
+  metric: PathMetric,
+  options?: PathQueryOptions
+): TopologyPath | null {
+  return findTopologyPath(snapshot.nodes, snapshot.links, fromNodeId, toNodeId, metric, options);
+}
+
+function summarizePath(
+  fromNodeId: string,
+  toNodeId: string,
+  metric: PathMetric,
+  nodeIds: string[],
+  links: InfraLink[]
+): TopologyPath {
+  let totalLatencyMs = 0;
+  let deliveryRatio = 1;
+  let bottleneck: InfraLink | null = null;
+  for (const link of links) {
+    totalLatencyMs += link.metrics.latencyMs ?? 0;
+    deliveryRatio *= 1 - Math.min(100, Math.max(0, link.metrics.packetLossPct ?? 0)) / 100;
+    if (!bottleneck || (link.metrics.utilizationPct ?? 0) > (bottleneck.metrics.utilizationPct ?? 0)) {
+      bottleneck = link;
+    }
+  }
+
+  return {
+    fromNodeId,
+    toNodeId,
+    metric,
+    nodeIds,
+    linkIds: links.map((link) => link.id),
+    totalLatencyMs,
+    lossPct: (1 - deliveryRatio) * 100,
+    bottleneckLinkId: bottleneck?.id ?? null,
+    bottleneckUtilizationPct: bottleneck?.metrics.utilizationPct ?? 0
+  };
+}
+
+/** Binary min-heap of node IDs; stale entries are skipped by the caller via `settled`. */
+class MinQueue {
+  private readonly ids: string[] = [];
+  private readonly priorities: number[] = [];
+
+  size(): number {
+    return this.ids.length;
+  }
+
+  push(id: string, priority: number): void {
+    this.ids.push(id);
+    this.priorities.push(priority);
+    let index = this.ids.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.priorities[parent] <= this.priorities[index]) {
+        break;
+      }
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  pop(): string | undefined {
+    if (this.ids.length === 0) {
+      return undefined;
+    }
+    const top = this.ids[0];
+    const lastId = this.ids.pop()!;
+    const lastPriority = this.priorities.pop()!;
+    if (this.ids.length > 0) {
+      this.ids[0] = lastId;
+      this.priorities[0] = lastPriority;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < this.ids.length && this.priorities[left] < this.priorities[smallest]) {
+          smallest = left;
+        }
+        if (right < this.ids.length && this.priorities[right] < this.priorities[smallest]) {
+          smallest = right;
+        }
+        if (smallest === index) {
+          break;
+        }
+        this.swap(index, smallest);
+        index = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.ids[a], this.ids[b]] = [this.ids[b], this.ids[a]];
+    [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+  }
+}
@@ -1,4 +1,11 @@
-import type { HealthState, TopologySnapshot } from "../contracts/domain";
+import type {
+  HealthState,
+  LinkDirectionMetrics,
+  MetricSnapshot,
+  NumericMetricKey,
+  StaleDataPresentation,
+  TopologySnapshot
+} from "../contracts/domain";
 
 export interface RenderNodeView {
   id: string;
@@ -12,6 +19,33 @@ export interface RenderNodeView {
   packetLossPct: number;
   rssi: number | null;
   snr: number | null;
+  /** Wall-clock time of the last metric report. */
+  lastSeenMs: number;
+  /** How the store asked for this entity to be shown once its data aged out; null while fresh. */
+  stale: StaleDataPresentation | null;
+  staleMetrics: NumericMetricKey[];
+}
+
+export interface RenderLinkDirectionView {
+  /** Own utilization, else throughput over capacity, else the link-wide utilization. */
+  utilizationPct: number;
+  throughputMbps: number | null;
+  capacityMbps: number | null;
+  modulation: string | null;
+}
+
+export interface RenderWirelessLinkView {
+  frequencyMhz: number | null;
+  channelWidthMhz: number | null;
+  modulation: string | null;
+  capacityMbps: number | null;
+  distanceMeters: number | null;
+  expectedSignalDbm: number | null;
+  /** Measured signal, falling back to the link's `rssi`. */
+  actualSignalDbm: number | null;
+  /** Actual minus expected signal; negative while the link underperforms its plan. */
+  signalMarginDb: number | null;
+  fresnelClearancePct: number | null;
 }
 
 export interface RenderLinkView {
@@ -24,11 +58,28 @@ export interface RenderLinkView {
   latencyMs: number;
   packetLossPct: number;
   beamColorHex: string;
+  /** Healthy color of the medium; the beam shader blends the health color in on the GPU. */
+  mediumColorHex: string;
   /** Base radius determined by medium type (used for geometry creation). */
   beamRadius: number;
-  /** Traffic-scaled radius (base × utilization factor). */
+  /** Traffic-scaled radius (base × utilization factor) of the A→B lane. */
   trafficRadius: number;
+  /** B→A lane radius; equals `trafficRadius` while only aggregate traffic is known. */
+  reverseTrafficRadius: number;
+  /** A→B pulse rate. */
   flowHz: number;
+  /** B→A pulse rate; 0 while only aggregate traffic is known, so A→B pulses stand for both. */
+  reverseFlowHz: number;
+  /** A→B pulses in flight, from throughput. */
+  pulseCount: number;
+  reversePulseCount: number;
+  /** Per-direction traffic; null when the link reports only aggregate metrics. */
+  directions: { aToB: RenderLinkDirectionView; bToA: RenderLinkDirectionView } | null;
+  /** Radio parameters of wireless links that report any; null otherwise. */
+  rf: RenderWirelessLinkView | null;
+  lastSeenMs: number;
+  stale: StaleDataPresentation | null;
+  staleMetrics: NumericMetricKey[];
 }
 
 export interface RenderGraphView {
@@ -44,38 +95,121 @@ export function selectRenderGraphView(snapshot: TopologySnapshot): RenderGraphVi
       label: node.label,
       type: node.type,
       layoutOffsetMeters: node.layoutOffsetMeters,
-      health: node.metrics.status,
+      health: selectHealth(node.metrics),
       throughputMbps: node.metrics.throughputMbps ?? 0,
       latencyMs: node.metrics.latencyMs ?? 0,
       packetLossPct: node.metrics.packetLossPct ?? 0,
       rssi: node.metrics.rssi ?? null,
-      snr: node.metrics.snr ?? null
+      snr: node.metrics.snr ?? null,
+      lastSeenMs: node.metrics.updatedAtMs,
+      stale: node.metrics.stale ?? null,
+      staleMetrics: node.metrics.staleMetrics ?? []
     })),
     links: snapshot.links.map((link) => {
       const baseRadius = selectBeamRadius(link.medium);
-      const utilPct = link.metrics.utilizationPct ?? 0;
+      const directions = selectLinkDirections(link.metrics);
+      const utilPct =
+        link.metrics.utilizationPct ??
+        (directions ? Math.max(directions.aToB.utilizationPct, directions.bToA.utilizationPct) : 0);
+      const throughputMbps = link.metrics.throughputMbps ?? 0;
+      const health = selectHealth(link.metrics);
+      const trafficRadius = selectTrafficRadius(baseRadius, directions?.aToB.utilizationPct ?? utilPct);
+      const pulseCount = selectPulseCount(directions?.aToB.throughputMbps ?? throughputMbps);
       return {
         id: link.id,
         fromNodeId: link.fromNodeId,
         toNodeId: link.toNodeId,
         medium: link.medium,
-        health: link.metrics.status,
+        health,
         utilizationPct: utilPct,
         latencyMs: link.metrics.latencyMs ?? 0,
         packetLossPct: link.metrics.packetLossPct ?? 0,
-        beamColorHex: selectLinkColor(link.medium, link.metrics.status),
+        beamColorHex: selectLinkColor(link.medium, health),
+        mediumColorHex: selectLinkColor(link.medium, "up"),
         beamRadius: baseRadius,
-        trafficRadius: selectTrafficRadius(baseRadius, utilPct),
-        flowHz: selectFlowFrequency(utilPct),
+        trafficRadius,
+        reverseTrafficRadius: directions
+          ? selectTrafficRadius(baseRadius, directions.bToA.utilizationPct)
+          : trafficRadius,
+        flowHz: selectFlowFrequency(directions?.aToB.utilizationPct ?? utilPct),
+        reverseFlowHz: directions ? selectFlowFrequency(directions.bToA.utilizationPct) : 0,
+        pulseCount,
+        reversePulseCount: directions
+          ? selectPulseCount(directions.bToA.throughputMbps ?? throughputMbps)
+          : pulseCount,
+        directions,
+        rf: link.medium === "wireless" ? selectWirelessLink(link.metrics) : null,
+        lastSeenMs: link.metrics.updatedAtMs,
+        stale: link.metrics.stale ?? null,
+        staleMetrics: link.metrics.staleMetrics ?? []
       };
     })
   };
 }
 
+/** A reported status is not trusted once the store marks the data stale as "unknown". */
+function selectHealth(metrics: MetricSnapshot): HealthState {
+  return metrics.stale === "unknown" ? "unknown" : metrics.status;
+}
+
+/** A direction missing from the report falls back to the link-wide metrics. */
+function selectLinkDirections(metrics: MetricSnapshot): RenderLinkView["directions"] {
+  const { aToB, bToA } = metrics.directions ?? {};
+  if (!aToB && !bToA) {
+    return null;
+  }
+  return {
+    aToB: selectLinkDirection(aToB, metrics.utilizationPct ?? 0),
+    bToA: selectLinkDirection(bToA, metrics.utilizationPct ?? 0)
+  };
+}
+
+function selectLinkDirection(
+  direction: LinkDirectionMetrics | undefined,
+  fallbackUtilizationPct: number
+): RenderLinkDirectionView {
+  const throughputMbps = direction?.throughputMbps ?? null;
+  const capacityMbps = direction?.capacityMbps ?? null;
+  let utilizationPct = direction?.utilizationPct;
+  if (utilizationPct === undefined && throughputMbps !== null && capacityMbps !== null && capacityMbps > 0) {
+    utilizationPct = Math.min(100, (throughputMbps / capacityMbps) * 100);
+  }
+  return {
+    utilizationPct: utilizationPct ?? fallbackUtilizationPct,
+    throughputMbps,
+    capacityMbps,
+    modulation: direction?.modulation ?? null
+  };
+}
+
+function selectWirelessLink(metrics: MetricSnapshot): RenderWirelessLinkView | null {
+  const rf = metrics.rf;
+  if (!rf) {
+    return null;
+  }
+  const expectedSignalDbm = rf.expectedSignalDbm ?? null;
+  const actualSignalDbm = rf.actualSignalDbm ?? metrics.rssi ?? null;
+  return {
+    frequencyMhz: rf.frequencyMhz ?? null,
+    channelWidthMhz: rf.channelWidthMhz ?? null,
+    modulation: rf.modulation ?? null,
+    capacityMbps: rf.capacityMbps ?? null,
+    distanceMeters: rf.distanceMeters ?? null,
+    expectedSignalDbm,
+    actualSignalDbm,
+    signalMarginDb:
+      expectedSignalDbm !== null && actualSignalDbm !== null ? actualSignalDbm - expectedSignalDbm : null,
+    fresnelClearancePct: rf.fresnelClearancePct ?? null
+  };
+}
+
 function selectLinkColor(medium: string, status: HealthState): string {
   if (status === "down") {
     return "#ff5b5b";
   }
+  if (status === "unknown") {
+    return "#8b96a0";
+  }
   if (status === "degraded") {
     if (medium === "fiber") {
       return "#7fd9ff";
@@ -126,3 +260,8 @@ function selectFlowFrequency(utilizationPct: number): number {
   // Idle: 0.08 Hz (~12s per cycle), full: 0.8 Hz (~1.25s per cycle)
   return 0.08 + (clamped / 100) * 0.72;
 }
+
+function selectPulseCount(throughputMbps: number): number {
+  // One pulse per started 100 Mbps, capped so busy backbone links stay legible.
+  return Math.max(1, Math.min(6, Math.ceil(throughputMbps / 100)));
+}
@@ -0,0 +1,226 @@
+import type {
+  LinkMetricUpdate,
+  NodeMetricUpdate,
+  TopologySnapshot
+} from "../contracts/domain";
+import { readTelemetryMessage } from "../telemetry/message-schema";
+import { validateTopologySnapshot } from "./validation";
+
+export interface RestTopologyLoaderOptions {
+  /** Endpoint returning a full `TopologySnapshot` JSON document. */
+  snapshotUrl: string;
+  /**
+   * Endpoint returning a `metrics` telemetry message (docs/telemetry-protocol.md).
+   * When omitted, polling re-fetches `snapshotUrl` and diffs metric timestamps.
+   */
+  metricsUrl?: string;
+  requestTimeoutMs?: number;
+  headers?: Record<string, string>;
+  fetchImpl?: typeof fetch;
+}
+
+export interface RestMetricDelta {
+  nodeMetrics: NodeMetricUpdate[];
+  linkMetrics: LinkMetricUpdate[];
+}
+
+export class TopologyHttpError extends Error {
+  readonly url: string;
+  readonly status: number | null;
+  readonly statusText: string;
+
+  constructor(url: string, status: number | null, statusText: string, message: string) {
+    super(message);
+    this.name = "TopologyHttpError";
+    this.url = url;
+    this.status = status;
+    this.statusText = statusText;
+  }
+}
+
+interface ConditionalResponse {
+  notModified: boolean;
+  body: unknown;
+}
+
+/**
+ * Loads topology snapshots and metric deltas over plain HTTP, for field use when
+ * only intermittent NMS access is available. Remembers each URL's ETag and sends
+ * `If-None-Match`, so unchanged payloads resolve to `null` without re-parsing.
+ */
+export class RestTopologyLoader {
+  private readonly snapshotUrl: string;
+  private readonly metricsUrl: string | null;
+  private readonly requestTimeoutMs: number;
+  private readonly headers: Record<string, string>;
+  private readonly fetchImpl: typeof fetch;
+  private readonly etags = new Map<string, string>();
+  private readonly lastUpdatedAt = new Map<string, number>();
+
+  constructor(options: RestTopologyLoaderOptions) {
+    this.snapshotUrl = options.snapshotUrl;
+    this.metricsUrl = options.metricsUrl ?? null;
+    this.requestTimeoutMs = options.requestTimeoutMs ?? 8000;
+    this.headers = options.headers ?? {};
+    this.fetchImpl = options.fetchImpl ?? ((input, init) => fetch(input, init));
+  }
+
+  getSnapshotUrl(): string {
+    return this.snapshotUrl;
+  }
+
+  getPollUrl(): string {
+    return this.metricsUrl ?? this.snapshotUrl;
+  }
+
+  /** Fetch the full snapshot. Resolves `null` when the server answers 304. */
+  async fetchSnapshot(): Promise<TopologySnapshot | null> {
+    const response = await this.request(this.snapshotUrl);
+    if (response.notModified) {
+      return null;
+    }
+
+    // The caller validates again to report issues; timestamps are remembered from the same
+    // normalized metrics that later polls diff against.
+    const snapshot = readSnapshot(response.body, this.snapshotUrl);
+    this.rememberMetricTimestamps(validateTopologySnapshot(snapshot).snapshot);
+    return snapshot;
+  }
+
+  /** Fetch metric changes since the last successful call. Resolves `null` when unchanged. */
+  async fetchMetricDelta(): Promise<RestMetricDelta | null> {
+    if (this.metricsUrl) {
+      const response = await this.request(this.metricsUrl);
+      if (response.notModified) {
+        return null;
+      }
+
+      const message = readTelemetryMessage(response.body);
+      if (message.type !== "metrics") {
+        return null;
+      }
+      return { nodeMetrics: message.nodeMetrics, linkMetrics: message.linkMetrics };
+    }
+
+    const response = await this.request(this.snapshotUrl);
+    if (response.notModified) {
+      return null;
+    }
+
+    // Polled snapshots get the same repairs as the initial load, so a node without metrics or
+    // a string/NaN/out-of-range value cannot reach the store.
+    const { snapshot } = validateTopologySnapshot(readSnapshot(response.body, this.snapshotUrl));
+    const nodeMetrics: NodeMetricUpdate[] = [];
+    const linkMetrics: LinkMetricUpdate[] = [];
+    for (const node of snapshot.nodes) {
+      if (this.hasNewerMetrics(`node:${node.id}`, node.metrics.updatedAtMs)) {
+        nodeMetrics.push({ nodeId: node.id, metrics: { ...node.metrics } });
+      }
+    }
+    for (const link of snapshot.links) {
+      if (this.hasNewerMetrics(`link:${link.id}`, link.metrics.updatedAtMs)) {
+        linkMetrics.push({ linkId: link.id, metrics: { ...link.metrics } });
+      }
+    }
+    return { nodeMetrics, linkMetrics };
+  }
+
+  private async request(url: string): Promise<ConditionalResponse> {
+    const headers: Record<string, string> = { Accept: "application/json", ...this.headers };
+    const etag = this.etags.get(url);
+    if (etag) {
+      headers["If-None-Match"] = etag;
+    }
+
+    const controller = new AbortController();
+    const timeoutId = window.setTimeout(() => controller.abort(), this.requestTimeoutMs);
+
+    let response: Response;
+    try {
+      response = await this.fetchImpl(url, {
+        headers,
+        cache: "no-cache",
+        signal: controller.signal
+      });
+    } catch (error) {
+      const reason = controller.signal.aborted
+        ? `timed out after ${this.requestTimeoutMs}ms`
+        : error instanceof Error
+          ? error.message
+          : String(error);
+      throw new TopologyHttpError(url, null, "", `Request to ${url} failed: ${reason}`);
+    } finally {
+      window.clearTimeout(timeoutId);
+    }
+
+    if (response.status === 304) {
+      return { notModified: true, body: null };
+    }
+
+    if (!response.ok) {
+      throw new TopologyHttpError(
+        url,
+        response.status,
+        response.statusText,
+        `GET ${url} returned HTTP ${response.status} ${response.statusText}`.trim()
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch {
+      throw new TopologyHttpError(
+        url,
+        response.status,
+        response.statusText,
+        `GET ${url} returned a body that is not valid JSON`
+      );
+    }
+
+    const nextEtag = response.headers.get("ETag");
+    if (nextEtag) {
+      this.etags.set(url, nextEtag);
+    } else {
+      this.etags.delete(url);
+    }
+
+    return { notModified: false, body };
+  }
+
+  private rememberMetricTimestamps(snapshot: TopologySnapshot): void {
+    this.lastUpdatedAt.clear();
+    for (const node of snapshot.nodes) {
+      this.lastUpdatedAt.set(`node:${node.id}`, node.metrics.updatedAtMs);
+    }
+    for (const link of snapshot.links) {
+      this.lastUpdatedAt.set(`link:${link.id}`, link.metrics.updatedAtMs);
+    }
+  }
+
+  private hasNewerMetrics(key: string, updatedAtMs: number): boolean {
+    const previous = this.lastUpdatedAt.get(key);
+    this.lastUpdatedAt.set(key, updatedAtMs);
+    return previous === undefined || updatedAtMs > previous;
+  }
+}
+
+function readSnapshot(body: unknown, url: string): TopologySnapshot {
+  if (typeof body !== "object" || body === null) {
+    throw new TopologyHttpError(url, 200, "OK", `Snapshot from ${url} is not a JSON object`);
+  }
+
+  const candidate = body as Partial<TopologySnapshot>;
+  if (!Array.isArray(candidate.nodes) || !Array.isArray(candidate.links)) {
+    throw new TopologyHttpError(url, 200, "OK", `Snapshot from ${url} is missing "nodes" or "links"`);
+  }
+
+  return {
+    nodes: candidate.nodes,
+    links: candidate.links,
+    generatedAtMs:
+      typeof candidate.generatedAtMs === "number" && Number.isFinite(candidate.generatedAtMs)
+        ? candidate.generatedAtMs
+        : Date.now()
+  };
+}
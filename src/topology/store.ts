@@ -1,31 +1,111 @@
 import type {
   InfraLink,
   InfraNode,
+  LinkDirectionalMetrics,
   LinkMetricUpdate,
+  MetricSnapshot,
   NodeMetricUpdate,
-  TopologySnapshot
+  NumericMetricKey,
+  PathMetric,
+  StaleDataPresentation,
+  TopologyPath,
+  TopologySnapshot,
+  TopologyStructuralChange
 } from "../contracts/domain";
+import {
+  HISTORY_METRIC_KEYS,
+  MetricHistory,
+  type MetricHistoryOptions,
+  type MetricHistoryReader
+} from "./metric-history";
+import { findTopologyPath, type PathQueryOptions } from "./path-query";
 
 export interface TopologyDeltaResult {
   changedNodeIds: string[];
   changedLinkIds: string[];
+  addedNodeIds: string[];
+  removedNodeIds: string[];
+  addedLinkIds: string[];
+  removedLinkIds: string[];
+  /** Updates that referenced IDs not present in the store. */
+  unknownNodeIds: string[];
+  unknownLinkIds: string[];
+  /** Structural changes that could not be applied, with the reason. */
+  rejected: Array<{ change: TopologyStructuralChange; reason: string }>;
   snapshot: TopologySnapshot;
 }
 
+/**
+ * When data counts as stale. Times are compared against `updatedAtMs` on the wall
+ * clock, so sources must stamp epoch milliseconds (the store does when they omit it).
+ */
+export interface StaleDataPolicy {
+  /** Age after which a whole entity is stale. 0 disables aging. */
+  ttlMs: number;
+  /** Per-metric TTLs; an older metric is listed in `staleMetrics` even if the entity is fresh. */
+  metricTtlMs?: Partial<Record<NumericMetricKey, number>>;
+  presentation: StaleDataPresentation;
+}
+
+export const DEFAULT_STALE_DATA_POLICY: StaleDataPolicy = {
+  ttlMs: 60_000,
+  presentation: "unknown"
+};
+
+export interface TopologyStoreOptions {
+  history?: MetricHistoryOptions;
+  staleData?: StaleDataPolicy;
+}
+
 export class TopologyStore {
   private nodes = new Map<string, InfraNode>();
   private links = new Map<string, InfraLink>();
   private generatedAtMs = 0;
+  private readonly history: MetricHistory;
+  private readonly stalePolicy: StaleDataPolicy;
+  // Wall-clock time each numeric metric was last reported, keyed by `node:<id>` / `link:<id>`.
+  private readonly metricSeenAt = new Map<string, Map<NumericMetricKey, number>>();
+
+  constructor(options: TopologyStoreOptions = {}) {
+    this.history = new MetricHistory(options.history);
+    this.stalePolicy = options.staleData ?? DEFAULT_STALE_DATA_POLICY;
+  }
 
-  loadSnapshot(snapshot: TopologySnapshot): TopologySnapshot {
+  /**
+   * Replaces the graph. History survives for entities that are still present, so a
+   * REST re-fetch does not wipe trends; `timestampMs` stamps the baseline samples.
+   */
+  loadSnapshot(snapshot: TopologySnapshot, timestampMs = performance.now()): TopologySnapshot {
+    const nextNodeIds = new Set(snapshot.nodes.map((node) => node.id));
+    const nextLinkIds = new Set(snapshot.links.map((link) => link.id));
+    for (const nodeId of this.nodes.keys()) {
+      if (!nextNodeIds.has(nodeId)) {
+        this.history.forget("node", nodeId);
+      }
+    }
+    for (const linkId of this.links.keys()) {
+      if (!nextLinkIds.has(linkId)) {
+        this.history.forget("link", linkId);
+      }
+    }
     this.nodes.clear();
     this.links.clear();
+    this.metricSeenAt.clear();
 
+    const nowMs = Date.now();
     for (const node of snapshot.nodes) {
-      this.nodes.set(node.id, structuredClone(node));
+      const stored = structuredClone(node);
+      this.nodes.set(node.id, stored);
+      this.history.record("node", node.id, node.metrics, timestampMs);
+      this.markSeen(`node:${node.id}`, node.metrics, node.metrics.updatedAtMs);
+      this.assessFreshness(`node:${node.id}`, stored.metrics, nowMs);
     }
     for (const link of snapshot.links) {
-      this.links.set(link.id, structuredClone(link));
+      const stored = structuredClone(link);
+      this.links.set(link.id, stored);
+      this.history.record("link", link.id, link.metrics, timestampMs);
+      this.markSeen(`link:${link.id}`, link.metrics, link.metrics.updatedAtMs);
+      this.assessFreshness(`link:${link.id}`, stored.metrics, nowMs);
     }
 
     this.generatedAtMs = snapshot.generatedAtMs;
@@ -37,44 +117,245 @@ export class TopologyStore {
     linkMetrics: LinkMetricUpdate[],
     timestampMs: number
   ): TopologyDeltaResult {
-    const changedNodeIds: string[] = [];
-    const changedLinkIds: string[] = [];
+    const result = createEmptyDelta();
+    const nowMs = Date.now();
 
     for (const patch of nodeMetrics) {
       const node = this.nodes.get(patch.nodeId);
       if (!node) {
+        result.unknownNodeIds.push(patch.nodeId);
         continue;
       }
 
       node.metrics = {
         ...node.metrics,
         ...patch.metrics,
-        updatedAtMs: patch.metrics.updatedAtMs ?? timestampMs
+        updatedAtMs: patch.metrics.updatedAtMs ?? nowMs
       };
-      changedNodeIds.push(node.id);
+      this.history.record("node", node.id, patch.metrics, timestampMs);
+      this.markSeen(`node:${node.id}`, patch.metrics, node.metrics.updatedAtMs);
+      this.assessFreshness(`node:${node.id}`, node.metrics, nowMs);
+      result.changedNodeIds.push(node.id);
     }
 
     for (const patch of linkMetrics) {
       const link = this.links.get(patch.linkId);
       if (!link) {
+        result.unknownLinkIds.push(patch.linkId);
         continue;
       }
 
+      const previousDirections = link.metrics.directions;
+      const previousRf = link.metrics.rf;
       link.metrics = {
         ...link.metrics,
         ...patch.metrics,
-        updatedAtMs: patch.metrics.updatedAtMs ?? timestampMs
+        updatedAtMs: patch.metrics.updatedAtMs ?? nowMs
       };
-      changedLinkIds.push(link.id);
+      if (patch.metrics.directions) {
+        link.metrics.directions = mergeLinkDirections(previousDirections, patch.metrics.directions);
+      }
+      if (patch.metrics.rf) {
+        link.metrics.rf = { ...previousRf, ...patch.metrics.rf };
+      }
+      this.history.record("link", link.id, patch.metrics, timestampMs);
+      this.markSeen(`link:${link.id}`, patch.metrics, link.metrics.updatedAtMs);
+      this.assessFreshness(`link:${link.id}`, link.metrics, nowMs);
+      result.changedLinkIds.push(link.id);
     }
 
     this.generatedAtMs = timestampMs;
+    result.snapshot = this.getSnapshot();
+    return result;
+  }
 
-    return {
-      changedNodeIds,
-      changedLinkIds,
-      snapshot: this.getSnapshot()
+  /**
+   * Applies add/remove/re-point edits in order. Each change is checked against the
+   * state left by the previous ones: links must reference existing nodes and marker
+   * IDs must stay unique, otherwise the change is rejected and the rest still apply.
+   */
+  applyStructuralChanges(
+    changes: TopologyStructuralChange[],
+    timestampMs: number
+  ): TopologyDeltaResult {
+    const result = createEmptyDelta();
+    const addedNodeIds = new Set<string>();
+    const addedLinkIds = new Set<string>();
+    const removedNodeIds = new Set<string>();
+    const removedLinkIds = new Set<string>();
+    const changedNodeIds = new Set<string>();
+    const changedLinkIds = new Set<string>();
+
+    const nowMs = Date.now();
+    const removeLink = (linkId: string): void => {
+      this.links.delete(linkId);
+      this.history.forget("link", linkId);
+      this.metricSeenAt.delete(`link:${linkId}`);
+      changedLinkIds.delete(linkId);
+      if (addedLinkIds.delete(linkId)) {
+        return;
+      }
+      removedLinkIds.add(linkId);
     };
+
+    for (const change of changes) {
+      const reject = (reason: string): void => {
+        result.rejected.push({ change, reason });
+      };
+
+      switch (change.kind) {
+        case "upsert-node": {
+          const owner = this.findMarkerOwner(change.node.markerId);
+          if (owner && owner !== change.node.id) {
+            reject(`marker ${change.node.markerId} is already bound to "${owner}"`);
+            break;
+          }
+          const isNew = !this.nodes.has(change.node.id);
+          const stored = structuredClone(change.node);
+          this.nodes.set(stored.id, stored);
+          this.history.record("node", stored.id, stored.metrics, timestampMs);
+          this.metricSeenAt.delete(`node:${stored.id}`);
+          this.markSeen(`node:${stored.id}`, stored.metrics, stored.metrics.updatedAtMs);
+          this.assessFreshness(`node:${stored.id}`, stored.metrics, nowMs);
+          if (isNew) {
+            if (removedNodeIds.delete(change.node.id)) {
+              changedNodeIds.add(change.node.id);
+            } else {
+              addedNodeIds.add(change.node.id);
+            }
+          } else if (!addedNodeIds.has(change.node.id)) {
+            changedNodeIds.add(change.node.id);
+          }
+          break;
+        }
+        case "patch-node": {
+          const node = this.nodes.get(change.nodeId);
+          if (!node) {
+            reject(`node "${change.nodeId}" does not exist`);
+            break;
+          }
+          if (change.markerId !== undefined) {
+            const owner = this.findMarkerOwner(change.markerId);
+            if (owner && owner !== node.id) {
+              reject(`marker ${change.markerId} is already bound to "${owner}"`);
+              break;
+            }
+            node.markerId = change.markerId;
+          }
+          if (change.label !== undefined) {
+            node.label = change.label;
+          }
+          if (change.type !== undefined) {
+            node.type = change.type;
+          }
+          if (change.layoutOffsetMeters === null) {
+            delete node.layoutOffsetMeters;
+          } else if (change.layoutOffsetMeters !== undefined) {
+            node.layoutOffsetMeters = { ...change.layoutOffsetMeters };
+          }
+          if (!addedNodeIds.has(node.id)) {
+            changedNodeIds.add(node.id);
+          }
+          break;
+        }
+        case "remove-node": {
+          if (!this.nodes.has(change.nodeId)) {
+            reject(`node "${change.nodeId}" does not exist`);
+            break;
+          }
+          for (const link of [...this.links.values()]) {
+            if (link.fromNodeId === change.nodeId || link.toNodeId === change.nodeId) {
+              removeLink(link.id);
+            }
+          }
+          this.nodes.delete(change.nodeId);
+          this.history.forget("node", change.nodeId);
+          this.metricSeenAt.delete(`node:${change.nodeId}`);
+          changedNodeIds.delete(change.nodeId);
+          if (!addedNodeIds.delete(change.nodeId)) {
+            removedNodeIds.add(change.nodeId);
+          }
+          break;
+        }
+        case "upsert-link": {
+          const { link } = change;
+          if (!this.nodes.has(link.fromNodeId) || !this.nodes.has(link.toNodeId)) {
+            reject(`link "${link.id}" references a missing node`);
+            break;
+          }
+          if (link.fromNodeId === link.toNodeId) {
+            reject(`link "${link.id}" connects a node to itself`);
+            break;
+          }
+          const isNew = !this.links.has(link.id);
+          const stored = structuredClone(link);
+          this.links.set(link.id, stored);
+          this.history.record("link", link.id, link.metrics, timestampMs);
+          this.metricSeenAt.delete(`link:${link.id}`);
+          this.markSeen(`link:${link.id}`, stored.metrics, stored.metrics.updatedAtMs);
+          this.assessFreshness(`link:${link.id}`, stored.metrics, nowMs);
+          if (isNew) {
+            if (removedLinkIds.delete(link.id)) {
+              changedLinkIds.add(link.id);
+            } else {
+              addedLinkIds.add(link.id);
+            }
+          } else if (!addedLinkIds.has(link.id)) {
+            changedLinkIds.add(link.id);
+          }
+          break;
+        }
+        case "remove-link": {
+          if (!this.links.has(change.linkId)) {
+            reject(`link "${change.linkId}" does not exist`);
+            break;
+          }
+          removeLink(change.linkId);
+          break;
+        }
+      }
+    }
+
+    this.generatedAtMs = timestampMs;
+    result.addedNodeIds = [...addedNodeIds];
+    result.removedNodeIds = [...removedNodeIds];
+    result.changedNodeIds = [...changedNodeIds];
+    result.addedLinkIds = [...addedLinkIds];
+    result.removedLinkIds = [...removedLinkIds];
+    result.changedLinkIds = [...changedLinkIds];
+    result.snapshot = this.getSnapshot();
+    return result;
+  }
+
+  /**
+   * Re-checks every entity against the stale-data policy. Entities that crossed a TTL
+   * in either direction are reported as changed; nothing else is touched.
+   */
+  evaluateStaleness(nowMs = Date.now()): TopologyDeltaResult {
+    const result = createEmptyDelta();
+    for (const node of this.nodes.values()) {
+      if (this.assessFreshness(`node:${node.id}`, node.metrics, nowMs)) {
+        result.changedNodeIds.push(node.id);
+      }
+    }
+    for (const link of this.links.values()) {
+      if (this.assessFreshness(`link:${link.id}`, link.metrics, nowMs)) {
+        result.changedLinkIds.push(link.id);
+      }
+    }
+    if (result.changedNodeIds.length > 0 || result.changedLinkIds.length > 0) {
+      result.snapshot = this.getSnapshot();
+    }
+    return result;
+  }
+
+  findPath(
+    fromNodeId: string,
+    toNodeId: string,
+    metric: PathMetric = "hops",
+    options?: PathQueryOptions
+  ): TopologyPath | null {
+    return findTopologyPath(this.nodes.values(), this.links.values(), fromNodeId, toNodeId, metric, options);
   }
 
   getSnapshot(): TopologySnapshot {
@@ -85,6 +366,10 @@ export class TopologyStore {
     };
   }
 
+  getHistory(): MetricHistoryReader {
+    return this.history;
+  }
+
   getNode(nodeId: string): InfraNode | null {
     const node = this.nodes.get(nodeId);
     return node ? structuredClone(node) : null;
@@ -95,4 +380,95 @@ export class TopologyStore {
       .filter((link) => link.fromNodeId === nodeId || link.toNodeId === nodeId)
       .map((link) => structuredClone(link));
   }
+
+  private markSeen(key: string, metrics: Partial<MetricSnapshot>, seenAtMs: number): void {
+    let seen = this.metricSeenAt.get(key);
+    if (!seen) {
+      seen = new Map();
+      this.metricSeenAt.set(key, seen);
+    }
+    for (const metric of HISTORY_METRIC_KEYS) {
+      if (metrics[metric] !== undefined) {
+        seen.set(metric, seenAtMs);
+      }
+    }
+  }
+
+  /** Writes `stale` / `staleMetrics` onto `metrics`; returns whether either changed. */
+  private assessFreshness(key: string, metrics: MetricSnapshot, nowMs: number): boolean {
+    const { ttlMs, metricTtlMs, presentation } = this.stalePolicy;
+    const stale = ttlMs > 0 && nowMs - metrics.updatedAtMs > ttlMs ? presentation : undefined;
+
+    const staleMetrics: NumericMetricKey[] = [];
+    const seen = this.metricSeenAt.get(key);
+    if (metricTtlMs && seen) {
+      for (const metric of HISTORY_METRIC_KEYS) {
+        const metricTtl = metricTtlMs[metric];
+        const seenAtMs = seen.get(metric);
+        if (metricTtl !== undefined && seenAtMs !== undefined && nowMs - seenAtMs > metricTtl) {
+          staleMetrics.push(metric);
+        }
+      }
+    }
+
+    const previousStaleMetrics = metrics.staleMetrics ?? [];
+    const changed =
+      metrics.stale !== stale ||
+      previousStaleMetrics.length !== staleMetrics.length ||
+      previousStaleMetrics.some((metric, index) => metric !== staleMetrics[index]);
+
+    if (stale) {
+      metrics.stale = stale;
+    } else {
+      delete metrics.stale;
+    }
+    if (staleMetrics.length > 0) {
+      metrics.staleMetrics = staleMetrics;
+    } else {
+      delete metrics.staleMetrics;
+    }
+    return changed;
+  }
+
+  private findMarkerOwner(markerId: number): string | null {
+    if (markerId < 0) {
+      return null;
+    }
+    for (const node of this.nodes.values()) {
+      if (node.markerId === markerId) {
+        return node.id;
+      }
+    }
+    return null;
+  }
+}
+
+/** Patches each direction field by field, like the aggregate metrics. */
+function mergeLinkDirections(
+  current: LinkDirectionalMetrics | undefined,
+  patch: LinkDirectionalMetrics
+): LinkDirectionalMetrics {
+  const merged: LinkDirectionalMetrics = { ...current };
+  if (patch.aToB) {
+    merged.aToB = { ...current?.aToB, ...patch.aToB };
+  }
+  if (patch.bToA) {
+    merged.bToA = { ...current?.bToA, ...patch.bToA };
+  }
+  return merged;
+}
+
+function createEmptyDelta(): TopologyDeltaResult {
+  return {
+    changedNodeIds: [],
+    changedLinkIds: [],
+    addedNodeIds: [],
+    removedNodeIds: [],
+    addedLinkIds: [],
+    removedLinkIds: [],
+    unknownNodeIds: [],
+    unknownLinkIds: [],
+    rejected: [],
+    snapshot: { nodes: [], links: [], generatedAtMs: 0 }
+  };
 }
@@ -89,7 +89,8 @@ export function generateStressTopology(options: StressTopologyOptions = {}): Top
         if (usedPairs.has(pairKey)) continue;
         usedPairs.add(pairKey);
 
-        const medium = link.name.toLowerCase().includes("wireless") ? "wireless" : "fiber";
+        // UISP only attaches RF parameters (e.g. a Line of Sight distance) to radio links.
+        const medium = link.name.toLowerCase().includes("wireless") || link.rf ? "wireless" : "fiber";
         const status = HEALTH_STATES[Math.floor(Math.random() * HEALTH_STATES.length)];
 
         links.push({
@@ -103,6 +104,7 @@ export function generateStressTopology(options: StressTopologyOptions = {}): Top
             packetLossPct: randFloat(0, 8),
             utilizationPct: randFloat(5, 98),
             throughputMbps: randFloat(10, 1200),
+            ...(link.rf ? { rf: link.rf } : {}),
             updatedAtMs: now,
           },
         });
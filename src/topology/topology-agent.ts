@@ -1,61 +1,326 @@
+import type { TopologySnapshot } from "../contracts/domain";
+import type { AppEventMap, PathQueryEvent } from "../contracts/events";
 import type { IntegrationContext, TopologyAgent } from "../contracts/integration";
+import { AlertRuleEngine, type AlertRule } from "./alert-rules";
 import { loadMockTopologySnapshot } from "./mock-topology";
-import { TopologyStore } from "./store";
+import { findSnapshotPath } from "./path-query";
+import { RestTopologyLoader, TopologyHttpError, type RestTopologyLoaderOptions } from "./rest-loader";
+import { TopologyStore, type TopologyDeltaResult } from "./store";
+import { TopologyValidationError, validateTopologySnapshot } from "./validation";
 
 export interface TopologyAgentOptions {
   store?: TopologyStore;
+  /** Load the snapshot over HTTP instead of the bundled mock topology. */
+  rest?: RestTopologyLoaderOptions & {
+    /** Metric poll period while no live WebSocket is open. 0 disables polling. */
+    pollIntervalMs?: number;
+  };
+  /** How often entities are re-checked against the store's stale-data policy. 0 disables. */
+  staleCheckIntervalMs?: number;
+  /** Rules evaluated on every store change; defaults to `DEFAULT_ALERT_RULES`. */
+  alertRules?: readonly AlertRule[];
+  /** Re-evaluation period so `forMs` windows elapse without new data. 0 disables. */
+  alertCheckIntervalMs?: number;
 }
 
 export function createTopologyAgent(options: TopologyAgentOptions = {}): TopologyAgent {
   const store = options.store ?? new TopologyStore();
+  const restLoader = options.rest ? new RestTopologyLoader(options.rest) : null;
+  const pollIntervalMs = options.rest?.pollIntervalMs ?? 5000;
+  const staleCheckIntervalMs = options.staleCheckIntervalMs ?? 1000;
+  const alertCheckIntervalMs = options.alertCheckIntervalMs ?? 1000;
+  const alertEngine = new AlertRuleEngine(options.alertRules);
   let unsubscribeTelemetry: (() => void) | null = null;
+  let unsubscribeStructure: (() => void) | null = null;
+  let unsubscribeReplace: (() => void) | null = null;
+  let unsubscribeTelemetryStatus: (() => void) | null = null;
+  let unsubscribeSnapshot: (() => void) | null = null;
+  let unsubscribePathQuery: (() => void) | null = null;
+  let pollTimerId: number | null = null;
+  let staleTimerId: number | null = null;
+  let alertTimerId: number | null = null;
+  let pollInFlight = false;
+  let snapshotLoaded = false;
+  let liveSocketOpen = false;
+  // The stress demo publishes snapshots that bypass the store; stale checks must not paint over
+  // them, and path queries run against whatever is on screen.
+  let lastEmittedSnapshot: TopologySnapshot | null = null;
+  let sceneSnapshot: TopologySnapshot | null = null;
+  let sceneFromStore = false;
+  let pathQuery: PathQueryEvent | null = null;
+  // Unknown IDs are reported once each; a feed that lags a structural edit would otherwise flood app/error.
+  const reportedUnknownIds = new Set<string>();
+
+  const emitLoadFailure = (context: IntegrationContext, prefix: string, error: unknown): void => {
+    const message = error instanceof Error ? error.message : String(error);
+    context.events.emit("app/error", {
+      code: "TOPOLOGY_LOAD_FAILED",
+      source: "topology",
+      message: `${prefix}: ${message}`,
+      recoverable: true,
+      timestampMs: performance.now(),
+      details: error instanceof TopologyHttpError
+        ? { url: error.url, status: error.status, statusText: error.statusText }
+        : error instanceof TopologyValidationError
+          ? { issues: error.issues }
+          : undefined
+    });
+  };
+
+  const evaluateAlerts = (context: IntegrationContext, snapshot: TopologySnapshot): void => {
+    for (const transition of alertEngine.evaluate(snapshot)) {
+      context.events.emit(transition.kind === "raised" ? "alert/raised" : "alert/cleared", {
+        ...transition.alert,
+        timestampMs: performance.now()
+      });
+    }
+  };
+
+  const emitPath = (context: IntegrationContext): void => {
+    if (!pathQuery) {
+      return;
+    }
+    const { fromNodeId, toNodeId, metric } = pathQuery;
+    const path = !fromNodeId || !toNodeId
+      ? null
+      : sceneFromStore || !sceneSnapshot
+        ? store.findPath(fromNodeId, toNodeId, metric)
+        : findSnapshotPath(sceneSnapshot, fromNodeId, toNodeId, metric);
+    context.events.emit("topology/path", {
+      fromNodeId,
+      toNodeId,
+      metric,
+      path,
+      timestampMs: performance.now()
+    });
+  };
+
+  const emitDelta = (context: IntegrationContext, result: TopologyDeltaResult, timestampMs: number): void => {
+    const structural =
+      result.addedNodeIds.length + result.removedNodeIds.length +
+      result.addedLinkIds.length + result.removedLinkIds.length;
+    if (structural === 0 && result.changedNodeIds.length === 0 && result.changedLinkIds.length === 0) {
+      return;
+    }
+
+    context.events.emit("topology/delta", {
+      changedNodeIds: result.changedNodeIds,
+      changedLinkIds: result.changedLinkIds,
+      addedNodeIds: result.addedNodeIds,
+      removedNodeIds: result.removedNodeIds,
+      addedLinkIds: result.addedLinkIds,
+      removedLinkIds: result.removedLinkIds,
+      timestampMs
+    });
+
+    lastEmittedSnapshot = result.snapshot;
+    context.events.emit("topology/snapshot", {
+      snapshot: result.snapshot,
+      timestampMs
+    });
+    evaluateAlerts(context, result.snapshot);
+    // Re-trace so the path follows reroutes and its summary shows current metrics.
+    emitPath(context);
+  };
+
+  const reportUnknownIds = (context: IntegrationContext, result: TopologyDeltaResult): void => {
+    const nodeIds = result.unknownNodeIds.filter((id) => !reportedUnknownIds.has(`node:${id}`));
+    const linkIds = result.unknownLinkIds.filter((id) => !reportedUnknownIds.has(`link:${id}`));
+    if (nodeIds.length === 0 && linkIds.length === 0) {
+      return;
+    }
+    nodeIds.forEach((id) => reportedUnknownIds.add(`node:${id}`));
+    linkIds.forEach((id) => reportedUnknownIds.add(`link:${id}`));
+
+    context.events.emit("app/error", {
+      code: "TOPOLOGY_DELTA_REJECTED",
+      source: "topology",
+      message: `Metric update referenced ${nodeIds.length + linkIds.length} unknown topology ID(s)`,
+      recoverable: true,
+      timestampMs: performance.now(),
+      details: { unknownNodeIds: nodeIds, unknownLinkIds: linkIds }
+    });
+  };
+
+  const applySnapshot = (context: IntegrationContext, snapshot: unknown): void => {
+    const validation = validateTopologySnapshot(snapshot);
+    context.events.emit("topology/validation", {
+      issues: validation.issues,
+      errorCount: validation.errorCount,
+      warningCount: validation.warningCount,
+      timestampMs: performance.now()
+    });
+    const loaded = store.loadSnapshot(validation.snapshot);
+    snapshotLoaded = true;
+    reportedUnknownIds.clear();
+
+    lastEmittedSnapshot = loaded;
+    context.events.emit("topology/snapshot", {
+      snapshot: loaded,
+      timestampMs: loaded.generatedAtMs
+    });
+    // Alerts on a freshly loaded snapshot wait for the next periodic check, so agents and
+    // UI that subscribe after the initial load still see them raised.
+    emitPath(context);
+  };
+
+  const loadSnapshot = async (context: IntegrationContext): Promise<void> => {
+    try {
+      const snapshot = restLoader
+        ? await restLoader.fetchSnapshot()
+        : await loadMockTopologySnapshot();
+      if (!snapshot) {
+        return;
+      }
+      applySnapshot(context, snapshot);
+    } catch (error) {
+      emitLoadFailure(context, "Failed to load topology snapshot", error);
+    }
+  };
+
+  const pollMetrics = async (context: IntegrationContext, loader: RestTopologyLoader): Promise<void> => {
+    if (pollInFlight || liveSocketOpen) {
+      return;
+    }
+
+    pollInFlight = true;
+    try {
+      if (!snapshotLoaded) {
+        // Initial load failed (field crews lose HTTP access); keep retrying the full snapshot.
+        await loadSnapshot(context);
+        return;
+      }
+
+      const delta = await loader.fetchMetricDelta();
+      if (!delta || (delta.nodeMetrics.length === 0 && delta.linkMetrics.length === 0)) {
+        return;
+      }
+
+      const update: AppEventMap["telemetry/update"] = {
+        source: "rest",
+        changedNodeIds: delta.nodeMetrics.map((metric) => metric.nodeId),
+        changedLinkIds: delta.linkMetrics.map((metric) => metric.linkId),
+        nodeMetrics: delta.nodeMetrics,
+        linkMetrics: delta.linkMetrics,
+        timestampMs: performance.now()
+      };
+      context.events.emit("telemetry/update", update);
+    } catch (error) {
+      emitLoadFailure(context, "Metric poll failed", error);
+    } finally {
+      pollInFlight = false;
+    }
+  };
 
   return {
     async init(context: IntegrationContext): Promise<void> {
-      try {
-        const snapshot = await loadMockTopologySnapshot();
-        const loaded = store.loadSnapshot(snapshot);
+      unsubscribeTelemetry = context.events.on("telemetry/update", (update) => {
+        const result = store.applyMetricUpdates(
+          update.nodeMetrics,
+          update.linkMetrics,
+          update.timestampMs
+        );
+        reportUnknownIds(context, result);
+        emitDelta(context, result, update.timestampMs);
+      });
 
-        context.events.emit("topology/snapshot", {
-          snapshot: loaded,
-          timestampMs: loaded.generatedAtMs
-        });
+      unsubscribeStructure = context.events.on("topology/structure", (event) => {
+        const result = store.applyStructuralChanges(event.changes, event.timestampMs);
+        reportedUnknownIds.clear();
+        if (result.rejected.length > 0) {
+          context.events.emit("app/error", {
+            code: "TOPOLOGY_DELTA_REJECTED",
+            source: "topology",
+            message: `Rejected ${result.rejected.length} of ${event.changes.length} structural change(s) from ${event.source}: ${result.rejected[0].reason}`,
+            recoverable: true,
+            timestampMs: performance.now(),
+            details: { source: event.source, rejected: result.rejected }
+          });
+        }
+        emitDelta(context, result, event.timestampMs);
+      });
+
+      unsubscribeReplace = context.events.on("topology/replace", (event) => {
+        try {
+          applySnapshot(context, event.snapshot);
+        } catch (error) {
+          emitLoadFailure(context, `Failed to load ${event.source} snapshot`, error);
+        }
+      });
+
+      await loadSnapshot(context);
+
+      unsubscribeSnapshot = context.events.on("topology/snapshot", (payload) => {
+        sceneSnapshot = payload.snapshot;
+        sceneFromStore = payload.snapshot === lastEmittedSnapshot;
+      });
 
-        unsubscribeTelemetry = context.events.on("telemetry/update", (update) => {
-          const result = store.applyMetricUpdates(
-            update.nodeMetrics,
-            update.linkMetrics,
-            update.timestampMs
-          );
+      unsubscribePathQuery = context.events.on("interaction/path-query", (query) => {
+        pathQuery = query;
+        emitPath(context);
+        if (!query.fromNodeId || !query.toNodeId) {
+          pathQuery = null;
+        }
+      });
 
-          if (result.changedNodeIds.length === 0 && result.changedLinkIds.length === 0) {
-            return;
+      if (staleCheckIntervalMs > 0) {
+        staleTimerId = window.setInterval(() => {
+          const result = store.evaluateStaleness();
+          if (sceneFromStore) {
+            emitDelta(context, result, performance.now());
           }
+        }, staleCheckIntervalMs);
+      }
 
-          context.events.emit("topology/delta", {
-            changedNodeIds: result.changedNodeIds,
-            changedLinkIds: result.changedLinkIds,
-            timestampMs: update.timestampMs
-          });
+      if (alertCheckIntervalMs > 0) {
+        alertTimerId = window.setInterval(() => {
+          evaluateAlerts(context, store.getSnapshot());
+        }, alertCheckIntervalMs);
+      }
 
-          context.events.emit("topology/snapshot", {
-            snapshot: result.snapshot,
-            timestampMs: update.timestampMs
-          });
-        });
-      } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        context.events.emit("app/error", {
-          code: "TOPOLOGY_LOAD_FAILED",
-          source: "topology",
-          message: `Failed to load topology snapshot: ${message}`,
-          recoverable: true,
-          timestampMs: performance.now()
+      if (restLoader && pollIntervalMs > 0) {
+        unsubscribeTelemetryStatus = context.events.on("telemetry/status", (status) => {
+          liveSocketOpen = status.source === "ws" && status.connectionState === "open";
         });
+        pollTimerId = window.setInterval(() => {
+          void pollMetrics(context, restLoader);
+        }, pollIntervalMs);
       }
     },
 
     async dispose(): Promise<void> {
+      if (staleTimerId !== null) {
+        window.clearInterval(staleTimerId);
+        staleTimerId = null;
+      }
+      if (alertTimerId !== null) {
+        window.clearInterval(alertTimerId);
+        alertTimerId = null;
+      }
+      if (unsubscribeSnapshot) {
+        unsubscribeSnapshot();
+        unsubscribeSnapshot = null;
+      }
+      if (unsubscribePathQuery) {
+        unsubscribePathQuery();
+        unsubscribePathQuery = null;
+      }
+      if (pollTimerId !== null) {
+        window.clearInterval(pollTimerId);
+        pollTimerId = null;
+      }
+      if (unsubscribeTelemetryStatus) {
+        unsubscribeTelemetryStatus();
+        unsubscribeTelemetryStatus = null;
+      }
+      if (unsubscribeReplace) {
+        unsubscribeReplace();
+        unsubscribeReplace = null;
+      }
+      if (unsubscribeStructure) {
+        unsubscribeStructure();
+        unsubscribeStructure = null;
+      }
       if (unsubscribeTelemetry) {
         unsubscribeTelemetry();
         unsubscribeTelemetry = null;
@@ -0,0 +1,733 @@
+import type {
+  HealthState,
+  InfraLink,
+  InfraNode,
+  LinkDirectionMetrics,
+  LinkDirectionalMetrics,
+  LinkMedium,
+  MetricSnapshot,
+  NodeType,
+  NumericMetricKey,
+  TopologySnapshot,
+  TopologyStructuralChange,
+  Vector3Like,
+  WirelessLinkMetrics
+} from "../contracts/domain";
+import type { TopologyValidationIssue } from "../contracts/events";
+
+export interface TopologyValidationResult {
+  /** Normalized snapshot with every safe repair applied and unusable entities dropped. */
+  snapshot: TopologySnapshot;
+  issues: TopologyValidationIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+export class TopologyValidationError extends Error {
+  readonly issues: TopologyValidationIssue[];
+
+  constructor(message: string, issues: TopologyValidationIssue[]) {
+    super(message);
+    this.name = "TopologyValidationError";
+    this.issues = issues;
+  }
+}
+
+/** Marker ID given to nodes whose marker collided or was unusable; never matches a detection. */
+export const UNASSIGNED_MARKER_ID = -1;
+
+const NODE_TYPES: ReadonlySet<string> = new Set<NodeType>([
+  "tower",
+  "backhaul",
+  "router",
+  "switch",
+  "client",
+  "unknown"
+]);
+const LINK_MEDIA: ReadonlySet<string> = new Set<LinkMedium>(["wired", "wireless", "fiber", "unknown"]);
+const HEALTH_STATES: ReadonlySet<string> = new Set<HealthState>(["up", "degraded", "down", "unknown"]);
+
+const METRIC_RANGES: Record<NumericMetricKey, { min: number; max: number }> = {
+  rssi: { min: -130, max: 0 },
+  snr: { min: -20, max: 90 },
+  throughputMbps: { min: 0, max: 100_000 },
+  latencyMs: { min: 0, max: 60_000 },
+  packetLossPct: { min: 0, max: 100 },
+  utilizationPct: { min: 0, max: 100 }
+};
+
+const DIRECTION_METRIC_RANGES = {
+  throughputMbps: METRIC_RANGES.throughputMbps,
+  capacityMbps: METRIC_RANGES.throughputMbps,
+  utilizationPct: METRIC_RANGES.utilizationPct
+} satisfies Partial<Record<keyof LinkDirectionMetrics, { min: number; max: number }>>;
+
+const RF_METRIC_RANGES = {
+  frequencyMhz: { min: 1, max: 300_000 },
+  channelWidthMhz: { min: 0, max: 2_160 },
+  capacityMbps: METRIC_RANGES.throughputMbps,
+  distanceMeters: { min: 0, max: 1_000_000 },
+  expectedSignalDbm: METRIC_RANGES.rssi,
+  actualSignalDbm: METRIC_RANGES.rssi,
+  fresnelClearancePct: { min: 0, max: 100 }
+} satisfies Partial<Record<keyof WirelessLinkMetrics, { min: number; max: number }>>;
+
+/**
+ * Checks an untrusted snapshot before it reaches `TopologyStore.loadSnapshot`.
+ *
+ * Repairs applied in place: numeric strings are coerced, NaN/non-numeric metrics are
+ * removed, out-of-range metrics are clamped, unknown enums fall back to "unknown",
+ * and later nodes sharing a `markerId` lose their marker. Links with missing or
+ * dangling endpoints and entities without an ID are dropped.
+ *
+ * Throws `TopologyValidationError` only when the input is not a snapshot at all.
+ */
+export function validateTopologySnapshot(input: unknown): TopologyValidationResult {
+  const issues: TopologyValidationIssue[] = [];
+
+  if (!isRecord(input) || !Array.isArray(input.nodes) || !Array.isArray(input.links)) {
+    const issue: TopologyValidationIssue = {
+      code: "invalid-snapshot",
+      severity: "error",
+      entityKind: "snapshot",
+      entityId: null,
+      message: "Snapshot must be an object with \"nodes\" and \"links\" arrays.",
+      resolution: "none"
+    };
+    throw new TopologyValidationError(issue.message, [issue]);
+  }
+
+  const rawGeneratedAtMs = readFiniteNumber(input.generatedAtMs);
+  const generatedAtMs = rawGeneratedAtMs ?? Date.now();
+  if (rawGeneratedAtMs === null) {
+    issues.push({
+      code: "missing-field",
+      severity: "warning",
+      entityKind: "snapshot",
+      entityId: null,
+      field: "generatedAtMs",
+      message: "Snapshot has no numeric generatedAtMs; using the current time.",
+      resolution: "repaired"
+    });
+  }
+
+  const nodes = normalizeNodes(input.nodes, generatedAtMs, issues);
+  const nodeIds = new Set(nodes.map((node) => node.id));
+  const links = normalizeLinks(input.links, nodeIds, generatedAtMs, issues);
+
+  let errorCount = 0;
+  for (const issue of issues) {
+    if (issue.severity === "error") {
+      errorCount++;
+    }
+  }
+
+  return {
+    snapshot: { nodes, links, generatedAtMs },
+    issues,
+    errorCount,
+    warningCount: issues.length - errorCount
+  };
+}
+
+export interface TopologyStructuralValidationResult {
+  changes: TopologyStructuralChange[];
+  issues: TopologyValidationIssue[];
+  errorCount: number;
+}
+
+/**
+ * Normalizes an untrusted list of structural changes with the same repairs as
+ * `validateTopologySnapshot`. Link endpoints are not resolved here because they may
+ * refer to nodes added earlier in the same batch; `TopologyStore` rejects dangling ones.
+ */
+export function validateStructuralChanges(
+  input: unknown,
+  timestampMs: number
+): TopologyStructuralValidationResult {
+  if (!Array.isArray(input)) {
+    const issue: TopologyValidationIssue = {
+      code: "invalid-snapshot",
+      severity: "error",
+      entityKind: "snapshot",
+      entityId: null,
+      field: "changes",
+      message: "Structural delta must carry a \"changes\" array.",
+      resolution: "none"
+    };
+    throw new TopologyValidationError(issue.message, [issue]);
+  }
+
+  const issues: TopologyValidationIssue[] = [];
+  const changes: TopologyStructuralChange[] = [];
+
+  input.forEach((raw, index) => {
+    const kind = isRecord(raw) ? raw.kind : undefined;
+    const reject = (entityKind: "node" | "link", message: string): void => {
+      issues.push({
+        code: "missing-field",
+        severity: "error",
+        entityKind,
+        entityId: null,
+        message: `changes[${index}] ${message}; change dropped.`,
+        resolution: "dropped"
+      });
+    };
+
+    if (!isRecord(raw)) {
+      reject("node", "is not an object");
+      return;
+    }
+
+    switch (kind) {
+      case "upsert-node": {
+        const [node] = normalizeNodes([raw.node], timestampMs, issues);
+        if (node) {
+          changes.push({ kind, node });
+        }
+        return;
+      }
+      case "upsert-link": {
+        const [link] = normalizeLinks([raw.link], null, timestampMs, issues);
+        if (link) {
+          changes.push({ kind, link });
+        }
+        return;
+      }
+      case "remove-node":
+        if (typeof raw.nodeId !== "string" || raw.nodeId.length === 0) {
+          reject("node", "has no string nodeId");
+          return;
+        }
+        changes.push({ kind, nodeId: raw.nodeId });
+        return;
+      case "remove-link":
+        if (typeof raw.linkId !== "string" || raw.linkId.length === 0) {
+          reject("link", "has no string linkId");
+          return;
+        }
+        changes.push({ kind, linkId: raw.linkId });
+        return;
+      case "patch-node": {
+        if (typeof raw.nodeId !== "string" || raw.nodeId.length === 0) {
+          reject("node", "has no string nodeId");
+          return;
+        }
+        const patch: Extract<TopologyStructuralChange, { kind: "patch-node" }> = {
+          kind,
+          nodeId: raw.nodeId
+        };
+        const invalidField = (field: string): void => {
+          issues.push({
+            code: "invalid-field",
+            severity: "warning",
+            entityKind: "node",
+            entityId: patch.nodeId,
+            field,
+            message: `Patch for node "${patch.nodeId}" has an invalid ${field}; field ignored.`,
+            resolution: "repaired"
+          });
+        };
+
+        if (raw.label !== undefined) {
+          if (typeof raw.label === "string" && raw.label.length > 0) {
+            patch.label = raw.label;
+          } else {
+            invalidField("label");
+          }
+        }
+        if (raw.type !== undefined) {
+          if (typeof raw.type === "string" && NODE_TYPES.has(raw.type)) {
+            patch.type = raw.type as NodeType;
+          } else {
+            invalidField("type");
+          }
+        }
+        if (raw.markerId !== undefined) {
+          const markerId = coerceNumber(raw.markerId);
+          if (markerId !== null && Number.isInteger(markerId) && markerId >= UNASSIGNED_MARKER_ID) {
+            patch.markerId = markerId;
+          } else {
+            invalidField("markerId");
+          }
+        }
+        if (raw.layoutOffsetMeters === null) {
+          patch.layoutOffsetMeters = null;
+        } else if (raw.layoutOffsetMeters !== undefined) {
+          const offset = readVector3(raw.layoutOffsetMeters);
+          if (offset) {
+            patch.layoutOffsetMeters = offset;
+          } else {
+            invalidField("layoutOffsetMeters");
+          }
+        }
+        changes.push(patch);
+        return;
+      }
+      default:
+        reject("node", `has unknown kind "${String(kind)}"`);
+    }
+  });
+
+  return {
+    changes,
+    issues,
+    errorCount: issues.filter((issue) => issue.severity === "error").length
+  };
+}
+
+function normalizeNodes(
+  rawNodes: unknown[],
+  fallbackUpdatedAtMs: number,
+  issues: TopologyValidationIssue[]
+): InfraNode[] {
+  const nodes: InfraNode[] = [];
+  const seenIds = new Set<string>();
+  const markerOwners = new Map<number, string>();
+
+  rawNodes.forEach((raw, index) => {
+    if (!isRecord(raw) || typeof raw.id !== "string" || raw.id.length === 0) {
+      issues.push({
+        code: "missing-field",
+        severity: "error",
+        entityKind: "node",
+        entityId: null,
+        field: "id",
+        message: `nodes[${index}] has no string id and was dropped.`,
+        resolution: "dropped"
+      });
+      return;
+    }
+
+    const id = raw.id;
+    if (seenIds.has(id)) {
+      issues.push({
+        code: "duplicate-node-id",
+        severity: "error",
+        entityKind: "node",
+        entityId: id,
+        field: "id",
+        message: `Node "${id}" is defined more than once; later copies were dropped.`,
+        resolution: "dropped"
+      });
+      return;
+    }
+    seenIds.add(id);
+
+    let type = raw.type;
+    if (typeof type !== "string" || !NODE_TYPES.has(type)) {
+      issues.push({
+        code: "unknown-node-type",
+        severity: "warning",
+        entityKind: "node",
+        entityId: id,
+        field: "type",
+        message: `Node "${id}" has unknown type "${String(type)}"; treated as "unknown".`,
+        resolution: "repaired"
+      });
+      type = "unknown";
+    }
+
+    let markerId = coerceNumber(raw.markerId);
+    if (markerId === null || !Number.isInteger(markerId) || markerId < 0) {
+      issues.push({
+        code: "invalid-field",
+        severity: "warning",
+        entityKind: "node",
+        entityId: id,
+        field: "markerId",
+        message: `Node "${id}" has invalid markerId "${String(raw.markerId)}"; it will not anchor to a marker.`,
+        resolution: "repaired"
+      });
+      markerId = UNASSIGNED_MARKER_ID;
+    } else {
+      const owner = markerOwners.get(markerId);
+      if (owner !== undefined) {
+        issues.push({
+          code: "duplicate-marker-id",
+          severity: "error",
+          entityKind: "node",
+          entityId: id,
+          field: "markerId",
+          message: `Marker ${markerId} is already bound to "${owner}"; "${id}" was unassigned.`,
+          resolution: "repaired"
+        });
+        markerId = UNASSIGNED_MARKER_ID;
+      } else {
+        markerOwners.set(markerId, id);
+      }
+    }
+
+    const node: InfraNode = {
+      id,
+      markerId,
+      type: type as NodeType,
+      label: typeof raw.label === "string" && raw.label.length > 0 ? raw.label : id,
+      metrics: normalizeMetrics(raw.metrics, "node", id, fallbackUpdatedAtMs, issues)
+    };
+
+    if (raw.layoutOffsetMeters !== undefined) {
+      const offset = readVector3(raw.layoutOffsetMeters);
+      if (offset) {
+        node.layoutOffsetMeters = offset;
+      } else {
+        issues.push({
+          code: "invalid-field",
+          severity: "warning",
+          entityKind: "node",
+          entityId: id,
+          field: "layoutOffsetMeters",
+          message: `Node "${id}" has a malformed layoutOffsetMeters; it was removed.`,
+          resolution: "repaired"
+        });
+      }
+    }
+
+    nodes.push(node);
+  });
+
+  return nodes;
+}
+
+function normalizeLinks(
+  rawLinks: unknown[],
+  /** `null` only checks that endpoints are non-empty strings. */
+  nodeIds: ReadonlySet<string> | null,
+  fallbackUpdatedAtMs: number,
+  issues: TopologyValidationIssue[]
+): InfraLink[] {
+  const links: InfraLink[] = [];
+  const seenIds = new Set<string>();
+
+  rawLinks.forEach((raw, index) => {
+    if (!isRecord(raw) || typeof raw.id !== "string" || raw.id.length === 0) {
+      issues.push({
+        code: "missing-field",
+        severity: "error",
+        entityKind: "link",
+        entityId: null,
+        field: "id",
+        message: `links[${index}] has no string id and was dropped.`,
+        resolution: "dropped"
+      });
+      return;
+    }
+
+    const id = raw.id;
+    if (seenIds.has(id)) {
+      issues.push({
+        code: "duplicate-link-id",
+        severity: "error",
+        entityKind: "link",
+        entityId: id,
+        field: "id",
+        message: `Link "${id}" is defined more than once; later copies were dropped.`,
+        resolution: "dropped"
+      });
+      return;
+    }
+
+    for (const field of ["fromNodeId", "toNodeId"] as const) {
+      const endpoint = raw[field];
+      if (typeof endpoint !== "string" || endpoint.length === 0 || (nodeIds && !nodeIds.has(endpoint))) {
+        issues.push({
+          code: "dangling-link-endpoint",
+          severity: "error",
+          entityKind: "link",
+          entityId: id,
+          field,
+          message: `Link "${id}" ${field} "${String(endpoint)}" does not match any node; link dropped.`,
+          resolution: "dropped"
+        });
+        return;
+      }
+    }
+    const fromNodeId = raw.fromNodeId as string;
+    const toNodeId = raw.toNodeId as string;
+
+    if (fromNodeId === toNodeId) {
+      issues.push({
+        code: "self-link",
+        severity: "error",
+        entityKind: "link",
+        entityId: id,
+        message: `Link "${id}" connects "${fromNodeId}" to itself; link dropped.`,
+        resolution: "dropped"
+      });
+      return;
+    }
+    seenIds.add(id);
+
+    let medium = raw.medium;
+    if (typeof medium !== "string" || !LINK_MEDIA.has(medium)) {
+      issues.push({
+        code: "unknown-link-medium",
+        severity: "warning",
+        entityKind: "link",
+        entityId: id,
+        field: "medium",
+        message: `Link "${id}" has unknown medium "${String(medium)}"; treated as "unknown".`,
+        resolution: "repaired"
+      });
+      medium = "unknown";
+    }
+
+    links.push({
+      id,
+      fromNodeId,
+      toNodeId,
+      medium: medium as LinkMedium,
+      metrics: normalizeMetrics(raw.metrics, "link", id, fallbackUpdatedAtMs, issues)
+    });
+  });
+
+  return links;
+}
+
+function normalizeMetrics(
+  raw: unknown,
+  entityKind: "node" | "link",
+  entityId: string,
+  fallbackUpdatedAtMs: number,
+  issues: TopologyValidationIssue[]
+): MetricSnapshot {
+  const source = isRecord(raw) ? raw : {};
+  if (!isRecord(raw)) {
+    issues.push({
+      code: "missing-field",
+      severity: "warning",
+      entityKind,
+      entityId,
+      field: "metrics",
+      message: `${capitalize(entityKind)} "${entityId}" has no metrics object; status set to "unknown".`,
+      resolution: "repaired"
+    });
+  }
+
+  let status = source.status;
+  if (typeof status !== "string" || !HEALTH_STATES.has(status)) {
+    if (isRecord(raw)) {
+      issues.push({
+        code: "invalid-status",
+        severity: "warning",
+        entityKind,
+        entityId,
+        field: "metrics.status",
+        message: `${capitalize(entityKind)} "${entityId}" has invalid status "${String(status)}"; set to "unknown".`,
+        resolution: "repaired"
+      });
+    }
+    status = "unknown";
+  }
+
+  const metrics: MetricSnapshot = {
+    status: status as HealthState,
+    updatedAtMs: readFiniteNumber(source.updatedAtMs) ?? fallbackUpdatedAtMs
+  };
+
+  for (const key of Object.keys(METRIC_RANGES) as NumericMetricKey[]) {
+    const value = normalizeMetricValue(source[key], METRIC_RANGES[key], entityKind, entityId, key, issues);
+    if (value !== null) {
+      metrics[key] = value;
+    }
+  }
+
+  if (entityKind === "link" && source.directions !== undefined && source.directions !== null) {
+    const directions = normalizeLinkDirections(source.directions, entityId, issues);
+    if (directions) {
+      metrics.directions = directions;
+    }
+  }
+
+  if (entityKind === "link" && source.rf !== undefined && source.rf !== null) {
+    const rf = normalizeLinkRf(source.rf, entityId, issues);
+    if (rf) {
+      metrics.rf = rf;
+    }
+  }
+
+  return metrics;
+}
+
+/** Coerces, range-checks and reports one numeric metric; null when absent or unusable. */
+function normalizeMetricValue(
+  value: unknown,
+  range: { min: number; max: number },
+  entityKind: "node" | "link",
+  entityId: string,
+  key: string,
+  issues: TopologyValidationIssue[]
+): number | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+
+  const field = `metrics.${key}`;
+  const numeric = coerceNumber(value);
+  if (numeric === null) {
+    issues.push({
+      code: "invalid-metric",
+      severity: "warning",
+      entityKind,
+      entityId,
+      field,
+      message: `${capitalize(entityKind)} "${entityId}" ${key} "${String(value)}" is not a number; removed.`,
+      resolution: "repaired"
+    });
+    return null;
+  }
+  if (typeof value !== "number") {
+    issues.push({
+      code: "invalid-metric",
+      severity: "warning",
+      entityKind,
+      entityId,
+      field,
+      message: `${capitalize(entityKind)} "${entityId}" ${key} was a string; coerced to ${numeric}.`,
+      resolution: "repaired"
+    });
+  }
+
+  if (numeric < range.min || numeric > range.max) {
+    const clamped = Math.min(range.max, Math.max(range.min, numeric));
+    issues.push({
+      code: "out-of-range-metric",
+      severity: "warning",
+      entityKind,
+      entityId,
+      field,
+      message: `${capitalize(entityKind)} "${entityId}" ${key} ${numeric} is outside ${range.min}..${range.max}; clamped to ${clamped}.`,
+      resolution: "repaired"
+    });
+    return clamped;
+  }
+
+  return numeric;
+}
+
+/** Keeps the usable parts of `metrics.directions`; null when nothing is left. */
+function normalizeLinkDirections(
+  raw: unknown,
+  linkId: string,
+  issues: TopologyValidationIssue[]
+): LinkDirectionalMetrics | null {
+  if (!isRecord(raw)) {
+    issues.push({
+      code: "invalid-metric",
+      severity: "warning",
+      entityKind: "link",
+      entityId: linkId,
+      field: "metrics.directions",
+      message: `Link "${linkId}" directions is not an object; removed.`,
+      resolution: "repaired"
+    });
+    return null;
+  }
+
+  const directions: LinkDirectionalMetrics = {};
+  for (const direction of ["aToB", "bToA"] as const) {
+    const source = raw[direction];
+    if (source === undefined || source === null) {
+      continue;
+    }
+    if (!isRecord(source)) {
+      issues.push({
+        code: "invalid-metric",
+        severity: "warning",
+        entityKind: "link",
+        entityId: linkId,
+        field: `metrics.directions.${direction}`,
+        message: `Link "${linkId}" directions.${direction} is not an object; removed.`,
+        resolution: "repaired"
+      });
+      continue;
+    }
+
+    const metrics: LinkDirectionMetrics = {};
+    for (const key of Object.keys(DIRECTION_METRIC_RANGES) as Array<keyof typeof DIRECTION_METRIC_RANGES>) {
+      const value = normalizeMetricValue(
+        source[key],
+        DIRECTION_METRIC_RANGES[key],
+        "link",
+        linkId,
+        `directions.${direction}.${key}`,
+        issues
+      );
+      if (value !== null) {
+        metrics[key] = value;
+      }
+    }
+    if (typeof source.modulation === "string" && source.modulation.trim().length > 0) {
+      metrics.modulation = source.modulation.trim();
+    }
+    directions[direction] = metrics;
+  }
+
+  return directions.aToB || directions.bToA ? directions : null;
+}
+
+/** Keeps the usable parts of `metrics.rf`; null when nothing is left. */
+function normalizeLinkRf(
+  raw: unknown,
+  linkId: string,
+  issues: TopologyValidationIssue[]
+): WirelessLinkMetrics | null {
+  if (!isRecord(raw)) {
+    issues.push({
+      code: "invalid-metric",
+      severity: "warning",
+      entityKind: "link",
+      entityId: linkId,
+      field: "metrics.rf",
+      message: `Link "${linkId}" rf is not an object; removed.`,
+      resolution: "repaired"
+    });
+    return null;
+  }
+
+  const rf: WirelessLinkMetrics = {};
+  for (const key of Object.keys(RF_METRIC_RANGES) as Array<keyof typeof RF_METRIC_RANGES>) {
+    const value = normalizeMetricValue(raw[key], RF_METRIC_RANGES[key], "link", linkId, `rf.${key}`, issues);
+    if (value !== null) {
+      rf[key] = value;
+    }
+  }
+  if (typeof raw.modulation === "string" && raw.modulation.trim().length > 0) {
+    rf.modulation = raw.modulation.trim();
+  }
+
+  return Object.keys(rf).length > 0 ? rf : null;
+}
+
+function coerceNumber(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === "string" && value.trim().length > 0) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function readFiniteNumber(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+function readVector3(value: unknown): Vector3Like | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+  const x = readFiniteNumber(value.x);
+  const y = readFiniteNumber(value.y);
+  const z = readFiniteNumber(value.z);
+  return x === null || y === null || z === null ? null : { x, y, z };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,855 @@
+/**
+ * Camera intrinsics calibration from an ArUco grid board.
+ *
+ * The marker worker already returns per-marker corners, so every board marker seen in a
+ * frame contributes four known plane-to-image correspondences. Intrinsics are solved with
+ * Zhang's closed-form method (one homography per view) plus a linear fit of two radial
+ * distortion terms, then refined jointly with Levenberg-Marquardt.
+ */
+
+import type { MarkerDictionary } from "../contracts/domain";
+
+export interface CameraIntrinsics {
+  /** Capture size the intrinsics were solved at; `scaleIntrinsics` adapts them to other sizes. */
+  width: number;
+  height: number;
+  fx: number;
+  fy: number;
+  cx: number;
+  cy: number;
+  /** Radial distortion (Brown model): x_d = x · (1 + k1·r² + k2·r⁴). */
+  k1: number;
+  k2: number;
+}
+
+/** A printed grid of markers, numbered row-major from `firstMarkerId`. */
+export interface CalibrationBoard {
+  columns: number;
+  rows: number;
+  /** Printed marker side length. Any unit works; only the ratio to `markerSeparation` matters. */
+  markerLength: number;
+  markerSeparation: number;
+  firstMarkerId: number;
+  /** Decoded while calibrating, whatever dictionary the detector tracks with. */
+  dictionary: MarkerDictionary;
+}
+
+export const DEFAULT_CALIBRATION_BOARD: CalibrationBoard = {
+  columns: 5,
+  rows: 7,
+  markerLength: 30,
+  markerSeparation: 6,
+  firstMarkerId: 0,
+  dictionary: "aruco-6x6-1000"
+};
+
+export interface CalibrationDetection {
+  markerId: number;
+  corners?: Array<{ x: number; y: number }>;
+}
+
+/** A known point on a planar target and where it was imaged, in pixels. */
+export interface Correspondence {
+  board: { x: number; y: number };
+  image: { x: number; y: number };
+}
+
+export interface CalibrationResult {
+  intrinsics: CameraIntrinsics;
+  /** RMS distance between observed and reprojected board corners, in pixels. */
+  rmsErrorPx: number;
+  viewCount: number;
+  pointCount: number;
+}
+
+export class CameraCalibrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CameraCalibrationError";
+  }
+}
+
+export interface CameraCalibrationSessionOptions {
+  /** Fewest board markers a frame needs to be kept. Default 4. */
+  minMarkersPerFrame?: number;
+  /** Minimum time between kept frames. Default 800 ms. */
+  minFrameIntervalMs?: number;
+  /** Frames whose shared corners moved less than this (mean, px) are near-duplicates. Default 12. */
+  minViewChangePx?: number;
+}
+
+/** Frames needed before `solve()` is worth attempting; the math needs at least 3. */
+export const MIN_CALIBRATION_FRAMES = 8;
+
+/**
+ * Collects board views from detector output. Near-duplicate views add no information to
+ * the solve, so frames are kept only after the board has moved noticeably.
+ */
+export class CameraCalibrationSession {
+  readonly board: CalibrationBoard;
+  readonly width: number;
+  readonly height: number;
+  private readonly minMarkersPerFrame: number;
+  private readonly minFrameIntervalMs: number;
+  private readonly minViewChangePx: number;
+  private readonly views: Correspondence[][] = [];
+  private lastKeptAtMs = Number.NEGATIVE_INFINITY;
+  private lastKeptCorners = new Map<string, { x: number; y: number }>();
+
+  constructor(
+    width: number,
+    height: number,
+    board: CalibrationBoard = DEFAULT_CALIBRATION_BOARD,
+    options: CameraCalibrationSessionOptions = {}
+  ) {
+    this.width = width;
+    this.height = height;
+    this.board = board;
+    this.minMarkersPerFrame = options.minMarkersPerFrame ?? 4;
+    this.minFrameIntervalMs = options.minFrameIntervalMs ?? 800;
+    this.minViewChangePx = options.minViewChangePx ?? 12;
+  }
+
+  get frameCount(): number {
+    return this.views.length;
+  }
+
+  /** Returns true when the frame was kept as a calibration view. */
+  addFrame(detections: CalibrationDetection[], timestampMs: number): boolean {
+    if (timestampMs - this.lastKeptAtMs < this.minFrameIntervalMs) {
+      return false;
+    }
+
+    const markerCount = this.board.columns * this.board.rows;
+    const correspondences: Correspondence[] = [];
+    const corners = new Map<string, { x: number; y: number }>();
+    let markersUsed = 0;
+    for (const detection of detections) {
+      const index = detection.markerId - this.board.firstMarkerId;
+      if (index < 0 || index >= markerCount || !detection.corners || detection.corners.length < 4) {
+        continue;
+      }
+      const boardCorners = boardMarkerCorners(this.board, index);
+      for (let i = 0; i < 4; i++) {
+        correspondences.push({ board: boardCorners[i], image: detection.corners[i] });
+        corners.set(`${detection.markerId}:${i}`, detection.corners[i]);
+      }
+      markersUsed++;
+    }
+    if (markersUsed < this.minMarkersPerFrame) {
+      return false;
+    }
+
+    let shared = 0;
+    let displacement = 0;
+    for (const [key, corner] of corners) {
+      const previous = this.lastKeptCorners.get(key);
+      if (previous) {
+        shared++;
+        displacement += Math.hypot(corner.x - previous.x, corner.y - previous.y);
+      }
+    }
+    if (shared > 0 && displacement / shared < this.minViewChangePx) {
+      return false;
+    }
+
+    this.views.push(correspondences);
+    this.lastKeptAtMs = timestampMs;
+    this.lastKeptCorners = corners;
+    return true;
+  }
+
+  solve(): CalibrationResult {
+    return solveCameraIntrinsics(this.views, this.width, this.height);
+  }
+}
+
+/** Corners of board marker `index` in board-plane units, in the detector's TL, TR, BR, BL order. */
+function boardMarkerCorners(board: CalibrationBoard, index: number): Array<{ x: number; y: number }> {
+  const pitch = board.markerLength + board.markerSeparation;
+  const x0 = (index % board.columns) * pitch;
+  const y0 = Math.floor(index / board.columns) * pitch;
+  const l = board.markerLength;
+  return [
+    { x: x0, y: y0 },
+    { x: x0 + l, y: y0 },
+    { x: x0 + l, y: y0 + l },
+    { x: x0, y: y0 + l }
+  ];
+}
+
+const REFINEMENT_ITERATIONS = 30;
+
+export function solveCameraIntrinsics(
+  views: ReadonlyArray<ReadonlyArray<Correspondence>>,
+  width: number,
+  height: number
+): CalibrationResult {
+  const usable = views.filter((view) => view.length >= 8);
+  if (usable.length < 3) {
+    throw new CameraCalibrationError(`Need at least 3 board views, have ${usable.length}.`);
+  }
+
+  const homographies = usable.map(computeHomography);
+  const pinhole = solvePinhole(homographies, width, height);
+  const extrinsics = homographies.map((h) => extrinsicsFromHomography(h, pinhole));
+  const [k1, k2] = fitRadialDistortion(usable, extrinsics, pinhole);
+  const refined = refineCalibration(usable, { ...pinhole, k1, k2 }, extrinsics);
+
+  let squaredError = 0;
+  let pointCount = 0;
+  usable.forEach((view, viewIndex) => {
+    for (const pair of view) {
+      const projected = projectBoardPoint(refined.intrinsics, refined.extrinsics[viewIndex], pair.board, true);
+      squaredError += (projected.x - pair.image.x) ** 2 + (projected.y - pair.image.y) ** 2;
+      pointCount++;
+    }
+  });
+
+  return {
+    intrinsics: refined.intrinsics,
+    rmsErrorPx: Math.sqrt(squaredError / pointCount),
+    viewCount: usable.length,
+    pointCount
+  };
+}
+
+/** Maps a distorted pixel to where an ideal pinhole camera would have imaged it. */
+export function undistortPoint(
+  intrinsics: CameraIntrinsics,
+  point: { x: number; y: number }
+): { x: number; y: number } {
+  if (intrinsics.k1 === 0 && intrinsics.k2 === 0) {
+    return point;
+  }
+  const xd = (point.x - intrinsics.cx) / intrinsics.fx;
+  const yd = (point.y - intrinsics.cy) / intrinsics.fy;
+  let x = xd;
+  let y = yd;
+  // Fixed-point inversion of the radial model; converges in a few steps for real lenses.
+  for (let i = 0; i < 10; i++) {
+    const r2 = x * x + y * y;
+    const factor = 1 + intrinsics.k1 * r2 + intrinsics.k2 * r2 * r2;
+    if (!(factor > 0.1)) {
+      // Outside the range the model was fitted on; leave the point as observed.
+      return point;
+    }
+    x = xd / factor;
+    y = yd / factor;
+  }
+  return { x: x * intrinsics.fx + intrinsics.cx, y: y * intrinsics.fy + intrinsics.cy };
+}
+
+/** Rescales intrinsics solved at one capture size to another (distortion is size-independent). */
+export function scaleIntrinsics(intrinsics: CameraIntrinsics, width: number, height: number): CameraIntrinsics {
+  if (intrinsics.width === width && intrinsics.height === height) {
+    return intrinsics;
+  }
+  const sx = width / intrinsics.width;
+  const sy = height / intrinsics.height;
+  return {
+    ...intrinsics,
+    width,
+    height,
+    fx: intrinsics.fx * sx,
+    fy: intrinsics.fy * sy,
+    cx: intrinsics.cx * sx,
+    cy: intrinsics.cy * sy
+  };
+}
+
+/** Camera-from-target pose; target points are (x, y, 0) and the camera looks down +Z with +Y down. */
+export interface PlanarPose {
+  rotation: number[][];
+  translation: [number, number, number];
+  /** RMS reprojection error over the correspondences, in pixels. */
+  rmsErrorPx: number;
+}
+
+const PLANAR_POSE_ITERATIONS = 12;
+
+/**
+ * Pose of a planar target from four or more correspondences (homography decomposition,
+ * then Levenberg-Marquardt on the reprojection error). Translation is in target units.
+ * Returns null when the points are degenerate or the target lands behind the camera.
+ */
+export function solvePlanarPose(
+  pairs: ReadonlyArray<Correspondence>,
+  intrinsics: CameraIntrinsics
+): PlanarPose | null {
+  if (pairs.length < 4) {
+    return null;
+  }
+
+  const normalized = pairs.map((pair) => {
+    const image = undistortPoint(intrinsics, pair.image);
+    return {
+      board: pair.board,
+      image: { x: (image.x - intrinsics.cx) / intrinsics.fx, y: (image.y - intrinsics.cy) / intrinsics.fy }
+    };
+  });
+  const initial = extrinsicsFromHomography(computeHomography(normalized), {
+    width: intrinsics.width,
+    height: intrinsics.height,
+    fx: 1,
+    fy: 1,
+    cx: 0,
+    cy: 0
+  });
+  if (![...initial.r1, ...initial.r2, ...initial.t].every(Number.isFinite)) {
+    return null;
+  }
+
+  const toView = (p: number[]): ViewExtrinsics => {
+    const r = vectorToRotation(p[0], p[1], p[2]);
+    return { r1: [r[0][0], r[1][0], r[2][0]], r2: [r[0][1], r[1][1], r[2][1]], t: [p[3], p[4], p[5]] };
+  };
+  const residuals = (p: number[]): number[] => {
+    const view = toView(p);
+    const out: number[] = [];
+    for (const pair of pairs) {
+      const projected = projectBoardPoint(intrinsics, view, pair.board, true);
+      out.push(projected.x - pair.image.x, projected.y - pair.image.y);
+    }
+    return out;
+  };
+  const cost = (r: number[]): number => r.reduce((sum, value) => sum + value * value, 0);
+
+  let params = [...rotationToVector(orthonormalize(initial.r1, initial.r2)), ...initial.t];
+  let current = residuals(params);
+  let currentCost = cost(current);
+  let damping = 1e-3;
+  for (let iteration = 0; iteration < PLANAR_POSE_ITERATIONS; iteration++) {
+    const jacobian = params.map((value, j) => {
+      const step = 1e-6 * Math.max(1, Math.abs(value));
+      const shifted = [...params];
+      shifted[j] += step;
+      return residuals(shifted).map((r, k) => (r - current[k]) / step);
+    });
+    const jtj = jacobian.map((a) => jacobian.map((b) => a.reduce((sum, value, k) => sum + value * b[k], 0)));
+    const jtr = jacobian.map((a) => -a.reduce((sum, value, k) => sum + value * current[k], 0));
+
+    let improved = false;
+    for (let attempt = 0; attempt < 6 && !improved; attempt++) {
+      const damped = jtj.map((row, i) => row.map((value, j) => (i === j ? value * (1 + damping) : value)));
+      const delta = solveLinearSystem(damped, jtr);
+      if (!delta) {
+        damping *= 10;
+        continue;
+      }
+      const candidate = params.map((value, i) => value + delta[i]);
+      const candidateResiduals = residuals(candidate);
+      const candidateCost = cost(candidateResiduals);
+      if (Number.isFinite(candidateCost) && candidateCost < currentCost) {
+        params = candidate;
+        current = candidateResiduals;
+        currentCost = candidateCost;
+        damping = Math.max(1e-9, damping / 10);
+        improved = true;
+      } else {
+        damping *= 10;
+      }
+    }
+    if (!improved) {
+      break;
+    }
+  }
+
+  if (!(params[5] > 0)) {
+    return null;
+  }
+  return {
+    rotation: vectorToRotation(params[0], params[1], params[2]),
+    translation: [params[3], params[4], params[5]],
+    rmsErrorPx: Math.sqrt(currentCost / pairs.length)
+  };
+}
+
+// ---- Solver internals ----
+
+type Matrix3 = number[][];
+
+interface ViewExtrinsics {
+  r1: [number, number, number];
+  r2: [number, number, number];
+  t: [number, number, number];
+}
+
+/** Normalized DLT (Hartley): board plane -> image homography. */
+function computeHomography(pairs: ReadonlyArray<Correspondence>): Matrix3 {
+  const boardT = normalizingTransform(pairs.map((pair) => pair.board));
+  const imageT = normalizingTransform(pairs.map((pair) => pair.image));
+
+  const ata = zeroMatrix(9);
+  for (const pair of pairs) {
+    const [x, y] = applyTransform(boardT, pair.board);
+    const [u, v] = applyTransform(imageT, pair.image);
+    accumulateOuter(ata, [-x, -y, -1, 0, 0, 0, u * x, u * y, u]);
+    accumulateOuter(ata, [0, 0, 0, -x, -y, -1, v * x, v * y, v]);
+  }
+  const h = smallestEigenvector(ata);
+  const normalized = [
+    [h[0], h[1], h[2]],
+    [h[3], h[4], h[5]],
+    [h[6], h[7], h[8]]
+  ];
+  return multiply3(invert3(imageT), multiply3(normalized, boardT));
+}
+
+/** Zhang's closed form for a zero-skew pinhole camera. */
+function solvePinhole(homographies: Matrix3[], width: number, height: number): Omit<CameraIntrinsics, "k1" | "k2"> {
+  // Solve in coordinates scaled to ~unit size; B is badly conditioned in raw pixels.
+  const scale = 1 / Math.max(width, height);
+  const S = [[scale, 0, 0], [0, scale, 0], [0, 0, 1]];
+
+  const vtv = zeroMatrix(6);
+  for (const homography of homographies) {
+    const h = multiply3(S, homography);
+    const v = (i: number, j: number): number[] => [
+      h[0][i] * h[0][j],
+      h[0][i] * h[1][j] + h[1][i] * h[0][j],
+      h[1][i] * h[1][j],
+      h[2][i] * h[0][j] + h[0][i] * h[2][j],
+      h[2][i] * h[1][j] + h[1][i] * h[2][j],
+      h[2][i] * h[2][j]
+    ];
+    const v12 = v(0, 1);
+    const v11 = v(0, 0);
+    const v22 = v(1, 1);
+    accumulateOuter(vtv, v12);
+    accumulateOuter(vtv, v11.map((value, i) => value - v22[i]));
+  }
+
+  let [b11, b12, b22, b13, b23, b33] = smallestEigenvector(vtv);
+  if (b11 < 0) {
+    [b11, b12, b22, b13, b23, b33] = [-b11, -b12, -b22, -b13, -b23, -b33];
+  }
+  const denominator = b11 * b22 - b12 * b12;
+  const cy = (b12 * b13 - b11 * b23) / denominator;
+  const lambda = b33 - (b13 * b13 + cy * (b12 * b13 - b11 * b23)) / b11;
+  const fxSquared = lambda / b11;
+  const fySquared = (lambda * b11) / denominator;
+  if (!(denominator > 0) || !(fxSquared > 0) || !(fySquared > 0)) {
+    throw new CameraCalibrationError("Board views are degenerate; tilt the board at different angles.");
+  }
+  const fx = Math.sqrt(fxSquared);
+  const cx = -(b13 * fxSquared) / lambda;
+
+  return {
+    width,
+    height,
+    fx: fx / scale,
+    fy: Math.sqrt(fySquared) / scale,
+    cx: cx / scale,
+    cy: cy / scale
+  };
+}
+
+function extrinsicsFromHomography(h: Matrix3, k: Omit<CameraIntrinsics, "k1" | "k2">): ViewExtrinsics {
+  const column = (i: number): [number, number, number] => [
+    (h[0][i] - k.cx * h[2][i]) / k.fx,
+    (h[1][i] - k.cy * h[2][i]) / k.fy,
+    h[2][i]
+  ];
+  const c1 = column(0);
+  const c2 = column(1);
+  const c3 = column(2);
+  let lambda = 1 / Math.hypot(...c1);
+  // The homography's sign is arbitrary; pick the one that puts the board in front of the camera.
+  if (c3[2] * lambda < 0) {
+    lambda = -lambda;
+  }
+  const scaleVec = (c: [number, number, number]): [number, number, number] => [c[0] * lambda, c[1] * lambda, c[2] * lambda];
+  return { r1: scaleVec(c1), r2: scaleVec(c2), t: scaleVec(c3) };
+}
+
+function projectBoardPoint(
+  k: Omit<CameraIntrinsics, "k1" | "k2"> & Partial<Pick<CameraIntrinsics, "k1" | "k2">>,
+  view: ViewExtrinsics,
+  point: { x: number; y: number },
+  distort: boolean
+): { x: number; y: number } {
+  const camera = [0, 1, 2].map((i) => view.r1[i] * point.x + view.r2[i] * point.y + view.t[i]);
+  let x = camera[0] / camera[2];
+  let y = camera[1] / camera[2];
+  if (distort) {
+    const r2 = x * x + y * y;
+    const factor = 1 + (k.k1 ?? 0) * r2 + (k.k2 ?? 0) * r2 * r2;
+    x *= factor;
+    y *= factor;
+  }
+  return { x: k.fx * x + k.cx, y: k.fy * y + k.cy };
+}
+
+/** Linear least squares for k1, k2 given ideal projections (Zhang §3.3). */
+function fitRadialDistortion(
+  views: ReadonlyArray<ReadonlyArray<Correspondence>>,
+  extrinsics: ViewExtrinsics[],
+  k: Omit<CameraIntrinsics, "k1" | "k2">
+): [number, number] {
+  let a11 = 0;
+  let a12 = 0;
+  let a22 = 0;
+  let b1 = 0;
+  let b2 = 0;
+  views.forEach((view, viewIndex) => {
+    for (const pair of view) {
+      const ideal = projectBoardPoint(k, extrinsics[viewIndex], pair.board, false);
+      const nx = (ideal.x - k.cx) / k.fx;
+      const ny = (ideal.y - k.cy) / k.fy;
+      const r2 = nx * nx + ny * ny;
+      const rows: Array<[number, number, number]> = [
+        [(ideal.x - k.cx) * r2, (ideal.x - k.cx) * r2 * r2, pair.image.x - ideal.x],
+        [(ideal.y - k.cy) * r2, (ideal.y - k.cy) * r2 * r2, pair.image.y - ideal.y]
+      ];
+      for (const [p, q, d] of rows) {
+        a11 += p * p;
+        a12 += p * q;
+        a22 += q * q;
+        b1 += p * d;
+        b2 += q * d;
+      }
+    }
+  });
+  const det = a11 * a22 - a12 * a12;
+  if (Math.abs(det) < 1e-12) {
+    return [0, 0];
+  }
+  return [(a22 * b1 - a12 * b2) / det, (a11 * b2 - a12 * b1) / det];
+}
+
+/**
+ * Levenberg-Marquardt over intrinsics, distortion and every view's pose, minimizing
+ * reprojection error. The closed-form estimates are close but not jointly optimal;
+ * distortion in particular is poorly constrained until the poses are refined with it.
+ */
+function refineCalibration(
+  views: ReadonlyArray<ReadonlyArray<Correspondence>>,
+  initial: CameraIntrinsics,
+  initialExtrinsics: ViewExtrinsics[]
+): { intrinsics: CameraIntrinsics; extrinsics: ViewExtrinsics[] } {
+  const INTRINSIC_PARAMS = 6;
+  let params = [initial.fx, initial.fy, initial.cx, initial.cy, initial.k1, initial.k2];
+  for (const view of initialExtrinsics) {
+    const rotation = orthonormalize(view.r1, view.r2);
+    params.push(...rotationToVector(rotation), ...view.t);
+  }
+
+  const unpack = (p: number[]): { intrinsics: CameraIntrinsics; extrinsics: ViewExtrinsics[] } => ({
+    intrinsics: { ...initial, fx: p[0], fy: p[1], cx: p[2], cy: p[3], k1: p[4], k2: p[5] },
+    extrinsics: views.map((_, i) => {
+      const offset = INTRINSIC_PARAMS + i * 6;
+      const r = vectorToRotation(p[offset], p[offset + 1], p[offset + 2]);
+      return {
+        r1: [r[0][0], r[1][0], r[2][0]],
+        r2: [r[0][1], r[1][1], r[2][1]],
+        t: [p[offset + 3], p[offset + 4], p[offset + 5]]
+      };
+    })
+  });
+
+  // Residual index range of each view; a view's pose only moves its own residuals.
+  const viewStart: number[] = [];
+  let residualCount = 0;
+  for (const view of views) {
+    viewStart.push(residualCount);
+    residualCount += view.length * 2;
+  }
+
+  const writeViewResiduals = (
+    intrinsics: CameraIntrinsics,
+    extrinsics: ViewExtrinsics,
+    viewIndex: number,
+    out: Float64Array
+  ): void => {
+    let k = viewStart[viewIndex];
+    for (const pair of views[viewIndex]) {
+      const projected = projectBoardPoint(intrinsics, extrinsics, pair.board, true);
+      out[k++] = projected.x - pair.image.x;
+      out[k++] = projected.y - pair.image.y;
+    }
+  };
+  const residuals = (p: number[]): Float64Array => {
+    const { intrinsics, extrinsics } = unpack(p);
+    const out = new Float64Array(residualCount);
+    views.forEach((_, i) => writeViewResiduals(intrinsics, extrinsics[i], i, out));
+    return out;
+  };
+  const cost = (r: Float64Array): number => r.reduce((sum, value) => sum + value * value, 0);
+  const rangeOf = (param: number): [number, number] => {
+    if (param < INTRINSIC_PARAMS) {
+      return [0, residualCount];
+    }
+    const view = Math.floor((param - INTRINSIC_PARAMS) / 6);
+    return [viewStart[view], viewStart[view] + views[view].length * 2];
+  };
+
+  let current = residuals(params);
+  let currentCost = cost(current);
+  let damping = 1e-3;
+  for (let iteration = 0; iteration < REFINEMENT_ITERATIONS; iteration++) {
+    // Forward-difference Jacobian, accumulated straight into the normal equations.
+    const n = params.length;
+    const jtj = zeroMatrix(n);
+    const jtr = new Array<number>(n).fill(0);
+    const columns: Float64Array[] = [];
+    for (let j = 0; j < n; j++) {
+      const step = 1e-6 * Math.max(1, Math.abs(params[j]));
+      const shifted = [...params];
+      shifted[j] += step;
+      const column = new Float64Array(residualCount);
+      if (j < INTRINSIC_PARAMS) {
+        column.set(residuals(shifted));
+      } else {
+        const view = Math.floor((j - INTRINSIC_PARAMS) / 6);
+        const { intrinsics, extrinsics } = unpack(shifted);
+        writeViewResiduals(intrinsics, extrinsics[view], view, column);
+      }
+      const [from, to] = rangeOf(j);
+      for (let k = from; k < to; k++) {
+        column[k] = (column[k] - current[k]) / step;
+      }
+      columns.push(column);
+    }
+    for (let a = 0; a < n; a++) {
+      const [fromA, toA] = rangeOf(a);
+      for (let b = a; b < n; b++) {
+        const [fromB, toB] = rangeOf(b);
+        let sum = 0;
+        for (let k = Math.max(fromA, fromB); k < Math.min(toA, toB); k++) {
+          sum += columns[a][k] * columns[b][k];
+        }
+        jtj[a][b] = sum;
+        jtj[b][a] = sum;
+      }
+      let sum = 0;
+      for (let k = fromA; k < toA; k++) {
+        sum += columns[a][k] * current[k];
+      }
+      jtr[a] = -sum;
+    }
+
+    let improved = false;
+    for (let attempt = 0; attempt < 8 && !improved; attempt++) {
+      const damped = jtj.map((row, i) => row.map((value, j) => (i === j ? value * (1 + damping) : value)));
+      const delta = solveLinearSystem(damped, jtr);
+      if (!delta) {
+        damping *= 10;
+        continue;
+      }
+      const candidate = params.map((value, i) => value + delta[i]);
+      const candidateResiduals = residuals(candidate);
+      const candidateCost = cost(candidateResiduals);
+      if (Number.isFinite(candidateCost) && candidateCost < currentCost) {
+        const relativeGain = (currentCost - candidateCost) / currentCost;
+        params = candidate;
+        current = candidateResiduals;
+        currentCost = candidateCost;
+        damping = Math.max(1e-9, damping / 10);
+        improved = true;
+        if (relativeGain < 1e-10) {
+          return unpack(params);
+        }
+      } else {
+        damping *= 10;
+      }
+    }
+    if (!improved) {
+      break;
+    }
+  }
+  return unpack(params);
+}
+
+/** Nearest rotation with first two columns along r1, r2 (Gram-Schmidt). */
+function orthonormalize(r1: [number, number, number], r2: [number, number, number]): Matrix3 {
+  const x = normalize3(r1);
+  const dot = x[0] * r2[0] + x[1] * r2[1] + x[2] * r2[2];
+  const y = normalize3([r2[0] - dot * x[0], r2[1] - dot * x[1], r2[2] - dot * x[2]]);
+  const z = [x[1] * y[2] - x[2] * y[1], x[2] * y[0] - x[0] * y[2], x[0] * y[1] - x[1] * y[0]];
+  return [[x[0], y[0], z[0]], [x[1], y[1], z[1]], [x[2], y[2], z[2]]];
+}
+
+function normalize3(v: [number, number, number]): [number, number, number] {
+  const length = Math.hypot(...v) || 1;
+  return [v[0] / length, v[1] / length, v[2] / length];
+}
+
+/** Rotation matrix -> Rodrigues vector. */
+function rotationToVector(r: Matrix3): [number, number, number] {
+  const cosAngle = Math.min(1, Math.max(-1, (r[0][0] + r[1][1] + r[2][2] - 1) / 2));
+  const angle = Math.acos(cosAngle);
+  if (angle < 1e-9) {
+    return [0, 0, 0];
+  }
+  const k = angle / (2 * Math.sin(angle));
+  return [(r[2][1] - r[1][2]) * k, (r[0][2] - r[2][0]) * k, (r[1][0] - r[0][1]) * k];
+}
+
+/** Rodrigues vector -> rotation matrix. */
+function vectorToRotation(x: number, y: number, z: number): Matrix3 {
+  const angle = Math.hypot(x, y, z);
+  if (angle < 1e-12) {
+    return [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+  }
+  const [kx, ky, kz] = [x / angle, y / angle, z / angle];
+  const c = Math.cos(angle);
+  const s = Math.sin(angle);
+  const t = 1 - c;
+  return [
+    [c + kx * kx * t, kx * ky * t - kz * s, kx * kz * t + ky * s],
+    [ky * kx * t + kz * s, c + ky * ky * t, ky * kz * t - kx * s],
+    [kz * kx * t - ky * s, kz * ky * t + kx * s, c + kz * kz * t]
+  ];
+}
+
+/** Gaussian elimination with partial pivoting; null when singular. */
+function solveLinearSystem(matrix: number[][], rhs: number[]): number[] | null {
+  const n = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(a[pivot][col]) < 1e-300) {
+      return null;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      if (factor === 0) {
+        continue;
+      }
+      for (let k = col; k <= n; k++) {
+        a[row][k] -= factor * a[col][k];
+      }
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) {
+      sum -= a[row][k] * x[k];
+    }
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+function normalizingTransform(points: Array<{ x: number; y: number }>): Matrix3 {
+  let mx = 0;
+  let my = 0;
+  for (const point of points) {
+    mx += point.x;
+    my += point.y;
+  }
+  mx /= points.length;
+  my /= points.length;
+  let meanDistance = 0;
+  for (const point of points) {
+    meanDistance += Math.hypot(point.x - mx, point.y - my);
+  }
+  meanDistance /= points.length;
+  const s = meanDistance > 0 ? Math.SQRT2 / meanDistance : 1;
+  return [[s, 0, -s * mx], [0, s, -s * my], [0, 0, 1]];
+}
+
+function applyTransform(m: Matrix3, point: { x: number; y: number }): [number, number] {
+  const w = m[2][0] * point.x + m[2][1] * point.y + m[2][2];
+  return [
+    (m[0][0] * point.x + m[0][1] * point.y + m[0][2]) / w,
+    (m[1][0] * point.x + m[1][1] * point.y + m[1][2]) / w
+  ];
+}
+
+function zeroMatrix(n: number): number[][] {
+  return Array.from({ length: n }, () => new Array<number>(n).fill(0));
+}
+
+function accumulateOuter(target: number[][], row: number[]): void {
+  for (let i = 0; i < row.length; i++) {
+    for (let j = 0; j < row.length; j++) {
+      target[i][j] += row[i] * row[j];
+    }
+  }
+}
+
+function multiply3(a: Matrix3, b: Matrix3): Matrix3 {
+  return [0, 1, 2].map((i) => [0, 1, 2].map((j) => a[i][0] * b[0][j] + a[i][1] * b[1][j] + a[i][2] * b[2][j]));
+}
+
+function invert3(m: Matrix3): Matrix3 {
+  const [[a, b, c], [d, e, f], [g, h, i]] = m;
+  const A = e * i - f * h;
+  const B = -(d * i - f * g);
+  const C = d * h - e * g;
+  const det = a * A + b * B + c * C;
+  return [
+    [A / det, -(b * i - c * h) / det, (b * f - c * e) / det],
+    [B / det, (a * i - c * g) / det, -(a * f - c * d) / det],
+    [C / det, -(a * h - b * g) / det, (a * e - b * d) / det]
+  ];
+}
+
+/** Eigenvector of the smallest eigenvalue of a symmetric matrix (cyclic Jacobi). */
+function smallestEigenvector(symmetric: number[][]): number[] {
+  const n = symmetric.length;
+  const a = symmetric.map((row) => [...row]);
+  const v = zeroMatrix(n);
+  for (let i = 0; i < n; i++) {
+    v[i][i] = 1;
+  }
+
+  for (let sweep = 0; sweep < 64; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        offDiagonal += a[p][q] * a[p][q];
+      }
+    }
+    if (offDiagonal < 1e-30) {
+      break;
+    }
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-300) {
+          continue;
+        }
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  let smallest = 0;
+  for (let i = 1; i < n; i++) {
+    if (a[i][i] < a[smallest][smallest]) {
+      smallest = i;
+    }
+  }
+  return v.map((row) => row[smallest]);
+}
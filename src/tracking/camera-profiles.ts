@@ -0,0 +1,105 @@
+import type { CameraIntrinsics } from "./camera-calibration";
+
+/** A named calibration result for one device and capture backend. */
+export interface CameraProfile {
+  name: string;
+  intrinsics: CameraIntrinsics;
+  rmsErrorPx: number;
+  /** Capture backend the frames came from ("video", "imagecapture" or "xr-camera"). */
+  captureBackend: string;
+  /** ISO-8601 time the profile was saved. */
+  createdAt: string;
+}
+
+const PROFILES_KEY = "infra-xr.camera-profiles";
+const ACTIVE_PROFILE_KEY = "infra-xr.camera-profile-active";
+
+/**
+ * Camera profiles persisted in `localStorage`. When storage is unavailable (private
+ * browsing, some embedded browsers) profiles live for the session only.
+ */
+export class CameraProfileStore {
+  private profiles: CameraProfile[];
+  private activeName: string | null;
+
+  constructor() {
+    this.profiles = readStoredProfiles();
+    const active = readStorage(ACTIVE_PROFILE_KEY);
+    this.activeName = this.profiles.some((profile) => profile.name === active) ? active : null;
+  }
+
+  list(): readonly CameraProfile[] {
+    return this.profiles;
+  }
+
+  getActive(): CameraProfile | null {
+    return this.profiles.find((profile) => profile.name === this.activeName) ?? null;
+  }
+
+  /** Adds or replaces the profile with the same name and makes it active. */
+  save(profile: CameraProfile): void {
+    this.profiles = [...this.profiles.filter((existing) => existing.name !== profile.name), profile];
+    writeStorage(PROFILES_KEY, JSON.stringify(this.profiles));
+    this.setActive(profile.name);
+  }
+
+  remove(name: string): void {
+    this.profiles = this.profiles.filter((profile) => profile.name !== name);
+    writeStorage(PROFILES_KEY, JSON.stringify(this.profiles));
+    if (this.activeName === name) {
+      this.setActive(null);
+    }
+  }
+
+  setActive(name: string | null): void {
+    this.activeName = name !== null && this.profiles.some((profile) => profile.name === name) ? name : null;
+    writeStorage(ACTIVE_PROFILE_KEY, this.activeName);
+  }
+}
+
+function readStoredProfiles(): CameraProfile[] {
+  try {
+    const parsed: unknown = JSON.parse(readStorage(PROFILES_KEY) ?? "[]");
+    return Array.isArray(parsed) ? parsed.filter(isCameraProfile) : [];
+  } catch {
+    return [];
+  }
+}
+
+function isCameraProfile(value: unknown): value is CameraProfile {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const profile = value as Partial<CameraProfile>;
+  const intrinsics = profile.intrinsics as Partial<CameraIntrinsics> | undefined;
+  return (
+    typeof profile.name === "string" &&
+    typeof intrinsics === "object" &&
+    intrinsics !== null &&
+    (["width", "height", "fx", "fy", "cx", "cy", "k1", "k2"] as const).every(
+      (key) => typeof intrinsics[key] === "number" && Number.isFinite(intrinsics[key])
+    ) &&
+    intrinsics.fx! > 0 &&
+    intrinsics.fy! > 0
+  );
+}
+
+function readStorage(key: string): string | null {
+  try {
+    return window.localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+function writeStorage(key: string, value: string | null): void {
+  try {
+    if (value === null) {
+      window.localStorage.removeItem(key);
+    } else {
+      window.localStorage.setItem(key, value);
+    }
+  } catch {
+    // Storage unavailable; keep the in-memory copy.
+  }
+}
@@ -1,7 +1,21 @@
-import svdSource from "js-aruco2/src/svd.js?raw";
-import positSource from "js-aruco2/src/posit2.js?raw";
-
-import type { MarkerDetector, RawMarkerDetection } from "./types";
+import {
+  CameraCalibrationSession,
+  DEFAULT_CALIBRATION_BOARD,
+  scaleIntrinsics,
+  type CalibrationBoard,
+  type CameraIntrinsics
+} from "./camera-calibration";
+import type { MarkerDictionary } from "../contracts/domain";
+import { markerBoardExtentMeters, type MarkerBoard } from "./marker-board";
+import { DEFAULT_MARKER_DICTIONARY } from "./marker-dictionaries";
+import { MarkerRegistry } from "./marker-registry";
+import {
+  resolveCameraPoseEstimate,
+  solveBoardPoseFromCorners,
+  solvePoseFromCorners,
+  type SolvedPose
+} from "./pose-solver";
+import type { MarkerDetector, MarkerRegistryEntry, RawMarkerDetection } from "./types";
 
 interface WorkerDetection {
   markerId: number;
@@ -13,12 +27,6 @@ interface WorkerDetection {
   corners?: Array<{ x: number; y: number }>;
 }
 
-interface SolvedPose {
-  rotation: number[][];
-  translationMm: [number, number, number];
-  error: number;
-}
-
 interface WorkerDebugInfo {
   decodedMarkers: number;
   contourCount: number;
@@ -32,6 +40,8 @@ interface WorkerDebugInfo {
   rejectedTooSmall: number;
   rejectedBadAspect: number;
   rejectedLowConfidence: number;
+  rejectedDuplicateId: number;
+  rejectedOverCap: number;
 }
 
 type CaptureBackend = "video" | "imagecapture" | "xr-camera";
@@ -70,31 +80,28 @@ export interface CameraWorkerDetectorOptions {
   captureHeight?: number;
   maxCaptureHz?: number;
   staleThresholdMs?: number;
+  /**
+   * Most markers returned (and pose-solved) per frame, best score first.
+   * Keeps the per-frame cost bounded on Quest. Default 8.
+   */
+  maxMarkersPerFrame?: number;
+  /** Dictionary the printed markers use, with its own ID range. Default `aruco-6x6-1000`. */
+  markerDictionary?: MarkerDictionary;
+  /** Per-marker size and mounting. Markers without an entry use `DEFAULT_MARKER_ENTRY`. */
+  markerRegistry?: MarkerRegistry;
+  /**
+   * Rigid multi-marker boards. Member markers are reported only as their board's anchor;
+   * the registry entry for the board ID supplies its node binding and mount rotation.
+   */
+  markerBoards?: MarkerBoard[];
 }
 
 export type CameraWorkerDetectorStatus = "idle" | "starting" | "ready" | "failed";
 export type CameraWorkerUserMediaPreference = UserMediaPreference;
 
-const DEFAULT_MARKER_SIZE_METERS = 0.12;
-const MARKER_MODEL_SIZE_MM = 120;
 const DESKTOP_CAMERA_WORLD_POS = { x: 0, y: 1.4, z: 2.5 };
 const IDENTITY_ROTATION = { x: 0, y: 0, z: 0, w: 1 };
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const positCtx: Record<string, any> = {};
-new Function(svdSource).call(positCtx);
-new Function(positSource).call(positCtx);
-const POS = positCtx.POS as { Posit?: new (modelSize: number, focalLength: number) => {
-  pose: (points: Array<{ x: number; y: number }>) => unknown;
-} } | undefined;
-if (!POS?.Posit) {
-  throw new Error("Failed to initialize POSIT solver");
-}
-const PositCtor = POS.Posit;
-
-let positSolver: { pose: (points: Array<{ x: number; y: number }>) => unknown } | null = null;
-let positFocalLengthPx = 0;
-
 /**
  * Camera-backed detector scaffold.
  * Uses a worker to extract fiducial candidates from environment camera frames.
@@ -105,6 +112,10 @@ export class CameraWorkerMarkerDetector implements MarkerDetector {
   private readonly captureHeight: number;
   private readonly minCaptureDeltaMs: number;
   private readonly staleThresholdMs: number;
+  private readonly maxMarkersPerFrame: number;
+  private markerDictionary: MarkerDictionary;
+  private markerRegistry: MarkerRegistry;
+  private boardByMarkerId = new Map<number, MarkerBoard>();
   private userMediaPreference: UserMediaPreference = "default";
   private inlineCameraEnabled = true;
 
@@ -122,6 +133,8 @@ export class CameraWorkerMarkerDetector implements MarkerDetector {
   private captureBackend: CaptureBackend = "video";
   private trackDiagnostics: TrackDiagnostics = createDefaultTrackDiagnostics();
   private latestDetections: WorkerDetection[] = [];
+  private intrinsics: CameraIntrinsics | null = null;
+  private calibrationSession: CameraCalibrationSession | null = null;
   private latestBestId: number | null = null;
   private latestDebug: WorkerDebugInfo = createEmptyDebugInfo();
   private latestSolvedPoseCount = 0;
@@ -150,6 +163,10 @@ export class CameraWorkerMarkerDetector implements MarkerDetector {
     this.captureHeight = options.captureHeight ?? 360;
     this.minCaptureDeltaMs = 1000 / (options.maxCaptureHz ?? 8);
     this.staleThresholdMs = options.staleThresholdMs ?? 550;
+    this.maxMarkersPerFrame = Math.max(1, Math.floor(options.maxMarkersPerFrame ?? 8));
+    this.markerDictionary = options.markerDictionary ?? DEFAULT_MARKER_DICTIONARY;
+    this.markerRegistry = options.markerRegistry ?? new MarkerRegistry();
+    this.setMarkerBoards(options.markerBoards ?? []);
   }
 
   detect(_frame: unknown, _referenceSpace: unknown): RawMarkerDetection[] {
@@ -191,18 +208,55 @@ export class CameraWorkerMarkerDetector implements MarkerDetector {
       }
     }
 
-    if (now - this.latestAtMs > this.staleThresholdMs) {
+    // Calibration boards are made of ordinary markers; keep them from anchoring nodes.
+    if (this.calibrationSession || now - this.latestAtMs > this.staleThresholdMs) {
       return [];
     }
 
     const results: RawMarkerDetection[] = [];
     let firstPoseFailureReason = "none";
+    const boardMembers = new Map<MarkerBoard, WorkerDetection[]>();
     for (const detection of this.latestDetections) {
+      const board = this.boardByMarkerId.get(detection.markerId);
+      if (board) {
+        const members = boardMembers.get(board) ?? [];
+        members.push(detection);
+        boardMembers.set(board, members);
+        continue;
+      }
+      const entry = this.markerRegistry.resolve(detection.markerId);
+      // IDs are per dictionary: a registered marker printed in another family is not this one.
+      if (this.markerRegistry.has(detection.markerId) && entry.dictionary !== this.markerDictionary) {
+        if (firstPoseFailureReason === "none") {
+          firstPoseFailureReason = `dictionary-mismatch:${entry.dictionary}`;
+        }
+        continue;
+      }
       const solved = toRawMarkerDetection(
         detection,
+        entry,
+        now,
+        this.captureWidth,
+        this.captureHeight,
+        this.intrinsics,
+        _frame,
+        _referenceSpace
+      );
+      if (solved.detection) {
+        results.push(solved.detection);
+      } else if (firstPoseFailureReason === "none") {
+        firstPoseFailureReason = solved.failureReason;
+      }
+    }
+    for (const [board, members] of boardMembers) {
+      const solved = toRawBoardDetection(
+        board,
+        members,
+        this.markerRegistry.resolve(board.boardId),
         now,
         this.captureWidth,
         this.captureHeight,
+        this.intrinsics,
         _frame,
         _referenceSpace
       );
@@ -212,7 +266,7 @@ export class CameraWorkerMarkerDetector implements MarkerDetector {
         firstPoseFailureReason = solved.failureReason;
       }
     }
-    this.latestPoseAttemptCount = this.latestDetections.length;
+    this.latestPoseAttemptCount = this.latestDetections.length - countMembers(boardMembers) + boardMembers.size;
     this.latestSolvedPoseCount = results.length;
     this.latestPoseFailureReason = firstPoseFailureReason;
     return results;
@@ -253,6 +307,56 @@ export class CameraWorkerMarkerDetector implements MarkerDetector {
     return this.canvas;
   }
 
+  /**
+   * Use calibrated intrinsics for pose solving (rescaled to the capture size).
+   * Null falls back to focal length = capture width with a centered principal point.
+   */
+  setIntrinsics(intrinsics: CameraIntrinsics | null): void {
+    this.intrinsics = intrinsics ? scaleIntrinsics(intrinsics, this.captureWidth, this.captureHeight) : null;
+  }
+
+  getIntrinsics(): CameraIntrinsics | null {
+    return this.intrinsics;
+  }
+
+  setMarkerDictionary(dictionary: MarkerDictionary): void {
+    this.markerDictionary = dictionary;
+  }
+
+  getMarkerDictionary(): MarkerDictionary {
+    return this.markerDictionary;
+  }
+
+  setMarkerRegistry(registry: MarkerRegistry): void {
+    this.markerRegistry = registry;
+  }
+
+  setMarkerBoards(boards: MarkerBoard[]): void {
+    this.boardByMarkerId = new Map();
+    for (const board of boards) {
+      for (const marker of board.markers) {
+        this.boardByMarkerId.set(marker.markerId, board);
+      }
+    }
+  }
+
+  /**
+   * Start collecting calibration views from every processed frame. Marker poses are
+   * not reported until `stopCalibration()`.
+   */
+  startCalibration(board: CalibrationBoard = DEFAULT_CALIBRATION_BOARD): CameraCalibrationSession {
+    this.calibrationSession = new CameraCalibrationSession(this.captureWidth, this.captureHeight, board);
+    return this.calibrationSession;
+  }
+
+  stopCalibration(): void {
+    this.calibrationSession = null;
+  }
+
+  getCalibrationSession(): CameraCalibrationSession | null {
+    return this.calibrationSession;
+  }
+
   /** Latest detections with pixel-space corners for overlay drawing. */
   getOverlayData(): {
     detections: WorkerDetection[];
@@ -406,6 +510,7 @@ export class CameraWorkerMarkerDetector implements MarkerDetector {
       this.latestDetections = payload.detections;
       this.latestBestId = payload.bestId;
       this.latestDebug = payload.debug;
+      this.calibrationSession?.addFrame(payload.detections, performance.now());
       this.latestSolvedPoseCount = 0;
       this.latestPoseAttemptCount = 0;
       this.latestPoseFailureReason = "none";
@@ -556,7 +661,12 @@ export class CameraWorkerMarkerDetector implements MarkerDetector {
         frameId,
         width: this.captureWidth,
         height: this.captureHeight,
-        pixels: imageData.data.buffer
+        pixels: imageData.data.buffer,
+        // A calibration frame is only useful with the whole board.
+        maxMarkers: this.calibrationSession
+          ? this.calibrationSession.board.columns * this.calibrationSession.board.rows
+          : this.maxMarkersPerFrame,
+        dictionary: this.calibrationSession?.board.dictionary ?? this.markerDictionary
       },
       [imageData.data.buffer]
     );
@@ -826,9 +936,9 @@ export class SwitchableDetector implements MarkerDetector {
   readonly camera: CameraWorkerMarkerDetector;
   readonly mock: MockMarkerDetector;
 
-  constructor(initialMode: SwitchableMode = "camera") {
+  constructor(initialMode: SwitchableMode = "camera", cameraOptions: CameraWorkerDetectorOptions = {}) {
     this.mode = initialMode;
-    this.camera = new CameraWorkerMarkerDetector();
+    this.camera = new CameraWorkerMarkerDetector(cameraOptions);
     this.mock = new MockMarkerDetector();
   }
 
@@ -855,13 +965,21 @@ export class SwitchableDetector implements MarkerDetector {
 
 function toRawMarkerDetection(
   detection: WorkerDetection,
+  marker: MarkerRegistryEntry,
   nowMs: number,
   captureWidth: number,
   captureHeight: number,
+  intrinsics: CameraIntrinsics | null,
   frame: unknown,
   referenceSpace: unknown,
 ): { detection: RawMarkerDetection | null; failureReason: string } {
-  const poseResult = solvePoseFromCorners(detection, captureWidth, captureHeight);
+  const poseResult = solvePoseFromCorners(
+    detection,
+    captureWidth,
+    captureHeight,
+    intrinsics,
+    marker.sizeMeters * 1000
+  );
   if (!poseResult.pose) {
     return {
       detection: null,
@@ -869,14 +987,89 @@ function toRawMarkerDetection(
     };
   }
 
+  return {
+    detection: toWorldDetection(
+      detection.markerId,
+      poseResult.pose,
+      marker,
+      detection.confidence,
+      marker.sizeMeters,
+      1,
+      nowMs,
+      frame,
+      referenceSpace
+    ),
+    failureReason: "none"
+  };
+}
+
+function toRawBoardDetection(
+  board: MarkerBoard,
+  members: WorkerDetection[],
+  mount: MarkerRegistryEntry,
+  nowMs: number,
+  captureWidth: number,
+  captureHeight: number,
+  intrinsics: CameraIntrinsics | null,
+  frame: unknown,
+  referenceSpace: unknown,
+): { detection: RawMarkerDetection | null; failureReason: string } {
+  const poseResult = solveBoardPoseFromCorners(board, members, captureWidth, captureHeight, intrinsics);
+  if (!poseResult.pose) {
+    return {
+      detection: null,
+      failureReason: poseResult.failureReason
+    };
+  }
+
+  // Each member is an independent look at the same pose.
+  const confidence = 1 - members.reduce((miss, member) => miss * (1 - member.confidence), 1);
+  return {
+    detection: toWorldDetection(
+      board.boardId,
+      poseResult.pose,
+      mount,
+      confidence,
+      markerBoardExtentMeters(board),
+      members.length,
+      nowMs,
+      frame,
+      referenceSpace
+    ),
+    failureReason: "none"
+  };
+}
+
+function countMembers(boardMembers: Map<MarkerBoard, WorkerDetection[]>): number {
+  let count = 0;
+  for (const members of boardMembers.values()) {
+    count += members.length;
+  }
+  return count;
+}
+
+function toWorldDetection(
+  markerId: number,
+  pose: SolvedPose,
+  marker: MarkerRegistryEntry,
+  confidence: number,
+  sizeMeters: number,
+  markerCount: number,
+  nowMs: number,
+  frame: unknown,
+  referenceSpace: unknown
+): RawMarkerDetection {
   const viewer = resolveViewerTransform(frame, referenceSpace) ?? {
     position: DESKTOP_CAMERA_WORLD_POS,
     rotation: IDENTITY_ROTATION
   };
 
-  const poseEstimate = resolveCameraPoseEstimate(poseResult.pose);
+  const poseEstimate = resolveCameraPoseEstimate(pose);
   const cameraRelative = poseEstimate.position;
-  const rotation = poseEstimate.rotation;
+  // Undo the mounting rotation so a marker taped on sideways still yields the mount's frame.
+  const rotation = marker.mountRotationDeg === 0
+    ? poseEstimate.rotation
+    : multiplyQuat(poseEstimate.rotation, quatAboutZ((marker.mountRotationDeg * Math.PI) / 180));
   const worldRotation = multiplyQuat(viewer.rotation, rotation);
   const worldPosition = addVec3(
     viewer.position,
@@ -884,33 +1077,15 @@ function toRawMarkerDetection(
   );
 
   return {
-    detection: {
-      markerId: detection.markerId,
-      pose: {
-        position: worldPosition,
-        rotation: worldRotation,
-        confidence: detection.confidence,
-        lastSeenAtMs: nowMs
-      },
-      sizeMeters: DEFAULT_MARKER_SIZE_METERS
+    markerId,
+    pose: {
+      position: worldPosition,
+      rotation: worldRotation,
+      confidence,
+      lastSeenAtMs: nowMs
     },
-    failureReason: "none"
-  };
-}
-
-function resolveCameraPoseEstimate(
-  pose: SolvedPose
-): {
-  position: { x: number; y: number; z: number };
-  rotation: { x: number; y: number; z: number; w: number };
-} {
-  return {
-    position: {
-      x: pose.translationMm[0] / 1000,
-      y: pose.translationMm[1] / 1000,
-      z: -pose.translationMm[2] / 1000
-    },
-    rotation: quaternionFromPositMatrix(pose.rotation)
+    sizeMeters,
+    markerCount
   };
 }
 
@@ -928,6 +1103,8 @@ function createEmptyDebugInfo(): WorkerDebugInfo {
     rejectedTooSmall: 0,
     rejectedBadAspect: 0,
     rejectedLowConfidence: 0,
+    rejectedDuplicateId: 0,
+    rejectedOverCap: 0,
   };
 }
 
@@ -1198,157 +1375,6 @@ function createProgram(
   return program;
 }
 
-function solvePoseFromCorners(
-  detection: WorkerDetection,
-  captureWidth: number,
-  captureHeight: number
-): { pose: SolvedPose | null; failureReason: string } {
-  if (!detection.corners || detection.corners.length < 4) {
-    return { pose: null, failureReason: "no-corners" };
-  }
-
-  const focalLengthPx = captureWidth;
-  if (!positSolver || Math.abs(positFocalLengthPx - focalLengthPx) > 0.001) {
-    positSolver = new PositCtor(MARKER_MODEL_SIZE_MM, focalLengthPx);
-    positFocalLengthPx = focalLengthPx;
-  }
-
-  const centeredCorners = detection.corners.map((corner) => ({
-    x: corner.x - captureWidth * 0.5,
-    y: captureHeight * 0.5 - corner.y
-  }));
-
-  try {
-    const pose = positSolver.pose(centeredCorners) as {
-      bestError?: number;
-      bestRotation?: number[][];
-      bestTranslation?: number[];
-      alternativeError?: number;
-      alternativeRotation?: number[][];
-      alternativeTranslation?: number[];
-    };
-
-    const candidates = [
-      toSolvedPoseCandidate(pose?.bestError, pose?.bestRotation, pose?.bestTranslation),
-      toSolvedPoseCandidate(pose?.alternativeError, pose?.alternativeRotation, pose?.alternativeTranslation),
-    ].filter((candidate): candidate is SolvedPose => Boolean(candidate));
-
-    if (candidates.length === 0) {
-      return { pose: null, failureReason: "no-valid-candidate" };
-    }
-
-    candidates.sort((a, b) => a.error - b.error);
-    return { pose: candidates[0], failureReason: "none" };
-  } catch {
-    return { pose: null, failureReason: "exception" };
-  }
-}
-
-function toSolvedPoseCandidate(
-  error: number | undefined,
-  rotation: number[][] | undefined,
-  translation: number[] | undefined
-): SolvedPose | null {
-  if (
-    typeof error !== "number" ||
-    !Array.isArray(rotation) ||
-    rotation.length !== 3 ||
-    !Array.isArray(translation) ||
-    translation.length !== 3
-  ) {
-    return null;
-  }
-
-  const translationMm = translation as [number, number, number];
-  if (
-    !Number.isFinite(translationMm[0]) ||
-    !Number.isFinite(translationMm[1]) ||
-    !Number.isFinite(translationMm[2]) ||
-    translationMm[2] <= 1
-  ) {
-    return null;
-  }
-
-  return {
-    rotation,
-    translationMm,
-    error
-  };
-}
-
-function quaternionFromPositMatrix(matrix: number[][]): { x: number; y: number; z: number; w: number } {
-  if (
-    matrix.length !== 3 ||
-    matrix.some((row) => !Array.isArray(row) || row.length !== 3)
-  ) {
-    return IDENTITY_ROTATION;
-  }
-
-  // POSIT solves in a +Z-forward camera space. Three.js camera space is +Z-backward,
-  // and our marker frame is authored for Three, so conjugate by Z flip on both sides.
-  const m00 = matrix[0][0];
-  const m01 = matrix[0][1];
-  const m02 = -matrix[0][2];
-  const m10 = matrix[1][0];
-  const m11 = matrix[1][1];
-  const m12 = -matrix[1][2];
-  const m20 = -matrix[2][0];
-  const m21 = -matrix[2][1];
-  const m22 = matrix[2][2];
-
-  const trace = m00 + m11 + m22;
-  if (trace > 0) {
-    const s = Math.sqrt(trace + 1) * 2;
-    return normalizeQuaternion({
-      w: 0.25 * s,
-      x: (m21 - m12) / s,
-      y: (m02 - m20) / s,
-      z: (m10 - m01) / s
-    });
-  }
-  if (m00 > m11 && m00 > m22) {
-    const s = Math.sqrt(1 + m00 - m11 - m22) * 2;
-    return normalizeQuaternion({
-      w: (m21 - m12) / s,
-      x: 0.25 * s,
-      y: (m01 + m10) / s,
-      z: (m02 + m20) / s
-    });
-  }
-  if (m11 > m22) {
-    const s = Math.sqrt(1 + m11 - m00 - m22) * 2;
-    return normalizeQuaternion({
-      w: (m02 - m20) / s,
-      x: (m01 + m10) / s,
-      y: 0.25 * s,
-      z: (m12 + m21) / s
-    });
-  }
-
-  const s = Math.sqrt(1 + m22 - m00 - m11) * 2;
-  return normalizeQuaternion({
-    w: (m10 - m01) / s,
-    x: (m02 + m20) / s,
-    y: (m12 + m21) / s,
-    z: 0.25 * s
-  });
-}
-
-function normalizeQuaternion(q: { x: number; y: number; z: number; w: number }): {
-  x: number; y: number; z: number; w: number;
-} {
-  const length = Math.hypot(q.x, q.y, q.z, q.w);
-  if (length < 1e-6) {
-    return IDENTITY_ROTATION;
-  }
-  return {
-    x: q.x / length,
-    y: q.y / length,
-    z: q.z / length,
-    w: q.w / length
-  };
-}
-
 function addVec3(
   a: { x: number; y: number; z: number },
   b: { x: number; y: number; z: number }
@@ -1379,6 +1405,10 @@ function rotateVecByQuat(
   };
 }
 
+function quatAboutZ(angleRad: number): { x: number; y: number; z: number; w: number } {
+  return { x: 0, y: 0, z: Math.sin(angleRad / 2), w: Math.cos(angleRad / 2) };
+}
+
 function multiplyQuat(
   a: { x: number; y: number; z: number; w: number },
   b: { x: number; y: number; z: number; w: number }
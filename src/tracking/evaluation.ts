@@ -0,0 +1,446 @@
+/**
+ * Offline tracking evaluation: runs recorded frames through the same decode
+ * (`MarkerDetectionPipeline.runDetection`) and pose (`solvePoseFromCorners`) code as the
+ * live detector and scores the output against ground-truth annotations.
+ *
+ * Only web APIs are used here; `scripts/eval-tracking.mjs` reads the files and prints
+ * the report.
+ */
+
+import type { MarkerDictionary } from "../contracts/domain";
+import type { CameraIntrinsics } from "./camera-calibration";
+import { isMarkerDictionary } from "./marker-dictionaries";
+import {
+  DEFAULT_MAX_MARKERS,
+  MarkerDetectionPipeline,
+  type MarkerDetectionTuning
+} from "./marker-detection";
+import { resolveCameraPoseEstimate, solvePoseFromCorners } from "./pose-solver";
+
+/** One annotated marker. Pose, when given, is camera-relative in meters (+Y up, -Z forward). */
+export interface GroundTruthMarker {
+  markerId: number;
+  /** Pixel corners in TL, TR, BR, BL order. */
+  corners: Array<{ x: number; y: number }>;
+  position?: { x: number; y: number; z: number };
+  rotation?: { x: number; y: number; z: number; w: number };
+}
+
+export interface EvaluationFrame {
+  /** PNG (`.png`) or raw RGBA (any other extension), relative to the sequence file. */
+  file: string;
+  markers: GroundTruthMarker[];
+}
+
+export interface EvaluationSequence {
+  name: string;
+  width: number;
+  height: number;
+  /** Printed marker size used for pose solving. Default 0.12. */
+  markerSizeMeters: number;
+  /** Dictionary the recorded markers are printed in; falls back to the tuning's dictionary. */
+  dictionary?: MarkerDictionary;
+  intrinsics: CameraIntrinsics | null;
+  frames: EvaluationFrame[];
+}
+
+export interface DecodedFrame {
+  width: number;
+  height: number;
+  rgba: Uint8ClampedArray;
+}
+
+export interface SequenceReport {
+  name: string;
+  frameCount: number;
+  groundTruthCount: number;
+  detectionCount: number;
+  /** Ground-truth markers found with the right ID. */
+  matchedCount: number;
+  /** Detections with the wrong ID or with no marker there at all. */
+  falseIdCount: number;
+  detectionRate: number;
+  falseIdRate: number;
+  /** RMS corner distance over matched markers, in pixels. */
+  cornerRmsPx: number;
+  /** Matched markers that had a ground-truth pose and a solved pose. */
+  poseSampleCount: number;
+  meanPositionErrorMeters: number;
+  medianPositionErrorMeters: number;
+  meanRotationErrorDeg: number;
+  meanDetectMs: number;
+}
+
+export class EvaluationSequenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EvaluationSequenceError";
+  }
+}
+
+/** Parses a sequence annotation file; see docs/markers.md for the format. */
+export function parseEvaluationSequence(input: unknown, fallbackName: string): EvaluationSequence {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    throw new EvaluationSequenceError("sequence must be a JSON object.");
+  }
+  const sequence = input as Record<string, unknown>;
+  if (!isPositiveInteger(sequence.width) || !isPositiveInteger(sequence.height)) {
+    throw new EvaluationSequenceError("width and height must be positive integers.");
+  }
+  if (!Array.isArray(sequence.frames) || sequence.frames.length === 0) {
+    throw new EvaluationSequenceError("frames must be a non-empty array.");
+  }
+  const markerSizeMeters = sequence.markerSizeMeters ?? 0.12;
+  if (typeof markerSizeMeters !== "number" || !(markerSizeMeters > 0)) {
+    throw new EvaluationSequenceError("markerSizeMeters must be a positive number.");
+  }
+  if (sequence.dictionary !== undefined && !isMarkerDictionary(sequence.dictionary)) {
+    throw new EvaluationSequenceError(`unsupported dictionary "${String(sequence.dictionary)}".`);
+  }
+
+  const frames = sequence.frames.map((raw, frameIndex): EvaluationFrame => {
+    const frame = (typeof raw === "object" && raw !== null ? raw : {}) as Record<string, unknown>;
+    if (typeof frame.file !== "string" || frame.file.length === 0) {
+      throw new EvaluationSequenceError(`frames[${frameIndex}].file must be a file name.`);
+    }
+    const markers = Array.isArray(frame.markers) ? frame.markers : [];
+    return {
+      file: frame.file,
+      markers: markers.map((marker, markerIndex) =>
+        parseGroundTruthMarker(marker, `frames[${frameIndex}].markers[${markerIndex}]`)
+      )
+    };
+  });
+
+  return {
+    name: typeof sequence.name === "string" ? sequence.name : fallbackName,
+    width: sequence.width,
+    height: sequence.height,
+    markerSizeMeters,
+    dictionary: sequence.dictionary,
+    intrinsics: sequence.intrinsics === undefined ? null : parseIntrinsics(sequence.intrinsics),
+    frames
+  };
+}
+
+function parseIntrinsics(input: unknown): CameraIntrinsics {
+  const intrinsics = (typeof input === "object" && input !== null ? input : {}) as Record<string, unknown>;
+  if (!isPositiveInteger(intrinsics.width) || !isPositiveInteger(intrinsics.height)) {
+    throw new EvaluationSequenceError("intrinsics.width and intrinsics.height must be positive integers.");
+  }
+  for (const key of ["fx", "fy"] as const) {
+    if (!Number.isFinite(intrinsics[key]) || !((intrinsics[key] as number) > 0)) {
+      throw new EvaluationSequenceError(`intrinsics.${key} must be a positive number.`);
+    }
+  }
+  for (const key of ["cx", "cy", "k1", "k2"] as const) {
+    if (!Number.isFinite(intrinsics[key])) {
+      throw new EvaluationSequenceError(`intrinsics.${key} must be a finite number.`);
+    }
+  }
+  return {
+    width: intrinsics.width,
+    height: intrinsics.height,
+    fx: intrinsics.fx as number,
+    fy: intrinsics.fy as number,
+    cx: intrinsics.cx as number,
+    cy: intrinsics.cy as number,
+    k1: intrinsics.k1 as number,
+    k2: intrinsics.k2 as number
+  };
+}
+
+function parseGroundTruthMarker(input: unknown, path: string): GroundTruthMarker {
+  const marker = (typeof input === "object" && input !== null ? input : {}) as Record<string, unknown>;
+  if (typeof marker.markerId !== "number" || !Number.isInteger(marker.markerId)) {
+    throw new EvaluationSequenceError(`${path}.markerId must be an integer.`);
+  }
+  const corners = marker.corners;
+  if (!Array.isArray(corners) || corners.length !== 4 || !corners.every(isNumberPair)) {
+    throw new EvaluationSequenceError(`${path}.corners must be four [x, y] pairs.`);
+  }
+  const position = marker.position;
+  if (position !== undefined && !(Array.isArray(position) && position.length === 3 && position.every(Number.isFinite))) {
+    throw new EvaluationSequenceError(`${path}.position must be [x, y, z] in meters.`);
+  }
+  const rotation = marker.rotation;
+  if (rotation !== undefined && !(Array.isArray(rotation) && rotation.length === 4 && rotation.every(Number.isFinite))) {
+    throw new EvaluationSequenceError(`${path}.rotation must be a quaternion [x, y, z, w].`);
+  }
+
+  return {
+    markerId: marker.markerId,
+    corners: corners.map(([x, y]) => ({ x, y })),
+    position: position ? { x: position[0], y: position[1], z: position[2] } : undefined,
+    rotation: rotation ? { x: rotation[0], y: rotation[1], z: rotation[2], w: rotation[3] } : undefined
+  };
+}
+
+/** Decodes a `.png` frame, or wraps raw RGBA bytes after checking their length. */
+export async function decodeFrame(
+  file: string,
+  bytes: Uint8Array,
+  width: number,
+  height: number
+): Promise<DecodedFrame> {
+  if (file.toLowerCase().endsWith(".png")) {
+    return decodePng(bytes);
+  }
+  if (bytes.length !== width * height * 4) {
+    throw new EvaluationSequenceError(`${file}: expected ${width * height * 4} RGBA bytes, got ${bytes.length}.`);
+  }
+  return { width, height, rgba: new Uint8ClampedArray(bytes.buffer, bytes.byteOffset, bytes.length) };
+}
+
+/**
+ * Runs every frame of a sequence in order through a fresh detection pipeline, so
+ * streak filtering behaves as it does on a live camera.
+ */
+export async function evaluateSequence(
+  sequence: EvaluationSequence,
+  loadFrame: (file: string) => Promise<DecodedFrame>,
+  tuning: Partial<MarkerDetectionTuning> = {}
+): Promise<SequenceReport> {
+  const pipeline = new MarkerDetectionPipeline({ ...tuning, dictionary: sequence.dictionary ?? tuning.dictionary });
+  let groundTruthCount = 0;
+  let detectionCount = 0;
+  let matchedCount = 0;
+  let falseIdCount = 0;
+  let cornerSquaredError = 0;
+  let cornerCount = 0;
+  let detectMs = 0;
+  const positionErrors: number[] = [];
+  let rotationErrorDeg = 0;
+  let rotationSamples = 0;
+
+  for (const frame of sequence.frames) {
+    const image = await loadFrame(frame.file);
+    if (image.width !== sequence.width || image.height !== sequence.height) {
+      throw new EvaluationSequenceError(
+        `${frame.file}: frame is ${image.width}x${image.height}, sequence is ${sequence.width}x${sequence.height}.`
+      );
+    }
+    const startedAt = performance.now();
+    const result = pipeline.runDetection(image.rgba, image.width, image.height, DEFAULT_MAX_MARKERS);
+    detectMs += performance.now() - startedAt;
+
+    groundTruthCount += frame.markers.length;
+    detectionCount += result.detections.length;
+    const matched = new Set<GroundTruthMarker>();
+    for (const detection of result.detections) {
+      const truth = nearestGroundTruth(frame.markers, detection.corners);
+      if (!truth || truth.markerId !== detection.markerId || matched.has(truth)) {
+        falseIdCount++;
+        continue;
+      }
+      matched.add(truth);
+      matchedCount++;
+      detection.corners.forEach((corner, i) => {
+        cornerSquaredError += (corner.x - truth.corners[i].x) ** 2 + (corner.y - truth.corners[i].y) ** 2;
+        cornerCount++;
+      });
+
+      if (!truth.position) {
+        continue;
+      }
+      const solved = solvePoseFromCorners(
+        detection,
+        sequence.width,
+        sequence.height,
+        sequence.intrinsics,
+        sequence.markerSizeMeters * 1000
+      );
+      if (!solved.pose) {
+        continue;
+      }
+      const estimate = resolveCameraPoseEstimate(solved.pose);
+      positionErrors.push(Math.hypot(
+        estimate.position.x - truth.position.x,
+        estimate.position.y - truth.position.y,
+        estimate.position.z - truth.position.z
+      ));
+      if (truth.rotation) {
+        const dot = Math.abs(
+          estimate.rotation.x * truth.rotation.x +
+          estimate.rotation.y * truth.rotation.y +
+          estimate.rotation.z * truth.rotation.z +
+          estimate.rotation.w * truth.rotation.w
+        );
+        rotationErrorDeg += (2 * Math.acos(Math.min(1, dot)) * 180) / Math.PI;
+        rotationSamples++;
+      }
+    }
+  }
+
+  const sortedErrors = [...positionErrors].sort((a, b) => a - b);
+  return {
+    name: sequence.name,
+    frameCount: sequence.frames.length,
+    groundTruthCount,
+    detectionCount,
+    matchedCount,
+    falseIdCount,
+    detectionRate: groundTruthCount > 0 ? matchedCount / groundTruthCount : 0,
+    falseIdRate: detectionCount > 0 ? falseIdCount / detectionCount : 0,
+    cornerRmsPx: cornerCount > 0 ? Math.sqrt(cornerSquaredError / cornerCount) : 0,
+    poseSampleCount: positionErrors.length,
+    meanPositionErrorMeters: mean(positionErrors),
+    medianPositionErrorMeters: sortedErrors.length > 0 ? sortedErrors[Math.floor(sortedErrors.length / 2)] : 0,
+    meanRotationErrorDeg: rotationSamples > 0 ? rotationErrorDeg / rotationSamples : 0,
+    meanDetectMs: detectMs / sequence.frames.length
+  };
+}
+
+/** Plain-text table, one row per sequence. */
+export function formatEvaluationReport(reports: SequenceReport[]): string {
+  const header = ["sequence", "frames", "det rate", "false-ID", "corner px", "pose n", "pos err cm", "rot err °", "ms/frame"];
+  const rows = reports.map((report) => [
+    report.name,
+    String(report.frameCount),
+    `${(report.detectionRate * 100).toFixed(1)}%`,
+    `${(report.falseIdRate * 100).toFixed(1)}%`,
+    report.cornerRmsPx.toFixed(2),
+    String(report.poseSampleCount),
+    report.poseSampleCount > 0
+      ? `${(report.meanPositionErrorMeters * 100).toFixed(1)} (med ${(report.medianPositionErrorMeters * 100).toFixed(1)})`
+      : "-",
+    report.poseSampleCount > 0 ? report.meanRotationErrorDeg.toFixed(1) : "-",
+    report.meanDetectMs.toFixed(1)
+  ]);
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map((row) => row[i].length)));
+  return [header, ...rows]
+    .map((row) => row.map((cell, i) => cell.padEnd(widths[i])).join("  "))
+    .join("\n");
+}
+
+/** Ground-truth marker whose quad contains the detection's center, if any. */
+function nearestGroundTruth(
+  markers: GroundTruthMarker[],
+  corners: Array<{ x: number; y: number }>
+): GroundTruthMarker | null {
+  const center = centroid(corners);
+  let best: GroundTruthMarker | null = null;
+  let bestDistance = Number.POSITIVE_INFINITY;
+  for (const marker of markers) {
+    const truthCenter = centroid(marker.corners);
+    const distance = Math.hypot(center.x - truthCenter.x, center.y - truthCenter.y);
+    // Half the diagonal: anything further is outside the annotated marker.
+    const radius = Math.hypot(marker.corners[2].x - marker.corners[0].x, marker.corners[2].y - marker.corners[0].y) / 2;
+    if (distance <= radius && distance < bestDistance) {
+      best = marker;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function centroid(points: Array<{ x: number; y: number }>): { x: number; y: number } {
+  let x = 0;
+  let y = 0;
+  for (const point of points) {
+    x += point.x;
+    y += point.y;
+  }
+  return { x: x / points.length, y: y / points.length };
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+function isNumberPair(value: unknown): value is [number, number] {
+  return Array.isArray(value) && value.length === 2 && value.every(Number.isFinite);
+}
+
+// ---- PNG decoding (8-bit, non-interlaced) ----
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+
+export async function decodePng(bytes: Uint8Array): Promise<DecodedFrame> {
+  if (!PNG_SIGNATURE.every((value, i) => bytes[i] === value)) {
+    throw new EvaluationSequenceError("not a PNG file.");
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let width = 0;
+  let height = 0;
+  let channels = 0;
+  const idat: Uint8Array<ArrayBuffer>[] = [];
+  for (let offset = 8; offset + 8 <= bytes.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === "IHDR") {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+      const bitDepth = data[8];
+      const colorType = data[9];
+      const interlace = data[12];
+      channels = PNG_CHANNELS[colorType] ?? 0;
+      if (bitDepth !== 8 || channels === 0 || interlace !== 0) {
+        throw new EvaluationSequenceError(
+          `unsupported PNG (bit depth ${bitDepth}, color type ${colorType}, interlace ${interlace}); use 8-bit gray, RGB or RGBA.`
+        );
+      }
+    } else if (type === "IDAT") {
+      idat.push(data.slice());
+    } else if (type === "IEND") {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  const inflated = new Uint8Array(
+    await new Response(new Blob(idat).stream().pipeThrough(new DecompressionStream("deflate"))).arrayBuffer()
+  );
+  const stride = width * channels;
+  if (inflated.length < (stride + 1) * height) {
+    throw new EvaluationSequenceError("truncated PNG image data.");
+  }
+
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  let previous = new Uint8Array(stride);
+  for (let row = 0; row < height; row++) {
+    const filter = inflated[row * (stride + 1)];
+    const line = inflated.slice(row * (stride + 1) + 1, (row + 1) * (stride + 1));
+    unfilterScanline(filter, line, previous, channels);
+    for (let x = 0; x < width; x++) {
+      const source = x * channels;
+      const target = (row * width + x) * 4;
+      const gray = channels <= 2;
+      rgba[target] = line[source];
+      rgba[target + 1] = gray ? line[source] : line[source + 1];
+      rgba[target + 2] = gray ? line[source] : line[source + 2];
+      rgba[target + 3] = channels === 4 ? line[source + 3] : channels === 2 ? line[source + 1] : 255;
+    }
+    previous = line;
+  }
+  return { width, height, rgba };
+}
+
+function unfilterScanline(filter: number, line: Uint8Array, previous: Uint8Array, bytesPerPixel: number): void {
+  for (let i = 0; i < line.length; i++) {
+    const left = i >= bytesPerPixel ? line[i - bytesPerPixel] : 0;
+    const up = previous[i];
+    const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+    let predictor = 0;
+    if (filter === 1) {
+      predictor = left;
+    } else if (filter === 2) {
+      predictor = up;
+    } else if (filter === 3) {
+      predictor = (left + up) >> 1;
+    } else if (filter === 4) {
+      const p = left + up - upLeft;
+      const pa = Math.abs(p - left);
+      const pb = Math.abs(p - up);
+      const pc = Math.abs(p - upLeft);
+      predictor = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+    }
+    line[i] = (line[i] + predictor) & 0xff;
+  }
+}
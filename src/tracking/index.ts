@@ -8,9 +8,52 @@ export type {
   SwitchableMode
 } from "./detector";
 export { PoseSmoother } from "./pose-smoother";
+export { MarkerAnchorPersistence } from "./persistent-anchors";
+export { createPoseFilter } from "./pose-filters";
+export {
+  CameraCalibrationError,
+  CameraCalibrationSession,
+  DEFAULT_CALIBRATION_BOARD,
+  MIN_CALIBRATION_FRAMES,
+  scaleIntrinsics,
+  solveCameraIntrinsics,
+  solvePlanarPose,
+  undistortPoint,
+  type CalibrationBoard,
+  type CalibrationResult,
+  type CameraCalibrationSessionOptions,
+  type CameraIntrinsics,
+  type PlanarPose
+} from "./camera-calibration";
+export { CameraProfileStore, type CameraProfile } from "./camera-profiles";
+export {
+  MarkerBoardError,
+  markerBoardCorners,
+  markerBoardExtentMeters,
+  parseMarkerBoards,
+  type MarkerBoard,
+  type MarkerBoardMarker
+} from "./marker-board";
+export {
+  DEFAULT_MARKER_DICTIONARY,
+  MARKER_DICTIONARIES,
+  MARKER_DICTIONARY_SPECS,
+  isMarkerDictionary,
+  type MarkerDictionarySpec
+} from "./marker-dictionaries";
+export {
+  DEFAULT_MARKER_ENTRY,
+  MarkerRegistry,
+  MarkerRegistryError,
+  parseMarkerRegistry
+} from "./marker-registry";
 export type {
   MarkerDetector,
+  MarkerRegistryEntry,
   RawMarkerDetection,
   SmootherConfig,
   MarkerSmoothState,
+  PoseFilter,
+  PoseFilterEstimate,
+  PoseFilterKind,
 } from "./types";
@@ -0,0 +1,170 @@
+/**
+ * Rigid multi-marker targets. A board is tracked as one anchor whose pose is solved from
+ * the corners of every visible member marker, which is far steadier at range than a single
+ * marker's four corners.
+ */
+
+/** One marker on a board. `x`/`y` locate the marker center on the board plane (meters, +Y up). */
+export interface MarkerBoardMarker {
+  markerId: number;
+  x: number;
+  y: number;
+  sizeMeters: number;
+}
+
+export interface MarkerBoard {
+  /** Anchor ID the board is reported under; nodes and registry entries reference it like a marker ID. */
+  boardId: number;
+  label?: string;
+  markers: MarkerBoardMarker[];
+}
+
+export class MarkerBoardError extends Error {
+  readonly boardIndex: number | null;
+
+  constructor(message: string, boardIndex: number | null) {
+    super(boardIndex === null ? message : `Board ${boardIndex}: ${message}`);
+    this.name = "MarkerBoardError";
+    this.boardIndex = boardIndex;
+  }
+}
+
+/**
+ * Board-plane corners of a member marker in the detector's TL, TR, BR, BL order,
+ * in meters with +Y up.
+ */
+export function markerBoardCorners(marker: MarkerBoardMarker): Array<{ x: number; y: number }> {
+  const half = marker.sizeMeters / 2;
+  return [
+    { x: marker.x - half, y: marker.y + half },
+    { x: marker.x + half, y: marker.y + half },
+    { x: marker.x + half, y: marker.y - half },
+    { x: marker.x - half, y: marker.y - half }
+  ];
+}
+
+/** Longest side of the board's bounding box, in meters. */
+export function markerBoardExtentMeters(board: MarkerBoard): number {
+  let minX = Number.POSITIVE_INFINITY;
+  let maxX = Number.NEGATIVE_INFINITY;
+  let minY = Number.POSITIVE_INFINITY;
+  let maxY = Number.NEGATIVE_INFINITY;
+  for (const marker of board.markers) {
+    const half = marker.sizeMeters / 2;
+    minX = Math.min(minX, marker.x - half);
+    maxX = Math.max(maxX, marker.x + half);
+    minY = Math.min(minY, marker.y - half);
+    maxY = Math.max(maxY, marker.y + half);
+  }
+  return board.markers.length === 0 ? 0 : Math.max(maxX - minX, maxY - minY);
+}
+
+/**
+ * Parses a JSON list of boards, throwing `MarkerBoardError` on the first bad board. Each
+ * board lists its `markers` explicitly or uses the grid shorthand
+ * (`columns`, `rows`, `markerSizeMeters`, `gapMeters`, `firstMarkerId`), which numbers
+ * markers row by row from the top left and centers the grid on the board origin.
+ * Marker IDs must be unique across all boards and must not collide with a board ID.
+ */
+export function parseMarkerBoards(input: unknown): MarkerBoard[] {
+  if (!Array.isArray(input)) {
+    throw new MarkerBoardError("marker boards must be a JSON array.", null);
+  }
+
+  const usedIds = new Set<number>();
+  const claimId = (id: number, index: number, what: string): void => {
+    if (usedIds.has(id)) {
+      throw new MarkerBoardError(`${what} ${id} is already used by another board or marker.`, index);
+    }
+    usedIds.add(id);
+  };
+
+  return input.map((raw, index) => {
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+      throw new MarkerBoardError("must be an object.", index);
+    }
+    const board = raw as Record<string, unknown>;
+    if (!isMarkerId(board.boardId)) {
+      throw new MarkerBoardError("boardId must be a non-negative integer.", index);
+    }
+    if (board.label !== undefined && typeof board.label !== "string") {
+      throw new MarkerBoardError("label must be a string.", index);
+    }
+
+    const markers = board.markers !== undefined ? parseBoardMarkers(board.markers, index) : expandGrid(board, index);
+    if (markers.length === 0) {
+      throw new MarkerBoardError("needs at least one marker.", index);
+    }
+    claimId(board.boardId, index, "boardId");
+    for (const marker of markers) {
+      claimId(marker.markerId, index, "markerId");
+    }
+
+    return {
+      boardId: board.boardId,
+      label: board.label as string | undefined,
+      markers
+    };
+  });
+}
+
+function parseBoardMarkers(input: unknown, boardIndex: number): MarkerBoardMarker[] {
+  if (!Array.isArray(input)) {
+    throw new MarkerBoardError("markers must be an array.", boardIndex);
+  }
+  return input.map((raw, markerIndex) => {
+    const marker = (typeof raw === "object" && raw !== null ? raw : {}) as Record<string, unknown>;
+    if (!isMarkerId(marker.markerId)) {
+      throw new MarkerBoardError(`markers[${markerIndex}].markerId must be a non-negative integer.`, boardIndex);
+    }
+    if (typeof marker.x !== "number" || !Number.isFinite(marker.x) || typeof marker.y !== "number" || !Number.isFinite(marker.y)) {
+      throw new MarkerBoardError(`markers[${markerIndex}] needs numeric x and y (meters).`, boardIndex);
+    }
+    if (!isMarkerSize(marker.sizeMeters)) {
+      throw new MarkerBoardError(`markers[${markerIndex}].sizeMeters must be a number between 0 and 5.`, boardIndex);
+    }
+    return { markerId: marker.markerId, x: marker.x, y: marker.y, sizeMeters: marker.sizeMeters };
+  });
+}
+
+function expandGrid(board: Record<string, unknown>, boardIndex: number): MarkerBoardMarker[] {
+  const { columns, rows, markerSizeMeters, gapMeters, firstMarkerId } = board;
+  if (!isCount(columns) || !isCount(rows)) {
+    throw new MarkerBoardError("needs markers, or grid columns and rows.", boardIndex);
+  }
+  if (!isMarkerSize(markerSizeMeters)) {
+    throw new MarkerBoardError("markerSizeMeters must be a number between 0 and 5.", boardIndex);
+  }
+  if (typeof gapMeters !== "number" || !(gapMeters >= 0)) {
+    throw new MarkerBoardError("gapMeters must be a non-negative number.", boardIndex);
+  }
+  if (!isMarkerId(firstMarkerId)) {
+    throw new MarkerBoardError("firstMarkerId must be a non-negative integer.", boardIndex);
+  }
+
+  const pitch = markerSizeMeters + gapMeters;
+  const markers: MarkerBoardMarker[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      markers.push({
+        markerId: firstMarkerId + row * columns + column,
+        x: (column - (columns - 1) / 2) * pitch,
+        y: ((rows - 1) / 2 - row) * pitch,
+        sizeMeters: markerSizeMeters
+      });
+    }
+  }
+  return markers;
+}
+
+function isMarkerId(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+function isMarkerSize(value: unknown): value is number {
+  return typeof value === "number" && value > 0 && value <= 5;
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= 16;
+}
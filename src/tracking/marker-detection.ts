@@ -0,0 +1,341 @@
+/**
+ * ArUco decode and candidate filtering (js-aruco2), shared by the marker worker and the
+ * offline evaluation runner so both exercise exactly the same code.
+ *
+ * The dictionary is chosen per pipeline; see `MARKER_DICTIONARY_SPECS`.
+ */
+
+import cvSource from "js-aruco2/src/cv.js?raw";
+import arucoSource from "js-aruco2/src/aruco.js?raw";
+import aruco4x4Source from "js-aruco2/src/dictionaries/aruco_4x4_1000.js?raw";
+import aruco5x5Source from "js-aruco2/src/dictionaries/aruco_5x5_1000.js?raw";
+import aruco6x6Source from "js-aruco2/src/dictionaries/aruco_6x6_1000.js?raw";
+import apriltag36h11Source from "js-aruco2/src/dictionaries/apriltag_36h11.js?raw";
+import type { MarkerDictionary } from "../contracts/domain";
+import { DEFAULT_MARKER_DICTIONARY, MARKER_DICTIONARY_SPECS } from "./marker-dictionaries";
+
+export interface WorkerDetection {
+  markerId: number;
+  xNorm: number;
+  yNorm: number;
+  sizeNorm: number;
+  confidence: number;
+  score: number;
+  corners: Array<{ x: number; y: number }>;
+}
+
+export interface WorkerDebugInfo {
+  decodedMarkers: number;
+  contourCount: number;
+  polyCount: number;
+  candidateQuadCount: number;
+  validIdCount: number;
+  candidateCount: number;
+  stableCount: number;
+  filteredCount: number;
+  rejectedInvalidId: number;
+  rejectedTooSmall: number;
+  rejectedBadAspect: number;
+  rejectedLowConfidence: number;
+  rejectedDuplicateId: number;
+  rejectedOverCap: number;
+}
+
+/** Thresholds for accepting decoded markers. */
+export interface MarkerDetectionTuning {
+  dictionary: MarkerDictionary;
+  /** The dictionary lookup accepts codes fewer than this many bits away. */
+  maxHammingDistance: number;
+  /** Highest accepted ID; capped to the dictionary's size. */
+  maxValidId: number;
+  /** Smallest accepted corner-to-corner diagonal, in pixels. */
+  minDiagonalPx: number;
+  minConfidence: number;
+  /** Smallest accepted short-side / long-side ratio. */
+  minAspectRatio: number;
+  /** Consecutive frames an ID must be seen before it is reported. */
+  minStreak: number;
+  /** Streak lost per frame an ID is missing. */
+  streakDecay: number;
+}
+
+/** Defaults for the 6x6 dictionary; other dictionaries take their own ID range and Hamming limit. */
+export const DEFAULT_MARKER_DETECTION_TUNING: MarkerDetectionTuning = {
+  dictionary: DEFAULT_MARKER_DICTIONARY,
+  maxHammingDistance: MARKER_DICTIONARY_SPECS[DEFAULT_MARKER_DICTIONARY].maxHammingDistance,
+  maxValidId: MARKER_DICTIONARY_SPECS[DEFAULT_MARKER_DICTIONARY].defaultMaxValidId,
+  minDiagonalPx: 20,
+  minConfidence: 0.7,
+  minAspectRatio: 0.3,
+  minStreak: 2,
+  streakDecay: 2,
+};
+
+export const DEFAULT_MAX_MARKERS = 8;
+
+interface ArucoMarker {
+  id: number;
+  corners: Array<{ x: number; y: number }>;
+  hammingDistance: number;
+}
+
+interface ArucoDetectorInstance {
+  detect(imageData: { width: number; height: number; data: Uint8ClampedArray }): ArucoMarker[];
+  contours?: unknown[];
+  polys?: unknown[];
+  candidates?: unknown[];
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const ctx: Record<string, any> = {};
+
+new Function(cvSource).call(ctx);
+new Function(arucoSource).call(ctx);
+for (const source of [aruco4x4Source, aruco5x5Source, aruco6x6Source, apriltag36h11Source]) {
+  new Function(source).call(ctx);
+}
+
+const AR = ctx.AR;
+if (!AR?.Detector) {
+  throw new Error("Failed to initialize ArUco detector");
+}
+const PARITY_CODES = Array.from({ length: 512 }, (_, id) => parityMarkerCode(id));
+const PARITY_IDS_BY_CODE = new Map(PARITY_CODES.map((code, id) => [code, id]));
+AR.DICTIONARIES[MARKER_DICTIONARY_SPECS["parity-4x4-512"].arucoName] = {
+  nBits: 16,
+  tau: 4,
+  codeList: PARITY_CODES
+};
+
+/**
+ * One detection stream. ID streaks carry over between frames, so use one pipeline per
+ * camera (or recorded sequence) and `reset()` between sequences.
+ */
+export class MarkerDetectionPipeline {
+  readonly tuning: MarkerDetectionTuning;
+  private readonly detector: ArucoDetectorInstance;
+  private readonly reservedIds: ReadonlySet<number>;
+  private readonly idStreak = new Map<number, number>();
+
+  constructor(tuning: Partial<MarkerDetectionTuning> = {}) {
+    const spec = MARKER_DICTIONARY_SPECS[tuning.dictionary ?? DEFAULT_MARKER_DETECTION_TUNING.dictionary];
+    const resolved: MarkerDetectionTuning = {
+      ...DEFAULT_MARKER_DETECTION_TUNING,
+      maxHammingDistance: spec.maxHammingDistance,
+      maxValidId: spec.defaultMaxValidId,
+      ...tuning,
+    };
+    this.tuning = { ...resolved, maxValidId: Math.min(resolved.maxValidId, spec.idCount - 1) };
+    this.detector = new AR.Detector({
+      dictionaryName: spec.arucoName,
+      maxHammingDistance: this.tuning.maxHammingDistance,
+    });
+    this.reservedIds = new Set(spec.reservedIds);
+  }
+
+  reset(): void {
+    this.idStreak.clear();
+  }
+
+  runDetection(
+    rgba: Uint8ClampedArray,
+    width: number,
+    height: number,
+    maxMarkers: number = DEFAULT_MAX_MARKERS
+  ): { detections: WorkerDetection[]; bestId: number | null; debug: WorkerDebugInfo } {
+    let markers = this.detector.detect({ width, height, data: rgba });
+    if (this.tuning.dictionary === "parity-4x4-512") {
+      markers = markers.map(readParityMarkerUpright);
+    }
+    const debug: WorkerDebugInfo = {
+      decodedMarkers: markers.length,
+      contourCount: Array.isArray(this.detector.contours) ? this.detector.contours.length : 0,
+      polyCount: Array.isArray(this.detector.polys) ? this.detector.polys.length : 0,
+      candidateQuadCount: Array.isArray(this.detector.candidates) ? this.detector.candidates.length : 0,
+      validIdCount: 0,
+      candidateCount: 0,
+      stableCount: 0,
+      filteredCount: 0,
+      rejectedInvalidId: 0,
+      rejectedTooSmall: 0,
+      rejectedBadAspect: 0,
+      rejectedLowConfidence: 0,
+      rejectedDuplicateId: 0,
+      rejectedOverCap: 0,
+    };
+
+    const candidates: WorkerDetection[] = [];
+    for (const marker of markers) {
+      if (marker.id < 0 || marker.id > this.tuning.maxValidId || this.reservedIds.has(marker.id)) {
+        debug.rejectedInvalidId++;
+        continue;
+      }
+      debug.validIdCount++;
+
+      let cx = 0;
+      let cy = 0;
+      for (const corner of marker.corners) {
+        cx += corner.x;
+        cy += corner.y;
+      }
+      cx /= 4;
+      cy /= 4;
+
+      const dx = marker.corners[2].x - marker.corners[0].x;
+      const dy = marker.corners[2].y - marker.corners[0].y;
+      const diagonal = Math.sqrt(dx * dx + dy * dy);
+      if (diagonal < this.tuning.minDiagonalPx) {
+        debug.rejectedTooSmall++;
+        continue;
+      }
+
+      const side1 = dist(marker.corners[0], marker.corners[1]);
+      const side2 = dist(marker.corners[1], marker.corners[2]);
+      const minSide = Math.min(side1, side2);
+      const maxSide = Math.max(side1, side2);
+      if (maxSide > 0 && minSide / maxSide < this.tuning.minAspectRatio) {
+        debug.rejectedBadAspect++;
+        continue;
+      }
+
+      const sizeNorm = (diagonal / Math.sqrt(2)) / Math.max(width, height);
+      const confidence = marker.hammingDistance === 0 ? 1.0 : 0.75;
+      if (confidence < this.tuning.minConfidence) {
+        debug.rejectedLowConfidence++;
+        continue;
+      }
+
+      const centeredness = 1 - Math.sqrt(
+        Math.pow(cx / width - 0.5, 2) + Math.pow(cy / height - 0.5, 2)
+      );
+      const score = confidence * 50 + sizeNorm * 30 + centeredness * 20;
+
+      candidates.push({
+        markerId: marker.id,
+        xNorm: cx / width,
+        yNorm: cy / height,
+        sizeNorm,
+        confidence,
+        score,
+        corners: marker.corners,
+      });
+    }
+    debug.candidateCount = candidates.length;
+
+    const seenIds = new Set(candidates.map((candidate) => candidate.markerId));
+    for (const candidate of candidates) {
+      this.idStreak.set(candidate.markerId, (this.idStreak.get(candidate.markerId) ?? 0) + 1);
+    }
+    for (const [id, streak] of this.idStreak) {
+      if (seenIds.has(id)) {
+        continue;
+      }
+      const next = streak - this.tuning.streakDecay;
+      if (next <= 0) {
+        this.idStreak.delete(id);
+      } else {
+        this.idStreak.set(id, next);
+      }
+    }
+
+    const stable = candidates.filter((candidate) => (this.idStreak.get(candidate.markerId) ?? 0) >= this.tuning.minStreak);
+    debug.stableCount = stable.length;
+    if (stable.length === 0) {
+      return { detections: [], bestId: null, debug };
+    }
+
+    stable.sort((a, b) => b.score - a.score);
+
+    // One detection per ID: a repeated ID (reflection, duplicate print) keeps its best-scoring quad.
+    const keptIds = new Set<number>();
+    const filtered: WorkerDetection[] = [];
+    for (const candidate of stable) {
+      if (keptIds.has(candidate.markerId)) {
+        debug.rejectedDuplicateId++;
+        continue;
+      }
+      if (filtered.length >= maxMarkers) {
+        debug.rejectedOverCap++;
+        continue;
+      }
+      keptIds.add(candidate.markerId);
+      filtered.push(candidate);
+    }
+    debug.filteredCount = filtered.length;
+
+    return { detections: filtered, bestId: filtered[0]?.markerId ?? null, debug };
+  }
+}
+
+/**
+ * js-aruco2 code for a parity marker: the 4x4 payload row by row, most significant bit first.
+ * The generator marks dark cells with 1 and js-aruco2 reads white as 1, so bits are inverted.
+ */
+function parityMarkerCode(id: number): number {
+  const payload = Array.from({ length: 4 }, () => [0, 0, 0, 0]);
+  for (let bit = 0; bit < 9; bit++) {
+    payload[Math.floor(bit / 3)][bit % 3] = (id >> (8 - bit)) & 1;
+  }
+  for (let i = 0; i < 3; i++) {
+    payload[i][3] = payload[i][0] ^ payload[i][1] ^ payload[i][2];
+    payload[3][i] = payload[0][i] ^ payload[1][i] ^ payload[2][i];
+    payload[3][3] ^= payload[i][3];
+  }
+
+  let code = 0;
+  for (const row of payload) {
+    for (const cell of row) {
+      code = (code << 1) | (cell ^ 1);
+    }
+  }
+  return code;
+}
+
+/**
+ * Parity markers have no orientation mark (101 turned a quarter reads as 194), and js-aruco2
+ * takes the first rotation that decodes. Like the original region decoder, read the marker
+ * upright in the image: start at the corner whose top edge runs most nearly left to right.
+ */
+function readParityMarkerUpright(marker: ArucoMarker): ArucoMarker {
+  let turns = 0;
+  let bestAlignment = Number.NEGATIVE_INFINITY;
+  for (let k = 0; k < 4; k++) {
+    const from = marker.corners[k];
+    const to = marker.corners[(k + 1) % 4];
+    const alignment = (to.x - from.x) / Math.max(1e-6, dist(from, to));
+    if (alignment > bestAlignment) {
+      bestAlignment = alignment;
+      turns = k;
+    }
+  }
+
+  let code = PARITY_CODES[marker.id];
+  for (let k = 0; k < turns; k++) {
+    code = rotateCodeCounterClockwise(code, 4);
+  }
+  const uprightId = PARITY_IDS_BY_CODE.get(code);
+  if (turns === 0 || uprightId === undefined) {
+    return marker;
+  }
+  return {
+    id: uprightId,
+    corners: [0, 1, 2, 3].map((i) => marker.corners[(i + turns) % 4]),
+    hammingDistance: marker.hammingDistance,
+  };
+}
+
+/** Rotates a row-major, MSB-first square bit grid a quarter turn counterclockwise. */
+function rotateCodeCounterClockwise(code: number, size: number): number {
+  const bitAt = (row: number, column: number): number => (code >> (size * size - 1 - (row * size + column))) & 1;
+  let rotated = 0;
+  for (let row = 0; row < size; row++) {
+    for (let column = 0; column < size; column++) {
+      rotated = (rotated << 1) | bitAt(column, size - 1 - row);
+    }
+  }
+  return rotated;
+}
+
+function dist(a: { x: number; y: number }, b: { x: number; y: number }): number {
+  return Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2);
+}
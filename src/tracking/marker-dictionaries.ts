@@ -0,0 +1,43 @@
+import type { MarkerDictionary } from "../contracts/domain";
+
+/** How a marker dictionary is decoded and which of its IDs are accepted. */
+export interface MarkerDictionarySpec {
+  /** Name the dictionary is registered under in js-aruco2's `AR.DICTIONARIES`. */
+  arucoName: string;
+  /** Codes in the dictionary; IDs run from 0 to `idCount - 1`. */
+  idCount: number;
+  /**
+   * Highest ID accepted unless tuning overrides it. The ArUco dictionaries stop at 249
+   * (the standard `_250` sets), which keeps the pool of lookalike codes small.
+   */
+  defaultMaxValidId: number;
+  /** js-aruco2 accepts codes fewer than this many bits away, so 1 means exact matches only. */
+  maxHammingDistance: number;
+  /** IDs never reported because their code also matches plain shapes. */
+  reservedIds?: readonly number[];
+}
+
+export const MARKER_DICTIONARY_SPECS: Record<MarkerDictionary, MarkerDictionarySpec> = {
+  // 250-code minimum distance is 3 bits, so a bit error could read as another ID.
+  "aruco-4x4-1000": { arucoName: "ARUCO_4X4_1000", idCount: 1000, defaultMaxValidId: 249, maxHammingDistance: 1 },
+  "aruco-5x5-1000": { arucoName: "ARUCO_5X5_1000", idCount: 1000, defaultMaxValidId: 249, maxHammingDistance: 2 },
+  "aruco-6x6-1000": { arucoName: "ARUCO_6X6_1000", idCount: 1000, defaultMaxValidId: 249, maxHammingDistance: 2 },
+  "apriltag-36h11": { arucoName: "APRILTAG_36h11", idCount: 587, defaultMaxValidId: 586, maxHammingDistance: 3 },
+  // The generator's format (docs/tools/parity-marker-generator.html): 3x3 data bits plus parity.
+  // ID 0 is an empty black frame and 511 a solid black square, which any dark patch matches.
+  "parity-4x4-512": {
+    arucoName: "PARITY_4X4_512",
+    idCount: 512,
+    defaultMaxValidId: 511,
+    maxHammingDistance: 2,
+    reservedIds: [0, 511]
+  }
+};
+
+export const MARKER_DICTIONARIES = Object.keys(MARKER_DICTIONARY_SPECS) as MarkerDictionary[];
+
+export const DEFAULT_MARKER_DICTIONARY: MarkerDictionary = "aruco-6x6-1000";
+
+export function isMarkerDictionary(value: unknown): value is MarkerDictionary {
+  return typeof value === "string" && (MARKER_DICTIONARIES as readonly string[]).includes(value);
+}
@@ -0,0 +1,116 @@
+import type { MarkerDictionary, MarkerMountRotation, MarkerRegistryEntry } from "../contracts/domain";
+import { DEFAULT_MARKER_DICTIONARY, isMarkerDictionary } from "./marker-dictionaries";
+
+/** Used for markers that have no registry entry. */
+export const DEFAULT_MARKER_ENTRY: Omit<MarkerRegistryEntry, "markerId"> = {
+  sizeMeters: 0.12,
+  dictionary: DEFAULT_MARKER_DICTIONARY,
+  mountRotationDeg: 0
+};
+
+const MOUNT_ROTATIONS: readonly MarkerMountRotation[] = [0, 90, 180, 270];
+
+export class MarkerRegistryError extends Error {
+  readonly entryIndex: number | null;
+
+  constructor(message: string, entryIndex: number | null) {
+    super(entryIndex === null ? message : `Entry ${entryIndex}: ${message}`);
+    this.name = "MarkerRegistryError";
+    this.entryIndex = entryIndex;
+  }
+}
+
+/**
+ * Physical marker facts keyed by marker ID: printed size, dictionary, node binding and
+ * mounting rotation. Markers without an entry resolve to `DEFAULT_MARKER_ENTRY`.
+ */
+export class MarkerRegistry {
+  private readonly entries = new Map<number, MarkerRegistryEntry>();
+
+  constructor(entries: Iterable<MarkerRegistryEntry> = []) {
+    for (const entry of entries) {
+      this.entries.set(entry.markerId, entry);
+    }
+  }
+
+  /** The registered entry, or the default entry for this ID. */
+  resolve(markerId: number): MarkerRegistryEntry {
+    return this.entries.get(markerId) ?? { markerId, ...DEFAULT_MARKER_ENTRY };
+  }
+
+  has(markerId: number): boolean {
+    return this.entries.has(markerId);
+  }
+
+  set(entry: MarkerRegistryEntry): void {
+    this.entries.set(entry.markerId, entry);
+  }
+
+  remove(markerId: number): void {
+    this.entries.delete(markerId);
+  }
+
+  /** Replaces every entry, e.g. after a JSON import. */
+  replaceAll(entries: Iterable<MarkerRegistryEntry>): void {
+    this.entries.clear();
+    for (const entry of entries) {
+      this.entries.set(entry.markerId, entry);
+    }
+  }
+
+  list(): MarkerRegistryEntry[] {
+    return [...this.entries.values()].sort((a, b) => a.markerId - b.markerId);
+  }
+}
+
+/**
+ * Parses a JSON marker list (`[{ "markerId": 7, "sizeMeters": 0.05, "nodeId": "cpe-12" }]`),
+ * throwing `MarkerRegistryError` on the first bad entry. Omitted fields take the defaults.
+ */
+export function parseMarkerRegistry(input: unknown): MarkerRegistryEntry[] {
+  if (!Array.isArray(input)) {
+    throw new MarkerRegistryError("marker registry must be a JSON array.", null);
+  }
+
+  const ids = new Set<number>();
+  return input.map((raw, index) => {
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+      throw new MarkerRegistryError("must be an object.", index);
+    }
+    const entry = raw as Record<string, unknown>;
+
+    if (typeof entry.markerId !== "number" || !Number.isInteger(entry.markerId) || entry.markerId < 0) {
+      throw new MarkerRegistryError("markerId must be a non-negative integer.", index);
+    }
+    if (ids.has(entry.markerId)) {
+      throw new MarkerRegistryError(`duplicate markerId ${entry.markerId}.`, index);
+    }
+    ids.add(entry.markerId);
+    if (
+      entry.sizeMeters !== undefined &&
+      (typeof entry.sizeMeters !== "number" || !(entry.sizeMeters > 0) || entry.sizeMeters > 5)
+    ) {
+      throw new MarkerRegistryError("sizeMeters must be a number between 0 and 5.", index);
+    }
+    if (entry.dictionary !== undefined && !isMarkerDictionary(entry.dictionary)) {
+      throw new MarkerRegistryError(`unsupported dictionary "${String(entry.dictionary)}".`, index);
+    }
+    if (entry.nodeId !== undefined && (typeof entry.nodeId !== "string" || entry.nodeId.length === 0)) {
+      throw new MarkerRegistryError("nodeId must be a non-empty string.", index);
+    }
+    if (
+      entry.mountRotationDeg !== undefined &&
+      !MOUNT_ROTATIONS.includes(entry.mountRotationDeg as MarkerMountRotation)
+    ) {
+      throw new MarkerRegistryError("mountRotationDeg must be 0, 90, 180 or 270.", index);
+    }
+
+    return {
+      markerId: entry.markerId,
+      sizeMeters: (entry.sizeMeters as number | undefined) ?? DEFAULT_MARKER_ENTRY.sizeMeters,
+      dictionary: (entry.dictionary as MarkerDictionary | undefined) ?? DEFAULT_MARKER_ENTRY.dictionary,
+      nodeId: entry.nodeId as string | undefined,
+      mountRotationDeg: (entry.mountRotationDeg as MarkerMountRotation | undefined) ?? DEFAULT_MARKER_ENTRY.mountRotationDeg
+    };
+  });
+}
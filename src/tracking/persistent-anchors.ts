@@ -0,0 +1,304 @@
+import type { PersistedMarkerAnchor, QuaternionLike, TrackedMarker, Vector3Like } from "../contracts/domain";
+
+const HANDLES_KEY = "infra-xr.xr-anchors";
+/** Same lock as the spawn anchor: a marker must stay confident this long before it is anchored. */
+const LOCK_CONFIDENCE = 0.72;
+const LOCK_MS = 1200;
+/** A locked marker this far from its anchor has been moved, so it is anchored again. */
+const REANCHOR_DISTANCE_METERS = 0.15;
+
+/** A persistent anchor handle saved for one marker. */
+interface StoredAnchorHandle {
+  markerId: number;
+  handle: string;
+  /** ISO-8601 time the handle was saved. */
+  savedAt: string;
+}
+
+interface XrAnchorLike {
+  anchorSpace: unknown;
+  delete(): void;
+  /** Quest Browser; other runtimes keep anchors for the session only. */
+  requestPersistentHandle?(): Promise<string>;
+}
+
+interface XrPoseLike {
+  transform: {
+    position: Vector3Like;
+    orientation: QuaternionLike;
+  };
+}
+
+interface XrSessionAnchorsLike {
+  restorePersistentAnchor?(handle: string): Promise<XrAnchorLike>;
+  deletePersistentAnchor?(handle: string): Promise<void>;
+}
+
+interface XrFrameAnchorsLike {
+  session: XrSessionAnchorsLike;
+  createAnchor?(pose: unknown, space: unknown): Promise<XrAnchorLike> | undefined;
+  trackedAnchors?: { has(anchor: XrAnchorLike): boolean };
+  getPose(space: unknown, baseSpace: unknown): XrPoseLike | null;
+}
+
+type XrRigidTransformCtor = new (position: DOMPointInit, orientation: DOMPointInit) => unknown;
+
+interface MarkerAnchorState {
+  anchor: XrAnchorLike;
+  handle: string | null;
+  restored: boolean;
+  /** Last pose the runtime reported; null until the anchor is located. */
+  pose: { position: Vector3Like; rotation: QuaternionLike } | null;
+}
+
+/**
+ * Anchors locked marker poses with WebXR anchors and persists their handles, so the next
+ * session can place nodes before the markers are scanned again. Handles live in
+ * `localStorage`; when storage is unavailable anchors last for the session only.
+ */
+export class MarkerAnchorPersistence {
+  private handles: StoredAnchorHandle[];
+  private session: XrSessionAnchorsLike | null = null;
+  private readonly anchors = new Map<number, MarkerAnchorState>();
+  private readonly lockStartedAtMs = new Map<number, number>();
+  private readonly creating = new Set<number>();
+
+  constructor() {
+    this.handles = readStoredHandles();
+  }
+
+  /** Markers with a saved handle, restored or not. */
+  get storedCount(): number {
+    return this.handles.length;
+  }
+
+  /**
+   * Call from inside an XR frame with the smoothed markers. Anchors newly locked markers and
+   * returns every located anchor in the frame's reference space, or null when the frame
+   * cannot hold anchors (no session, or the `anchors` feature was not granted).
+   */
+  update(
+    frame: unknown,
+    referenceSpace: unknown,
+    markers: TrackedMarker[],
+    nowMs: number
+  ): PersistedMarkerAnchor[] | null {
+    const xrFrame = frame as XrFrameAnchorsLike | null;
+    if (!xrFrame || typeof xrFrame.createAnchor !== "function" || !referenceSpace) {
+      this.detach();
+      return null;
+    }
+    if (xrFrame.session !== this.session) {
+      // Anchors belong to their session; a new session starts from the saved handles.
+      this.detach();
+      this.session = xrFrame.session;
+      this.restoreStoredAnchors(xrFrame.session);
+    }
+
+    this.anchorLockedMarkers(xrFrame, referenceSpace, markers, nowMs);
+    return this.readAnchorPoses(xrFrame, referenceSpace);
+  }
+
+  /** Deletes every anchor and saved handle, e.g. after the markers were moved for good. */
+  forgetAll(): void {
+    const session = this.session;
+    for (const state of this.anchors.values()) {
+      state.anchor.delete();
+    }
+    for (const stored of this.handles) {
+      void session?.deletePersistentAnchor?.(stored.handle).catch(() => undefined);
+    }
+    this.anchors.clear();
+    this.lockStartedAtMs.clear();
+    this.handles = [];
+    writeStoredHandles(this.handles);
+  }
+
+  private detach(): void {
+    this.session = null;
+    this.anchors.clear();
+    this.lockStartedAtMs.clear();
+    this.creating.clear();
+  }
+
+  private restoreStoredAnchors(session: XrSessionAnchorsLike): void {
+    if (typeof session.restorePersistentAnchor !== "function") {
+      return;
+    }
+    for (const stored of this.handles) {
+      session.restorePersistentAnchor(stored.handle).then(
+        (anchor) => {
+          // Re-anchored while restoring: the fresh anchor wins.
+          if (this.session !== session || this.anchors.has(stored.markerId)) {
+            anchor.delete();
+            return;
+          }
+          this.anchors.set(stored.markerId, { anchor, handle: stored.handle, restored: true, pose: null });
+        },
+        () => {
+          // The runtime no longer knows this anchor (cleared space, other device).
+          this.forgetHandle(stored.handle, null);
+        }
+      );
+    }
+  }
+
+  private anchorLockedMarkers(
+    frame: XrFrameAnchorsLike,
+    referenceSpace: unknown,
+    markers: TrackedMarker[],
+    nowMs: number
+  ): void {
+    const locking = new Set<number>();
+    for (const marker of markers) {
+      if (marker.pose.confidence < LOCK_CONFIDENCE) {
+        continue;
+      }
+      locking.add(marker.markerId);
+      const lockStartedAtMs = this.lockStartedAtMs.get(marker.markerId) ?? nowMs;
+      this.lockStartedAtMs.set(marker.markerId, lockStartedAtMs);
+      if (nowMs - lockStartedAtMs < LOCK_MS || this.creating.has(marker.markerId)) {
+        continue;
+      }
+
+      // Keep an anchor that agrees with the marker, or a fresh one the runtime has not located
+      // yet. A restored anchor that never located is replaced.
+      const existing = this.anchors.get(marker.markerId);
+      const keep = existing?.pose
+        ? distance(existing.pose.position, marker.pose.position) < REANCHOR_DISTANCE_METERS
+        : existing !== undefined && !existing.restored;
+      if (keep) {
+        continue;
+      }
+      this.createAnchor(frame, referenceSpace, marker);
+    }
+
+    for (const markerId of [...this.lockStartedAtMs.keys()]) {
+      if (!locking.has(markerId)) {
+        this.lockStartedAtMs.delete(markerId);
+      }
+    }
+  }
+
+  private createAnchor(frame: XrFrameAnchorsLike, referenceSpace: unknown, marker: TrackedMarker): void {
+    const XrRigidTransform = (globalThis as { XRRigidTransform?: XrRigidTransformCtor }).XRRigidTransform;
+    if (!XrRigidTransform) {
+      return;
+    }
+
+    const { position, rotation } = marker.pose;
+    let pending: Promise<XrAnchorLike> | undefined;
+    try {
+      pending = frame.createAnchor?.(
+        new XrRigidTransform({ x: position.x, y: position.y, z: position.z, w: 1 }, { ...rotation }),
+        referenceSpace
+      );
+    } catch {
+      pending = undefined;
+    }
+    if (!pending) {
+      return;
+    }
+
+    const session = this.session;
+    const markerId = marker.markerId;
+    this.creating.add(markerId);
+    pending
+      .then(async (anchor) => {
+        if (this.session !== session) {
+          anchor.delete();
+          return;
+        }
+        const previous = this.anchors.get(markerId);
+        if (previous) {
+          previous.anchor.delete();
+          if (previous.handle) {
+            this.forgetHandle(previous.handle, session);
+          }
+        }
+        const state: MarkerAnchorState = { anchor, handle: null, restored: false, pose: null };
+        this.anchors.set(markerId, state);
+        if (typeof anchor.requestPersistentHandle === "function") {
+          state.handle = await anchor.requestPersistentHandle();
+          this.rememberHandle(markerId, state.handle);
+        }
+      })
+      .catch(() => {
+        // Declined by the runtime; try again after the marker holds another full lock.
+        this.lockStartedAtMs.delete(markerId);
+      })
+      .finally(() => {
+        this.creating.delete(markerId);
+      });
+  }
+
+  private readAnchorPoses(frame: XrFrameAnchorsLike, referenceSpace: unknown): PersistedMarkerAnchor[] {
+    const located: PersistedMarkerAnchor[] = [];
+    for (const [markerId, state] of this.anchors) {
+      if (frame.trackedAnchors && !frame.trackedAnchors.has(state.anchor)) {
+        continue;
+      }
+      let pose: XrPoseLike | null = null;
+      try {
+        pose = frame.getPose(state.anchor.anchorSpace, referenceSpace);
+      } catch {
+        pose = null;
+      }
+      if (!pose) {
+        continue;
+      }
+
+      const { position, orientation } = pose.transform;
+      state.pose = {
+        position: { x: position.x, y: position.y, z: position.z },
+        rotation: { x: orientation.x, y: orientation.y, z: orientation.z, w: orientation.w }
+      };
+      located.push({ markerId, ...state.pose, restored: state.restored });
+    }
+    return located;
+  }
+
+  private rememberHandle(markerId: number, handle: string): void {
+    this.handles = [
+      ...this.handles.filter((stored) => stored.markerId !== markerId),
+      { markerId, handle, savedAt: new Date().toISOString() }
+    ];
+    writeStoredHandles(this.handles);
+  }
+
+  private forgetHandle(handle: string, session: XrSessionAnchorsLike | null): void {
+    this.handles = this.handles.filter((stored) => stored.handle !== handle);
+    writeStoredHandles(this.handles);
+    void session?.deletePersistentAnchor?.(handle).catch(() => undefined);
+  }
+}
+
+function distance(a: Vector3Like, b: Vector3Like): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+function readStoredHandles(): StoredAnchorHandle[] {
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(HANDLES_KEY) ?? "[]");
+    return Array.isArray(parsed)
+      ? parsed.filter(
+        (entry): entry is StoredAnchorHandle =>
+          typeof entry === "object" &&
+          entry !== null &&
+          Number.isInteger(entry.markerId) &&
+          typeof entry.handle === "string" &&
+          typeof entry.savedAt === "string"
+      )
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeStoredHandles(handles: StoredAnchorHandle[]): void {
+  try {
+    window.localStorage.setItem(HANDLES_KEY, JSON.stringify(handles));
+  } catch {
+    // Storage unavailable; anchors last for this session only.
+  }
+}
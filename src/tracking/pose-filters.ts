@@ -0,0 +1,370 @@
+import type {
+  PoseFilter,
+  PoseFilterEstimate,
+  QuaternionLike,
+  SmootherConfig,
+  Vector3Like,
+} from "./types";
+
+/** Create the configured filter, initialized at the first detection. */
+export function createPoseFilter(
+  config: SmootherConfig,
+  position: Vector3Like,
+  rotation: QuaternionLike,
+  confidence: number,
+  timestampMs: number
+): PoseFilter {
+  switch (config.filter) {
+    case "ema":
+      return new EmaPoseFilter(config, position, rotation, confidence, timestampMs);
+    case "kalman":
+      return new KalmanPoseFilter(config, position, rotation, confidence, timestampMs);
+    default:
+      return new OneEuroPoseFilter(config, position, rotation, confidence, timestampMs);
+  }
+}
+
+/** Fixed-factor lerp/slerp. Cheap, but lags in motion or jitters at rest depending on the factors. */
+class EmaPoseFilter implements PoseFilter {
+  private readonly position: Vector3Like;
+  private readonly rotation: QuaternionLike;
+  private readonly uncertainty: PositionUncertainty;
+
+  constructor(
+    private readonly config: SmootherConfig,
+    position: Vector3Like,
+    rotation: QuaternionLike,
+    confidence: number,
+    timestampMs: number
+  ) {
+    this.position = { ...position };
+    this.rotation = { ...rotation };
+    this.uncertainty = new PositionUncertainty(config, confidence, timestampMs);
+  }
+
+  correct(position: Vector3Like, rotation: QuaternionLike, confidence: number, timestampMs: number): void {
+    lerpVec3(this.position, this.position, position, this.config.positionAlpha);
+    slerpQuat(this.rotation, this.rotation, rotation, this.config.rotationAlpha);
+    this.uncertainty.correct(confidence, timestampMs);
+  }
+
+  estimate(timestampMs: number): PoseFilterEstimate {
+    return {
+      position: { ...this.position },
+      rotation: { ...this.rotation },
+      confidence: confidenceFromVariance(this.config, this.uncertainty.at(timestampMs)),
+    };
+  }
+}
+
+/**
+ * One-Euro filter (Casiez et al., CHI 2012): an EMA whose cutoff frequency rises with
+ * the filtered speed. Position uses the speed of the marker, rotation its angular speed.
+ */
+class OneEuroPoseFilter implements PoseFilter {
+  private readonly position: Vector3Like;
+  private readonly rotation: QuaternionLike;
+  private readonly uncertainty: PositionUncertainty;
+  private speed = 0;
+  private angularSpeed = 0;
+  private lastAtMs: number;
+
+  constructor(
+    private readonly config: SmootherConfig,
+    position: Vector3Like,
+    rotation: QuaternionLike,
+    confidence: number,
+    timestampMs: number
+  ) {
+    this.position = { ...position };
+    this.rotation = { ...rotation };
+    this.uncertainty = new PositionUncertainty(config, confidence, timestampMs);
+    this.lastAtMs = timestampMs;
+  }
+
+  correct(position: Vector3Like, rotation: QuaternionLike, confidence: number, timestampMs: number): void {
+    const dt = Math.max(1e-3, (timestampMs - this.lastAtMs) / 1000);
+    this.lastAtMs = timestampMs;
+    const derivativeAlpha = smoothingAlpha(this.config.derivativeCutoffHz, dt);
+
+    this.speed = lerpScalar(this.speed, distanceVec3(position, this.position) / dt, derivativeAlpha);
+    const positionCutoff = this.config.minCutoffHz + this.config.positionBeta * this.speed;
+    lerpVec3(this.position, this.position, position, smoothingAlpha(positionCutoff, dt));
+
+    this.angularSpeed = lerpScalar(this.angularSpeed, angleBetween(rotation, this.rotation) / dt, derivativeAlpha);
+    const rotationCutoff = this.config.minCutoffHz + this.config.rotationBeta * this.angularSpeed;
+    slerpQuat(this.rotation, this.rotation, rotation, smoothingAlpha(rotationCutoff, dt));
+
+    this.uncertainty.correct(confidence, timestampMs);
+  }
+
+  estimate(timestampMs: number): PoseFilterEstimate {
+    return {
+      position: { ...this.position },
+      rotation: { ...this.rotation },
+      confidence: confidenceFromVariance(this.config, this.uncertainty.at(timestampMs)),
+    };
+  }
+}
+
+/** Value, rate and their 2x2 covariance for one axis of a constant-velocity model. */
+interface KalmanAxis {
+  value: number;
+  rate: number;
+  p00: number;
+  p01: number;
+  p11: number;
+}
+
+/**
+ * Constant-velocity Kalman filter. Position axes are independent; rotation is an
+ * error-state filter on a small-angle rotation vector with a body-frame angular
+ * velocity, folded back into the quaternion after every step.
+ */
+class KalmanPoseFilter implements PoseFilter {
+  private readonly position: KalmanAxis[];
+  private readonly rotationError: KalmanAxis[];
+  private rotation: QuaternionLike;
+  private lastAtMs: number;
+
+  constructor(
+    private readonly config: SmootherConfig,
+    position: Vector3Like,
+    rotation: QuaternionLike,
+    confidence: number,
+    timestampMs: number
+  ) {
+    const positionVariance = measurementVariance(config.measurementNoiseMeters, confidence);
+    const rotationVariance = measurementVariance(config.measurementNoiseRad, confidence);
+    this.position = [position.x, position.y, position.z].map((value) => ({
+      value,
+      rate: 0,
+      p00: positionVariance,
+      p01: 0,
+      p11: 0.25,
+    }));
+    this.rotationError = [0, 1, 2].map(() => ({ value: 0, rate: 0, p00: rotationVariance, p01: 0, p11: 1 }));
+    this.rotation = normalizeQuat(rotation);
+    this.lastAtMs = timestampMs;
+  }
+
+  correct(position: Vector3Like, rotation: QuaternionLike, confidence: number, timestampMs: number): void {
+    const dt = Math.max(0, (timestampMs - this.lastAtMs) / 1000);
+    this.lastAtMs = timestampMs;
+
+    const accelerationVariance = this.config.accelerationNoise ** 2;
+    const positionVariance = measurementVariance(this.config.measurementNoiseMeters, confidence);
+    const measured = [position.x, position.y, position.z];
+    this.position.forEach((axis, i) => {
+      predictAxis(axis, dt, accelerationVariance);
+      correctAxis(axis, measured[i] - axis.value, positionVariance);
+    });
+
+    const angularVariance = this.config.angularAccelerationNoise ** 2;
+    for (const axis of this.rotationError) {
+      predictAxis(axis, dt, angularVariance);
+    }
+    this.foldRotationError();
+    const innovation = quatToRotationVector(multiplyQuat(conjugateQuat(this.rotation), rotation));
+    const rotationVariance = measurementVariance(this.config.measurementNoiseRad, confidence);
+    this.rotationError.forEach((axis, i) => {
+      correctAxis(axis, innovation[i], rotationVariance);
+    });
+    this.foldRotationError();
+  }
+
+  estimate(timestampMs: number): PoseFilterEstimate {
+    // Unseen markers hold their pose rather than coast on velocity; only the uncertainty grows.
+    const dt = Math.max(0, (timestampMs - this.lastAtMs) / 1000);
+    const q = this.config.accelerationNoise ** 2;
+    let variance = 0;
+    for (const axis of this.position) {
+      variance += axis.p00 + dt * (2 * axis.p01 + dt * axis.p11) + (q * dt * dt * dt) / 3;
+    }
+    return {
+      position: { x: this.position[0].value, y: this.position[1].value, z: this.position[2].value },
+      rotation: { ...this.rotation },
+      confidence: confidenceFromVariance(this.config, variance / 3),
+    };
+  }
+
+  private foldRotationError(): void {
+    const [x, y, z] = this.rotationError;
+    this.rotation = normalizeQuat(multiplyQuat(this.rotation, rotationVectorToQuat(x.value, y.value, z.value)));
+    x.value = 0;
+    y.value = 0;
+    z.value = 0;
+  }
+}
+
+function predictAxis(axis: KalmanAxis, dt: number, accelerationVariance: number): void {
+  axis.value += axis.rate * dt;
+  axis.p00 += dt * (2 * axis.p01 + dt * axis.p11) + (accelerationVariance * dt * dt * dt) / 3;
+  axis.p01 += dt * axis.p11 + (accelerationVariance * dt * dt) / 2;
+  axis.p11 += accelerationVariance * dt;
+}
+
+function correctAxis(axis: KalmanAxis, innovation: number, measurementVariance: number): void {
+  const s = axis.p00 + measurementVariance;
+  const k0 = axis.p00 / s;
+  const k1 = axis.p01 / s;
+  axis.value += k0 * innovation;
+  axis.rate += k1 * innovation;
+  const p00 = axis.p00;
+  const p01 = axis.p01;
+  axis.p00 = (1 - k0) * p00;
+  axis.p01 = (1 - k0) * p01;
+  axis.p11 -= k1 * p01;
+}
+
+/**
+ * Scalar position variance for the filters without a motion model: a random walk
+ * that grows while unseen and shrinks with each detection.
+ */
+class PositionUncertainty {
+  private variance: number;
+  private atMs: number;
+
+  constructor(private readonly config: SmootherConfig, confidence: number, timestampMs: number) {
+    this.variance = measurementVariance(config.measurementNoiseMeters, confidence);
+    this.atMs = timestampMs;
+  }
+
+  correct(confidence: number, timestampMs: number): void {
+    const prior = this.at(timestampMs);
+    const measured = measurementVariance(this.config.measurementNoiseMeters, confidence);
+    this.variance = (prior * measured) / (prior + measured);
+    this.atMs = timestampMs;
+  }
+
+  at(timestampMs: number): number {
+    const elapsedSeconds = Math.max(0, (timestampMs - this.atMs) / 1000);
+    return this.variance + this.config.driftMetersPerSecond ** 2 * elapsedSeconds;
+  }
+}
+
+function measurementVariance(noise: number, confidence: number): number {
+  const sigma = noise / Math.max(0.05, confidence);
+  return sigma * sigma;
+}
+
+function confidenceFromVariance(config: SmootherConfig, variance: number): number {
+  const scale = config.confidenceScaleMeters ** 2;
+  return scale / (scale + variance);
+}
+
+/** EMA factor for a first-order low-pass with the given cutoff, sampled every `dt` seconds. */
+function smoothingAlpha(cutoffHz: number, dt: number): number {
+  const tau = 1 / (2 * Math.PI * cutoffHz);
+  return 1 / (1 + tau / dt);
+}
+
+// ---- Vector / quaternion helpers ----
+
+function lerpScalar(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+function lerpVec3(out: Vector3Like, a: Vector3Like, b: Vector3Like, t: number): Vector3Like {
+  out.x = lerpScalar(a.x, b.x, t);
+  out.y = lerpScalar(a.y, b.y, t);
+  out.z = lerpScalar(a.z, b.z, t);
+  return out;
+}
+
+function distanceVec3(a: Vector3Like, b: Vector3Like): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+function dot(a: QuaternionLike, b: QuaternionLike): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z + a.w * b.w;
+}
+
+function normalizeQuat(q: QuaternionLike): QuaternionLike {
+  const len = Math.sqrt(q.x * q.x + q.y * q.y + q.z * q.z + q.w * q.w);
+  if (len < 1e-8) return { x: 0, y: 0, z: 0, w: 1 };
+  return { x: q.x / len, y: q.y / len, z: q.z / len, w: q.w / len };
+}
+
+function conjugateQuat(q: QuaternionLike): QuaternionLike {
+  return { x: -q.x, y: -q.y, z: -q.z, w: q.w };
+}
+
+function multiplyQuat(a: QuaternionLike, b: QuaternionLike): QuaternionLike {
+  return {
+    x: a.w * b.x + a.x * b.w + a.y * b.z - a.z * b.y,
+    y: a.w * b.y - a.x * b.z + a.y * b.w + a.z * b.x,
+    z: a.w * b.z + a.x * b.y - a.y * b.x + a.z * b.w,
+    w: a.w * b.w - a.x * b.x - a.y * b.y - a.z * b.z,
+  };
+}
+
+/** Shortest-path rotation vector (axis * angle) of a unit quaternion. */
+function quatToRotationVector(q: QuaternionLike): [number, number, number] {
+  const sign = q.w < 0 ? -1 : 1;
+  const x = q.x * sign;
+  const y = q.y * sign;
+  const z = q.z * sign;
+  const sinHalf = Math.hypot(x, y, z);
+  if (sinHalf < 1e-9) {
+    return [2 * x, 2 * y, 2 * z];
+  }
+  const scale = (2 * Math.atan2(sinHalf, q.w * sign)) / sinHalf;
+  return [x * scale, y * scale, z * scale];
+}
+
+function rotationVectorToQuat(x: number, y: number, z: number): QuaternionLike {
+  const angle = Math.hypot(x, y, z);
+  if (angle < 1e-9) {
+    return normalizeQuat({ x: x / 2, y: y / 2, z: z / 2, w: 1 });
+  }
+  const s = Math.sin(angle / 2) / angle;
+  return { x: x * s, y: y * s, z: z * s, w: Math.cos(angle / 2) };
+}
+
+/** Angle of the rotation between two unit quaternions, in radians. */
+export function angleBetween(a: QuaternionLike, b: QuaternionLike): number {
+  return 2 * Math.acos(Math.min(1, Math.abs(dot(a, b))));
+}
+
+/**
+ * Simplified slerp — falls back to nlerp for very close quaternions,
+ * which is fine for small inter-frame deltas at high refresh rates.
+ */
+function slerpQuat(
+  out: QuaternionLike,
+  a: QuaternionLike,
+  b: QuaternionLike,
+  t: number
+): QuaternionLike {
+  let bx = b.x, by = b.y, bz = b.z, bw = b.w;
+
+  let cosHalf = dot(a, b);
+  // Take shortest path
+  if (cosHalf < 0) {
+    bx = -bx; by = -by; bz = -bz; bw = -bw;
+    cosHalf = -cosHalf;
+  }
+
+  // For very close quaternions, use nlerp
+  if (cosHalf > 0.9995) {
+    out.x = lerpScalar(a.x, bx, t);
+    out.y = lerpScalar(a.y, by, t);
+    out.z = lerpScalar(a.z, bz, t);
+    out.w = lerpScalar(a.w, bw, t);
+    const n = normalizeQuat(out);
+    out.x = n.x; out.y = n.y; out.z = n.z; out.w = n.w;
+    return out;
+  }
+
+  const halfAngle = Math.acos(cosHalf);
+  const sinHalf = Math.sin(halfAngle);
+  const ratioA = Math.sin((1 - t) * halfAngle) / sinHalf;
+  const ratioB = Math.sin(t * halfAngle) / sinHalf;
+
+  out.x = a.x * ratioA + bx * ratioB;
+  out.y = a.y * ratioA + by * ratioB;
+  out.z = a.z * ratioA + bz * ratioB;
+  out.w = a.w * ratioA + bw * ratioB;
+  return out;
+}
@@ -0,0 +1,281 @@
+/**
+ * Marker pose solving from detected corners, shared by the live detector and the offline
+ * evaluation runner.
+ */
+
+import svdSource from "js-aruco2/src/svd.js?raw";
+import positSource from "js-aruco2/src/posit2.js?raw";
+
+import {
+  solvePlanarPose,
+  undistortPoint,
+  type CameraIntrinsics,
+  type Correspondence
+} from "./camera-calibration";
+import { markerBoardCorners, type MarkerBoard } from "./marker-board";
+
+/** A decoded marker; corners are in pixels in TL, TR, BR, BL order. */
+export interface CornerDetection {
+  markerId: number;
+  corners?: Array<{ x: number; y: number }>;
+}
+
+/** A pose in POSIT's camera convention: +Y up, +Z forward, translation in millimeters. */
+export interface SolvedPose {
+  rotation: number[][];
+  translationMm: [number, number, number];
+  error: number;
+}
+
+const IDENTITY_ROTATION = { x: 0, y: 0, z: 0, w: 1 };
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const positCtx: Record<string, any> = {};
+new Function(svdSource).call(positCtx);
+new Function(positSource).call(positCtx);
+const POS = positCtx.POS as { Posit?: new (modelSize: number, focalLength: number) => {
+  pose: (points: Array<{ x: number; y: number }>) => unknown;
+} } | undefined;
+if (!POS?.Posit) {
+  throw new Error("Failed to initialize POSIT solver");
+}
+const PositCtor = POS.Posit;
+
+/** POSIT solvers keyed by marker size and focal length; both are fixed per solver. */
+const positSolvers = new Map<string, { pose: (points: Array<{ x: number; y: number }>) => unknown }>();
+
+export function solvePoseFromCorners(
+  detection: CornerDetection,
+  captureWidth: number,
+  captureHeight: number,
+  intrinsics: CameraIntrinsics | null,
+  markerSizeMm: number
+): { pose: SolvedPose | null; failureReason: string } {
+  if (!detection.corners || detection.corners.length < 4) {
+    return { pose: null, failureReason: "no-corners" };
+  }
+
+  // Uncalibrated fallback: ~53° horizontal FOV with the principal point at the image center.
+  const focalLengthPx = intrinsics?.fx ?? captureWidth;
+  const principalX = intrinsics?.cx ?? captureWidth * 0.5;
+  const principalY = intrinsics?.cy ?? captureHeight * 0.5;
+  // POSIT takes one focal length, so rescale y to make pixels square.
+  const aspect = intrinsics ? intrinsics.fx / intrinsics.fy : 1;
+  const solverKey = `${markerSizeMm.toFixed(2)}:${focalLengthPx.toFixed(3)}`;
+  let positSolver = positSolvers.get(solverKey);
+  if (!positSolver) {
+    positSolver = new PositCtor(markerSizeMm, focalLengthPx);
+    positSolvers.set(solverKey, positSolver);
+  }
+
+  const centeredCorners = detection.corners.map((raw) => {
+    const corner = intrinsics ? undistortPoint(intrinsics, raw) : raw;
+    return {
+      x: corner.x - principalX,
+      y: (principalY - corner.y) * aspect
+    };
+  });
+
+  try {
+    const pose = positSolver.pose(centeredCorners) as {
+      bestError?: number;
+      bestRotation?: number[][];
+      bestTranslation?: number[];
+      alternativeError?: number;
+      alternativeRotation?: number[][];
+      alternativeTranslation?: number[];
+    };
+
+    const candidates = [
+      toSolvedPoseCandidate(pose?.bestError, pose?.bestRotation, pose?.bestTranslation),
+      toSolvedPoseCandidate(pose?.alternativeError, pose?.alternativeRotation, pose?.alternativeTranslation),
+    ].filter((candidate): candidate is SolvedPose => Boolean(candidate));
+
+    if (candidates.length === 0) {
+      return { pose: null, failureReason: "no-valid-candidate" };
+    }
+
+    candidates.sort((a, b) => a.error - b.error);
+    return { pose: candidates[0], failureReason: "none" };
+  } catch {
+    return { pose: null, failureReason: "exception" };
+  }
+}
+
+/**
+ * One pose from the corners of every visible board marker. Returned in POSIT's camera
+ * convention (+Y up, +Z forward; board +Y up) so it shares the single-marker path.
+ */
+export function solveBoardPoseFromCorners(
+  board: MarkerBoard,
+  members: CornerDetection[],
+  captureWidth: number,
+  captureHeight: number,
+  intrinsics: CameraIntrinsics | null
+): { pose: SolvedPose | null; failureReason: string } {
+  const pairs: Correspondence[] = [];
+  for (const detection of members) {
+    const marker = board.markers.find((candidate) => candidate.markerId === detection.markerId);
+    if (!marker || !detection.corners || detection.corners.length < 4) {
+      continue;
+    }
+    markerBoardCorners(marker).forEach((corner, i) => {
+      // Solve in millimeters with image-style +Y down on the board plane.
+      pairs.push({ board: { x: corner.x * 1000, y: -corner.y * 1000 }, image: detection.corners![i] });
+    });
+  }
+  if (pairs.length < 4) {
+    return { pose: null, failureReason: "no-corners" };
+  }
+
+  const planar = solvePlanarPose(pairs, intrinsics ?? {
+    width: captureWidth,
+    height: captureHeight,
+    fx: captureWidth,
+    fy: captureWidth,
+    cx: captureWidth * 0.5,
+    cy: captureHeight * 0.5,
+    k1: 0,
+    k2: 0
+  });
+  if (!planar) {
+    return { pose: null, failureReason: "no-valid-candidate" };
+  }
+
+  // Flip Y on both the camera and board side: R' = F·R·F, t' = F·t with F = diag(1, -1, 1).
+  const r = planar.rotation;
+  return {
+    pose: {
+      rotation: [
+        [r[0][0], -r[0][1], r[0][2]],
+        [-r[1][0], r[1][1], -r[1][2]],
+        [r[2][0], -r[2][1], r[2][2]]
+      ],
+      translationMm: [planar.translation[0], -planar.translation[1], planar.translation[2]],
+      error: planar.rmsErrorPx
+    },
+    failureReason: "none"
+  };
+}
+
+/** Camera-relative pose in meters, in three.js camera space (+Y up, -Z forward). */
+export function resolveCameraPoseEstimate(
+  pose: SolvedPose
+): {
+  position: { x: number; y: number; z: number };
+  rotation: { x: number; y: number; z: number; w: number };
+} {
+  return {
+    position: {
+      x: pose.translationMm[0] / 1000,
+      y: pose.translationMm[1] / 1000,
+      z: -pose.translationMm[2] / 1000
+    },
+    rotation: quaternionFromPositMatrix(pose.rotation)
+  };
+}
+
+function toSolvedPoseCandidate(
+  error: number | undefined,
+  rotation: number[][] | undefined,
+  translation: number[] | undefined
+): SolvedPose | null {
+  if (
+    typeof error !== "number" ||
+    !Array.isArray(rotation) ||
+    rotation.length !== 3 ||
+    !Array.isArray(translation) ||
+    translation.length !== 3
+  ) {
+    return null;
+  }
+
+  const translationMm = translation as [number, number, number];
+  if (
+    !Number.isFinite(translationMm[0]) ||
+    !Number.isFinite(translationMm[1]) ||
+    !Number.isFinite(translationMm[2]) ||
+    translationMm[2] <= 1
+  ) {
+    return null;
+  }
+
+  return {
+    rotation,
+    translationMm,
+    error
+  };
+}
+
+function quaternionFromPositMatrix(matrix: number[][]): { x: number; y: number; z: number; w: number } {
+  if (
+    matrix.length !== 3 ||
+    matrix.some((row) => !Array.isArray(row) || row.length !== 3)
+  ) {
+    return IDENTITY_ROTATION;
+  }
+
+  // POSIT solves in a +Z-forward camera space. Three.js camera space is +Z-backward,
+  // and our marker frame is authored for Three, so conjugate by Z flip on both sides.
+  const m00 = matrix[0][0];
+  const m01 = matrix[0][1];
+  const m02 = -matrix[0][2];
+  const m10 = matrix[1][0];
+  const m11 = matrix[1][1];
+  const m12 = -matrix[1][2];
+  const m20 = -matrix[2][0];
+  const m21 = -matrix[2][1];
+  const m22 = matrix[2][2];
+
+  const trace = m00 + m11 + m22;
+  if (trace > 0) {
+    const s = Math.sqrt(trace + 1) * 2;
+    return normalizeQuaternion({
+      w: 0.25 * s,
+      x: (m21 - m12) / s,
+      y: (m02 - m20) / s,
+      z: (m10 - m01) / s
+    });
+  }
+  if (m00 > m11 && m00 > m22) {
+    const s = Math.sqrt(1 + m00 - m11 - m22) * 2;
+    return normalizeQuaternion({
+      w: (m21 - m12) / s,
+      x: 0.25 * s,
+      y: (m01 + m10) / s,
+      z: (m02 + m20) / s
+    });
+  }
+  if (m11 > m22) {
+    const s = Math.sqrt(1 + m11 - m00 - m22) * 2;
+    return normalizeQuaternion({
+      w: (m02 - m20) / s,
+      x: (m01 + m10) / s,
+      y: 0.25 * s,
+      z: (m12 + m21) / s
+    });
+  }
+
+  const s = Math.sqrt(1 + m22 - m00 - m11) * 2;
+  return normalizeQuaternion({
+    w: (m10 - m01) / s,
+    x: (m02 + m20) / s,
+    y: (m12 + m21) / s,
+    z: 0.25 * s
+  });
+}
+
+function normalizeQuaternion(q: { x: number; y: number; z: number; w: number }): {
+  x: number; y: number; z: number; w: number;
+} {
+  const length = Math.hypot(q.x, q.y, q.z, q.w);
+  if (length < 1e-6) {
+    return IDENTITY_ROTATION;
+  }
+  return {
+    x: q.x / length,
+    y: q.y / length,
+    z: q.z / length,
+    w: q.w / length
+  };
+}
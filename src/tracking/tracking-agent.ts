@@ -2,7 +2,8 @@ import type { IntegrationContext, TrackingAgent } from "../contracts/integration
 import type { XrFrameTick } from "../contracts/xr";
 import type { MarkerDetector, SmootherConfig } from "./types";
 import { PoseSmoother } from "./pose-smoother";
-import { CameraWorkerMarkerDetector, MockMarkerDetector } from "./detector";
+import { CameraWorkerMarkerDetector, MockMarkerDetector, SwitchableDetector } from "./detector";
+import { MarkerAnchorPersistence } from "./persistent-anchors";
 
 export type TrackingMode = "camera-worker" | "mock";
 
@@ -18,6 +19,11 @@ export interface TrackingAgentOptions {
    * Skipping frames keeps CPU budget low on Quest. Default 50 (≈20 Hz).
    */
   detectionIntervalMs?: number;
+  /**
+   * WebXR anchors for locked markers, restored in later sessions. A default instance is
+   * used when omitted; pass null to disable.
+   */
+  anchorPersistence?: MarkerAnchorPersistence | null;
 }
 
 export function createTrackingAgent(options: TrackingAgentOptions = {}): TrackingAgent {
@@ -26,11 +32,14 @@ export function createTrackingAgent(options: TrackingAgentOptions = {}): Trackin
     (options.mode === "mock" ? new MockMarkerDetector() : new CameraWorkerMarkerDetector());
   const smoother = new PoseSmoother(options.smoother);
   const detectionIntervalMs = options.detectionIntervalMs ?? 50;
+  const anchorPersistence =
+    options.anchorPersistence === undefined ? new MarkerAnchorPersistence() : options.anchorPersistence;
 
   let unsubscribeFrame: (() => void) | null = null;
   let lastDetectionMs = 0;
   let emittedDetectorFailure = false;
   let lastStatusEmitMs = 0;
+  let lastAnchorCount = 0;
 
   const backend = resolveBackend(detector);
 
@@ -76,6 +85,20 @@ export function createTrackingAgent(options: TrackingAgentOptions = {}): Trackin
       markers: smoothedMarkers,
       timestampMs: now,
     });
+
+    if (anchorPersistence) {
+      // Mock poses are not real places; never anchor them.
+      const anchors = anchorPersistence.update(
+        tick.frame,
+        tick.referenceSpace,
+        isMockDetection(detector) ? [] : smoothedMarkers,
+        now
+      ) ?? [];
+      if (anchors.length > 0 || lastAnchorCount > 0) {
+        context.events.emit("tracking/anchors", { anchors, timestampMs: now });
+      }
+      lastAnchorCount = anchors.length;
+    }
   }
 
   return {
@@ -84,6 +107,7 @@ export function createTrackingAgent(options: TrackingAgentOptions = {}): Trackin
       lastDetectionMs = 0;
       emittedDetectorFailure = false;
       lastStatusEmitMs = 0;
+      lastAnchorCount = 0;
 
       emitStatus(context, performance.now());
 
@@ -113,6 +137,13 @@ function resolveBackend(detector: MarkerDetector): "camera-worker" | "mock" | "c
   return "custom";
 }
 
+function isMockDetection(detector: MarkerDetector): boolean {
+  return (
+    detector instanceof MockMarkerDetector ||
+    (detector instanceof SwitchableDetector && detector.getMode() === "mock")
+  );
+}
+
 function resolveDetectorStatus(detector: MarkerDetector): "idle" | "starting" | "ready" | "failed" {
   if (detector instanceof CameraWorkerMarkerDetector) {
     return detector.getStatus();
@@ -1,4 +1,10 @@
-import type { AnchorPose, TrackedMarker, Vector3Like, QuaternionLike } from "../contracts";
+import type {
+  AnchorPose,
+  MarkerRegistryEntry,
+  TrackedMarker,
+  Vector3Like,
+  QuaternionLike
+} from "../contracts";
 
 /** Raw detection output from a single frame before smoothing. */
 export interface RawMarkerDetection {
@@ -7,6 +13,8 @@ export interface RawMarkerDetection {
   pose: AnchorPose;
   /** Physical marker size in meters, if known. */
   sizeMeters?: number;
+  /** Markers whose corners were solved together; above 1 for a marker board. */
+  markerCount?: number;
 }
 
 /** Interface for pluggable marker detection backends. */
@@ -17,31 +25,99 @@ export interface MarkerDetector {
   dispose(): void;
 }
 
+/**
+ * Pose filter strategy:
+ * - "ema": fixed-factor lerp/slerp (the original smoother).
+ * - "one-euro": low-pass whose cutoff rises with speed, so it is steady at rest and lags little in motion.
+ * - "kalman": constant-velocity Kalman filter on position and rotation.
+ */
+export type PoseFilterKind = "ema" | "one-euro" | "kalman";
+
 /** Configuration for the pose smoothing filter. */
 export interface SmootherConfig {
-  /** Lerp factor for position (0 = no smoothing, 1 = no filtering). Default 0.3. */
+  /** Filter strategy. Default "one-euro". */
+  filter: PoseFilterKind;
+  /** EMA: lerp factor for position (0 = no smoothing, 1 = no filtering). Default 0.3. */
   positionAlpha: number;
-  /** Slerp factor for rotation (0 = no smoothing, 1 = no filtering). Default 0.25. */
+  /** EMA: slerp factor for rotation (0 = no smoothing, 1 = no filtering). Default 0.25. */
   rotationAlpha: number;
+  /** One-Euro: cutoff frequency at rest, in Hz. Lower is steadier. Default 0.5. */
+  minCutoffHz: number;
+  /** One-Euro: cutoff increase per m/s of marker speed. Higher lags less. Default 4. */
+  positionBeta: number;
+  /** One-Euro: cutoff increase per rad/s of angular speed. Default 1.5. */
+  rotationBeta: number;
+  /** One-Euro: cutoff for the speed estimate, in Hz. Default 1. */
+  derivativeCutoffHz: number;
+  /** Kalman: acceleration noise (m/s², standard deviation). Default 0.3. */
+  accelerationNoise: number;
+  /** Kalman: angular acceleration noise (rad/s², standard deviation). Default 3. */
+  angularAccelerationNoise: number;
+  /** Position noise of a full-confidence detection, in meters; scaled up as detection confidence drops. */
+  measurementNoiseMeters: number;
+  /** Kalman: rotation noise of a full-confidence detection, in radians. */
+  measurementNoiseRad: number;
+  /** EMA / One-Euro: growth of position uncertainty while a marker is unseen, in m/s. Default 0.1. */
+  driftMetersPerSecond: number;
+  /** Position uncertainty (standard deviation) at which reported confidence falls to 0.5. Default 0.05 m. */
+  confidenceScaleMeters: number;
+  /**
+   * Detections that rotate or move further than this from the current estimate are
+   * rejected as outliers (typically POSIT's mirrored pose).
+   */
+  maxRotationJumpDeg: number;
+  maxPositionJumpMeters: number;
+  /** Consecutive rejected detections after which the filter restarts at the new pose. Default 4. */
+  outlierResetCount: number;
   /** Time in ms after which a marker is considered lost. Default 2000. */
   staleThresholdMs: number;
 }
 
 export const DEFAULT_SMOOTHER_CONFIG: SmootherConfig = {
+  filter: "one-euro",
   positionAlpha: 0.3,
   rotationAlpha: 0.25,
+  minCutoffHz: 0.5,
+  positionBeta: 4,
+  rotationBeta: 1.5,
+  derivativeCutoffHz: 1,
+  accelerationNoise: 0.3,
+  angularAccelerationNoise: 3,
+  measurementNoiseMeters: 0.02,
+  measurementNoiseRad: 0.05,
+  driftMetersPerSecond: 0.1,
+  confidenceScaleMeters: 0.05,
+  maxRotationJumpDeg: 70,
+  maxPositionJumpMeters: 0.6,
+  outlierResetCount: 4,
   staleThresholdMs: 2000,
 };
 
-/** Per-marker smoothing state. */
-export interface MarkerSmoothState {
-  markerId: number;
+/** Filtered pose and covariance-derived confidence at some time. */
+export interface PoseFilterEstimate {
   position: Vector3Like;
   rotation: QuaternionLike;
   confidence: number;
+}
+
+/** One marker's pose filter. Created from the first detection. */
+export interface PoseFilter {
+  /** Fold in a detection taken at `timestampMs` with the detector's confidence. */
+  correct(position: Vector3Like, rotation: QuaternionLike, confidence: number, timestampMs: number): void;
+  /** Current pose; confidence reflects uncertainty grown since the last correction. */
+  estimate(timestampMs: number): PoseFilterEstimate;
+}
+
+/** Per-marker smoothing state. */
+export interface MarkerSmoothState {
+  markerId: number;
+  filter: PoseFilter;
   lastSeenAtMs: number;
   detectionCount: number;
+  /** Consecutive detections rejected as outliers. */
+  rejectedCount: number;
   sizeMeters?: number;
+  markerCount?: number;
 }
 
-export type { TrackedMarker, AnchorPose, Vector3Like, QuaternionLike };
+export type { TrackedMarker, AnchorPose, MarkerRegistryEntry, Vector3Like, QuaternionLike };
@@ -1,13 +1,16 @@
 import { WebGLRenderer } from "three";
 
 import type {
+  CapabilityState,
   XrBoundaryPoint,
   XrCapabilities,
+  XrDetectedSurface,
   XrFrameTick,
   XrReferenceSpaceType,
   XrRuntimeState,
   XrSessionMode,
-  XrSessionStartOptions
+  XrSessionStartOptions,
+  XrSurfacePoint
 } from "../contracts/xr";
 
 interface NavigatorXrLike {
@@ -24,6 +27,8 @@ interface SessionInitLike {
 }
 
 interface SessionLike {
+  /** Features the runtime granted; absent on older browsers. */
+  enabledFeatures?: readonly string[];
   end(): Promise<void>;
   addEventListener(type: string, listener: EventListener): void;
   removeEventListener(type: string, listener: EventListener): void;
@@ -39,6 +44,32 @@ interface ReferenceSpaceLike {
   boundsGeometry?: BoundaryPointLike[];
 }
 
+interface PlaneLike {
+  planeSpace: unknown;
+  /** Outline in plane space; the plane's +Y axis is its normal. */
+  polygon: ReadonlyArray<{ x: number; y: number; z: number }>;
+  lastChangedTime: number;
+  semanticLabel?: string;
+}
+
+interface MeshLike {
+  meshSpace: unknown;
+  vertices: Float32Array;
+  lastChangedTime: number;
+  semanticLabel?: string;
+}
+
+interface FrameSurfacesLike {
+  detectedPlanes?: ReadonlySet<PlaneLike>;
+  detectedMeshes?: ReadonlySet<MeshLike>;
+  getPose(space: unknown, baseSpace: unknown): { transform: { matrix: Float32Array } } | null;
+}
+
+interface CachedSurface {
+  surface: XrDetectedSurface;
+  lastChangedTime: number;
+}
+
 const DEFAULT_REQUIRED_FEATURES = ["local-floor"];
 
 const DEFAULT_OPTIONAL_FEATURES = [
@@ -49,9 +80,14 @@ const DEFAULT_OPTIONAL_FEATURES = [
   "hit-test",
   "dom-overlay",
   "hand-tracking",
-  "camera-access"
+  "camera-access",
+  "plane-detection",
+  "mesh-detection"
 ];
 
+/** Detected planes and meshes change rarely; they are re-read at this interval, not per frame. */
+const SURFACE_REFRESH_INTERVAL_MS = 500;
+
 const DEFAULT_REFERENCE_SPACE_ORDER: XrReferenceSpaceType[] = [
   "bounded-floor",
   "local-floor",
@@ -74,6 +110,11 @@ export class XrRuntime {
   private boundaryPolygon: XrBoundaryPoint[] | null = null;
   private frameTimeMs = 0;
   private capabilitiesCache: XrCapabilities | null = null;
+  private detectedSurfaces: XrDetectedSurface[] = [];
+  private readonly surfaceCache = new Map<object, CachedSurface>();
+  private readonly surfaceIds = new WeakMap<object, string>();
+  private nextSurfaceId = 1;
+  private lastSurfaceRefreshMs = -Infinity;
   private readonly onSessionEndBound: EventListener;
 
   constructor(renderer: WebGLRenderer) {
@@ -104,6 +145,10 @@ export class XrRuntime {
     return this.boundaryPolygon ? this.boundaryPolygon.map((point) => ({ ...point })) : null;
   }
 
+  getDetectedSurfaces(): XrDetectedSurface[] {
+    return this.detectedSurfaces;
+  }
+
   subscribeFrame(handler: (tick: XrFrameTick) => void): () => void {
     this.frameSubscribers.add(handler);
     return () => this.frameSubscribers.delete(handler);
@@ -123,7 +168,9 @@ export class XrRuntime {
         anchors: "unsupported",
         hitTest: "unsupported",
         domOverlay: "unsupported",
-        handTracking: "unsupported"
+        handTracking: "unsupported",
+        planeDetection: "unsupported",
+        meshDetection: "unsupported"
       };
       return this.capabilitiesCache;
     }
@@ -137,10 +184,13 @@ export class XrRuntime {
       webxr: true,
       immersiveAr: supportsAr ? "supported" : "unsupported",
       immersiveVr: supportsVr ? "supported" : "unsupported",
-      anchors: supportsAr ? "unknown" : "unsupported",
+      // Refined from the granted features once a session starts.
+      anchors: supportsAr && "XRAnchor" in window ? "unknown" : "unsupported",
       hitTest: supportsAr ? "unknown" : "unsupported",
       domOverlay: supportsAr ? "unknown" : "unsupported",
-      handTracking: supportsAr || supportsVr ? "unknown" : "unsupported"
+      handTracking: supportsAr || supportsVr ? "unknown" : "unsupported",
+      planeDetection: supportsAr ? "unknown" : "unsupported",
+      meshDetection: supportsAr ? "unknown" : "unsupported"
     };
 
     return this.capabilitiesCache;
@@ -168,6 +218,7 @@ export class XrRuntime {
       session.addEventListener("end", this.onSessionEndBound);
 
       this.session = session;
+      this.refineCapabilities(session);
       const resolved = await this.resolveReferenceSpace(
         session,
         options.referenceSpaceOrder ?? DEFAULT_REFERENCE_SPACE_ORDER
@@ -181,6 +232,10 @@ export class XrRuntime {
       this.renderer.setAnimationLoop((time: number, frame?: unknown) => {
         const deltaMs = this.frameTimeMs === 0 ? 0 : time - this.frameTimeMs;
         this.frameTimeMs = time;
+        if (frame && time - this.lastSurfaceRefreshMs >= SURFACE_REFRESH_INTERVAL_MS) {
+          this.lastSurfaceRefreshMs = time;
+          this.refreshDetectedSurfaces(frame as FrameSurfacesLike);
+        }
 
         const tick: XrFrameTick = {
           time,
@@ -224,10 +279,117 @@ export class XrRuntime {
     this.referenceSpace = null;
     this.referenceSpaceType = null;
     this.boundaryPolygon = null;
+    this.detectedSurfaces = [];
+    this.surfaceCache.clear();
+    this.lastSurfaceRefreshMs = -Infinity;
     this.frameTimeMs = 0;
     this.state = "idle";
   }
 
+  /**
+   * Optional features are only known once the session grants them, so replace the
+   * pre-session probes with the answer. `detectCapabilities()` returns the refined set.
+   */
+  private refineCapabilities(session: SessionLike): void {
+    const enabledFeatures = session.enabledFeatures;
+    if (!this.capabilitiesCache || !Array.isArray(enabledFeatures)) {
+      return;
+    }
+    const granted = (feature: string): CapabilityState =>
+      enabledFeatures.includes(feature) ? "supported" : "unsupported";
+    this.capabilitiesCache = {
+      ...this.capabilitiesCache,
+      anchors: granted("anchors"),
+      hitTest: granted("hit-test"),
+      domOverlay: granted("dom-overlay"),
+      handTracking: granted("hand-tracking"),
+      planeDetection: granted("plane-detection"),
+      meshDetection: granted("mesh-detection")
+    };
+  }
+
+  /**
+   * Converts detected planes and meshes to reference-space outlines and bounds. Surfaces whose
+   * `lastChangedTime` is unchanged are reused, and the array is only replaced when something
+   * was added, removed or changed.
+   */
+  private refreshDetectedSurfaces(frame: FrameSurfacesLike): void {
+    const planes = frame.detectedPlanes;
+    const meshes = frame.detectedMeshes;
+    if (!planes && !meshes && this.surfaceCache.size === 0) {
+      return;
+    }
+
+    const seen = new Set<object>();
+    let changed = false;
+    const visit = (
+      source: PlaneLike | MeshLike,
+      space: unknown,
+      build: (matrix: Float32Array) => XrDetectedSurface
+    ): void => {
+      seen.add(source);
+      const cached = this.surfaceCache.get(source);
+      if (cached && cached.lastChangedTime === source.lastChangedTime) {
+        return;
+      }
+      const pose = safeGetPose(frame, space, this.referenceSpace);
+      if (!pose) {
+        return;
+      }
+      this.surfaceCache.set(source, { surface: build(pose.transform.matrix), lastChangedTime: source.lastChangedTime });
+      changed = true;
+    };
+
+    for (const plane of planes ?? []) {
+      visit(plane, plane.planeSpace, (matrix) => {
+        const polygon = plane.polygon.map((point) => transformPoint(matrix, point.x, point.y, point.z));
+        return {
+          id: this.surfaceIdFor(plane, "plane"),
+          kind: "plane",
+          semanticLabel: plane.semanticLabel ?? null,
+          polygon,
+          normal: normalize({ x: matrix[4], y: matrix[5], z: matrix[6] }),
+          ...boundsOf(polygon)
+        };
+      });
+    }
+    for (const mesh of meshes ?? []) {
+      visit(mesh, mesh.meshSpace, (matrix) => {
+        const vertices: XrSurfacePoint[] = [];
+        for (let i = 0; i + 2 < mesh.vertices.length; i += 3) {
+          vertices.push(transformPoint(matrix, mesh.vertices[i], mesh.vertices[i + 1], mesh.vertices[i + 2]));
+        }
+        return {
+          id: this.surfaceIdFor(mesh, "mesh"),
+          kind: "mesh",
+          semanticLabel: mesh.semanticLabel ?? null,
+          polygon: [],
+          normal: null,
+          ...boundsOf(vertices)
+        };
+      });
+    }
+
+    for (const source of [...this.surfaceCache.keys()]) {
+      if (!seen.has(source)) {
+        this.surfaceCache.delete(source);
+        changed = true;
+      }
+    }
+    if (changed) {
+      this.detectedSurfaces = [...this.surfaceCache.values()].map((cached) => cached.surface);
+    }
+  }
+
+  private surfaceIdFor(source: object, kind: XrDetectedSurface["kind"]): string {
+    let id = this.surfaceIds.get(source);
+    if (!id) {
+      id = `${kind}-${this.nextSurfaceId++}`;
+      this.surfaceIds.set(source, id);
+    }
+    return id;
+  }
+
   private buildSessionInit(options: XrSessionStartOptions): SessionInitLike {
     const requiredFeatures = options.requiredFeatures ?? DEFAULT_REQUIRED_FEATURES;
     const optionalFeatures = options.optionalFeatures ?? DEFAULT_OPTIONAL_FEATURES;
@@ -298,3 +460,43 @@ export class XrRuntime {
     }
   }
 }
+
+function safeGetPose(
+  frame: FrameSurfacesLike,
+  space: unknown,
+  referenceSpace: unknown
+): { transform: { matrix: Float32Array } } | null {
+  try {
+    return frame.getPose(space, referenceSpace);
+  } catch {
+    return null;
+  }
+}
+
+/** Applies a column-major 4x4 rigid transform. */
+function transformPoint(matrix: Float32Array, x: number, y: number, z: number): XrSurfacePoint {
+  return {
+    x: matrix[0] * x + matrix[4] * y + matrix[8] * z + matrix[12],
+    y: matrix[1] * x + matrix[5] * y + matrix[9] * z + matrix[13],
+    z: matrix[2] * x + matrix[6] * y + matrix[10] * z + matrix[14]
+  };
+}
+
+function normalize(vector: XrSurfacePoint): XrSurfacePoint {
+  const length = Math.hypot(vector.x, vector.y, vector.z) || 1;
+  return { x: vector.x / length, y: vector.y / length, z: vector.z / length };
+}
+
+function boundsOf(points: XrSurfacePoint[]): { min: XrSurfacePoint; max: XrSurfacePoint } {
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+  for (const point of points) {
+    min.x = Math.min(min.x, point.x);
+    min.y = Math.min(min.y, point.y);
+    min.z = Math.min(min.z, point.z);
+    max.x = Math.max(max.x, point.x);
+    max.y = Math.max(max.y, point.y);
+    max.z = Math.max(max.z, point.z);
+  }
+  return points.length > 0 ? { min, max } : { min: { x: 0, y: 0, z: 0 }, max: { x: 0, y: 0, z: 0 } };
+}